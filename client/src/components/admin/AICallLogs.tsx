@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { aiCallParseStatuses, aiCallTypes, type AICallLog, type AICallLogPage, type AICallParseStatus, type AICallType } from '@shared/schema';
+
+const PAGE_SIZE = '25';
+
+export const aiCallTypeLabels: Record<AICallType, string> = {
+  'content-filter': 'Content filter',
+  'text-formalization': 'Formalisering',
+  'summary': 'Samenvatting',
+  'news-analysis': 'Nieuwsanalyse',
+  'category-suggestion': 'Categoriesuggestie',
+  'translation': 'Vertaling',
+  'image-moderation': 'Fotocontrole',
+};
+
+const typeColors: Record<AICallType, string> = {
+  'content-filter': 'bg-red-100 text-red-800',
+  'text-formalization': 'bg-blue-100 text-blue-800',
+  'summary': 'bg-green-100 text-green-800',
+  'news-analysis': 'bg-purple-100 text-purple-800',
+  'category-suggestion': 'bg-amber-100 text-amber-800',
+  'translation': 'bg-teal-100 text-teal-800',
+  'image-moderation': 'bg-pink-100 text-pink-800',
+};
+
+const parseStatusLabels: Record<AICallParseStatus, string> = {
+  'parsed': 'JSON gelezen',
+  'unparseable': 'Onleesbaar antwoord',
+  'not-parsed': 'Geen JSON (tekst of geen antwoord)',
+};
+
+const toIsoTimestamp = (value: string, addedDays = 0) => {
+  const date = parseISO(value);
+  return isValid(date) ? addDays(date, addedDays).toISOString() : '';
+};
+
+function AICallLogRow({ log }: { log: AICallLog }) {
+  const [expanded, setExpanded] = useState(false);
+  const type = log.type as AICallType;
+  const tokens = log.inputTokens !== null || log.outputTokens !== null
+    ? `${log.inputTokens ?? 0} in / ${log.outputTokens ?? 0} uit`
+    : null;
+
+  return (
+    <div className="border rounded-lg p-3 text-sm space-y-2" data-testid={`ai-call-log-${log.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`px-2 py-1 rounded text-xs ${typeColors[type] ?? 'bg-muted'}`}>{aiCallTypeLabels[type] ?? log.type}</span>
+          {!log.success && <Badge variant="destructive">{log.parseStatus === 'unparseable' ? 'Onleesbaar antwoord' : 'Mislukt'}</Badge>}
+          <span className="text-xs text-muted-foreground">
+            {log.model ?? log.provider}
+            {log.promptVersion !== null && ` · prompt v${log.promptVersion}`}
+            {` · ${log.latencyMs}ms`}
+            {tokens && ` · ${tokens}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground tabular-nums">{format(new Date(log.createdAt), 'dd/MM/yyyy HH:mm:ss')}</span>
+          <Button variant="ghost" size="sm" className="gap-1" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            Details
+          </Button>
+        </div>
+      </div>
+      {log.reportId && <p className="text-xs text-muted-foreground">Melding {log.reportId}</p>}
+      {log.error && <p className="text-xs text-red-600 bg-red-50 p-1 rounded">{log.error}</p>}
+      {expanded && (
+        <div className="space-y-2">
+          <div>
+            <p className="font-medium text-xs text-muted-foreground">Input:</p>
+            <pre className="text-xs bg-muted/50 p-1 rounded whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+              {JSON.stringify(log.input, null, 2)}
+            </pre>
+          </div>
+          {log.parsedResult !== null && (
+            <div>
+              <p className="font-medium text-xs text-muted-foreground">Parsed Result:</p>
+              <pre className="text-xs bg-green-50 p-1 rounded font-mono whitespace-pre-wrap break-words">
+                {JSON.stringify(log.parsedResult, null, 2)}
+              </pre>
+            </div>
+          )}
+          {log.rawResponse !== null && (
+            <div>
+              <p className="font-medium text-xs text-muted-foreground">Raw AI Response:</p>
+              <pre className="text-xs bg-muted/30 p-1 rounded font-mono whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+                {log.rawResponse}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Every AI call (moderation, summaries, news analysis), filterable and paged newest first
+export default function AICallLogs() {
+  const [type, setType] = useState('all');
+  const [success, setSuccess] = useState('all');
+  const [parseStatus, setParseStatus] = useState('all');
+  const [reportId, setReportId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  // Cursor of every visited page; the last entry is the current page (null = first page)
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const currentCursor = cursors[cursors.length - 1];
+
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCursors([null]);
+  };
+
+  // The "to" date is inclusive in the UI
+  const params = {
+    type,
+    success,
+    parseStatus,
+    reportId: reportId.trim(),
+    from: toIsoTimestamp(fromDate),
+    to: toIsoTimestamp(toDate, 1),
+    limit: PAGE_SIZE,
+    cursor: currentCursor ?? '',
+  };
+
+  const { data: page, isLoading, error } = useQuery<AICallLogPage>({
+    queryKey: ['/api/admin/ai-logs', params],
+    refetchOnMount: true,
+  });
+
+  const logs = page?.logs ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select value={type} onValueChange={withReset(setType)}>
+            <SelectTrigger data-testid="select-ai-log-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Alle types</SelectItem>
+              {aiCallTypes.map(value => (
+                <SelectItem key={value} value={value}>{aiCallTypeLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Resultaat</Label>
+          <Select value={success} onValueChange={withReset(setSuccess)}>
+            <SelectTrigger data-testid="select-ai-log-success">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Alles</SelectItem>
+              <SelectItem value="true">Gelukt</SelectItem>
+              <SelectItem value="false">Mislukt</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Antwoord</Label>
+          <Select value={parseStatus} onValueChange={withReset(setParseStatus)}>
+            <SelectTrigger data-testid="select-ai-log-parse-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Alles</SelectItem>
+              {aiCallParseStatuses.map(value => (
+                <SelectItem key={value} value={value}>{parseStatusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ai-log-report" className="text-xs">Melding ID</Label>
+          <Input id="ai-log-report" value={reportId} onChange={(e) => withReset(setReportId)(e.target.value)} data-testid="input-ai-log-report" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ai-log-from" className="text-xs">Van</Label>
+          <Input id="ai-log-from" type="date" value={fromDate} onChange={(e) => withReset(setFromDate)(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ai-log-to" className="text-xs">Tot en met</Label>
+          <Input id="ai-log-to" type="date" value={toDate} min={fromDate} onChange={(e) => withReset(setToDate)(e.target.value)} />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-500">AI logs konden niet geladen worden: {String(error)}</p>}
+      {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+      {!isLoading && !error && logs.length === 0 && (
+        <p className="text-muted-foreground text-center py-4">Geen AI logs gevonden voor deze filters</p>
+      )}
+      <div className="space-y-2">
+        {logs.map(log => <AICallLogRow key={log.id} log={log} />)}
+      </div>
+
+      {(cursors.length > 1 || page?.nextCursor) && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCursors(prev => prev.length > 1 ? prev.slice(0, -1) : prev)}
+            disabled={cursors.length <= 1 || isLoading}
+            className="gap-1"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Vorige
+          </Button>
+          <span className="text-sm text-muted-foreground">Pagina {cursors.length}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => page?.nextCursor && setCursors(prev => [...prev, page.nextCursor])}
+            disabled={!page?.nextCursor || isLoading}
+            className="gap-1"
+          >
+            Volgende
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { aiCallTypes, type AICallDayStats, type AICallStats as AICallStatsResponse } from '@shared/schema';
+import { aiCallTypeLabels } from './AICallLogs';
+
+const periods = ['7', '30', '90'];
+
+const formatRatio = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+const formatCost = (value: number | null) => value === null ? 'onbekend' : `$${value.toFixed(value < 1 ? 4 : 2)}`;
+const formatNumber = (value: number) => value.toLocaleString('nl-BE');
+
+// One bar per day, scaled to `scale` or else to the highest value
+function DailyBars({ days, value, label, color, testId, scale }: {
+  days: AICallDayStats[];
+  value: (day: AICallDayStats) => number;
+  label: (day: AICallDayStats) => string;
+  color: string;
+  testId: string;
+  scale?: number;
+}) {
+  const max = scale ?? Math.max(...days.map(value), 0);
+  return (
+    <div>
+      <div className="flex items-end gap-px h-24" data-testid={testId}>
+        {days.map(day => (
+          <div
+            key={day.day}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`${format(parseISO(day.day), 'dd/MM')}: ${label(day)}`}
+          >
+            <div className={`w-full rounded-t ${color}`} style={{ height: max > 0 ? `${(value(day) / max) * 100}%` : 0 }} />
+          </div>
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+          <span>{format(parseISO(days[0].day), 'dd/MM')}</span>
+          <span>{format(parseISO(days[days.length - 1].day), 'dd/MM')}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Total({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="border rounded-lg p-2">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-semibold tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+// Failure rate, token usage, latency and estimated cost of the AI calls per day
+export default function AICallStats() {
+  const [days, setDays] = useState('30');
+  const [type, setType] = useState('all');
+
+  const { data: stats, isLoading } = useQuery<AICallStatsResponse>({
+    queryKey: ['/api/admin/ai-logs/stats', { days, type }],
+    refetchOnMount: true,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="sm:w-40" data-testid="select-ai-stats-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map(period => <SelectItem key={period} value={period}>Laatste {period} dagen</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="sm:w-48" data-testid="select-ai-stats-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Alle types</SelectItem>
+            {aiCallTypes.map(value => <SelectItem key={value} value={value}>{aiCallTypeLabels[value]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <Total label="Calls" value={formatNumber(stats.totals.calls)} />
+            <Total label="Mislukt" value={`${formatNumber(stats.totals.failures)} (${formatRatio(stats.totals.failureRate)})`} />
+            <Total label="Tokens in / uit" value={`${formatNumber(stats.totals.inputTokens)} / ${formatNumber(stats.totals.outputTokens)}`} />
+            <Total
+              label="Latency gem. / p95"
+              value={stats.totals.avgLatencyMs === null ? '—' : `${stats.totals.avgLatencyMs} / ${stats.totals.p95LatencyMs}ms`}
+            />
+            <Total label="Geschatte kost" value={formatCost(stats.totals.estimatedCostUsd)} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Faalratio per dag</p>
+              <DailyBars
+                days={stats.days}
+                value={day => day.failureRate ?? 0}
+                label={day => day.calls === 0 ? 'geen calls' : `${formatRatio(day.failureRate)} (${day.failures}/${day.calls})`}
+                color="bg-red-500"
+                scale={1}
+                testId="chart-ai-failure-rate"
+              />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Tokens per dag</p>
+              <DailyBars
+                days={stats.days}
+                value={day => day.inputTokens + day.outputTokens}
+                label={day => `${formatNumber(day.inputTokens)} in / ${formatNumber(day.outputTokens)} uit · ${formatCost(day.estimatedCostUsd)}`}
+                color="bg-blue-500"
+                testId="chart-ai-token-usage"
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
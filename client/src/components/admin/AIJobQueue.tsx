@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { aiJobStatuses, type AIJob, type AIJobList, type AIJobStatus } from '@shared/schema';
+
+const statusLabels: Record<AIJobStatus, string> = {
+  queued: 'In wachtrij',
+  running: 'Bezig',
+  done: 'Klaar',
+  dead: 'Opgegeven',
+};
+
+function AIJobRow({ job, onRetry, disabled }: { job: AIJob; onRetry: () => void; disabled: boolean }) {
+  return (
+    <div className="border rounded-lg p-3 text-sm space-y-1" data-testid={`ai-job-${job.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={job.status === 'dead' ? 'destructive' : 'secondary'}>{statusLabels[job.status as AIJobStatus] ?? job.status}</Badge>
+          <span className="text-xs text-muted-foreground">
+            {job.type} · melding {job.reportId} · {job.attempts} poging(en)
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground tabular-nums">{format(new Date(job.createdAt), 'dd/MM/yyyy HH:mm:ss')}</span>
+          {job.status === 'dead' && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={onRetry} disabled={disabled} data-testid={`button-retry-ai-job-${job.id}`}>
+              <RotateCcw className="h-4 w-4" />
+              Opnieuw proberen
+            </Button>
+          )}
+        </div>
+      </div>
+      {job.lastError && <p className="text-xs text-red-600 break-words">{job.lastError}</p>}
+    </div>
+  );
+}
+
+// Background AI jobs per status. Dead jobs ran out of attempts, their report waits in the
+// moderation queue; once the AI provider works again they can be retried.
+export default function AIJobQueue() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<AIJobStatus>('dead');
+
+  const { data, isLoading } = useQuery<AIJobList>({
+    queryKey: ['/api/admin/ai-jobs', { status }],
+    refetchInterval: 10_000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/admin/ai-jobs/${id}/retry`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-jobs'] });
+      toast({ title: 'Opnieuw ingepland', description: 'De job staat terug in de wachtrij.' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Opnieuw proberen is mislukt.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {aiJobStatuses.map(key => (
+          <Button
+            key={key}
+            variant={status === key ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setStatus(key)}
+            data-testid={`button-ai-jobs-${key}`}
+          >
+            {statusLabels[key]} ({data?.counts[key] ?? 0})
+          </Button>
+        ))}
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+      {!isLoading && jobs.length === 0 && (
+        <p className="text-muted-foreground text-center py-4">Geen jobs</p>
+      )}
+      {jobs.map(job => (
+        <AIJobRow key={job.id} job={job} onRetry={() => retryMutation.mutate(job.id)} disabled={retryMutation.isPending} />
+      ))}
+    </div>
+  );
+}
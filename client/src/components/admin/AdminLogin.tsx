@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Home, Lock } from 'lucide-react';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+
+export default function AdminLogin() {
+  const { loginMutation } = useAdminAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username: username.trim(), password });
+  };
+
+  const errorMessage = loginMutation.error?.message.startsWith('401')
+    ? 'Onjuiste gebruikersnaam of wachtwoord'
+    : 'Inloggen mislukt, probeer het opnieuw';
+
+  return (
+    <div className="min-h-screen admin-container flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Admin Login
+          </CardTitle>
+          <CardDescription>Log in om het Area platform te beheren</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="admin-username">Gebruikersnaam</Label>
+              <Input
+                id="admin-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+                data-testid="input-admin-username"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="admin-password">Wachtwoord</Label>
+              <Input
+                id="admin-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-admin-password"
+              />
+            </div>
+            {loginMutation.isError && (
+              <p className="text-sm text-destructive" data-testid="text-login-error">{errorMessage}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={loginMutation.isPending || !username.trim() || !password}
+              data-testid="button-admin-login"
+            >
+              {loginMutation.isPending ? 'Bezig met inloggen...' : 'Inloggen'}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full gap-2"
+              onClick={() => window.location.href = '/'}
+            >
+              <Home className="h-4 w-4" />
+              Terug naar Dashboard
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
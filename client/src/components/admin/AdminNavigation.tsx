@@ -2,7 +2,8 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { cn } from '@/lib/utils';
-import { Menu, Database, Settings, MapPin, Newspaper, Home, BookOpen, BarChart } from 'lucide-react';
+import { Menu, Database, Settings, MapPin, Newspaper, Home, BookOpen, BarChart, Users, ScrollText, Inbox, Copy } from 'lucide-react';
+import type { AdminRole } from '@shared/schema';
 
 interface NavigationItem {
   id: string;
@@ -10,64 +11,110 @@ interface NavigationItem {
   icon: React.ReactNode;
   path: string;
   description?: string;
+  roles: AdminRole[]; // Roles that can open the page, the server enforces the same
 }
 
+const STAFF: AdminRole[] = ['superadmin', 'moderator'];
+
 const navigationItems: NavigationItem[] = [
   {
     id: 'reports',
     label: 'Reports Overview',
     icon: <Database className="h-5 w-5" />,
     path: '/admin/reports',
-    description: 'Beheer alle ingediende rapporten'
+    description: 'Beheer alle ingediende rapporten',
+    roles: STAFF
+  },
+  {
+    id: 'moderation-queue',
+    label: 'Moderation Queue',
+    icon: <Inbox className="h-5 w-5" />,
+    path: '/admin/moderation-queue',
+    description: 'Meldingen die op een moderator wachten',
+    roles: STAFF
+  },
+  {
+    id: 'duplicates',
+    label: 'Duplicate Reports',
+    icon: <Copy className="h-5 w-5" />,
+    path: '/admin/duplicates',
+    description: 'Dubbele meldingen samenvoegen of loskoppelen',
+    roles: STAFF
   },
   {
     id: 'moderation',
     label: 'AI Moderation',
     icon: <Settings className="h-5 w-5" />,
     path: '/admin/moderation',
-    description: 'AI moderatie configuratie'
+    description: 'AI moderatie configuratie',
+    roles: STAFF
   },
   {
     id: 'municipality-forms',
     label: 'Municipality Forms',
     icon: <MapPin className="h-5 w-5" />,
     path: '/admin/municipality-forms',
-    description: 'Gemeente formulieren beheer'
+    description: 'Gemeente formulieren beheer',
+    roles: STAFF
   },
   {
     id: 'news-reports',
     label: 'News Reports',
     icon: <Newspaper className="h-5 w-5" />,
     path: '/admin/news-reports',
-    description: 'Nieuws scraped rapporten'
+    description: 'Nieuws scraped rapporten',
+    roles: STAFF
   },
   {
     id: 'best-practices',
     label: 'Best Practices',
     icon: <BookOpen className="h-5 w-5" />,
     path: '/admin/best-practices',
-    description: 'Community safety richtlijnen'
+    description: 'Community safety richtlijnen',
+    roles: STAFF
   },
   {
     id: 'city-report',
     label: 'City Report',
     icon: <BarChart className="h-5 w-5" />,
     path: '/admin/city-report',
-    description: 'Gemeente rapporten en statistieken'
+    description: 'Gemeente rapporten en statistieken',
+    roles: ['superadmin', 'moderator', 'municipality_viewer']
+  },
+  {
+    id: 'users',
+    label: 'Gebruikers',
+    icon: <Users className="h-5 w-5" />,
+    path: '/admin/users',
+    description: 'Admin accounts en rollen',
+    roles: ['superadmin']
+  },
+  {
+    id: 'audit-log',
+    label: 'Audit Log',
+    icon: <ScrollText className="h-5 w-5" />,
+    path: '/admin/audit-log',
+    description: 'Wie deed wat en wanneer',
+    roles: ['superadmin']
   }
 ];
 
+function navigationItemsFor(role: AdminRole): NavigationItem[] {
+  return navigationItems.filter(item => item.roles.includes(role));
+}
+
 interface AdminNavigationProps {
+  role: AdminRole;
   currentPath: string;
   onNavigate: (path: string) => void;
 }
 
 // Mobile Shortcuts Grid
-function MobileShortcuts({ currentPath, onNavigate }: AdminNavigationProps) {
+function MobileShortcuts({ role, currentPath, onNavigate }: AdminNavigationProps) {
   return (
     <div className="md:hidden">
       <div className="grid grid-cols-2 gap-2 p-3 md:gap-3 md:p-4">
-        {navigationItems.map((item) => (
+        {navigationItemsFor(role).map((item) => (
           <Button
             key={item.id}
             variant={currentPath === item.path ? "default" : "outline"}
@@ -96,7 +143,7 @@ function MobileShortcuts({ currentPath, onNavigate }: AdminNavigationProps) {
 }
 
 // Desktop Sidebar
-function DesktopSidebar({ currentPath, onNavigate }: AdminNavigationProps) {
+function DesktopSidebar({ role, currentPath, onNavigate }: AdminNavigationProps) {
   return (
     <div className="hidden md:flex flex-col w-64 border-r min-h-screen admin-container">
       <div className="p-6 border-b">
@@ -105,7 +152,7 @@ function DesktopSidebar({ currentPath, onNavigate }: AdminNavigationProps) {
       </div>
       
       <nav className="flex-1 p-4 space-y-2">
-        {navigationItems.map((item) => (
+        {navigationItemsFor(role).map((item) => (
           <Button
             key={item.id}
             variant={currentPath === item.path ? "default" : "ghost"}
@@ -138,7 +185,7 @@ function DesktopSidebar({ currentPath, onNavigate }: AdminNavigationProps) {
 }
 
 // Mobile Menu Button (hamburger)
-function MobileMenuButton() {
+function MobileMenuButton({ role }: { role: AdminRole }) {
   return (
     <div className="md:hidden fixed top-4 left-4 z-50">
       <Sheet>
@@ -153,7 +200,7 @@ function MobileMenuButton() {
             <p className="text-sm text-muted-foreground">Kies een sectie</p>
           </div>
           <nav className="p-4 space-y-2">
-            {navigationItems.map((item) => (
+            {navigationItemsFor(role).map((item) => (
               <Button
                 key={item.id}
                 variant="ghost"
@@ -186,4 +233,4 @@ function MobileMenuButton() {
   );
 }
 
-export { MobileShortcuts, DesktopSidebar, MobileMenuButton, navigationItems };
\ No newline at end of file
+export { MobileShortcuts, DesktopSidebar, MobileMenuButton, navigationItems, navigationItemsFor };
\ No newline at end of file
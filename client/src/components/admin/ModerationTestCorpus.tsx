@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { categories, type InsertModerationTestCase, type ModerationTestCase } from '@shared/schema';
+
+type Expectation = 'expectApproved' | 'expectSpam' | 'expectInappropriate' | 'expectPII';
+
+const expectationLabels: Record<Expectation, string> = {
+  expectApproved: 'Goedkeuren',
+  expectSpam: 'Spam',
+  expectInappropriate: 'Ongepast',
+  expectPII: 'Persoonsgegevens',
+};
+
+const expectations = Object.keys(expectationLabels) as Expectation[];
+
+const emptyCase: InsertModerationTestCase = {
+  title: '',
+  description: '',
+  category: 'suspicious',
+  expectApproved: true,
+  expectSpam: false,
+  expectInappropriate: false,
+  expectPII: false,
+  notes: '',
+};
+
+// The labelled test cases the moderation suite runs
+export default function ModerationTestCorpus() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newCase, setNewCase] = useState(emptyCase);
+
+  const { data: testCases = [], isLoading } = useQuery<ModerationTestCase[]>({
+    queryKey: ['/api/admin/moderation-test-cases'],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Er is een fout opgetreden.",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-test-cases'] });
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertModerationTestCase) => apiRequest('POST', '/api/admin/moderation-test-cases', {
+      ...data,
+      notes: data.notes?.trim() || null,
+    }),
+    onSuccess: () => {
+      refresh();
+      setNewCase(emptyCase);
+      toast({ title: "Success", description: "Testgeval toegevoegd." });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<InsertModerationTestCase> }) =>
+      apiRequest('PUT', `/api/admin/moderation-test-cases/${id}`, data),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/moderation-test-cases/${id}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(newCase);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 gap-3 border rounded-lg p-3">
+        <div className="space-y-1">
+          <Label htmlFor="test-case-title" className="text-xs">Titel</Label>
+          <Input
+            id="test-case-title"
+            value={newCase.title}
+            onChange={(e) => setNewCase(prev => ({ ...prev, title: e.target.value }))}
+            data-testid="input-test-case-title"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Categorie</Label>
+          <Select value={newCase.category} onValueChange={(category) => setNewCase(prev => ({ ...prev, category }))}>
+            <SelectTrigger data-testid="select-test-case-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(categories).map(([key, category]) => (
+                <SelectItem key={key} value={key}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 md:col-span-2">
+          <Label htmlFor="test-case-description" className="text-xs">Beschrijving</Label>
+          <Textarea
+            id="test-case-description"
+            rows={2}
+            value={newCase.description}
+            onChange={(e) => setNewCase(prev => ({ ...prev, description: e.target.value }))}
+            data-testid="input-test-case-description"
+          />
+        </div>
+        <div className="flex flex-wrap gap-4 md:col-span-2">
+          {expectations.map(key => (
+            <label key={key} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={newCase[key]}
+                onCheckedChange={(checked) => setNewCase(prev => ({ ...prev, [key]: checked === true }))}
+              />
+              {expectationLabels[key]}
+            </label>
+          ))}
+        </div>
+        <div className="space-y-1 md:col-span-2">
+          <Label htmlFor="test-case-notes" className="text-xs">Notitie (optioneel)</Label>
+          <Input
+            id="test-case-notes"
+            placeholder="Waarom zit dit geval in de corpus?"
+            value={newCase.notes ?? ''}
+            onChange={(e) => setNewCase(prev => ({ ...prev, notes: e.target.value }))}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <Button
+            type="submit"
+            size="sm"
+            className="gap-1"
+            disabled={!newCase.title.trim() || !newCase.description.trim() || createMutation.isPending}
+            data-testid="button-create-test-case"
+          >
+            <Plus className="h-4 w-4" />
+            Testgeval toevoegen
+          </Button>
+        </div>
+      </form>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {testCases.map(testCase => (
+          <div key={testCase.id} className="border rounded-lg p-3 text-sm space-y-2" data-testid={`test-case-${testCase.id}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium">"{testCase.title}" <span className="text-xs text-muted-foreground">· {testCase.category}</span></p>
+                <p className="text-xs text-muted-foreground">"{testCase.description}"</p>
+                {testCase.notes && <p className="text-xs italic text-muted-foreground mt-1">{testCase.notes}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Testgeval "${testCase.title}" verwijderen?`)) {
+                    deleteMutation.mutate(testCase.id);
+                  }
+                }}
+                data-testid={`button-delete-test-case-${testCase.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {expectations.map(key => (
+                <label key={key} className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={testCase[key]}
+                    disabled={updateMutation.isPending}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: testCase.id, data: { [key]: checked === true } })}
+                  />
+                  {expectationLabels[key]}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CheckCircle, Clock, TestTube, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  moderationTestMetricKeys,
+  type ModerationFlagMetrics,
+  type ModerationPrompt,
+  type ModerationTestMetricKey,
+  type ModerationTestRun,
+} from '@shared/schema';
+
+const metricLabels: Record<ModerationTestMetricKey, string> = {
+  rejection: 'Afwijzing',
+  isSpam: 'Spam',
+  hasInappropriateContent: 'Ongepast',
+  hasPII: 'Persoonsgegevens',
+};
+
+const ACTIVE_PROMPT = 'active';
+
+const formatRatio = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const promptLabel = (run: ModerationTestRun) => run.promptVersion === null ? 'standaard prompt' : `prompt v${run.promptVersion}`;
+
+const runLabel = (run: ModerationTestRun) =>
+  `${format(new Date(run.createdAt), 'dd/MM HH:mm')} · ${promptLabel(run)} · ${run.passedCount}/${run.caseCount}`;
+
+function Delta({ before, after }: { before: number | null; after: number | null }) {
+  if (before === null || after === null || before === after) return null;
+  const better = after > before;
+  return (
+    <span className={better ? 'text-green-600' : 'text-red-600'}>
+      {' '}({better ? '+' : ''}{Math.round((after - before) * 100)})
+    </span>
+  );
+}
+
+function MetricsTable({ run, baseline }: { run: ModerationTestRun; baseline?: ModerationTestRun }) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 font-medium">Vlag</th>
+          <th className="py-1 font-medium">Precision</th>
+          <th className="py-1 font-medium">Recall</th>
+          <th className="py-1 font-medium">TP / FP / FN / TN</th>
+        </tr>
+      </thead>
+      <tbody>
+        {moderationTestMetricKeys.map(key => {
+          const metrics: ModerationFlagMetrics = run.metrics[key];
+          const base = baseline?.metrics[key];
+          return (
+            <tr key={key} className="border-t">
+              <td className="py-1">{metricLabels[key]}</td>
+              <td className="py-1">
+                {formatRatio(metrics.precision)}
+                {base && <Delta before={base.precision} after={metrics.precision} />}
+              </td>
+              <td className="py-1">
+                {formatRatio(metrics.recall)}
+                {base && <Delta before={base.recall} after={metrics.recall} />}
+              </td>
+              <td className="py-1 tabular-nums">
+                {metrics.truePositives} / {metrics.falsePositives} / {metrics.falseNegatives} / {metrics.trueNegatives}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// Runs the moderation regression suite and compares runs, e.g. before and after a prompt change
+export default function ModerationTestRuns() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [promptVersion, setPromptVersion] = useState(ACTIVE_PROMPT);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [baselineRunId, setBaselineRunId] = useState<string | null>(null);
+
+  const { data: runs = [] } = useQuery<ModerationTestRun[]>({
+    queryKey: ['/api/admin/moderation-test-runs'],
+  });
+
+  const { data: promptVersions = [] } = useQuery<ModerationPrompt[]>({
+    queryKey: ['/api/admin/moderation-prompts/content_filter/versions'],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/moderation-test',
+        promptVersion === ACTIVE_PROMPT ? {} : { promptVersion: Number(promptVersion) });
+      return response.json() as Promise<ModerationTestRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-test-runs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-logs/stats'] });
+      // Compare the new run with the previous one
+      setBaselineRunId(runs[0]?.id ?? null);
+      setSelectedRunId(run.id);
+      toast({
+        title: "Test voltooid",
+        description: `${run.passedCount}/${run.caseCount} testgevallen correct beoordeeld.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Test gefaald",
+        description: error.message || "Er is een fout opgetreden tijdens de test.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? runs[0];
+  const baselineRun = runs.find(run => run.id === baselineRunId && run.id !== selectedRun?.id);
+  const baselineResults = new Map(baselineRun?.results.map(result => [result.caseId, result]));
+  const visibleResults = selectedRun?.results.filter(result =>
+    !result.passed || result.flagMismatches.length > 0 || baselineResults.get(result.caseId)?.passed === false
+  ) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-1 flex-1">
+          <Label className="text-xs">Content filter prompt</Label>
+          <Select value={promptVersion} onValueChange={setPromptVersion}>
+            <SelectTrigger data-testid="select-test-prompt-version">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ACTIVE_PROMPT}>Actieve versie</SelectItem>
+              {promptVersions.map(version => (
+                <SelectItem key={version.id} value={String(version.version)}>
+                  Versie {version.version} ({version.author}, {format(new Date(version.createdAt), 'dd/MM/yyyy')})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={() => runMutation.mutate()}
+          disabled={runMutation.isPending}
+          data-testid="button-run-moderation-test"
+          className="gap-2"
+        >
+          {runMutation.isPending ? <Clock className="h-4 w-4 animate-spin" /> : <TestTube className="h-4 w-4" />}
+          {runMutation.isPending ? 'Test loopt...' : 'Test suite uitvoeren'}
+        </Button>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nog geen testruns.</p>
+      ) : selectedRun && (
+        <div className="space-y-4" data-testid="test-results">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Run</Label>
+              <Select value={selectedRun.id} onValueChange={setSelectedRunId}>
+                <SelectTrigger data-testid="select-test-run">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {runs.map(run => <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Vergelijk met</Label>
+              <Select value={baselineRun?.id ?? 'none'} onValueChange={(id) => setBaselineRunId(id === 'none' ? null : id)}>
+                <SelectTrigger data-testid="select-baseline-run">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Niet vergelijken</SelectItem>
+                  {runs.filter(run => run.id !== selectedRun.id).map(run => (
+                    <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className={`p-3 rounded-lg border ${
+            selectedRun.passedCount === selectedRun.caseCount
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-red-50 border-red-200 text-red-800'
+          }`}>
+            <p className="font-medium">
+              {selectedRun.passedCount}/{selectedRun.caseCount} correct beoordeeld
+              {baselineRun && ` (was ${baselineRun.passedCount}/${baselineRun.caseCount} met ${promptLabel(baselineRun)})`}
+            </p>
+            <p className="text-sm opacity-80">
+              {promptLabel(selectedRun)} · {selectedRun.provider} · gestart door {selectedRun.startedBy} · {selectedRun.durationMs}ms
+            </p>
+          </div>
+
+          <MetricsTable run={selectedRun} baseline={baselineRun} />
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">
+              {baselineRun ? 'Afwijkingen en verschillen met de vergeleken run' : 'Afwijkingen'}
+            </h4>
+            {visibleResults.length === 0 && (
+              <p className="text-xs text-muted-foreground">Alle testgevallen beoordeeld zoals verwacht.</p>
+            )}
+            {visibleResults.map(result => {
+              const baseline = baselineResults.get(result.caseId);
+              return (
+                <div key={result.caseId} className="border rounded-lg p-3 text-xs space-y-1">
+                  <div className="flex items-center gap-2">
+                    {result.passed ? <CheckCircle className="h-4 w-4 text-green-600" /> : <XCircle className="h-4 w-4 text-red-600" />}
+                    <span className="font-medium">"{result.title}"</span>
+                    {baseline && baseline.passed !== result.passed && (
+                      <span className={result.passed ? 'text-green-600' : 'text-red-600'}>
+                        {result.passed ? 'opgelost t.o.v. vergeleken run' : 'nieuwe fout t.o.v. vergeleken run'}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground">"{result.description}"</p>
+                  <p>
+                    Verwacht: {result.expected.isApproved ? 'goedkeuren' : 'afwijzen'} · Resultaat: {result.actual.isApproved ? 'goedgekeurd' : 'afgewezen'}
+                    {result.reason && ` (${result.reason})`}
+                  </p>
+                  {result.flagMismatches.length > 0 && (
+                    <p className="text-orange-700">
+                      Afwijkende vlaggen: {result.flagMismatches.map(key => metricLabels[key]).join(', ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
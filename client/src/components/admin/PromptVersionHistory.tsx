@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+import { diffLines } from '@/lib/textDiff';
+import { useToast } from '@/hooks/use-toast';
+import type { ModerationPrompt, ModerationPromptKind } from '@shared/schema';
+
+interface PromptVersionHistoryProps {
+  kind: ModerationPromptKind;
+  activeContent: string;
+}
+
+const diffLineClass = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100',
+  removed: 'bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-100',
+};
+
+const diffLinePrefix = { same: '  ', added: '+ ', removed: '- ' };
+
+// Saved versions of one moderation prompt, with a diff against the active version and rollback
+export default function PromptVersionHistory({ kind, activeContent }: PromptVersionHistoryProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [comparedVersion, setComparedVersion] = useState<number | null>(null);
+
+  const versionsKey = `/api/admin/moderation-prompts/${kind}/versions`;
+  const { data: versions = [], isLoading } = useQuery<ModerationPrompt[]>({
+    queryKey: [versionsKey],
+    enabled: isOpen,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => apiRequest('POST', `${versionsKey}/${version}/rollback`),
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-prompts'] });
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      setComparedVersion(null);
+      toast({ title: "Teruggezet", description: `Versie ${version} is opnieuw actief als nieuwe versie.` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Terugzetten is mislukt.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeVersion = versions[0]?.version;
+  const compared = versions.find(version => version.version === comparedVersion);
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" className="gap-1" onClick={() => setIsOpen(true)} data-testid={`button-prompt-history-${kind}`}>
+        <History className="h-4 w-4" />
+        Versiegeschiedenis
+      </Button>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Versiegeschiedenis
+        </h4>
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>Sluiten</Button>
+      </div>
+
+      {isLoading && <p className="text-xs text-muted-foreground">Laden...</p>}
+      {!isLoading && versions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Nog geen opgeslagen versies, de standaard instructies uit server/prompts/ zijn actief.</p>
+      )}
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {versions.map(version => (
+          <div
+            key={version.id}
+            className={`flex flex-wrap items-center justify-between gap-2 rounded px-2 py-1 text-xs ${version.version === comparedVersion ? 'bg-muted' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-medium">v{version.version}</span>
+              <span className="text-muted-foreground">
+                {version.author} · {format(new Date(version.createdAt), 'dd/MM/yyyy HH:mm')}
+              </span>
+              {version.restoredFromVersion && <span className="text-muted-foreground">(teruggezet van v{version.restoredFromVersion})</span>}
+              {version.version === activeVersion && <Badge variant="secondary">Actief</Badge>}
+            </div>
+            {version.version !== activeVersion && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => setComparedVersion(version.version === comparedVersion ? null : version.version)}
+                data-testid={`button-compare-prompt-${kind}-${version.version}`}
+              >
+                {version.version === comparedVersion ? 'Verberg verschil' : 'Vergelijk'}
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {compared && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Wijzigingen ten opzichte van de actieve versie bij terugzetten naar v{compared.version}:
+          </p>
+          <pre className="text-xs font-mono bg-muted/30 rounded p-2 max-h-64 overflow-auto whitespace-pre-wrap">
+            {diffLines(activeContent, compared.content).map((line, index) => (
+              <div key={index} className={diffLineClass[line.type]}>
+                {diffLinePrefix[line.type]}{line.text}
+              </div>
+            ))}
+          </pre>
+          <Button
+            size="sm"
+            className="gap-1"
+            disabled={rollbackMutation.isPending}
+            onClick={() => {
+              if (confirm(`Versie ${compared.version} opnieuw actief maken?`)) {
+                rollbackMutation.mutate(compared.version);
+              }
+            }}
+            data-testid={`button-rollback-prompt-${kind}`}
+          >
+            <RotateCcw className="h-4 w-4" />
+            {rollbackMutation.isPending ? 'Terugzetten...' : `Terugzetten naar v${compared.version}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { ReactNode } from 'react';
+import type { PIIRedaction, PIIType } from '@shared/schema';
+
+export const piiTypeLabels: Record<PIIType, string> = {
+  name: 'Naam',
+  phone: 'Telefoonnummer',
+  email: 'E-mailadres',
+  license_plate: 'Nummerplaat',
+  national_number: 'Rijksregisternummer',
+  iban: 'Rekeningnummer',
+};
+
+// The reporter's original text with the spans the redaction pass masked highlighted
+export function RedactedText({ text, redactions, field }: {
+  text: string;
+  redactions: PIIRedaction[];
+  field: PIIRedaction['field'];
+}) {
+  const spans = redactions
+    .filter(span => span.field === field && span.end <= text.length)
+    .sort((a, b) => a.start - b.start);
+  if (spans.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const span of spans) {
+    parts.push(text.slice(position, span.start));
+    parts.push(
+      <mark
+        key={span.start}
+        className="bg-yellow-200/70 dark:bg-yellow-900/50 rounded px-0.5"
+        title={`Gemaskeerd: ${piiTypeLabels[span.type]}`}
+      >
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+// e.g. "Gemaskeerd: 2× Telefoonnummer, Naam"
+export function RedactionSummary({ redactions }: { redactions: PIIRedaction[] }) {
+  if (redactions.length === 0) return null;
+  const counts = new Map<PIIType, number>();
+  redactions.forEach(span => counts.set(span.type, (counts.get(span.type) ?? 0) + 1));
+  return (
+    <p className="text-xs text-muted-foreground" data-testid="text-pii-redactions">
+      Gemaskeerd: {Array.from(counts, ([type, count]) => `${count > 1 ? `${count}× ` : ''}${piiTypeLabels[type]}`).join(', ')}
+    </p>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ImageSafetyFlag, MediaStatus, ReportMedia, ReportMediaReview as ReportMediaReviewRequest } from '@shared/schema';
+
+export const mediaStatusLabels: Record<MediaStatus, { label: string; variant: 'secondary' | 'default' | 'destructive' | 'outline' }> = {
+  processing: { label: 'Wordt gecontroleerd', variant: 'secondary' },
+  approved: { label: 'Gepubliceerd', variant: 'default' },
+  flagged: { label: 'Gemarkeerd', variant: 'destructive' },
+  rejected: { label: 'Afgekeurd', variant: 'outline' },
+};
+
+const flagLabels: Record<ImageSafetyFlag, string> = {
+  sexual: 'Seksueel',
+  violence: 'Geweld',
+  gore: 'Bloederig',
+  hate: 'Haat',
+  other: 'Andere',
+};
+
+// One photo or clip with the outcome of its check. Flagged items are shown from the private upload
+// (photos unblurred) so a moderator can judge them; approving publishes them, photos blurred.
+function ReportMediaItemReview({ item }: { item: ReportMedia }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const reviewMutation = useMutation({
+    mutationFn: (decision: ReportMediaReviewRequest['decision']) =>
+      apiRequest('POST', `/api/admin/report-media/${item.id}/review`, { decision }),
+    onSuccess: (_response, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+      toast({
+        title: decision === 'approve' ? 'Gepubliceerd' : 'Afgekeurd',
+        description: decision === 'approve'
+          ? item.kind === 'video'
+            ? 'De video staat online.'
+            : 'De foto staat online met gezichten en nummerplaten vervaagd.'
+          : 'Niet langer publiek zichtbaar.',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Beoordeling opslaan is mislukt.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const status = item.status as MediaStatus;
+  const moderation = item.moderation;
+  const faces = moderation?.regions.filter(region => region.kind === 'face').length ?? 0;
+  const plates = moderation?.regions.filter(region => region.kind === 'license_plate').length ?? 0;
+  // Photos from before object storage have no private copy
+  const original = item.objectKey ? `/api/admin/report-media/${item.id}/original` : item.url;
+  const src = status === 'approved' && item.url ? item.thumbnailUrl ?? item.url : original;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3 bg-muted/50 rounded p-2" data-testid={`report-media-review-${item.id}`}>
+      {src && (
+        <a href={item.kind === 'video' ? original ?? src : src} target="_blank" rel="noreferrer" className="flex-shrink-0">
+          {item.kind === 'video'
+            ? <video src={src} muted preload="metadata" className="h-24 w-24 rounded border object-cover bg-black" />
+            : <img src={src} alt="" className="h-24 w-24 rounded border object-cover" />}
+        </a>
+      )}
+      <div className="space-y-1 text-xs min-w-0">
+        <div className="flex flex-wrap items-center gap-1">
+          <Badge variant="outline">{item.kind === 'video' ? 'Video' : 'Foto'} {item.position + 1}</Badge>
+          {mediaStatusLabels[status] && <Badge variant={mediaStatusLabels[status].variant}>{mediaStatusLabels[status].label}</Badge>}
+          {moderation?.flags.map(flag => (
+            <Badge key={flag} variant="outline">{flagLabels[flag] ?? flag}</Badge>
+          ))}
+        </div>
+        {item.caption && <p className="break-words">{item.caption}</p>}
+        {moderation?.reason && <p className="text-muted-foreground break-words">{moderation.reason}</p>}
+        {moderation && item.kind === 'image' && (
+          <p className="text-muted-foreground">{faces} gezicht(en) en {plates} nummerpla(a)t(en) vervaagd</p>
+        )}
+        {status !== 'processing' && (
+          <div className="flex gap-2 pt-1">
+            {status !== 'approved' && (item.objectKey || item.url) && (
+              <Button size="sm" variant="outline" className="h-7 gap-1 text-xs" onClick={() => reviewMutation.mutate('approve')} disabled={reviewMutation.isPending} data-testid={`button-approve-media-${item.id}`}>
+                <Check className="h-3 w-3" />
+                Publiceren
+              </Button>
+            )}
+            {status !== 'rejected' && (
+              <Button size="sm" variant="outline" className="h-7 gap-1 text-xs text-destructive" onClick={() => reviewMutation.mutate('reject')} disabled={reviewMutation.isPending} data-testid={`button-reject-media-${item.id}`}>
+                <X className="h-3 w-3" />
+                Afkeuren
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Photos and clips of a report, in carousel order
+export default function ReportMediaReview({ media }: { media: ReportMedia[] }) {
+  if (media.length === 0) {
+    return null;
+  }
+  return (
+    <div className="space-y-2">
+      {media.map(item => <ReportMediaItemReview key={item.id} item={item} />)}
+    </div>
+  );
+}
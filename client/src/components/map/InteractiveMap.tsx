@@ -3,12 +3,14 @@ import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 // @ts-ignore - leaflet.heat doesn't have types
 import "leaflet.heat";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { categories } from "@/lib/categories";
+import { severityHeatWeight, severityPinSize } from "@/lib/severity";
 import { Report } from "@shared/schema";
 import { Navigation, MapPin, Grid3X3, Filter } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useGeolocation } from "@/hooks/use-geolocation";
+import { boundsToQueryParams, type MapBounds } from "@/lib/mapBounds";
 
 // Fix Leaflet default markers
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -53,7 +55,7 @@ interface InteractiveMapProps {
   // Callback for map interactions (zoom, pan, etc)
   onMapInteraction?: () => void;
   // Callback for map view changes (bounds and zoom)
-  onViewChange?: (bounds: {north: number, south: number, east: number, west: number}, zoom: number) => void;
+  onViewChange?: (bounds: MapBounds, zoom: number) => void;
 }
 
 
@@ -80,12 +82,16 @@ export default function InteractiveMap({
   const heatDataRef = useRef<[number, number, number][]>([]);
   const [hasManuallyMoved, setHasManuallyMoved] = useState(false);
   const [currentUserLocation, setCurrentUserLocation] = useState<{lat: number, lng: number} | null>(null);
+  const [viewBounds, setViewBounds] = useState<MapBounds | null>(null);
 
   // Geolocation hook for automatic centering
   const { getCurrentLocation } = useGeolocation();
 
+  // Only fetch reports inside the current viewport; keep showing the previous pins while panning
   const { data: reports = [] } = useQuery<Report[]>({
-    queryKey: ["/api/reports", { category: activeCategory }],
+    queryKey: ["/api/reports", { category: activeCategory, ...boundsToQueryParams(viewBounds) }],
+    enabled: !!viewBounds,
+    placeholderData: keepPreviousData,
   });
 
   // Function to update heatmap with current zoom level parameters
@@ -179,24 +185,24 @@ export default function InteractiveMap({
       setHasManuallyMoved(true);
     });
 
-    // Track view changes (bounds and zoom) for Near Me functionality  
-    if (onViewChange) {
-      const handleViewChange = () => {
-        const bounds = map.getBounds();
-        const zoom = map.getZoom();
-        onViewChange({
-          north: bounds.getNorth(),
-          south: bounds.getSouth(),
-          east: bounds.getEast(),
-          west: bounds.getWest()
-        }, zoom);
+    // Track view changes (bounds and zoom) for viewport fetching and Near Me functionality
+    const handleViewChange = () => {
+      const bounds = map.getBounds();
+      const zoom = map.getZoom();
+      const currentBounds = {
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest()
       };
-      
-      map.on('zoomend moveend', handleViewChange);
-      
-      // Initial view change call
-      setTimeout(handleViewChange, 100);
-    }
+      setViewBounds(currentBounds);
+      onViewChange?.(currentBounds, zoom);
+    };
+
+    map.on('zoomend moveend', handleViewChange);
+
+    // Initial view change call
+    setTimeout(handleViewChange, 100);
 
     return () => {
       if (leafletMapRef.current) {
@@ -454,9 +460,12 @@ export default function InteractiveMap({
       heatmapRef.current = null;
     }
 
-    // Filter reports based on active category, selected subcategories, and valid coordinates
+    // Filter reports based on active category, selected subcategories, and valid coordinates.
+    // Duplicates of a report that is already shown are skipped so an incident gets one pin and heat spot.
+    const reportIds = new Set(reports.map(report => report.id));
     const filteredReports = reports.filter(report => {
       if (!report.latitude || !report.longitude) return false;
+      if (report.duplicateOf && reportIds.has(report.duplicateOf)) return false;
       
       // If subcategories are selected, filter by those
       if (selectedSubcategories.length > 0) {
@@ -474,8 +483,8 @@ export default function InteractiveMap({
       filteredReports.forEach(report => {
         if (!report.latitude || !report.longitude) return;
         
-        // Count nearby reports within 300m radius
-        let nearbyCount = 0;
+        // Count nearby reports within 300m radius, weighted by severity
+        let nearbyWeight = 0;
         const searchRadius = 0.003; // ~300m
         
         filteredReports.forEach(other => {
@@ -485,21 +494,12 @@ export default function InteractiveMap({
           const distLng = Math.abs(report.longitude! - other.longitude);
           
           if (distLat <= searchRadius && distLng <= searchRadius) {
-            nearbyCount++;
+            nearbyWeight += severityHeatWeight(other.severity);
           }
         });
         
-        // Convert count to intensity (0-1 range) with more aggressive scaling
-        let intensity: number;
-        if (nearbyCount === 1) {
-          intensity = 0.5;  // Higher base intensity for single reports
-        } else if (nearbyCount === 2) {
-          intensity = 0.75;  // Medium-high intensity
-        } else if (nearbyCount === 3) {
-          intensity = 0.9;  // High intensity
-        } else {
-          intensity = 1.0;  // Maximum intensity
-        }
+        // Convert weight to intensity (0-1 range): one average report gives 0.5, three or more the maximum
+        const intensity = Math.min(1, 0.25 + 0.25 * nearbyWeight);
         
         heatData.push([report.latitude, report.longitude, intensity]);
       });
@@ -518,14 +518,17 @@ export default function InteractiveMap({
 
         const categoryInfo = categories[report.category as keyof typeof categories];
         const color = categoryInfo?.color || '#6b7280';
+        // More serious reports get a larger pin
+        const size = severityPinSize(report.severity);
+        const dotSize = Math.round(size / 3);
 
         // Create custom colored marker with modern Google Maps-like styling
         const customIcon = L.divIcon({
           className: 'custom-marker',
           html: `
             <div style="
-              width: 24px; 
-              height: 24px; 
+              width: ${size}px; 
+              height: ${size}px; 
               background-color: ${color}; 
               border: 2px solid white; 
               border-radius: 50%; 
@@ -537,15 +540,15 @@ export default function InteractiveMap({
               transition: all 0.2s ease;
             ">
               <div style="
-                width: 8px; 
-                height: 8px; 
+                width: ${dotSize}px; 
+                height: ${dotSize}px; 
                 background-color: white; 
                 border-radius: 50%;
               "></div>
             </div>
           `,
-          iconSize: [24, 24],
-          iconAnchor: [12, 12]
+          iconSize: [size, size],
+          iconAnchor: [size / 2, size / 2]
         });
 
         const marker = L.marker([report.latitude, report.longitude], {
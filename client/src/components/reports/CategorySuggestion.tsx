@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useDebounce } from "@/hooks/use-debounce";
+import { categories } from "@/lib/categories";
+import type { CategorySuggestion, CategorySuggestionResponse } from "@shared/schema";
+
+// Matches the server's minimum, shorter drafts are not worth classifying
+const MIN_DRAFT_LENGTH = 10;
+const DEBOUNCE_MS = 800;
+
+// Top category suggestion for the draft title and description, undefined until there is one.
+// Each distinct draft is classified once.
+export function useCategorySuggestion(title: string, description: string): CategorySuggestion | undefined {
+  const draft = {
+    title: useDebounce(title.trim(), DEBOUNCE_MS),
+    description: useDebounce(description.trim(), DEBOUNCE_MS),
+  };
+  const { data } = useQuery<CategorySuggestionResponse>({
+    queryKey: ['/api/reports/category-suggestions', draft.title, draft.description],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/reports/category-suggestions', draft);
+      return response.json();
+    },
+    enabled: (draft.title + draft.description).length >= MIN_DRAFT_LENGTH,
+    staleTime: Infinity,
+    retry: false,
+  });
+  return data?.suggestions[0];
+}
+
+// Hint under the description; hidden once the suggested category is picked
+export function CategorySuggestionHint({ suggestion, category, subcategory, onAccept }: {
+  suggestion: CategorySuggestion | undefined;
+  category: string;
+  subcategory: string | undefined;
+  onAccept: (suggestion: CategorySuggestion) => void;
+}) {
+  if (!suggestion) return null;
+  const accepted = suggestion.category === category && (!suggestion.subcategory || suggestion.subcategory === subcategory);
+  if (accepted) return null;
+
+  const { name, color } = categories[suggestion.category];
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-border bg-muted/40 p-3" data-testid="category-suggestion">
+      <Sparkles className="h-4 w-4 flex-shrink-0 text-primary" />
+      <div className="flex-1 min-w-0 text-sm">
+        <div className="text-muted-foreground">Voorgestelde categorie</div>
+        <div className="flex items-center gap-2 font-medium">
+          <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+          <span className="truncate">{name}{suggestion.subcategory && ` · ${suggestion.subcategory}`}</span>
+        </div>
+      </div>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => onAccept(suggestion)}
+        data-testid="button-accept-category-suggestion"
+      >
+        Gebruiken
+      </Button>
+    </div>
+  );
+}
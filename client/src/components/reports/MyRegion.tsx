@@ -147,7 +147,7 @@ export default function MyRegion({ onReportClick }: MyRegionProps) {
         <div className="h-32 bg-gray-100 relative">
           {report.imageUrl ? (
             <img
-              src={report.imageUrl}
+              src={report.thumbnailUrl ?? report.imageUrl}
               alt={report.title}
               className="w-full h-full object-cover"
               loading="lazy"
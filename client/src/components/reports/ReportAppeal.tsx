@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { ReportAppealOutcome } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { editTokenHeaders, getAppealedReportIds, getReportEditToken, saveAppealedReportId } from "@/lib/reportTokens";
+import { useToast } from "@/hooks/use-toast";
+import { Scale } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+// A report rejected by moderation, see waitForModeration
+export interface RejectedReport {
+  reportId: string;
+  editToken: string;
+  reason: string;
+}
+
+const appealStatusLabels: Record<ReportAppealOutcome["status"], { label: string; variant: "secondary" | "default" | "destructive" }> = {
+  pending: { label: "In behandeling", variant: "secondary" },
+  accepted: { label: "Toegekend", variant: "default" },
+  denied: { label: "Afgewezen", variant: "destructive" },
+};
+
+interface ReportAppealDialogProps {
+  rejection: RejectedReport | null;
+  onClose: () => void;
+}
+
+// Shown after a rejected submission: the reason, and a form to appeal it
+export function ReportAppealDialog({ rejection, onClose }: ReportAppealDialogProps) {
+  const { toast } = useToast();
+  const [explanation, setExplanation] = useState("");
+
+  const appealMutation = useMutation({
+    mutationFn: async ({ reportId, editToken }: RejectedReport) => {
+      const response = await apiRequest('POST', `/api/reports/${reportId}/appeal`, { explanation }, editTokenHeaders(editToken));
+      return response.json() as Promise<ReportAppealOutcome>;
+    },
+    onSuccess: (appeal) => {
+      saveAppealedReportId(appeal.reportId);
+      toast({
+        title: "Bezwaar ingediend",
+        description: "Een moderator bekijkt je melding opnieuw. Je vindt de uitkomst onder 'Mijn bezwaren' in het menu.",
+      });
+      setExplanation("");
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Bezwaar indienen mislukt",
+        description: "Probeer het later opnieuw.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!rejection} onOpenChange={onClose}>
+      <DialogContent className="w-[95vw] max-w-md">
+        <DialogHeader>
+          <DialogTitle>Melding niet geaccepteerd</DialogTitle>
+          <DialogDescription>
+            Je melding voldoet niet aan onze richtlijnen en is niet gepubliceerd.
+          </DialogDescription>
+        </DialogHeader>
+        {rejection && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              appealMutation.mutate(rejection);
+            }}
+          >
+            <p className="text-sm bg-muted/50 rounded p-2">Reden: {rejection.reason}</p>
+            <div className="space-y-1">
+              <Label htmlFor="appeal-explanation">Niet akkoord? Leg uit waarom je melding gepubliceerd moet worden</Label>
+              <Textarea
+                id="appeal-explanation"
+                rows={4}
+                maxLength={1000}
+                value={explanation}
+                onChange={(e) => setExplanation(e.target.value)}
+                data-testid="input-appeal-explanation"
+              />
+              <p className="text-xs text-muted-foreground">Minstens 10 tekens. Je kan één keer bezwaar maken.</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>Sluiten</Button>
+              <Button
+                type="submit"
+                className="gap-1"
+                disabled={explanation.trim().length < 10 || appealMutation.isPending}
+                data-testid="button-submit-appeal"
+              >
+                <Scale className="h-4 w-4" />
+                {appealMutation.isPending ? "Indienen..." : "Bezwaar indienen"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Outcome of one appeal, read with the report's edit token
+function AppealOutcome({ reportId }: { reportId: string }) {
+  const editToken = getReportEditToken(reportId);
+  const { data: appeal, isLoading, isError } = useQuery<ReportAppealOutcome>({
+    queryKey: [`/api/reports/${reportId}/appeal`],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/reports/${reportId}/appeal`, undefined, editTokenHeaders(editToken!));
+      return response.json();
+    },
+    enabled: !!editToken,
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Laden...</p>;
+  }
+  if (!appeal || isError) {
+    return <p className="text-xs text-muted-foreground">Deze melding is niet meer beschikbaar.</p>;
+  }
+  const status = appealStatusLabels[appeal.status];
+  return (
+    <div className="border rounded-lg p-3 space-y-1 text-sm" data-testid={`appeal-${reportId}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{appeal.title}</span>
+        <Badge variant={status.variant}>{status.label}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Ingediend op {format(new Date(appeal.createdAt), 'dd/MM/yyyy HH:mm')}
+        {appeal.decidedAt && ` · beslist op ${format(new Date(appeal.decidedAt), 'dd/MM/yyyy HH:mm')}`}
+      </p>
+      {appeal.status === 'accepted' && <p className="text-xs">Je melding is alsnog gepubliceerd.</p>}
+      {appeal.status === 'denied' && appeal.moderationReason && <p className="text-xs">Reden: {appeal.moderationReason}</p>}
+    </div>
+  );
+}
+
+// The appeals submitted from this browser
+export function MyAppealsDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const reportIds = isOpen ? getAppealedReportIds() : [];
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="w-[95vw] max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mijn bezwaren</DialogTitle>
+          <DialogDescription>Bezwaren tegen afgewezen meldingen die je vanaf dit toestel indiende.</DialogDescription>
+        </DialogHeader>
+        {reportIds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Je hebt nog geen bezwaar ingediend.</p>
+        ) : (
+          <div className="space-y-2">
+            {reportIds.map(reportId => <AppealOutcome key={reportId} reportId={reportId} />)}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,14 @@
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Report } from "@shared/schema";
+import { PublicReportMedia, Report, ReportClusterSummary, ReportStatusHistoryEntry } from "@shared/schema";
 import { categories } from "@/lib/categories";
 import { formatDistanceToNow } from "date-fns";
-import { Flag, Shield, Clock, MapPin, User, Camera } from "lucide-react";
+import { Flag, Shield, Clock, MapPin, User, Camera, History, Pencil, Users } from "lucide-react";
+import { ReportStatusBadge, ReportStatusTimeline } from "./ReportStatus";
+import ReportEditForm from "./ReportEditForm";
+import { getReportEditToken } from "@/lib/reportTokens";
+import { reportLanguageNames } from "@/lib/reportLanguage";
+import { useReportTranslations } from "@/hooks/use-report-translations";
 
 import {
   Dialog,
@@ -13,6 +19,13 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
 
 interface ReportDetailModalProps {
   isOpen: boolean;
@@ -21,11 +34,41 @@ interface ReportDetailModalProps {
 }
 
 export default function ReportDetailModal({ isOpen, onClose, reportId }: ReportDetailModalProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showOriginalLanguage, setShowOriginalLanguage] = useState(false);
+  // Only set for reports submitted from this browser
+  const editToken = reportId ? getReportEditToken(reportId) : undefined;
+
+  useEffect(() => {
+    setIsEditing(false);
+    setShowOriginalLanguage(false);
+  }, [reportId, isOpen]);
+
   const { data: report, isLoading } = useQuery<Report>({
     queryKey: [`/api/reports/${reportId}`],
     enabled: !!reportId,
   });
 
+  const { data: statusHistory = [] } = useQuery<Omit<ReportStatusHistoryEntry, "changedBy">[]>({
+    queryKey: [`/api/reports/${reportId}/status-history`],
+    enabled: !!reportId,
+  });
+
+  const { data: cluster } = useQuery<ReportClusterSummary>({
+    queryKey: [`/api/reports/${reportId}/cluster`],
+    enabled: !!reportId,
+  });
+  const otherReporters = cluster ? cluster.reportCount - 1 : 0;
+
+  // Published photos and clips, in the reporter's order
+  const { data: media = [] } = useQuery<PublicReportMedia[]>({
+    queryKey: [`/api/reports/${reportId}/media`],
+    enabled: !!reportId,
+  });
+
+  const translation = useReportTranslations(report ? [report] : []).get(reportId ?? '');
+  const shownText = translation && !showOriginalLanguage ? translation : report;
+
   if (!report && !isLoading) {
     return null;
   }
@@ -55,6 +98,14 @@ export default function ReportDetailModal({ isOpen, onClose, reportId }: ReportD
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
             <p className="text-sm text-gray-700 drop-shadow-sm">Loading report details...</p>
           </div>
+        ) : report && isEditing && editToken ? (
+          <ReportEditForm
+            report={report}
+            editToken={editToken}
+            onSaved={() => setIsEditing(false)}
+            onWithdrawn={onClose}
+            onCancel={() => setIsEditing(false)}
+          />
         ) : report ? (
           <div className="space-y-3 sm:space-y-4">
             {/* Header */}
@@ -64,7 +115,7 @@ export default function ReportDetailModal({ isOpen, onClose, reportId }: ReportD
                 style={{ backgroundColor: getCategoryColor(report.category) }}
               />
               <div>
-                <h3 className="font-semibold text-gray-900 mb-1 drop-shadow-sm">{report.title}</h3>
+                <h3 className="font-semibold text-gray-900 mb-1 drop-shadow-sm">{shownText?.title}</h3>
                 <Badge 
                   variant="secondary"
                   style={{ 
@@ -80,6 +131,9 @@ export default function ReportDetailModal({ isOpen, onClose, reportId }: ReportD
                     {report.subcategory}
                   </Badge>
                 )}
+                <div className="mt-1">
+                  <ReportStatusBadge status={report.status} />
+                </div>
               </div>
             </div>
 
@@ -90,9 +144,32 @@ export default function ReportDetailModal({ isOpen, onClose, reportId }: ReportD
                   <User className="h-4 w-4 mr-2" />
                   Description
                 </span>
-                <p className="text-gray-700 drop-shadow-sm">{report.description}</p>
+                <p className="text-gray-700 drop-shadow-sm">{shownText?.description}</p>
+                {translation && (
+                  <p className="text-xs text-muted-foreground mt-1" data-testid="text-report-translation">
+                    {showOriginalLanguage
+                      ? `Origineel in het ${reportLanguageNames[translation.sourceLanguage]}`
+                      : `Vertaald uit het ${reportLanguageNames[translation.sourceLanguage]}`}
+                    {" · "}
+                    <button
+                      type="button"
+                      className="underline hover:text-foreground"
+                      onClick={() => setShowOriginalLanguage(!showOriginalLanguage)}
+                      data-testid="button-toggle-translation"
+                    >
+                      {showOriginalLanguage ? "Vertaling tonen" : "Origineel tonen"}
+                    </button>
+                  </p>
+                )}
               </div>
 
+              {otherReporters > 0 && (
+                <div className="flex items-center text-gray-700 drop-shadow-sm" data-testid="text-report-cluster">
+                  <Users className="h-4 w-4 mr-2" />
+                  {otherReporters === 1 ? "1 andere buurtbewoner meldde dit ook" : `${otherReporters} andere buurtbewoners meldden dit ook`}
+                </div>
+              )}
+
               {/* Incident Time */}
               {report.incidentDateTime && (
                 <div>
@@ -188,25 +265,75 @@ export default function ReportDetailModal({ isOpen, onClose, reportId }: ReportD
                 </p>
               </div>
 
-              {/* Image */}
-              {report.imageUrl && (
+              <div>
+                <span className="font-medium text-gray-900 flex items-center mb-2 drop-shadow-sm">
+                  <History className="h-4 w-4 mr-2" />
+                  Status history
+                </span>
+                <ReportStatusTimeline createdAt={report.createdAt} history={statusHistory} />
+              </div>
+
+              {/* Photos and clips, swipeable when there are several */}
+              {media.length > 0 && (
                 <div>
                   <span className="font-medium text-gray-900 flex items-center mb-2 drop-shadow-sm">
                     <Camera className="h-4 w-4 mr-2" />
                     Photo Evidence
+                    {media.length > 1 && <span className="ml-1 font-normal text-gray-600">({media.length})</span>}
                   </span>
-                  <img 
-                    src={report.imageUrl} 
-                    alt="Report evidence" 
-                    className="w-full rounded-lg border"
-                    data-testid="img-report-evidence"
-                  />
+                  <Carousel className="w-full" data-testid="carousel-report-media">
+                    <CarouselContent>
+                      {media.map(item => (
+                        <CarouselItem key={item.id}>
+                          <figure>
+                            {item.kind === 'video' ? (
+                              <video
+                                src={item.url ?? undefined}
+                                controls
+                                playsInline
+                                preload="metadata"
+                                className="w-full rounded-lg border bg-black"
+                                data-testid={`video-report-evidence-${item.position}`}
+                              />
+                            ) : (
+                              <img
+                                src={item.url ?? undefined}
+                                alt={item.caption ?? "Report evidence"}
+                                className="w-full rounded-lg border"
+                                data-testid={`img-report-evidence-${item.position}`}
+                              />
+                            )}
+                            {item.caption && (
+                              <figcaption className="text-sm text-gray-600 mt-1">{item.caption}</figcaption>
+                            )}
+                          </figure>
+                        </CarouselItem>
+                      ))}
+                    </CarouselContent>
+                    {media.length > 1 && (
+                      <>
+                        <CarouselPrevious className="left-2" />
+                        <CarouselNext className="right-2" />
+                      </>
+                    )}
+                  </Carousel>
                 </div>
               )}
             </div>
 
             {/* Action Buttons */}
-            <div className="pt-4">
+            <div className="pt-4 space-y-2">
+              {editToken && (
+                <Button
+                  variant="secondary"
+                  className="w-full"
+                  onClick={() => setIsEditing(true)}
+                  data-testid="button-edit-report"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Mijn melding bewerken
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 className="w-full"
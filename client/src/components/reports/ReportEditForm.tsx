@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Report } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { editTokenHeaders, removeReportEditToken } from "@/lib/reportTokens";
+import { waitForModeration } from "@/lib/reportModeration";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import ReportMediaPicker, { appendMediaDrafts, type MediaDraft } from "./ReportMediaPicker";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface ReportEditFormProps {
+  report: Report;
+  editToken: string;
+  onSaved: () => void;
+  onWithdrawn: () => void;
+  onCancel: () => void;
+}
+
+// Lets the original reporter correct their report or withdraw it, authorized by the edit token
+export default function ReportEditForm({ report, editToken, onSaved, onWithdrawn, onCancel }: ReportEditFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Reporters edit their own words, not the moderated rewrite
+  const [title, setTitle] = useState(report.originalTitle ?? report.title);
+  const [description, setDescription] = useState(report.originalDescription ?? report.description);
+  const [media, setMedia] = useState<MediaDraft[]>([]);
+
+  const refreshReports = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/reports/${report.id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/reports/${report.id}/media`] });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append('title', title.trim());
+      formData.append('description', description.trim());
+      appendMediaDrafts(formData, media);
+      const response = await apiRequest('PATCH', `/api/reports/${report.id}`, formData, editTokenHeaders(editToken));
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshReports();
+      toast({
+        title: "Melding bijgewerkt",
+        description: "Je wijzigingen worden nagekeken voor ze opnieuw gepubliceerd worden.",
+      });
+      onSaved();
+      void followModeration();
+    },
+    onError: () => {
+      refreshReports();
+      toast({
+        title: "Bijwerken mislukt",
+        description: "Probeer het later opnieuw.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The edit is moderated in the background on the server
+  const followModeration = async () => {
+    try {
+      const outcome = await waitForModeration(report.id, editToken);
+      if (outcome.status === 'checking') return;
+      refreshReports();
+      if (outcome.status === 'approved') {
+        toast({
+          title: "Melding gepubliceerd",
+          description: "Je wijzigingen zijn gemodereerd en gepubliceerd.",
+        });
+      } else if (outcome.status === 'rejected') {
+        toast({
+          title: "Wijziging niet geaccepteerd",
+          description: "Je melding voldoet niet meer aan onze richtlijnen en is verborgen. Pas de tekst aan en probeer opnieuw.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Melding bijgewerkt",
+          description: "Je wijzigingen worden eerst nagekeken door een moderator voor ze opnieuw gepubliceerd worden.",
+        });
+      }
+    } catch (error) {
+      console.error("Could not follow report moderation:", error);
+    }
+  };
+
+  const withdrawMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/reports/${report.id}`, undefined, editTokenHeaders(editToken)),
+    onSuccess: () => {
+      removeReportEditToken(report.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+      toast({
+        title: "Melding ingetrokken",
+        description: "Je melding is verwijderd.",
+      });
+      onWithdrawn();
+    },
+    onError: () => {
+      toast({
+        title: "Intrekken mislukt",
+        description: "Probeer het later opnieuw.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = editMutation.isPending || withdrawMutation.isPending;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        <Label htmlFor="edit-title">Titel</Label>
+        <Input
+          id="edit-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          data-testid="input-edit-title"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="edit-description">Beschrijving</Label>
+        <Textarea
+          id="edit-description"
+          rows={5}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          data-testid="input-edit-description"
+        />
+      </div>
+      <ReportMediaPicker
+        inputId="edit-media"
+        label={report.imageUrl ? "Foto's en video's vervangen" : "Foto's of video's toevoegen"}
+        value={media}
+        onChange={setMedia}
+      />
+
+      <div className="flex gap-2 pt-2">
+        <Button
+          className="flex-1"
+          onClick={() => editMutation.mutate()}
+          disabled={isBusy || !title.trim() || !description.trim()}
+          data-testid="button-save-edit"
+        >
+          {editMutation.isPending ? "Opslaan..." : "Opslaan"}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={isBusy}>
+          Annuleren
+        </Button>
+      </div>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" className="w-full text-destructive" disabled={isBusy} data-testid="button-withdraw-report">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Melding intrekken
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Melding intrekken?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Je melding wordt definitief verwijderd. Dit kan niet ongedaan gemaakt worden.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => withdrawMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-withdraw"
+            >
+              Intrekken
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Camera, ChevronDown, ChevronUp, X } from "lucide-react";
+import {
+  REPORT_MEDIA_CAPTION_MAX,
+  REPORT_MEDIA_MAX_FILES,
+  REPORT_VIDEO_MAX_BYTES,
+  REPORT_VIDEO_MAX_SECONDS,
+} from "@shared/schema";
+import { compressImages, getVideoDuration, isImageFile, isVideoFile } from "@/lib/imageUtils";
+import { useToast } from "@/hooks/use-toast";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+
+// A photo or clip picked for a report, not uploaded yet
+export interface MediaDraft {
+  file: File;
+  caption: string;
+  previewUrl: string;
+}
+
+// The drafts as the `media` files and `captions` field of POST /api/reports and PATCH /api/reports/:id
+export function appendMediaDrafts(formData: FormData, drafts: MediaDraft[]) {
+  drafts.forEach(draft => formData.append('media', draft.file));
+  if (drafts.length > 0) {
+    formData.append('captions', JSON.stringify(drafts.map(draft => draft.caption.trim())));
+  }
+}
+
+interface ReportMediaPickerProps {
+  inputId: string;
+  label: string;
+  value: MediaDraft[];
+  onChange: React.Dispatch<React.SetStateAction<MediaDraft[]>>;
+}
+
+// Photos and short clips for a report, in the order of the carousel, each with an optional
+// caption. Photos are compressed in the browser before they are uploaded.
+export default function ReportMediaPicker({ inputId, label, value, onChange }: ReportMediaPickerProps) {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const acceptFile = async (file: File): Promise<boolean> => {
+    if (isImageFile(file)) {
+      return true;
+    }
+    if (!isVideoFile(file)) {
+      toast({
+        title: "Bestand niet toegevoegd",
+        description: `${file.name}: kies een foto of een MP4- of MOV-video.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    const duration = await getVideoDuration(file).catch(() => 0);
+    if (file.size > REPORT_VIDEO_MAX_BYTES || duration > REPORT_VIDEO_MAX_SECONDS) {
+      toast({
+        title: "Video niet toegevoegd",
+        description: `${file.name}: video's mogen maximaal ${REPORT_VIDEO_MAX_SECONDS} seconden en ${REPORT_VIDEO_MAX_BYTES / 1024 / 1024} MB zijn.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Lets the same file be picked again after removing it
+    if (picked.length === 0) return;
+
+    const accepted: File[] = [];
+    for (const file of picked) {
+      if (await acceptFile(file)) accepted.push(file);
+    }
+    const room = REPORT_MEDIA_MAX_FILES - value.length;
+    if (accepted.length > room) {
+      toast({
+        title: "Te veel bestanden",
+        description: `Je kunt maximaal ${REPORT_MEDIA_MAX_FILES} foto's of video's toevoegen.`,
+        variant: "destructive",
+      });
+    }
+    const files = accepted.slice(0, Math.max(0, room));
+    if (files.length === 0) return;
+
+    try {
+      setProgress({ done: 0, total: files.length });
+      const compressed = await compressImages(files, { maxWidth: 1200, maxHeight: 1200, quality: 0.8 },
+        (done, total) => setProgress({ done, total }));
+      onChange(drafts => [
+        ...drafts,
+        ...compressed.map(file => ({ file, caption: '', previewUrl: URL.createObjectURL(file) })),
+      ].slice(0, REPORT_MEDIA_MAX_FILES));
+    } catch (error) {
+      console.error('Error compressing images:', error);
+      toast({
+        title: "Error processing image",
+        description: "Failed to compress image. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const setCaption = (index: number, caption: string) => {
+    onChange(drafts => drafts.map((draft, i) => i === index ? { ...draft, caption } : draft));
+  };
+
+  const move = (index: number, offset: number) => {
+    onChange(drafts => {
+      const reordered = [...drafts];
+      const [draft] = reordered.splice(index, 1);
+      reordered.splice(index + offset, 0, draft);
+      return reordered;
+    });
+  };
+
+  const remove = (index: number) => {
+    URL.revokeObjectURL(value[index].previewUrl);
+    onChange(drafts => drafts.filter((_, i) => i !== index));
+  };
+
+  const isFull = value.length >= REPORT_MEDIA_MAX_FILES;
+
+  return (
+    <div>
+      <Label className="block text-sm font-medium mb-2">{label}</Label>
+      <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors">
+        <input
+          type="file"
+          multiple
+          accept="image/*,video/mp4,video/quicktime"
+          onChange={handleFiles}
+          className="hidden"
+          id={inputId}
+          disabled={isFull || !!progress}
+        />
+        <label htmlFor={inputId} className={`cursor-pointer ${isFull || progress ? 'opacity-50 pointer-events-none' : ''}`} data-testid="input-media">
+          <Camera className={`h-8 w-8 text-muted-foreground mx-auto mb-2 ${progress ? 'animate-pulse' : ''}`} />
+          <p className="text-sm text-muted-foreground">
+            {progress
+              ? `Foto's verkleinen... (${progress.done}/${progress.total})`
+              : value.length > 0
+                ? `${value.length} van ${REPORT_MEDIA_MAX_FILES} bestanden toegevoegd`
+                : `Tik om foto's of korte video's (max. ${REPORT_VIDEO_MAX_SECONDS} s) toe te voegen`
+            }
+          </p>
+        </label>
+        {progress && <Progress value={(progress.done / progress.total) * 100} className="h-2 mt-3" />}
+      </div>
+
+      {value.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {value.map((draft, index) => (
+            <li key={draft.previewUrl} className="flex items-center gap-2" data-testid={`media-draft-${index}`}>
+              {isVideoFile(draft.file) ? (
+                <video src={draft.previewUrl} muted className="h-12 w-12 flex-shrink-0 rounded border object-cover" />
+              ) : (
+                <img src={draft.previewUrl} alt="" className="h-12 w-12 flex-shrink-0 rounded border object-cover" />
+              )}
+              <Input
+                value={draft.caption}
+                onChange={(e) => setCaption(index, e.target.value)}
+                maxLength={REPORT_MEDIA_CAPTION_MAX}
+                placeholder="Bijschrift (optioneel)"
+                className="h-9 text-sm"
+              />
+              <div className="flex flex-shrink-0">
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Naar voren">
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => move(index, 1)} disabled={index === value.length - 1} aria-label="Naar achteren">
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => remove(index)} aria-label="Verwijderen">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
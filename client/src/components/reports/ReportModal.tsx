@@ -2,13 +2,17 @@ import { useState, useEffect } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertReportSchema } from "@shared/schema";
+import { insertReportSchema, type CategorySuggestion } from "@shared/schema";
 import { categories } from "@/lib/categories";
 import { useGeolocation } from "@/hooks/use-geolocation";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { compressImage, isImageFile } from "@/lib/imageUtils";
+import { saveReportEditToken } from "@/lib/reportTokens";
+import { type RejectedReport } from "./ReportAppeal";
+import { waitForModeration } from "@/lib/reportModeration";
+import { CategorySuggestionHint, useCategorySuggestion } from "./CategorySuggestion";
+import ReportMediaPicker, { appendMediaDrafts, type MediaDraft } from "./ReportMediaPicker";
 import { z } from "zod";
 
 // Detect iOS
@@ -49,7 +53,7 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format } from "date-fns";
-import { X, Camera, MapPin, Navigation, Calendar, Clock } from "lucide-react";
+import { X, MapPin, Navigation, Calendar, Clock } from "lucide-react";
 
 interface ReportModalProps {
   isOpen: boolean;
@@ -59,6 +63,7 @@ interface ReportModalProps {
   locationSelectionMode?: boolean;
   onLocationSelectionModeToggle?: () => void;
   onLocationSelectionStart?: () => void;
+  onRejected?: (rejection: RejectedReport) => void; // Lets the reporter appeal a rejection
 }
 
 const formSchema = insertReportSchema;
@@ -72,11 +77,11 @@ export default function ReportModal({
   onLocationSelect, 
   locationSelectionMode = false,
   onLocationSelectionModeToggle,
+  onRejected,
   onLocationSelectionStart
 }: ReportModalProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [isCompressingImage, setIsCompressingImage] = useState(false);
+  const [media, setMedia] = useState<MediaDraft[]>([]);
   const { location, getCurrentLocation, isLoading: locationLoading } = useGeolocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -98,6 +103,42 @@ export default function ReportModal({
     },
   });
 
+  // Shown under the description; sent along so the server can record whether it was followed
+  const categorySuggestion = useCategorySuggestion(form.watch("title"), form.watch("description"));
+
+  // Moderation runs in the background on the server; tell the reporter how it turned out
+  const followModeration = async (reportId: string, editToken: string) => {
+    try {
+      const outcome = await waitForModeration(reportId, editToken);
+      if (outcome.status === 'approved') {
+        queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+        toast({
+          title: "Report submitted successfully",
+          description: "Thank you for helping keep our community safe.",
+        });
+      } else if (outcome.status === 'rejected') {
+        // The rejected report is saved; hand it over so the reporter can appeal
+        if (onRejected) {
+          onRejected({ reportId, editToken, reason: outcome.reason || "Content appears to be spam or inappropriate" });
+        } else {
+          toast({
+            title: "Report niet geaccepteerd",
+            description: "Je melding bevat inhoud die niet voldoet aan onze richtlijnen. Controleer op ongepaste taal of persoonlijke informatie.",
+            variant: "destructive",
+          });
+        }
+      } else if (outcome.status === 'pending') {
+        // Pending reports are only published after a moderator approved them
+        toast({
+          title: "Melding ontvangen",
+          description: "Je melding wordt eerst nagekeken door een moderator en verschijnt daarna op de kaart.",
+        });
+      }
+    } catch (error) {
+      console.error("Could not follow report moderation:", error);
+    }
+  };
+
   const createReportMutation = useMutation({
     mutationFn: async (data: FormData) => {
       console.log("Creating FormData from:", data);
@@ -119,6 +160,12 @@ export default function ReportModal({
         console.log("Adding subcategory:", data.subcategory);
         formData.append('subcategory', data.subcategory);
       }
+      if (categorySuggestion) {
+        formData.append('suggestedCategory', categorySuggestion.category);
+        if (categorySuggestion.subcategory) {
+          formData.append('suggestedSubcategory', categorySuggestion.subcategory);
+        }
+      }
       if (data.latitude !== null && data.latitude !== undefined) {
         console.log("Adding latitude:", data.latitude);
         formData.append('latitude', data.latitude.toString());
@@ -141,10 +188,7 @@ export default function ReportModal({
         formData.append('incidentDateTime', data.incidentDateTime);
       }
 
-      if (imageFile) {
-        console.log("Adding image file:", imageFile.name);
-        formData.append('image', imageFile);
-      }
+      appendMediaDrafts(formData, media);
 
       // Log all FormData entries
       console.log("Final FormData entries:");
@@ -157,25 +201,22 @@ export default function ReportModal({
       console.log("Response received:", response.status);
       return response.json();
     },
-    onSuccess: () => {
-      console.log("Report submitted successfully, invalidating queries...");
-      // Force refresh all reports queries with different category filters
-      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
-      queryClient.refetchQueries({ queryKey: ['/api/reports'] });
-      queryClient.refetchQueries({ queryKey: ['/api/reports', { category: 'all' }] });
-      queryClient.refetchQueries({ queryKey: ['/api/reports', { category: 'dangerous' }] });
+    onSuccess: (created: { id: string; editToken: string }) => {
+      // Lets this browser edit or withdraw the report later
+      saveReportEditToken(created.id, created.editToken);
       toast({
-        title: "Report submitted successfully",
-        description: "Thank you for helping keep our community safe.",
+        title: "Melding ontvangen",
+        description: "Je melding wordt nagekeken en verschijnt daarna op de kaart.",
       });
       onClose();
       form.reset();
       setSelectedCategory("");
-      setImageFile(null);
+      setMedia([]);
       // Turn off location selection mode when closing
       if (locationSelectionMode && onLocationSelectionModeToggle) {
         onLocationSelectionModeToggle();
       }
+      void followModeration(created.id, created.editToken);
     },
     onError: (error: any) => {
       console.log("Submission error:", error);
@@ -184,10 +225,7 @@ export default function ReportModal({
       let errorTitle = "Failed to submit report";
       let errorDescription = "Please try again later.";
 
-      if (error?.message?.includes("Content rejected by moderation")) {
-        errorTitle = "Report niet geaccepteerd";
-        errorDescription = "Je melding bevat inhoud die niet voldoet aan onze richtlijnen. Controleer op ongepaste taal of persoonlijke informatie.";
-      } else if (error?.message?.includes("400")) {
+      if (error?.message?.includes("400")) {
         errorTitle = "Melding geweigerd";
         errorDescription = "Je melding kon niet worden geaccepteerd. Controleer de inhoud en probeer opnieuw.";
       }
@@ -205,6 +243,11 @@ export default function ReportModal({
     form.setValue("category", categoryKey);
   };
 
+  const handleSuggestionAccept = (suggestion: CategorySuggestion) => {
+    handleCategorySelect(suggestion.category);
+    form.setValue("subcategory", suggestion.subcategory ?? undefined);
+  };
+
   const handleHereAndNow = async () => {
     const position = await getCurrentLocation();
     if (position) {
@@ -253,49 +296,6 @@ export default function ReportModal({
 
   // Note: Using ScrollArea component for proper modal scroll behavior as per Radix UI best practices
 
-  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    // Check if it's an image file
-    if (!isImageFile(file)) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select an image file (JPG, PNG, etc.)",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      setIsCompressingImage(true);
-      console.log(`Compressing image: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
-      
-      // Compress the image
-      const compressedFile = await compressImage(file, {
-        maxWidth: 1200,
-        maxHeight: 1200,
-        quality: 0.8
-      });
-      
-      setImageFile(compressedFile);
-      
-      toast({
-        title: "Photo added successfully",
-        description: `Image compressed to ${(compressedFile.size / 1024 / 1024).toFixed(2)} MB`,
-      });
-    } catch (error) {
-      console.error('Error compressing image:', error);
-      toast({
-        title: "Error processing image",
-        description: "Failed to compress image. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsCompressingImage(false);
-    }
-  };
-
   const onSubmit = (data: FormData) => {
     console.log("Form data being submitted:", data);
 
@@ -464,6 +464,13 @@ export default function ReportModal({
               )}
             />
 
+            <CategorySuggestionHint
+              suggestion={categorySuggestion}
+              category={form.watch("category")}
+              subcategory={form.watch("subcategory")}
+              onAccept={handleSuggestionAccept}
+            />
+
             {/* Location */}
             <div>
               <Label className="block text-sm font-medium mb-2">Location</Label>
@@ -579,30 +586,8 @@ export default function ReportModal({
               }}
             />
 
-            {/* Image Upload */}
-            <div>
-              <Label className="block text-sm font-medium mb-2">Add photo (optional)</Label>
-              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors">
-                <input
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  className="hidden"
-                  id="image-upload"
-                />
-                <label htmlFor="image-upload" className={`cursor-pointer ${isCompressingImage ? 'opacity-50 pointer-events-none' : ''}`} data-testid="input-image">
-                  <Camera className={`h-8 w-8 text-muted-foreground mx-auto mb-2 ${isCompressingImage ? 'animate-pulse' : ''}`} />
-                  <p className="text-sm text-muted-foreground">
-                    {isCompressingImage 
-                      ? "Compressing image..." 
-                      : imageFile 
-                        ? imageFile.name 
-                        : "Tap to add photo for credibility"
-                    }
-                  </p>
-                </label>
-              </div>
-            </div>
+            {/* Photos and clips */}
+            <ReportMediaPicker inputId="media-upload" label="Add photos or video (optional)" value={media} onChange={setMedia} />
 
             {/* Authorities Contacted */}
             <FormField
@@ -823,6 +808,13 @@ export default function ReportModal({
               )}
             />
 
+            <CategorySuggestionHint
+              suggestion={categorySuggestion}
+              category={form.watch("category")}
+              subcategory={form.watch("subcategory")}
+              onAccept={handleSuggestionAccept}
+            />
+
             {/* Location */}
             <div>
               <Label className="block text-sm font-medium mb-2">Location</Label>
@@ -938,30 +930,8 @@ export default function ReportModal({
               }}
             />
 
-            {/* Image Upload */}
-            <div>
-              <Label className="block text-sm font-medium mb-2">Add photo (optional)</Label>
-              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors">
-                <input
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  className="hidden"
-                  id="image-upload"
-                />
-                <label htmlFor="image-upload" className={`cursor-pointer ${isCompressingImage ? 'opacity-50 pointer-events-none' : ''}`} data-testid="input-image">
-                  <Camera className={`h-8 w-8 text-muted-foreground mx-auto mb-2 ${isCompressingImage ? 'animate-pulse' : ''}`} />
-                  <p className="text-sm text-muted-foreground">
-                    {isCompressingImage 
-                      ? "Compressing image..." 
-                      : imageFile 
-                        ? imageFile.name 
-                        : "Tap to add photo for credibility"
-                    }
-                  </p>
-                </label>
-              </div>
-            </div>
+            {/* Photos and clips */}
+            <ReportMediaPicker inputId="media-upload" label="Add photos or video (optional)" value={media} onChange={setMedia} />
 
             {/* Authorities Contacted */}
             <FormField
@@ -0,0 +1,68 @@
+import { format } from "date-fns";
+import type { ReportStatusHistoryEntry } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { getReportStatusInfo } from "@/lib/reportStatus";
+
+// The public history endpoint leaves out who made the change
+type TimelineEntry = Omit<ReportStatusHistoryEntry, "changedBy"> & { changedBy?: string };
+
+export function ReportStatusBadge({ status }: { status: string }) {
+  const { name, color } = getReportStatusInfo(status);
+  return (
+    <Badge
+      variant="secondary"
+      style={{ backgroundColor: `${color}26`, color, border: `1px solid ${color}60` }}
+      data-testid={`badge-report-status-${status}`}
+    >
+      {name}
+    </Badge>
+  );
+}
+
+interface ReportStatusTimelineProps {
+  createdAt: Date | string;
+  history: TimelineEntry[];
+}
+
+interface TimelineItem {
+  id: string;
+  status: string;
+  label: string;
+  date: Date;
+  note?: string | null;
+  changedBy?: string;
+}
+
+// Vertical timeline starting at submission, followed by every status change
+export function ReportStatusTimeline({ createdAt, history }: ReportStatusTimelineProps) {
+  const items: TimelineItem[] = [
+    { id: "created", status: "open", label: "Submitted", date: new Date(createdAt) },
+    ...history.map(entry => ({
+      id: entry.id,
+      status: entry.toStatus,
+      label: getReportStatusInfo(entry.toStatus).name,
+      date: new Date(entry.createdAt),
+      note: entry.note,
+      changedBy: entry.changedBy,
+    })),
+  ];
+
+  return (
+    <ol className="relative border-l border-gray-300 ml-2 space-y-3" data-testid="timeline-report-status">
+      {items.map(item => (
+        <li key={item.id} className="ml-4">
+          <span
+            className="absolute -left-1.5 mt-1 h-3 w-3 rounded-full border border-white"
+            style={{ backgroundColor: getReportStatusInfo(item.status).color }}
+          />
+          <p className="text-sm font-medium text-gray-900">{item.label}</p>
+          <p className="text-xs text-gray-600">
+            {format(item.date, "dd/MM/yyyy HH:mm")}
+            {item.changedBy && ` • ${item.changedBy}`}
+          </p>
+          {item.note && <p className="text-xs text-gray-700 mt-0.5">{item.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
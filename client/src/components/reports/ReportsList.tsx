@@ -1,11 +1,20 @@
-import { useQuery } from "@tanstack/react-query";
-import { Report } from "@shared/schema";
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Report, ReportPage, REPORT_SEVERITY_HIGH } from "@shared/schema";
+import { getPageQueryFn } from "@/lib/queryClient";
 import { categories } from "@/lib/categories";
 import { formatDistanceToNow } from "date-fns";
-import { Shield, X, Clock, MapPin, Navigation } from "lucide-react";
+import { Shield, X, Clock, MapPin, Navigation, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import MyRegion from "./MyRegion";
+import { boundsToQueryParams, type MapBounds } from "@/lib/mapBounds";
+import { useReportTranslations } from "@/hooks/use-report-translations";
+import { getSeverityInfo } from "@/lib/severity";
+
+const PAGE_SIZE = 20;
+// Start loading the next page when the list is scrolled this close to the bottom
+const LOAD_MORE_THRESHOLD_PX = 200;
 
 interface ReportsListProps {
   onReportClick: (reportId: string) => void;
@@ -17,7 +26,7 @@ interface ReportsListProps {
   activeTab: 'recent' | 'region' | 'nearme';
   onTabChange: (tab: 'recent' | 'region' | 'nearme') => void;
   showFilters?: boolean; // Keep for backwards compatibility but not used
-  mapBounds?: {north: number, south: number, east: number, west: number} | null;
+  mapBounds?: MapBounds | null;
   currentZoom?: number;
 }
 
@@ -39,45 +48,68 @@ export default function ReportsList({
   const handleInteraction = () => {
     onSheetInteraction?.();
   };
+
+  // Recent reports newest or most serious first; both lists can be limited to serious reports
+  const [sortBySeverity, setSortBySeverity] = useState(false);
+  const [onlySerious, setOnlySerious] = useState(false);
+  const minSeverity = onlySerious ? String(REPORT_SEVERITY_HIGH) : '';
+  // Selected subcategories replace the category filter; the server filters on them so that
+  // every page holds matching reports
+  const category = selectedSubcategories.length > 0 ? 'all' : activeCategory;
   
-  const { data: reports = [], isLoading } = useQuery<Report[]>({
-    queryKey: ["/api/reports", { category: activeCategory }],
+  const recentQuery = useInfiniteQuery({
+    queryKey: ["/api/reports", {
+      category,
+      subcategory: selectedSubcategories,
+      limit: String(PAGE_SIZE),
+      sort: sortBySeverity ? 'severity' : '',
+      minSeverity,
+    }],
+    queryFn: getPageQueryFn<ReportPage>(),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: activeTab === 'recent',
   });
 
-  // Function to check if a report is within the current map bounds
-  const isReportInBounds = (report: Report) => {
-    if (!mapBounds || report.latitude == null || report.longitude == null) return false;
-    
-    return (
-      report.latitude >= mapBounds.south &&
-      report.latitude <= mapBounds.north &&
-      report.longitude >= mapBounds.west &&
-      report.longitude <= mapBounds.east
-    );
+  // Near Me: only reports inside the current map view, filtered by the server and
+  // sorted by distance from the map center.
+  // Only available at zoom level 15 or higher for detailed local view
+  const isNearMeAvailable = !!mapBounds && !!currentZoom && currentZoom >= 15;
+  const nearbyQuery = useInfiniteQuery({
+    queryKey: ["/api/reports", {
+      category,
+      subcategory: selectedSubcategories,
+      limit: String(PAGE_SIZE),
+      sort: 'distance',
+      minSeverity,
+      ...boundsToQueryParams(mapBounds),
+      lat: mapBounds ? ((mapBounds.north + mapBounds.south) / 2).toFixed(4) : '',
+      lng: mapBounds ? ((mapBounds.east + mapBounds.west) / 2).toFixed(4) : '',
+    }],
+    queryFn: getPageQueryFn<ReportPage>(),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: activeTab === 'nearme' && isNearMeAvailable,
+  });
+
+  const activeQuery = activeTab === 'nearme' ? nearbyQuery : recentQuery;
+  const reports = activeTab === 'nearme' && !isNearMeAvailable
+    ? []
+    : activeQuery.data?.pages.flatMap(page => page.reports) ?? [];
+  const isLoading = activeQuery.isLoading;
+
+  // Infinite scrolling: fetch the next page when nearing the end of the list
+  const handleListScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    handleInteraction();
+    const list = event.currentTarget;
+    const distanceToBottom = list.scrollHeight - list.scrollTop - list.clientHeight;
+    if (distanceToBottom < LOAD_MORE_THRESHOLD_PX && activeQuery.hasNextPage && !activeQuery.isFetchingNextPage) {
+      activeQuery.fetchNextPage();
+    }
   };
 
-  const filteredReports = reports
-    .filter(report => {
-      // For Near Me tab, filter by map bounds and zoom level
-      if (activeTab === 'nearme') {
-        // Only show if zoom level is 15 or higher for detailed local view
-        if (!currentZoom || currentZoom < 15) return false;
-        // Only show reports visible on current map
-        if (!isReportInBounds(report)) return false;
-      }
-      
-      // If no subcategories selected, show all reports
-      if (selectedSubcategories.length === 0) {
-        return activeCategory === 'all' || report.category === activeCategory;
-      }
-      
-      // If subcategories selected, filter by those
-      return selectedSubcategories.includes(report.subcategory || '');
-    })
-    .sort((a, b) => {
-      // Sort by createdAt date, newest first
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
+  // Reports written in another language than the viewer's are shown translated
+  const translations = useReportTranslations(reports);
 
   const getCategoryColor = (category: string) => {
     const categoryInfo = categories[category as keyof typeof categories];
@@ -141,6 +173,32 @@ export default function ReportsList({
           </div>
           {/* Filter button moved to map controls for better UX */}
         </div>
+
+        {activeTab !== 'region' && (
+          <div className="flex gap-2 mb-2">
+            {activeTab === 'recent' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => { setSortBySeverity(!sortBySeverity); handleInteraction(); }}
+                className={`h-7 rounded-xl text-xs ${sortBySeverity ? 'glass-strong' : 'glass-subtle'}`}
+                data-testid="button-sort-severity"
+              >
+                {sortBySeverity ? 'Ernstigste eerst' : 'Nieuwste eerst'}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => { setOnlySerious(!onlySerious); handleInteraction(); }}
+              className={`h-7 rounded-xl text-xs gap-1 ${onlySerious ? 'glass-strong' : 'glass-subtle'}`}
+              data-testid="button-filter-serious"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              Alleen ernstig
+            </Button>
+          </div>
+        )}
         
         {/* Selected Filter Tags (always visible when filters are applied) */}
         {selectedSubcategories.length > 0 && (
@@ -196,7 +254,7 @@ export default function ReportsList({
       {activeTab === 'nearme' ? (
         <div 
           className="flex-1 overflow-y-auto"
-          onScroll={handleInteraction}
+          onScroll={handleListScroll}
         >
         {!currentZoom || currentZoom < 15 ? (
           <div className="p-8 text-center">
@@ -216,7 +274,7 @@ export default function ReportsList({
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
             <p className="text-sm text-muted-foreground">Loading nearby reports...</p>
           </div>
-        ) : filteredReports.length === 0 ? (
+        ) : reports.length === 0 ? (
           <div className="p-8 text-center">
             <Navigation className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-medium mb-2">No nearby reports</h3>
@@ -225,7 +283,7 @@ export default function ReportsList({
             </p>
           </div>
         ) : (
-          filteredReports.map((report) => (
+          reports.map((report) => (
             <div
               key={report.id}
               className="report-item p-4 mx-2 mb-2 bg-background border border-border rounded-xl cursor-pointer transition-all duration-300 hover:bg-muted/50 hover:shadow-md hover:-translate-y-1"
@@ -243,14 +301,14 @@ export default function ReportsList({
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-1">
                     <h3 className="text-sm font-medium text-gray-900 truncate drop-shadow-sm">
-                      {report.title}
+                      {translations.get(report.id)?.title ?? report.title}
                     </h3>
                     <span className="text-xs text-muted-foreground">
                       {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
                     </span>
                   </div>
                   <p className="text-sm text-gray-700 mb-2 line-clamp-2 drop-shadow-sm">
-                    {report.description}
+                    {translations.get(report.id)?.description ?? report.description}
                   </p>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
@@ -264,6 +322,17 @@ export default function ReportsList({
                       >
                         {getCategoryName(report.category)}
                       </Badge>
+                      {report.severity >= REPORT_SEVERITY_HIGH && (
+                        <Badge
+                          variant="secondary"
+                          className="text-xs gap-1"
+                          style={{ color: getSeverityInfo(report.severity).color }}
+                          data-testid={`badge-severity-${report.id}`}
+                        >
+                          <AlertTriangle className="h-3 w-3" />
+                          {getSeverityInfo(report.severity).name}
+                        </Badge>
+                      )}
                       {report.authoritiesContacted && (
                         <Shield className="h-3 w-3 text-green-600" />
                       )}
@@ -277,23 +346,28 @@ export default function ReportsList({
             </div>
           ))
         )}
+        {activeQuery.isFetchingNextPage && (
+          <div className="p-4 text-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+          </div>
+        )}
         </div>
       ) : activeTab === 'recent' ? (
         <div 
           className="flex-1 overflow-y-auto"
-          onScroll={handleInteraction}
+          onScroll={handleListScroll}
         >
         {isLoading ? (
           <div className="p-8 text-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
             <p className="text-sm text-muted-foreground">Loading reports...</p>
           </div>
-        ) : filteredReports.length === 0 ? (
+        ) : reports.length === 0 ? (
           <div className="p-8 text-center">
             <p className="text-muted-foreground">No reports found for this category.</p>
           </div>
         ) : (
-          filteredReports.map((report) => (
+          reports.map((report) => (
             <div
               key={report.id}
               className="report-item p-4 mx-2 mb-2 bg-background border border-border rounded-xl cursor-pointer transition-all duration-300 hover:bg-muted/50 hover:shadow-md hover:-translate-y-1"
@@ -311,14 +385,14 @@ export default function ReportsList({
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-1">
                     <h3 className="text-sm font-medium text-gray-900 truncate drop-shadow-sm">
-                      {report.title}
+                      {translations.get(report.id)?.title ?? report.title}
                     </h3>
                     <span className="text-xs text-muted-foreground">
                       {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
                     </span>
                   </div>
                   <p className="text-sm text-gray-700 mb-2 line-clamp-2 drop-shadow-sm">
-                    {report.description}
+                    {translations.get(report.id)?.description ?? report.description}
                   </p>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
@@ -332,6 +406,17 @@ export default function ReportsList({
                       >
                         {getCategoryName(report.category)}
                       </Badge>
+                      {report.severity >= REPORT_SEVERITY_HIGH && (
+                        <Badge
+                          variant="secondary"
+                          className="text-xs gap-1"
+                          style={{ color: getSeverityInfo(report.severity).color }}
+                          data-testid={`badge-severity-${report.id}`}
+                        >
+                          <AlertTriangle className="h-3 w-3" />
+                          {getSeverityInfo(report.severity).name}
+                        </Badge>
+                      )}
                       {report.authoritiesContacted && (
                         <Shield className="h-3 w-3 text-green-600" />
                       )}
@@ -345,6 +430,11 @@ export default function ReportsList({
             </div>
           ))
         )}
+        {activeQuery.isFetchingNextPage && (
+          <div className="p-4 text-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+          </div>
+        )}
         </div>
       ) : (
         <MyRegion onReportClick={onReportClick} />
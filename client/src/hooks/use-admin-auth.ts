@@ -0,0 +1,43 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { AdminRole, SafeAdminUser } from "@shared/schema";
+
+const ME_QUERY_KEY = ["/api/auth/me"];
+
+interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+// Logged in admin account; user is null when nobody is logged in
+export function useAdminAuth() {
+  const { data: user, isLoading } = useQuery<SafeAdminUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as SafeAdminUser;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(ME_QUERY_KEY, loggedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop everything fetched with the previous account
+      queryClient.clear();
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    },
+  });
+
+  const hasRole = (...roles: AdminRole[]) => !!user && roles.includes(user.role as AdminRole);
+
+  return { user: user ?? null, isLoading, loginMutation, logoutMutation, hasRole };
+}
@@ -0,0 +1,33 @@
+import { useQueries } from "@tanstack/react-query";
+import type { Report, ReportTranslationView } from "@shared/schema";
+import { getViewerLanguage } from "@/lib/reportLanguage";
+
+// Reports per request; one list page, well under the server's maximum
+const CHUNK_SIZE = 20;
+
+// Translations into the viewer's language of the reports written in another language, by report id.
+// Reports without one (same language, unknown language, translation unavailable) are missing from the map.
+export function useReportTranslations(reports: Report[]): Map<string, ReportTranslationView> {
+  const language = getViewerLanguage();
+  const ids = language
+    ? reports.filter(report => report.language && report.language !== language).map(report => report.id)
+    : [];
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + CHUNK_SIZE));
+  }
+
+  const results = useQueries({
+    queries: chunks.map(chunk => ({
+      queryKey: ['/api/reports/translations', { language: language ?? '', ids: chunk.join(',') }],
+      retry: false,
+    })),
+  });
+
+  const translations = new Map<string, ReportTranslationView>();
+  for (const result of results) {
+    (result.data as ReportTranslationView[] | undefined)?.forEach(translation => translations.set(translation.reportId, translation));
+  }
+  return translations;
+}
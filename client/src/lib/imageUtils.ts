@@ -2,6 +2,8 @@
  * Image compression utility for client-side image resizing and compression
  */
 
+import { reportVideoContentTypes } from "@shared/schema";
+
 export interface ImageCompressionOptions {
   maxWidth?: number;
   maxHeight?: number;
@@ -91,6 +93,26 @@ export async function compressImage(
   });
 }
 
+/**
+ * Compresses a batch of files one after the other, for reports with several photos
+ * @param files - The files to compress; video clips are passed through unchanged
+ * @param options - Compression options for the images
+ * @param onProgress - Called after each file with the number of files done
+ * @returns Promise<File[]> - The files in the same order
+ */
+export async function compressImages(
+  files: File[],
+  options: ImageCompressionOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<File[]> {
+  const compressed: File[] = [];
+  for (const file of files) {
+    compressed.push(isImageFile(file) ? await compressImage(file, options) : file);
+    onProgress?.(compressed.length, files.length);
+  }
+  return compressed;
+}
+
 /**
  * Calculate new dimensions while maintaining aspect ratio
  */
@@ -145,4 +167,31 @@ function formatFileSize(bytes: number): string {
  */
 export function isImageFile(file: File): boolean {
   return file.type.startsWith('image/');
-}
\ No newline at end of file
+}
+
+/**
+ * Check if a file is a video clip the server accepts (MP4 or MOV)
+ */
+export function isVideoFile(file: File): boolean {
+  return (reportVideoContentTypes as readonly string[]).includes(file.type);
+}
+
+/**
+ * Length of a video clip in seconds, read by the browser from its metadata
+ */
+export function getVideoDuration(file: File): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load video'));
+    };
+    video.src = url;
+  });
+}
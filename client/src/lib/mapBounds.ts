@@ -0,0 +1,20 @@
+// Map viewport bounds shared between the map and the report lists
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Query params for GET /api/reports bounding box filtering.
+// Rounded so tiny map jitters reuse the same cached query.
+export const boundsToQueryParams = (bounds: MapBounds | null | undefined): Record<string, string> => {
+  if (!bounds) return {};
+  return {
+    north: bounds.north.toFixed(4),
+    south: bounds.south.toFixed(4),
+    east: bounds.east.toFixed(4),
+    west: bounds.west.toFixed(4),
+  };
+};
@@ -11,10 +11,11 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  extraHeaders: Record<string, string> = {},
 ): Promise<Response> {
   console.log("apiRequest called with:", { method, url, dataType: data?.constructor?.name });
   
-  let headers: Record<string, string> = {};
+  let headers: Record<string, string> = { ...extraHeaders };
   let body: string | FormData | undefined;
   
   if (data) {
@@ -42,6 +43,27 @@ export async function apiRequest(
   return res;
 }
 
+// Build the request URL from a query key: [url, params?]. Array params are repeated.
+function buildQueryUrl(queryKey: readonly unknown[], extraParams: Record<string, string> = {}): string {
+  let url = queryKey[0] as string;
+  const params = {
+    ...(queryKey.length > 1 && typeof queryKey[1] === 'object' ? queryKey[1] as Record<string, string | string[]> : {}),
+    ...extraParams,
+  };
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, values]) => {
+    [values].flat().forEach(value => {
+      if (value && value !== 'all') {
+        searchParams.append(key, value);
+      }
+    });
+  });
+  if (searchParams.toString()) {
+    url += '?' + searchParams.toString();
+  }
+  return url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -51,19 +73,7 @@ export const getQueryFn: <T>(options: {
     console.log("Query key:", queryKey);
     
     // Handle query key with parameters
-    let url = queryKey[0] as string;
-    if (queryKey.length > 1 && typeof queryKey[1] === 'object') {
-      const params = queryKey[1] as Record<string, string>;
-      const searchParams = new URLSearchParams();
-      Object.entries(params).forEach(([key, value]) => {
-        if (value && value !== 'all') {
-          searchParams.append(key, value);
-        }
-      });
-      if (searchParams.toString()) {
-        url += '?' + searchParams.toString();
-      }
-    }
+    const url = buildQueryUrl(queryKey);
     
     console.log("Fetching URL:", url);
     const res = await fetch(url, {
@@ -78,6 +88,20 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// Query function for useInfiniteQuery over cursor-paginated endpoints.
+// The page param is sent as the cursor query parameter.
+export const getPageQueryFn =
+  <T>(): QueryFunction<T, readonly unknown[], string | null> =>
+  async ({ queryKey, pageParam }) => {
+    const url = buildQueryUrl(queryKey, pageParam ? { cursor: pageParam } : {});
+    const res = await fetch(url, {
+      credentials: "include",
+    });
+
+    await throwIfResNotOk(res);
+    return await res.json();
+  };
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
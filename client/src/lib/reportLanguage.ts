@@ -0,0 +1,22 @@
+import { reportLanguages, type ReportLanguage } from "@shared/schema";
+
+// Dutch names, for "Vertaald uit het Frans"
+export const reportLanguageNames: Record<ReportLanguage, string> = {
+  nl: "Nederlands",
+  fr: "Frans",
+  en: "Engels",
+  de: "Duits",
+};
+
+// The first of the browser's preferred languages that reports can be translated to,
+// null when there is none (reports are then shown as written)
+export function getViewerLanguage(): ReportLanguage | null {
+  const preferred = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language];
+  for (const locale of preferred) {
+    const language = locale.slice(0, 2).toLowerCase();
+    if ((reportLanguages as readonly string[]).includes(language)) {
+      return language as ReportLanguage;
+    }
+  }
+  return null;
+}
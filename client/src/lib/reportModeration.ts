@@ -0,0 +1,21 @@
+import type { ReportModerationOutcome } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { editTokenHeaders } from "@/lib/reportTokens";
+
+const POLL_INTERVAL_MS = 2000;
+// After this the report is still checked, the reporter just stops waiting for it
+const POLL_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Polls the moderation of a submitted or edited report until the background job is done.
+// Resolves with the last outcome, still "checking" when it took longer than POLL_TIMEOUT_MS.
+export async function waitForModeration(reportId: string, editToken: string): Promise<ReportModerationOutcome> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  while (true) {
+    const response = await apiRequest('GET', `/api/reports/${reportId}/moderation`, undefined, editTokenHeaders(editToken));
+    const outcome: ReportModerationOutcome = await response.json();
+    if (outcome.status !== 'checking' || Date.now() >= deadline) {
+      return outcome;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
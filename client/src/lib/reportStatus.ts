@@ -0,0 +1,13 @@
+import type { ReportStatus } from "@shared/schema";
+
+// Display info for the report lifecycle statuses
+export const reportStatusInfo: Record<ReportStatus, { name: string; color: string }> = {
+  open: { name: "Open", color: "#6b7280" },
+  acknowledged: { name: "Acknowledged", color: "#3b82f6" },
+  in_progress: { name: "In progress", color: "#f59e0b" },
+  resolved: { name: "Resolved", color: "#16a34a" },
+  expired: { name: "Expired", color: "#9ca3af" },
+};
+
+export const getReportStatusInfo = (status: string) =>
+  reportStatusInfo[status as ReportStatus] ?? { name: status, color: "#6b7280" };
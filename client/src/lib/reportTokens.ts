@@ -0,0 +1,54 @@
+// Edit tokens of reports submitted from this browser, keyed by report id.
+// The server hands a token out once, losing it means the report can no longer be edited.
+const STORAGE_KEY = 'area.reportEditTokens';
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeTokens(tokens: Record<string, string>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  } catch (error) {
+    console.error('Could not store report edit token:', error);
+  }
+}
+
+export function getReportEditToken(reportId: string): string | undefined {
+  return readTokens()[reportId];
+}
+
+export function saveReportEditToken(reportId: string, token: string) {
+  writeTokens({ ...readTokens(), [reportId]: token });
+}
+
+export function removeReportEditToken(reportId: string) {
+  const { [reportId]: _removed, ...rest } = readTokens();
+  writeTokens(rest);
+}
+
+export const editTokenHeaders = (token: string) => ({ 'X-Edit-Token': token });
+
+// Reports from this browser that were appealed, so the reporter can follow the outcome
+const APPEALS_KEY = 'area.reportAppeals';
+
+export function getAppealedReportIds(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(APPEALS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveAppealedReportId(reportId: string) {
+  try {
+    const ids = getAppealedReportIds().filter(id => id !== reportId);
+    localStorage.setItem(APPEALS_KEY, JSON.stringify([reportId, ...ids]));
+  } catch (error) {
+    console.error('Could not store appealed report:', error);
+  }
+}
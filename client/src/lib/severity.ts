@@ -0,0 +1,20 @@
+import { REPORT_SEVERITY_MAX, REPORT_SEVERITY_MIN } from "@shared/schema";
+
+// Display info for the report severity levels (1-5)
+export const severityInfo: Record<number, { name: string; color: string }> = {
+  1: { name: "Laag", color: "#9ca3af" },
+  2: { name: "Beperkt", color: "#3b82f6" },
+  3: { name: "Matig", color: "#f59e0b" },
+  4: { name: "Hoog", color: "#f97316" },
+  5: { name: "Zeer hoog", color: "#dc2626" },
+};
+
+export const getSeverityInfo = (severity: number) =>
+  severityInfo[severity] ?? { name: String(severity), color: "#6b7280" };
+
+// Map pin diameter in pixels: 20 for severity 1 up to 36 for severity 5
+export const severityPinSize = (severity: number) =>
+  20 + 4 * (Math.min(REPORT_SEVERITY_MAX, Math.max(REPORT_SEVERITY_MIN, severity)) - REPORT_SEVERITY_MIN);
+
+// Heatmap weight of one report; a severity 3 report counts as one
+export const severityHeatWeight = (severity: number) => severity / 3;
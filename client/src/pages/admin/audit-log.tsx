@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp, ScrollText } from 'lucide-react';
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { auditActions, auditEntityTypes, type AuditEvent, type AuditEventPage } from '@shared/schema';
+
+const PAGE_SIZE = '50';
+
+const toIsoTimestamp = (value: string, addedDays = 0) => {
+  const date = parseISO(value);
+  return isValid(date) ? addDays(date, addedDays).toISOString() : '';
+};
+
+const actionVariant = (action: string): 'destructive' | 'secondary' | 'outline' =>
+  action.endsWith('.delete') || action.endsWith('.delete_all') ? 'destructive'
+    : action.startsWith('auth.') ? 'outline'
+    : 'secondary';
+
+// Top-level keys whose value differs between the two snapshots
+function changedKeys(before: unknown, after: unknown): Set<string> {
+  const a = (before ?? {}) as Record<string, unknown>;
+  const b = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return new Set(Array.from(keys).filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key])));
+}
+
+function Snapshot({ title, value, highlight }: { title: string; value: unknown; highlight: Set<string> }) {
+  if (value === null || value === undefined) {
+    return (
+      <div>
+        <div className="text-xs font-medium mb-1">{title}</div>
+        <p className="text-xs text-muted-foreground">—</p>
+      </div>
+    );
+  }
+  const entries: [string, unknown][] = typeof value === 'object' ? Object.entries(value as Record<string, unknown>) : [['value', value]];
+  return (
+    <div className="min-w-0">
+      <div className="text-xs font-medium mb-1">{title}</div>
+      <div className="text-xs font-mono bg-muted/50 rounded p-2 space-y-0.5 overflow-x-auto">
+        {entries.map(([key, entry]) => (
+          <div key={key} className={highlight.has(key) ? 'bg-yellow-200/60 dark:bg-yellow-900/40 rounded px-1' : 'px-1'}>
+            <span className="text-muted-foreground">{key}:</span> {JSON.stringify(entry)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AuditEventRow({ event }: { event: AuditEvent }) {
+  const [expanded, setExpanded] = useState(false);
+  const highlight = changedKeys(event.before, event.after);
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2" data-testid={`audit-event-${event.id}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground tabular-nums">{format(new Date(event.createdAt), 'dd/MM/yyyy HH:mm:ss')}</span>
+          <span className="font-medium">{event.actor}</span>
+          {event.actorRole && <span className="text-xs text-muted-foreground">({event.actorRole})</span>}
+          <Badge variant={actionVariant(event.action)}>{event.action}</Badge>
+          <span className="text-xs text-muted-foreground">
+            {event.entityType}{event.entityId ? ` · ${event.entityId}` : ''}
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => setExpanded(!expanded)}>
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          Details
+        </Button>
+      </div>
+      {expanded && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Snapshot title="Voor" value={event.before} highlight={highlight} />
+            <Snapshot title="Na" value={event.after} highlight={highlight} />
+          </div>
+          <p className="text-xs text-muted-foreground break-all">
+            {event.requestMethod} {event.requestPath} · IP {event.ipAddress ?? 'onbekend'} · {event.userAgent ?? 'geen user agent'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('all');
+  const [entityType, setEntityType] = useState('all');
+  const [entityId, setEntityId] = useState('');
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  // Cursor of every visited page; the last entry is the current page (null = first page)
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const currentCursor = cursors[cursors.length - 1];
+
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setCursors([null]);
+  };
+
+  // The "to" date is inclusive in the UI
+  const params = {
+    actor: actor.trim(),
+    action,
+    entityType,
+    entityId: entityId.trim(),
+    q: search.trim(),
+    from: toIsoTimestamp(fromDate),
+    to: toIsoTimestamp(toDate, 1),
+    limit: PAGE_SIZE,
+    cursor: currentCursor ?? '',
+  };
+
+  const { data: page, isLoading, error } = useQuery<AuditEventPage>({
+    queryKey: ['/api/admin/audit-events', params],
+    refetchOnMount: true,
+  });
+
+  const events = page?.events ?? [];
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Audit Log
+          </CardTitle>
+          <CardDescription>
+            Alle admin- en moderatie-acties: wie, wat, wanneer, met de toestand voor en na de wijziging
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor" className="text-xs">Gebruiker</Label>
+            <Input id="audit-actor" value={actor} onChange={(e) => withReset(setActor)(e.target.value)} data-testid="input-audit-actor" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Actie</Label>
+            <Select value={action} onValueChange={withReset(setAction)}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle acties</SelectItem>
+                {auditActions.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={entityType} onValueChange={withReset(setEntityType)}>
+              <SelectTrigger data-testid="select-audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle types</SelectItem>
+                {auditEntityTypes.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-entity-id" className="text-xs">ID</Label>
+            <Input id="audit-entity-id" value={entityId} onChange={(e) => withReset(setEntityId)(e.target.value)} data-testid="input-audit-entity-id" />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="audit-search" className="text-xs">Zoeken in inhoud</Label>
+            <Input
+              id="audit-search"
+              placeholder="bv. titel, postcode of gemeente"
+              value={search}
+              onChange={(e) => withReset(setSearch)(e.target.value)}
+              data-testid="input-audit-search"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">Van</Label>
+            <Input id="audit-from" type="date" value={fromDate} onChange={(e) => withReset(setFromDate)(e.target.value)} data-testid="input-audit-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">Tot en met</Label>
+            <Input id="audit-to" type="date" value={toDate} min={fromDate} onChange={(e) => withReset(setToDate)(e.target.value)} data-testid="input-audit-to" />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          {error && <p className="text-sm text-red-500">Audit log kon niet geladen worden: {String(error)}</p>}
+          {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+          {!isLoading && !error && events.length === 0 && (
+            <p className="text-sm text-muted-foreground">Geen acties gevonden voor deze filters.</p>
+          )}
+          {events.map(event => <AuditEventRow key={event.id} event={event} />)}
+
+          {(cursors.length > 1 || page?.nextCursor) && (
+            <div className="flex items-center justify-between pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCursors(prev => prev.length > 1 ? prev.slice(0, -1) : prev)}
+                disabled={cursors.length <= 1 || isLoading}
+                className="gap-1"
+                data-testid="button-audit-previous-page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Vorige
+              </Button>
+              <span className="text-sm text-muted-foreground">Pagina {cursors.length}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => page?.nextCursor && setCursors(prev => [...prev, page.nextCursor])}
+                disabled={!page?.nextCursor || isLoading}
+                className="gap-1"
+                data-testid="button-audit-next-page"
+              >
+                Volgende
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
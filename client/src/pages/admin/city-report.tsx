@@ -1,10 +1,120 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, isValid, parseISO, subDays } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { BarChart, FileText, TrendingUp, Calendar, MapPin, Users, Download, Filter } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { BarChart, FileText, TrendingUp, Calendar, Clock, ShieldAlert, Download } from 'lucide-react';
+import { categories } from '@/lib/categories';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { REPORT_SEVERITY_MAX, type CityReportFormat, type IncidentTimeStats, type Municipality, type ReportCategoryStats, type ReportStatsSummary, type StatsCount } from '@shared/schema';
+
+const PERIOD_PRESETS = [
+  { value: '7', label: 'Laatste 7 dagen' },
+  { value: '30', label: 'Laatste 30 dagen' },
+  { value: '90', label: 'Laatste 90 dagen' },
+  { value: '365', label: 'Laatste jaar' },
+];
+const WEEKDAYS = ['Ma', 'Di', 'Wo', 'Do', 'Vr', 'Za', 'Zo'];
+const EXPORT_FORMATS: { value: CityReportFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF rapport' },
+  { value: 'csv', label: 'CSV (meldingen)' },
+  { value: 'geojson', label: 'GeoJSON (kaart)' },
+];
+const DATE_INPUT_FORMAT = 'yyyy-MM-dd';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDelta = (count: StatsCount) => {
+  if (count.delta === null) return 'geen data vorige periode';
+  const sign = count.delta > 0 ? '+' : '';
+  return `${sign}${Math.round(count.delta * 100)}% vs vorige periode`;
+};
+
+// ISO timestamp for a date input value; empty (API default) while the input is cleared
+const toIsoTimestamp = (value: string, addedDays = 0) => {
+  const date = parseISO(value);
+  return isValid(date) ? addDays(date, addedDays).toISOString() : '';
+};
+
+const formatHours = (hours: number | null) => hours === null ? '–' : `${hours.toFixed(1)}u`;
+
+const formatSeverity = (severity: number | null) => severity === null ? '–' : `${severity.toFixed(1)}/${REPORT_SEVERITY_MAX}`;
+
+const getCategoryInfo = (category: string) =>
+  categories[category as keyof typeof categories] ?? { name: category, color: '#6b7280' };
+
+// Vertical bars for a fixed set of buckets (hours, weekdays)
+function DistributionBars({ values, labels, testId }: { values: number[]; labels: string[]; testId: string }) {
+  const max = Math.max(...values, 1);
+  return (
+    <div className="flex items-end gap-1 h-32" data-testid={testId}>
+      {values.map((value, index) => (
+        <div key={labels[index]} className="flex-1 flex flex-col items-center justify-end h-full" title={`${labels[index]}: ${value}`}>
+          <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(value / max) * 100}%` }} />
+          <span className="text-[10px] text-muted-foreground mt-1">{labels[index]}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export default function CityReportPage() {
+  const today = new Date();
+  const { user } = useAdminAuth();
+  // Municipality viewers are limited to their own municipality (enforced by the API)
+  const ownMunicipality = user?.role === 'municipality_viewer' ? user.municipality : null;
+  const [preset, setPreset] = useState('30');
+  const [fromDate, setFromDate] = useState(format(subDays(today, 30), DATE_INPUT_FORMAT));
+  const [toDate, setToDate] = useState(format(today, DATE_INPUT_FORMAT));
+  const [municipality, setMunicipality] = useState(ownMunicipality ?? 'all');
+  const [postcode, setPostcode] = useState('');
+
+  const { data: municipalities = [] } = useQuery<Municipality[]>({
+    queryKey: ['/api/admin/municipalities'],
+  });
+
+  // The "to" date is inclusive in the UI, the API expects an exclusive end
+  const statsParams = {
+    from: toIsoTimestamp(fromDate),
+    to: toIsoTimestamp(toDate, 1),
+    municipality: postcode ? '' : municipality,
+    postcode: /^\d{4}$/.test(postcode) ? postcode : '',
+  };
+
+  const { data: summary, isLoading: summaryLoading, error: summaryError } = useQuery<ReportStatsSummary>({
+    queryKey: ['/api/admin/stats/summary', statsParams],
+  });
+  const { data: categoryStats } = useQuery<ReportCategoryStats>({
+    queryKey: ['/api/admin/stats/categories', statsParams],
+  });
+  const { data: timeStats } = useQuery<IncidentTimeStats>({
+    queryKey: ['/api/admin/stats/incident-times', statsParams],
+  });
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value);
+    setFromDate(format(subDays(today, Number(value)), DATE_INPUT_FORMAT));
+    setToDate(format(today, DATE_INPUT_FORMAT));
+  };
+
+  // Exports are per municipality or postcode; the browser downloads the attachment
+  const canExport = !!statsParams.postcode || statsParams.municipality !== 'all';
+  const handleExport = (exportFormat: CityReportFormat) => {
+    const params = new URLSearchParams({ format: exportFormat });
+    Object.entries(statsParams).forEach(([key, value]) => {
+      if (value && value !== 'all') params.append(key, value);
+    });
+    window.location.href = `/api/admin/city-report/export?${params}`;
+  };
+
+  const municipalityNames = ownMunicipality
+    ? [ownMunicipality]
+    : Array.from(new Set(municipalities.map(m => m.name))).sort();
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -15,17 +125,104 @@ export default function CityReportPage() {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" size="sm" data-testid="button-filter">
-            <Filter className="h-4 w-4 mr-2" />
-            Filter
-          </Button>
-          <Button size="sm" data-testid="button-export">
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                size="sm"
+                disabled={!canExport}
+                title={canExport ? undefined : 'Kies eerst een gemeente of postcode'}
+                data-testid="button-export"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMATS.map(option => (
+                <DropdownMenuItem
+                  key={option.value}
+                  onClick={() => handleExport(option.value)}
+                  data-testid={`menu-export-${option.value}`}
+                >
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
+      {/* Filters */}
+      <Card data-testid="card-stats-filters">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Periode</Label>
+            <Select value={preset} onValueChange={handlePresetChange}>
+              <SelectTrigger data-testid="select-stats-period">
+                <SelectValue placeholder="Aangepast" />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_PRESETS.map(p => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stats-from" className="text-xs">Van</Label>
+            <Input
+              id="stats-from"
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => { setFromDate(e.target.value); setPreset(''); }}
+              data-testid="input-stats-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stats-to" className="text-xs">Tot en met</Label>
+            <Input
+              id="stats-to"
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => { setToDate(e.target.value); setPreset(''); }}
+              data-testid="input-stats-to"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Gemeente</Label>
+            <Select value={municipality} onValueChange={setMunicipality} disabled={!!postcode || !!ownMunicipality}>
+              <SelectTrigger data-testid="select-stats-municipality">
+                <SelectValue placeholder="Alle gemeenten" />
+              </SelectTrigger>
+              <SelectContent>
+                {!ownMunicipality && <SelectItem value="all">Alle gemeenten</SelectItem>}
+                {municipalityNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stats-postcode" className="text-xs">Postcode</Label>
+            <Input
+              id="stats-postcode"
+              inputMode="numeric"
+              maxLength={4}
+              placeholder="bv. 2000"
+              value={postcode}
+              onChange={(e) => setPostcode(e.target.value.replace(/\D/g, ''))}
+              data-testid="input-stats-postcode"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {summaryError && (
+        <p className="text-sm text-red-500">Statistieken konden niet geladen worden: {String(summaryError)}</p>
+      )}
+
       {/* Summary Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card data-testid="card-total-reports">
@@ -33,8 +230,11 @@ export default function CityReportPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Totaal Rapporten</p>
-                <p className="text-2xl font-bold">1,247</p>
-                <p className="text-xs text-green-600">+12% vs vorige maand</p>
+                <p className="text-2xl font-bold">{summaryLoading ? '…' : summary?.reports.current ?? 0}</p>
+                <p className="text-xs text-blue-600">{summary ? formatDelta(summary.reports) : ' '}</p>
+                <p className="text-xs text-muted-foreground" data-testid="text-high-severity">
+                  {summary ? `${summary.highSeverity.current} ernstig, gem. ernst ${formatSeverity(summary.avgSeverity.current)}` : ' '}
+                </p>
               </div>
               <FileText className="h-8 w-8 text-blue-600" />
             </div>
@@ -46,23 +246,27 @@ export default function CityReportPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Opgelost</p>
-                <p className="text-2xl font-bold">1,089</p>
-                <p className="text-xs text-green-600">87% resolutie rate</p>
+                <p className="text-2xl font-bold">{summaryLoading ? '…' : summary?.resolved.current ?? 0}</p>
+                <p className="text-xs text-green-600">
+                  {summary ? `${formatPercent(summary.resolutionRate)} resolutie rate` : ' '}
+                </p>
               </div>
               <TrendingUp className="h-8 w-8 text-green-600" />
             </div>
           </CardContent>
         </Card>
 
-        <Card data-testid="card-active-users">
+        <Card data-testid="card-rejected-reports">
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">Actieve Gebruikers</p>
-                <p className="text-2xl font-bold">3,421</p>
-                <p className="text-xs text-blue-600">+8% vs vorige maand</p>
+                <p className="text-sm text-muted-foreground">Afgewezen</p>
+                <p className="text-2xl font-bold">{summaryLoading ? '…' : summary?.rejected.current ?? 0}</p>
+                <p className="text-xs text-red-600">
+                  {summary ? `${formatPercent(summary.rejectionRate)} afgewezen, ${formatPercent(summary.moderationRate)} herschreven` : ' '}
+                </p>
               </div>
-              <Users className="h-8 w-8 text-purple-600" />
+              <ShieldAlert className="h-8 w-8 text-red-600" />
             </div>
           </CardContent>
         </Card>
@@ -72,8 +276,10 @@ export default function CityReportPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Gem. Reactietijd</p>
-                <p className="text-2xl font-bold">2.4u</p>
-                <p className="text-xs text-green-600">-0.6u vs vorige maand</p>
+                <p className="text-2xl font-bold">{summaryLoading ? '…' : formatHours(summary?.avgResponseHours.current ?? null)}</p>
+                <p className="text-xs text-muted-foreground">
+                  vorige periode: {formatHours(summary?.avgResponseHours.previous ?? null)}
+                </p>
               </div>
               <Calendar className="h-8 w-8 text-orange-600" />
             </div>
@@ -89,193 +295,88 @@ export default function CityReportPage() {
             Rapport Categorieën
           </CardTitle>
           <CardDescription>
-            Verdeling van rapporten per categorie (laatste 30 dagen)
+            Verdeling van rapporten per categorie en subcategorie in de gekozen periode
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className="w-3 h-3 bg-red-500 rounded-full"></div>
-                <span className="font-medium">Gevaar & Criminaliteit</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="w-32 bg-gray-200 rounded-full h-2">
-                  <div className="bg-red-500 h-2 rounded-full" style={{ width: '35%' }}></div>
-                </div>
-                <span className="text-sm text-muted-foreground w-12">35%</span>
-              </div>
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
-                <span className="font-medium">Overlast</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="w-32 bg-gray-200 rounded-full h-2">
-                  <div className="bg-orange-500 h-2 rounded-full" style={{ width: '28%' }}></div>
-                </div>
-                <span className="text-sm text-muted-foreground w-12">28%</span>
-              </div>
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
-                <span className="font-medium">Infrastructuur</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="w-32 bg-gray-200 rounded-full h-2">
-                  <div className="bg-yellow-500 h-2 rounded-full" style={{ width: '22%' }}></div>
-                </div>
-                <span className="text-sm text-muted-foreground w-12">22%</span>
-              </div>
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                <span className="font-medium">Status Updates</span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="w-32 bg-gray-200 rounded-full h-2">
-                  <div className="bg-green-500 h-2 rounded-full" style={{ width: '15%' }}></div>
-                </div>
-                <span className="text-sm text-muted-foreground w-12">15%</span>
-              </div>
+          {!categoryStats || categoryStats.categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Geen rapporten in deze periode</p>
+          ) : (
+            <div className="space-y-4">
+              {categoryStats.categories.map(stats => {
+                const { name, color } = getCategoryInfo(stats.category);
+                return (
+                  <div key={stats.category} className="space-y-1" data-testid={`stats-category-${stats.category}`}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></div>
+                        <span className="font-medium">{name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {stats.count} rapporten • {formatPercent(stats.rejectionRate)} afgewezen • gem. ernst {formatSeverity(stats.avgSeverity)}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="w-32 bg-gray-200 rounded-full h-2">
+                          <div className="h-2 rounded-full" style={{ width: formatPercent(stats.share), backgroundColor: color }}></div>
+                        </div>
+                        <span className="text-sm text-muted-foreground w-12">{formatPercent(stats.share)}</span>
+                      </div>
+                    </div>
+                    {stats.subcategories.map(sub => (
+                      <div key={sub.subcategory} className="flex items-center justify-between pl-6 text-sm text-muted-foreground">
+                        <span>{sub.subcategory}</span>
+                        <span>{sub.count} ({formatPercent(sub.share)})</span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
 
       <div className="grid md:grid-cols-2 gap-6">
-        {/* Geographic Distribution */}
-        <Card data-testid="card-geographic-distribution">
+        {/* Hour of day */}
+        <Card data-testid="card-incident-hours">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <MapPin className="h-5 w-5" />
-              Geografische Verdeling
+              <Clock className="h-5 w-5" />
+              Tijdstip van Incidenten
             </CardTitle>
             <CardDescription>
-              Rapport dichtheid per wijk
+              Aantal incidenten per uur van de dag ({timeStats?.total ?? 0} met tijdstip)
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <span className="text-sm">Centrum</span>
-                <Badge variant="secondary">142 rapporten</Badge>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm">Noord</span>
-                <Badge variant="secondary">98 rapporten</Badge>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm">Zuid</span>
-                <Badge variant="secondary">87 rapporten</Badge>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm">Oost</span>
-                <Badge variant="secondary">76 rapporten</Badge>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm">West</span>
-                <Badge variant="secondary">63 rapporten</Badge>
-              </div>
-            </div>
+          <CardContent>
+            <DistributionBars
+              values={timeStats?.byHour ?? new Array(24).fill(0)}
+              labels={Array.from({ length: 24 }, (_, hour) => String(hour))}
+              testId="bars-incident-hours"
+            />
           </CardContent>
         </Card>
 
-        {/* Recent Trends */}
-        <Card data-testid="card-recent-trends">
+        {/* Day of week */}
+        <Card data-testid="card-incident-weekdays">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="h-5 w-5" />
-              Recente Trends
+              <Calendar className="h-5 w-5" />
+              Dag van de Week
             </CardTitle>
             <CardDescription>
-              Opvallende ontwikkelingen deze maand
+              Aantal incidenten per weekdag
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="space-y-3">
-              <div className="p-3 bg-green-50 border-l-4 border-l-green-500 rounded-r">
-                <div className="flex items-center gap-2">
-                  <TrendingUp className="h-4 w-4 text-green-600" />
-                  <span className="font-medium text-green-700">Verbeterde Reactietijd</span>
-                </div>
-                <p className="text-sm text-green-600 mt-1">
-                  25% snellere reacties door nieuwe workflow
-                </p>
-              </div>
-
-              <div className="p-3 bg-blue-50 border-l-4 border-l-blue-500 rounded-r">
-                <div className="flex items-center gap-2">
-                  <Users className="h-4 w-4 text-blue-600" />
-                  <span className="font-medium text-blue-700">Meer Betrokkenheid</span>
-                </div>
-                <p className="text-sm text-blue-600 mt-1">
-                  15% toename in actieve gebruikers
-                </p>
-              </div>
-
-              <div className="p-3 bg-orange-50 border-l-4 border-l-orange-500 rounded-r">
-                <div className="flex items-center gap-2">
-                  <MapPin className="h-4 w-4 text-orange-600" />
-                  <span className="font-medium text-orange-700">Hotspot Identificatie</span>
-                </div>
-                <p className="text-sm text-orange-600 mt-1">
-                  3 nieuwe aandachtsgebieden geïdentificeerd
-                </p>
-              </div>
-            </div>
+          <CardContent>
+            <DistributionBars
+              values={timeStats?.byWeekday ?? new Array(7).fill(0)}
+              labels={WEEKDAYS}
+              testId="bars-incident-weekdays"
+            />
           </CardContent>
         </Card>
       </div>
-
-      {/* Monthly Summary */}
-      <Card data-testid="card-monthly-summary">
-        <CardHeader>
-          <CardTitle>Maandelijkse Samenvatting</CardTitle>
-          <CardDescription>
-            Uitgebreide analyse van september 2025
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid md:grid-cols-3 gap-4 text-sm">
-            <div>
-              <h4 className="font-medium mb-2">Belangrijkste Verbeteringen</h4>
-              <ul className="space-y-1 text-muted-foreground">
-                <li>• AI moderatie systeem geoptimaliseerd</li>
-                <li>• Nieuwe filterfuncties toegevoegd</li>
-                <li>• Mobile interface verbeterd</li>
-                <li>• Notificatie systeem uitgebreid</li>
-              </ul>
-            </div>
-            
-            <div>
-              <h4 className="font-medium mb-2">Gemeenschaps Feedback</h4>
-              <ul className="space-y-1 text-muted-foreground">
-                <li>• 4.6/5 sterren tevredenheid</li>
-                <li>• 92% vindt platform nuttig</li>
-                <li>• 78% rapporteert regelmatig</li>
-                <li>• 85% beveelt platform aan</li>
-              </ul>
-            </div>
-            
-            <div>
-              <h4 className="font-medium mb-2">Toekomstplannen</h4>
-              <ul className="space-y-1 text-muted-foreground">
-                <li>• Integratie met gemeente systemen</li>
-                <li>• Uitbreiding naar buursteden</li>
-                <li>• Predictive analytics toevoegen</li>
-                <li>• Automatische follow-ups</li>
-              </ul>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Copy, Merge, Unlink } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { categories, type Report, type ReportCluster, type ReportClusterMerge } from '@shared/schema';
+
+function ClusterReportRow({ report, canonical, onSplit, disabled }: {
+  report: Report;
+  canonical: boolean;
+  onSplit: () => void;
+  disabled: boolean;
+}) {
+  const category = categories[report.category as keyof typeof categories];
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border rounded p-2" data-testid={`cluster-report-${report.id}`}>
+      <div className="min-w-0 space-y-0.5">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-sm break-words">{report.title}</span>
+          {canonical && <Badge variant="secondary">Canoniek</Badge>}
+          {!report.isPublic && <Badge variant="outline">Niet publiek</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground line-clamp-2">{report.description}</p>
+        <p className="text-xs text-muted-foreground">
+          {category?.name ?? report.category}
+          {` · ${format(new Date(report.createdAt), 'dd/MM/yyyy HH:mm')}`}
+          {report.latitude !== null && report.longitude !== null && ` · ${report.latitude.toFixed(5)}, ${report.longitude.toFixed(5)}`}
+          {` · ${report.id}`}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" className="gap-1 flex-shrink-0" onClick={onSplit} disabled={disabled} data-testid={`button-split-${report.id}`}>
+        <Unlink className="h-4 w-4" />
+        Loskoppelen
+      </Button>
+    </div>
+  );
+}
+
+// Reports of the same incident, linked on submission or by a moderator. Merging selected clusters
+// keeps the oldest canonical report; a report split off a cluster stands on its own again.
+export default function DuplicatesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [addIds, setAddIds] = useState<Record<string, string>>({});
+
+  const { data: clusters = [], isLoading } = useQuery<ReportCluster[]>({
+    queryKey: ['/api/admin/report-clusters'],
+    refetchOnMount: true,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/report-clusters'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+  };
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Wijziging opslaan is mislukt.',
+      variant: 'destructive',
+    });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (merge: ReportClusterMerge) => {
+      const response = await apiRequest('POST', '/api/admin/report-clusters/merge', merge);
+      return response.json() as Promise<ReportCluster>;
+    },
+    onSuccess: (cluster) => {
+      onChanged();
+      setSelected(new Set());
+      setAddIds({});
+      toast({ title: 'Samengevoegd', description: `De cluster telt nu ${cluster.duplicates.length + 1} meldingen.` });
+    },
+    onError,
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async (reportIds: string[]) => {
+      await apiRequest('POST', '/api/admin/report-clusters/split', { reportIds });
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: 'Losgekoppeld', description: 'De melding staat weer op zichzelf.' });
+    },
+    onError,
+  });
+
+  const isSaving = mergeMutation.isPending || splitMutation.isPending;
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Into the oldest selected canonical report
+  const mergeSelected = () => {
+    const chosen = clusters
+      .filter(cluster => selected.has(cluster.canonical.id))
+      .sort((a, b) => new Date(a.canonical.createdAt).getTime() - new Date(b.canonical.createdAt).getTime());
+    if (chosen.length >= 2) {
+      mergeMutation.mutate({ canonicalId: chosen[0].canonical.id, reportIds: chosen.slice(1).map(cluster => cluster.canonical.id) });
+    }
+  };
+
+  const addToCluster = (canonicalId: string) => {
+    const reportId = addIds[canonicalId]?.trim();
+    if (reportId) {
+      mergeMutation.mutate({ canonicalId, reportIds: [reportId] });
+    }
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicate Reports
+          </CardTitle>
+          <CardDescription>
+            Meldingen van hetzelfde incident: zelfde categorie, dicht bij elkaar, kort na elkaar en met gelijkaardige tekst. De kaart toont enkel de canonieke melding. Voeg clusters samen die over hetzelfde gaan, of koppel een melding los die er niet bij hoort.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm text-muted-foreground">{clusters.length} cluster(s)</span>
+            <Button className="gap-2" onClick={mergeSelected} disabled={selected.size < 2 || isSaving} data-testid="button-merge-clusters">
+              <Merge className="h-4 w-4" />
+              Samenvoegen ({selected.size})
+            </Button>
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+          {!isLoading && clusters.length === 0 && (
+            <p className="text-muted-foreground text-center py-4">Geen dubbele meldingen gevonden</p>
+          )}
+
+          {clusters.map(cluster => (
+            <div key={cluster.canonical.id} className="border rounded-lg p-3 space-y-2" data-testid={`cluster-${cluster.canonical.id}`}>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  checked={selected.has(cluster.canonical.id)}
+                  onCheckedChange={() => toggleSelected(cluster.canonical.id)}
+                  data-testid={`checkbox-cluster-${cluster.canonical.id}`}
+                />
+                <span className="text-sm font-medium">{cluster.duplicates.length + 1} meldingen</span>
+              </div>
+              {[cluster.canonical, ...cluster.duplicates].map(report => (
+                <ClusterReportRow
+                  key={report.id}
+                  report={report}
+                  canonical={report.id === cluster.canonical.id}
+                  onSplit={() => splitMutation.mutate([report.id])}
+                  disabled={isSaving}
+                />
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Melding ID toevoegen aan deze cluster"
+                  value={addIds[cluster.canonical.id] ?? ''}
+                  onChange={(e) => setAddIds(prev => ({ ...prev, [cluster.canonical.id]: e.target.value }))}
+                  data-testid={`input-add-to-cluster-${cluster.canonical.id}`}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => addToCluster(cluster.canonical.id)}
+                  disabled={!addIds[cluster.canonical.id]?.trim() || isSaving}
+                >
+                  Toevoegen
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
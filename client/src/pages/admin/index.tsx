@@ -1,28 +1,78 @@
 import React from 'react';
 import { Switch, Route, useLocation } from "wouter";
+import { Button } from '@/components/ui/button';
+import { LogOut } from 'lucide-react';
 import { DesktopSidebar, MobileShortcuts, MobileMenuButton } from '@/components/admin/AdminNavigation';
+import AdminLogin from '@/components/admin/AdminLogin';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import type { AdminRole } from '@shared/schema';
 import ReportsPage from './reports';
 import ModerationPage from './moderation';
+import ModerationQueuePage from './moderation-queue';
+import DuplicatesPage from './duplicates';
 import MunicipalityFormsPage from './municipality-forms';
 import NewsReportsPage from './news-reports';
 import BestPracticesPage from './best-practices';
 import CityReportPage from './city-report';
+import UsersPage from './users';
+import AuditLogPage from './audit-log';
+
+const roleLabels: Record<AdminRole, string> = {
+  superadmin: 'Superadmin',
+  moderator: 'Moderator',
+  municipality_viewer: 'Gemeente',
+};
 
 export default function AdminLayout() {
   const [location, setLocation] = useLocation();
+  const { user, isLoading, logoutMutation } = useAdminAuth();
 
   const handleNavigate = (path: string) => {
     setLocation(path);
   };
 
+  if (isLoading) {
+    return <div className="min-h-screen admin-container flex items-center justify-center text-muted-foreground">Laden...</div>;
+  }
+  if (!user) {
+    return <AdminLogin />;
+  }
+
+  const role = user.role as AdminRole;
+  const isStaff = role === 'superadmin' || role === 'moderator';
+  // Municipality viewers only have the City Report
+  const HomePage = isStaff ? ReportsPage : CityReportPage;
+
+  const accountInfo = (
+    <div className="flex items-center gap-3">
+      <div className="text-right">
+        <div className="text-sm font-medium" data-testid="text-admin-username">{user.username}</div>
+        <div className="text-xs text-muted-foreground">
+          {roleLabels[role]}{user.municipality ? ` · ${user.municipality}` : ''}
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+        data-testid="button-admin-logout"
+      >
+        <LogOut className="h-4 w-4" />
+        Uitloggen
+      </Button>
+    </div>
+  );
+
   return (
     <div className="min-h-screen admin-container">
       {/* Mobile Menu Button */}
-      <MobileMenuButton />
+      <MobileMenuButton role={role} />
       
       <div className="flex">
         {/* Desktop Sidebar */}
-        <DesktopSidebar currentPath={location} onNavigate={handleNavigate} />
+        <DesktopSidebar role={role} currentPath={location} onNavigate={handleNavigate} />
         
         {/* Main Content */}
         <div className="flex-1 flex flex-col min-h-screen">
@@ -31,30 +81,37 @@ export default function AdminLayout() {
             <div className="pt-16 pb-2 px-4 admin-panel border-b">
               <h1 className="text-xl md:text-2xl font-bold text-center">Admin Panel</h1>
               <p className="text-sm text-muted-foreground text-center">Manage your Area platform</p>
+              <div className="flex justify-center mt-3">{accountInfo}</div>
             </div>
-            <MobileShortcuts currentPath={location} onNavigate={handleNavigate} />
+            <MobileShortcuts role={role} currentPath={location} onNavigate={handleNavigate} />
           </div>
           
           {/* Desktop Header */}
           <div className="hidden md:block border-b admin-panel">
-            <div className="p-6">
-              <h1 className="text-2xl font-bold">Admin Panel</h1>
-              <p className="text-muted-foreground">Manage your Area community safety platform</p>
+            <div className="p-6 flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold">Admin Panel</h1>
+                <p className="text-muted-foreground">Manage your Area community safety platform</p>
+              </div>
+              {accountInfo}
             </div>
           </div>
           
           {/* Page Content */}
           <div className="flex-1 p-3 md:p-6 admin-page">
             <Switch>
-              <Route path="/admin" component={ReportsPage} />
-              <Route path="/admin/reports" component={ReportsPage} />
-              <Route path="/admin/moderation" component={ModerationPage} />
-              <Route path="/admin/municipality-forms" component={MunicipalityFormsPage} />
-              <Route path="/admin/news-reports" component={NewsReportsPage} />
-              <Route path="/admin/best-practices" component={BestPracticesPage} />
+              {isStaff && <Route path="/admin/reports" component={ReportsPage} />}
+              {isStaff && <Route path="/admin/moderation-queue" component={ModerationQueuePage} />}
+              {isStaff && <Route path="/admin/duplicates" component={DuplicatesPage} />}
+              {isStaff && <Route path="/admin/moderation" component={ModerationPage} />}
+              {isStaff && <Route path="/admin/municipality-forms" component={MunicipalityFormsPage} />}
+              {isStaff && <Route path="/admin/news-reports" component={NewsReportsPage} />}
+              {isStaff && <Route path="/admin/best-practices" component={BestPracticesPage} />}
+              {role === 'superadmin' && <Route path="/admin/users" component={UsersPage} />}
+              {role === 'superadmin' && <Route path="/admin/audit-log" component={AuditLogPage} />}
               <Route path="/admin/city-report" component={CityReportPage} />
-              {/* Fallback to reports */}
-              <Route component={ReportsPage} />
+              {/* Fallback to the role's home page */}
+              <Route component={HomePage} />
             </Switch>
           </div>
         </div>
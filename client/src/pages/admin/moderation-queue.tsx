@@ -0,0 +1,366 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Inbox, Pencil, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { RedactedText, RedactionSummary } from '@/components/admin/RedactedText';
+import {
+  REVIEW_CONFIDENCE_THRESHOLD,
+  categories,
+  moderationQueueViews,
+  type ModerationQueueItem,
+  type ModerationQueueView,
+  type ModerationReview,
+  type ModerationReviewResponse,
+} from '@shared/schema';
+
+const statusLabels: Record<ModerationQueueView, string> = {
+  pending: 'Wacht op review',
+  appealed: 'Bezwaar van melder',
+  rejected: 'Afgewezen',
+};
+
+const shortcuts: [string, string][] = [
+  ['j / k', 'volgende / vorige'],
+  ['x', 'selecteren'],
+  ['shift+x', 'alles selecteren'],
+  ['a', 'goedkeuren'],
+  ['e', 'bewerken en goedkeuren'],
+  ['r', 'afwijzen met reden'],
+  ['esc', 'annuleren'],
+];
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+function TextColumn({ title, heading, body, footer }: { title: string; heading: React.ReactNode; body: React.ReactNode; footer?: React.ReactNode }) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <div className="bg-muted/40 rounded p-2 text-sm space-y-1">
+        <p className="font-medium break-words">{heading}</p>
+        <p className="whitespace-pre-wrap break-words">{body}</p>
+      </div>
+      {footer}
+    </div>
+  );
+}
+
+// Reports the AI did not publish: pending ones (PII or low confidence), appealed and rejected ones.
+// Keyboard driven so a moderator can work through the queue without the mouse.
+export default function ModerationQueuePage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ModerationQueueView>('pending');
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; title: string; description: string } | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const reasonInputRef = useRef<HTMLInputElement>(null);
+  const itemRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const { data: queue = [], isLoading } = useQuery<ModerationQueueItem[]>({
+    queryKey: ['/api/admin/moderation-queue', { status }],
+    refetchOnMount: true,
+  });
+
+  const focused = queue[Math.min(focusIndex, queue.length - 1)];
+  // Bulk actions apply to the selection, or to the focused report when nothing is selected
+  const targetIds = selected.size > 0 ? Array.from(selected) : focused ? [focused.id] : [];
+
+  useEffect(() => {
+    setFocusIndex(0);
+    setSelected(new Set());
+    setEditing(null);
+  }, [status]);
+
+  useEffect(() => {
+    if (focused) {
+      itemRefs.current[focused.id]?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focused?.id]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (review: ModerationReview) => {
+      const response = await apiRequest('POST', '/api/admin/moderation-queue/review', review);
+      return response.json() as Promise<ModerationReviewResponse>;
+    },
+    onSuccess: (result, review) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+      setSelected(new Set());
+      setEditing(null);
+      setRejectReason('');
+      toast({
+        title: review.decision === 'approve' ? 'Goedgekeurd' : 'Afgewezen',
+        description: `${result.reviewed.length} melding(en) verwerkt` +
+          (result.skipped.length > 0 ? `, ${result.skipped.length} overgeslagen (al behandeld of verwijderd).` : '.'),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Review opslaan is mislukt.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const approve = () => {
+    if (targetIds.length > 0) {
+      reviewMutation.mutate({ ids: targetIds, decision: 'approve' });
+    }
+  };
+
+  const startEdit = () => {
+    if (focused) {
+      setEditing({ id: focused.id, title: focused.title, description: focused.description });
+    }
+  };
+
+  const saveEdit = () => {
+    if (editing && editing.title.trim() && editing.description.trim()) {
+      reviewMutation.mutate({ ids: [editing.id], decision: 'approve', title: editing.title, description: editing.description });
+    }
+  };
+
+  const reject = () => {
+    if (targetIds.length > 0 && rejectReason.trim()) {
+      reviewMutation.mutate({ ids: targetIds, decision: 'reject', reason: rejectReason });
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setEditing(null);
+        if (isTyping(event.target)) (event.target as HTMLElement).blur();
+        return;
+      }
+      if (isTyping(event.target) || event.ctrlKey || event.metaKey || event.altKey || reviewMutation.isPending) {
+        return;
+      }
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          setFocusIndex(index => Math.min(index + 1, queue.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          setFocusIndex(index => Math.max(index - 1, 0));
+          break;
+        case 'x':
+          if (focused) toggleSelected(focused.id);
+          break;
+        case 'X':
+          setSelected(prev => prev.size === queue.length ? new Set() : new Set(queue.map(report => report.id)));
+          break;
+        case 'a':
+          approve();
+          break;
+        case 'e':
+          startEdit();
+          break;
+        case 'r':
+          setEditing(null);
+          reasonInputRef.current?.focus();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Moderation Queue
+          </CardTitle>
+          <CardDescription>
+            Meldingen die de AI niet automatisch publiceerde. Vergelijk de originele met de geformaliseerde tekst en keur goed, bewerk of wijs af. Een bezwaar wordt toegekend door de melding goed te keuren en afgewezen door ze opnieuw af te wijzen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <Select value={status} onValueChange={(value) => setStatus(value as ModerationQueueView)}>
+              <SelectTrigger className="sm:w-56" data-testid="select-queue-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {moderationQueueViews.map(value => (
+                  <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">
+              {queue.length} melding(en){selected.size > 0 && ` · ${selected.size} geselecteerd`}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {shortcuts.map(([key, label]) => (
+              <span key={key}><kbd className="font-mono bg-muted rounded px-1">{key}</kbd> {label}</span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {queue.length > 0 && (
+        <div className="sticky top-0 z-10 admin-panel border rounded-lg p-3 flex flex-col md:flex-row md:items-center gap-2">
+          <Button size="sm" className="gap-1" onClick={approve} disabled={reviewMutation.isPending || targetIds.length === 0} data-testid="button-queue-approve">
+            <Check className="h-4 w-4" />
+            Goedkeuren ({targetIds.length})
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={startEdit} disabled={reviewMutation.isPending || !focused} data-testid="button-queue-edit">
+            <Pencil className="h-4 w-4" />
+            Bewerken
+          </Button>
+          <form
+            className="flex flex-1 gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              reject();
+            }}
+          >
+            <Input
+              ref={reasonInputRef}
+              placeholder="Reden voor afwijzing"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              maxLength={500}
+              data-testid="input-queue-reject-reason"
+            />
+            <Button
+              type="submit"
+              variant="destructive"
+              size="sm"
+              className="gap-1"
+              disabled={reviewMutation.isPending || targetIds.length === 0 || !rejectReason.trim()}
+              data-testid="button-queue-reject"
+            >
+              <X className="h-4 w-4" />
+              Afwijzen ({targetIds.length})
+            </Button>
+          </form>
+        </div>
+      )}
+
+      {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+      {!isLoading && queue.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-8">Geen meldingen in deze wachtrij.</p>
+      )}
+
+      <div className="space-y-3">
+        {queue.map((report, index) => {
+          const isFocused = report.id === focused?.id;
+          const isEditing = editing?.id === report.id;
+          const category = categories[report.category as keyof typeof categories];
+          return (
+            <div
+              key={report.id}
+              ref={(element) => { itemRefs.current[report.id] = element; }}
+              onClick={() => setFocusIndex(index)}
+              className={`border rounded-lg p-3 space-y-3 ${isFocused ? 'ring-2 ring-primary' : ''}`}
+              data-testid={`queue-item-${report.id}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.has(report.id)}
+                  onCheckedChange={() => toggleSelected(report.id)}
+                  data-testid={`checkbox-queue-${report.id}`}
+                />
+                <span className="text-muted-foreground tabular-nums">{format(new Date(report.createdAt), 'dd/MM/yyyy HH:mm')}</span>
+                <Badge variant="secondary">{category?.name ?? report.category}</Badge>
+                {report.moderationConfidence !== null && (
+                  <Badge variant={report.moderationConfidence < REVIEW_CONFIDENCE_THRESHOLD ? 'outline' : 'secondary'}>
+                    AI zekerheid {Math.round(report.moderationConfidence * 100)}%
+                  </Badge>
+                )}
+                {report.editedAt && <span className="text-xs text-muted-foreground">bewerkt door melder</span>}
+                {report.reviewedBy && (
+                  <span className="text-xs text-muted-foreground">
+                    beoordeeld door {report.reviewedBy}{report.reviewedAt && ` op ${format(new Date(report.reviewedAt), 'dd/MM HH:mm')}`}
+                  </span>
+                )}
+              </div>
+              {report.moderationReason && (
+                <p className="text-xs text-orange-700">Reden: {report.moderationReason}</p>
+              )}
+              {report.appeal && (
+                <div className="text-xs border-l-2 border-blue-400 pl-2">
+                  <span className="font-medium">Bezwaar van de melder ({format(new Date(report.appeal.createdAt), 'dd/MM HH:mm')}):</span>{' '}
+                  <span className="whitespace-pre-wrap">{report.appeal.explanation}</span>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <TextColumn
+                  title="Origineel"
+                  heading={<RedactedText text={report.originalTitle ?? report.title} redactions={report.piiRedactions} field="title" />}
+                  body={<RedactedText text={report.originalDescription ?? report.description} redactions={report.piiRedactions} field="description" />}
+                  footer={<RedactionSummary redactions={report.piiRedactions} />}
+                />
+                {isEditing ? (
+                  <div className="min-w-0 space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">Bewerkte versie</div>
+                    <Input
+                      autoFocus
+                      value={editing.title}
+                      onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                      data-testid="input-queue-edit-title"
+                    />
+                    <Textarea
+                      rows={4}
+                      value={editing.description}
+                      onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveEdit();
+                      }}
+                      data-testid="input-queue-edit-description"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={saveEdit}
+                        disabled={reviewMutation.isPending || !editing.title.trim() || !editing.description.trim()}
+                        data-testid="button-queue-save-edit"
+                      >
+                        Opslaan en goedkeuren (ctrl+enter)
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Annuleren</Button>
+                    </div>
+                  </div>
+                ) : (
+                  <TextColumn title="Geformaliseerd (wordt gepubliceerd)" heading={report.title} body={report.description} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,29 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Wifi, Circle, Eye, Settings, TestTube, Clock, CheckCircle, XCircle } from 'lucide-react';
+import { Wifi, Circle, Eye, Settings, TestTube, ListChecks, BarChart3, Layers } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import PromptVersionHistory from '@/components/admin/PromptVersionHistory';
+import ModerationTestRuns from '@/components/admin/ModerationTestRuns';
+import ModerationTestCorpus from '@/components/admin/ModerationTestCorpus';
+import AICallLogs from '@/components/admin/AICallLogs';
+import AICallStats from '@/components/admin/AICallStats';
+import AIJobQueue from '@/components/admin/AIJobQueue';
+import type { ActiveModerationPrompt, ModerationPromptsResponse } from '@shared/schema';
+
+function ActivePromptInfo({ prompt }: { prompt?: ActiveModerationPrompt }) {
+  if (!prompt) return null;
+  return (
+    <p className="text-xs text-muted-foreground" data-testid={`text-active-prompt-${prompt.kind}`}>
+      {prompt.version === null
+        ? 'Actief: standaard instructies (nog geen opgeslagen versie)'
+        : `Actief: versie ${prompt.version} door ${prompt.author} op ${format(new Date(prompt.createdAt!), 'dd/MM/yyyy HH:mm')}`}
+    </p>
+  );
+}
 
 export default function ModerationPage() {
   const [contentFilterPrompt, setContentFilterPrompt] = useState<string>('');
@@ -14,57 +33,22 @@ export default function ModerationPage() {
   const [promptLoading, setPromptLoading] = useState(false);
   const [apiStatus, setApiStatus] = useState<{ isOnline: boolean; error?: string } | null>(null);
   const [isCheckingApi, setIsCheckingApi] = useState(false);
-  const [testResults, setTestResults] = useState<any>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch existing moderation prompts on component mount
-  const { data: promptData } = useQuery({
+  // Active (latest) version of both moderation prompts
+  const { data: promptData } = useQuery<ModerationPromptsResponse>({
     queryKey: ['/api/admin/moderation-prompts'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/moderation-prompts');
-      return response.json();
-    }
-  });
-
-  // Fetch AI logs for debugging
-  const { data: aiLogs = [], refetch: refetchLogs } = useQuery({
-    queryKey: ['/api/admin/ai-logs'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/ai-logs');
-      return response.json();
-    },
-    refetchOnMount: true
   });
 
   // Update prompts when query data is available
   React.useEffect(() => {
     if (promptData) {
-      setContentFilterPrompt(promptData.contentFilter || '');
-      setTextFormalizationPrompt(promptData.textFormalization || '');
+      setContentFilterPrompt(promptData.contentFilter.content);
+      setTextFormalizationPrompt(promptData.textFormalization.content);
     }
   }, [promptData]);
 
-  // Moderation test mutation
-  const testMutation = useMutation({
-    mutationFn: () => apiRequest('POST', '/api/admin/moderation-test'),
-    onSuccess: (data) => {
-      setTestResults(data);
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-logs'] });
-      toast({
-        title: "Test voltooid",
-        description: "Moderatie pipeline test is succesvol uitgevoerd.",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Test gefaald",
-        description: error.message || "Er is een fout opgetreden tijdens de test.",
-        variant: "destructive",
-      });
-    }
-  });
-
   // API Health Check
   const checkApiHealth = async () => {
     setIsCheckingApi(true);
@@ -87,25 +71,17 @@ export default function ModerationPage() {
   const saveModerationPrompts = async () => {
     setPromptLoading(true);
     try {
-      const response = await fetch('/api/admin/moderation-prompts', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          contentFilter: contentFilterPrompt,
-          textFormalization: textFormalizationPrompt 
-        }),
+      await apiRequest('POST', '/api/admin/moderation-prompts', {
+        contentFilter: contentFilterPrompt,
+        textFormalization: textFormalizationPrompt,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-prompts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-prompts/content_filter/versions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/moderation-prompts/text_formalization/versions'] });
+      toast({
+        title: "Success",
+        description: "Moderatie instructies opgeslagen als nieuwe versie!",
       });
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Moderatie instructies succesvol opgeslagen!",
-        });
-      } else {
-        throw new Error('Save failed');
-      }
     } catch (error) {
       console.error('Error saving moderation prompts:', error);
       toast({
@@ -158,7 +134,8 @@ export default function ModerationPage() {
               size="sm" 
               onClick={() => {
                 checkApiHealth();
-                refetchLogs();
+                queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-logs'] });
+                queryClient.invalidateQueries({ queryKey: ['/api/admin/ai-logs/stats'] });
               }}
               disabled={isCheckingApi}
             >
@@ -192,8 +169,11 @@ export default function ModerationPage() {
             <p className="text-xs text-muted-foreground">
               Focus op criteria voor goedkeuring/afwijzing. Bijvoorbeeld: "Sta echte incidenten toe, wijs spam af"
             </p>
+            <ActivePromptInfo prompt={promptData?.contentFilter} />
           </div>
 
+          {promptData && <PromptVersionHistory kind="content_filter" activeContent={promptData.contentFilter.content} />}
+
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
             <h3 className="font-medium mb-2 text-red-800">Voorbeeld Content Filter:</h3>
             <div className="text-sm text-red-700 space-y-1">
@@ -228,8 +208,11 @@ export default function ModerationPage() {
             <p className="text-xs text-muted-foreground">
               Focus op stijl en formulering. Bijvoorbeeld: "Maak formeel, verwijder emoties, behoud feiten"
             </p>
+            <ActivePromptInfo prompt={promptData?.textFormalization} />
           </div>
 
+          {promptData && <PromptVersionHistory kind="text_formalization" activeContent={promptData.textFormalization.content} />}
+
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h3 className="font-medium mb-2 text-blue-800">Voorbeeld Text Formalization:</h3>
             <div className="text-sm text-blue-700 space-y-1">
@@ -254,226 +237,80 @@ export default function ModerationPage() {
         </CardContent>
       </Card>
 
-      {/* AI Moderation Test */}
+      {/* Moderation Regression Suite */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TestTube className="h-5 w-5" />
-            AI Moderatie Pipeline Test
+            Moderatie Regressietest
           </CardTitle>
           <CardDescription>
-            Test de volledige moderatie pipeline met voorgedefinieerde test cases
+            Voer de testcorpus uit op de content filter, zonder meldingen aan te maken, en vergelijk prompt versies op precision en recall per vlag
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-3">
-            <div className="text-sm text-muted-foreground">
-              <p><strong>Test 1:</strong> Ongepaste content (racistische taal) - moet worden geblokkeerd</p>
-              <p><strong>Test 2:</strong> Gepaste content - moet worden goedgekeurd en geformaliseerd</p>
-              <p className="text-xs mt-2">⏱️ Tests worden 2 seconden na elkaar uitgevoerd om server overload te voorkomen</p>
-            </div>
-            
-            <Button
-              onClick={() => testMutation.mutate()}
-              disabled={testMutation.isPending}
-              data-testid="button-run-moderation-test"
-              className="w-full"
-              size="lg"
-            >
-              {testMutation.isPending ? (
-                <div className="flex items-center gap-2">
-                  <Clock className="h-4 w-4 animate-spin" />
-                  Pipeline test wordt uitgevoerd...
-                </div>
-              ) : (
-                <div className="flex items-center gap-2">
-                  <TestTube className="h-4 w-4" />
-                  Run AI Moderatie Pipeline Test
-                </div>
-              )}
-            </Button>
+        <CardContent>
+          <ModerationTestRuns />
+        </CardContent>
+      </Card>
 
-            {/* Test Results */}
-            {testResults && (
-              <div className="mt-6 space-y-4" data-testid="test-results">
-                <div className="flex items-center justify-between">
-                  <h4 className="font-semibold flex items-center gap-2">
-                    Test Resultaten
-                    {testResults.summary?.allPassed ? (
-                      <CheckCircle className="h-5 w-5 text-green-600" />
-                    ) : (
-                      <XCircle className="h-5 w-5 text-red-600" />
-                    )}
-                  </h4>
-                  <span className="text-xs text-muted-foreground">
-                    {testResults.summary?.passed || 0}/{testResults.summary?.total || 0} geslaagd | {testResults.totalDurationMs}ms
-                  </span>
-                </div>
-                
-                {/* Summary Badge */}
-                <div className={`p-3 rounded-lg border ${
-                  testResults.summary?.allPassed 
-                    ? 'bg-green-50 border-green-200 text-green-800' 
-                    : 'bg-red-50 border-red-200 text-red-800'
-                }`}>
-                  <p className="font-medium">
-                    {testResults.summary?.allPassed ? '✅ Alle tests geslaagd!' : '❌ Sommige tests gefaald'}
-                  </p>
-                  <p className="text-sm opacity-80">
-                    {testResults.summary?.allPassed 
-                      ? 'AI moderatie pipeline functioneert correct'
-                      : 'Er zijn problemen gedetecteerd in de moderatie pipeline'
-                    }
-                  </p>
-                </div>
-                
-                {testResults.tests?.map((test: any, index: number) => (
-                  <Card key={test.id} className="border-l-4 border-l-muted">
-                    <CardContent className="p-4">
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium">
-                            Test {index + 1}: {test.id === 'inappropriate' ? 'Ongepaste Content' : 'Gepaste Content'}
-                          </span>
-                          {test.passed ? (
-                            <CheckCircle className="h-4 w-4 text-green-600" />
-                          ) : (
-                            <XCircle className="h-4 w-4 text-red-600" />
-                          )}
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <span className={`px-2 py-1 rounded text-xs ${
-                            test.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                          }`}>
-                            {test.passed ? 'PASS' : 'FAIL'}
-                          </span>
-                          <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-800">
-                            {test.submissionResult?.status || 'ERROR'}
-                          </span>
-                        </div>
-                      </div>
-                      
-                      <div className="space-y-2 text-sm">
-                        <div>
-                          <p className="font-medium text-muted-foreground">Input:</p>
-                          <p className="bg-muted/50 p-2 rounded text-xs">
-                            "{test.testData?.title}" - "{test.testData?.description}"
-                          </p>
-                        </div>
-                        
-                        <div>
-                          <p className="font-medium text-muted-foreground">Verwacht vs Resultaat:</p>
-                          <div className="bg-muted/30 p-2 rounded space-y-1">
-                            <p className="text-xs text-muted-foreground">
-                              <strong>Verwacht:</strong> {test.expected}
-                            </p>
-                            <div className={test.passed ? "text-green-700" : "text-red-700"}>
-                              {test.passed ? '✅' : '❌'} <strong>Resultaat:</strong> Status {test.submissionResult?.status}
-                              {test.passed ? ' (Correct!)' : ' (Fout!)'}
-                            </div>
-                            <details className="text-xs">
-                              <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
-                                API Response Details
-                              </summary>
-                              <pre className="mt-1 font-mono bg-muted/50 p-1 rounded text-xs overflow-x-auto">
-                                {typeof test.submissionResult?.response === 'string' 
-                                  ? test.submissionResult.response 
-                                  : JSON.stringify(test.submissionResult?.response, null, 2)
-                                }
-                              </pre>
-                            </details>
-                          </div>
-                        </div>
-                        
-                        <div className="text-xs text-muted-foreground">
-                          Duur: {test.submissionResult?.durationMs}ms
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
-          </div>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Testcorpus
+          </CardTitle>
+          <CardDescription>
+            Gelabelde testgevallen met het verwachte oordeel en de verwachte vlaggen
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ModerationTestCorpus />
         </CardContent>
       </Card>
 
-      {/* AI Response Logs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            AI wachtrij
+          </CardTitle>
+          <CardDescription>
+            Moderatie van nieuwe en bewerkte meldingen loopt op de achtergrond. Mislukte jobs worden automatisch opnieuw geprobeerd; na de laatste poging wacht de melding in de moderatiewachtrij.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AIJobQueue />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            AI gebruik
+          </CardTitle>
+          <CardDescription>
+            Faalratio, tokenverbruik, latency en geschatte kost van alle AI calls
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AICallStats />
+        </CardContent>
+      </Card>
+
+      {/* AI Call Logs */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Eye className="h-5 w-5" />
-            AI Response Logs
+            AI Call Logs
           </CardTitle>
           <CardDescription>
-            Bekijk de laatste AI responses voor debugging (laatste 50 entries)
+            Elke AI call met model, promptversie, tokens, latency en de gekoppelde melding
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          {aiLogs.length === 0 ? (
-            <p className="text-muted-foreground text-center py-4">Geen AI logs beschikbaar</p>
-          ) : (
-            <div className="space-y-3 max-h-64 md:max-h-96 overflow-y-auto">
-              {aiLogs.map((log: any, index: number) => (
-                <div key={index} className="border rounded-lg p-3 text-sm">
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                      <span className={`px-2 py-1 rounded text-xs ${
-                        log.type === 'content-filter' ? 'bg-red-100 text-red-800' :
-                        log.type === 'text-formalization' ? 'bg-blue-100 text-blue-800' :
-                        'bg-green-100 text-green-800'
-                      }`}>
-                        {log.type}
-                      </span>
-                      {log.error && (
-                        <span className="px-2 py-1 rounded text-xs bg-orange-100 text-orange-800">
-                          ERROR
-                        </span>
-                      )}
-                    </div>
-                    <span className="text-xs text-muted-foreground">
-                      {new Date(log.timestamp).toLocaleString('nl-NL')}
-                    </span>
-                  </div>
-                  
-                  {log.input.title && (
-                    <div className="mb-2">
-                      <p className="font-medium text-xs text-muted-foreground">Input:</p>
-                      <p className="text-xs bg-muted/50 p-1 rounded">"{log.input.title}" - "{log.input.description}"</p>
-                    </div>
-                  )}
-                  
-                  {log.error ? (
-                    <div className="mb-2">
-                      <p className="font-medium text-xs text-red-600">Error:</p>
-                      <p className="text-xs text-red-600 bg-red-50 p-1 rounded">{log.error}</p>
-                    </div>
-                  ) : (
-                    <>
-                      {log.parsedResult && (
-                        <div className="mb-2">
-                          <p className="font-medium text-xs text-muted-foreground">Parsed Result:</p>
-                          <p className="text-xs bg-green-50 p-1 rounded font-mono">
-                            {JSON.stringify(log.parsedResult, null, 2)}
-                          </p>
-                        </div>
-                      )}
-                      
-                      <div>
-                        <p className="font-medium text-xs text-muted-foreground">Raw AI Response:</p>
-                        <p className="text-xs bg-muted/30 p-1 rounded font-mono max-h-20 overflow-y-auto">
-                          {log.rawResponse.length > 200 
-                            ? log.rawResponse.substring(0, 200) + '...'
-                            : log.rawResponse
-                          }
-                        </p>
-                      </div>
-                    </>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
+        <CardContent>
+          <AICallLogs />
         </CardContent>
       </Card>
     </div>
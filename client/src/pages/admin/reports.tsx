@@ -3,57 +3,83 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Trash2, Database, Eye, EyeOff, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, Database, Eye, EyeOff, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, History, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { useQueryClient, useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
+import { mediaStatuses, reportStatusTransitions, REPORT_SEVERITY_MAX, REPORT_SEVERITY_MIN, type ReportPage, type ReportStatus, type ReportStatusHistoryEntry } from '@shared/schema';
+import { ReportStatusBadge, ReportStatusTimeline } from '@/components/reports/ReportStatus';
+import { getReportStatusInfo } from '@/lib/reportStatus';
+import { getSeverityInfo } from '@/lib/severity';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { RedactedText, RedactionSummary } from '@/components/admin/RedactedText';
+import ReportMediaReview, { mediaStatusLabels } from '@/components/admin/ReportMediaReview';
+
+const PAGE_SIZES = ['10', '25', '50', '100'];
+
+// Lifecycle timeline of one report, loaded when expanded
+function AdminStatusTimeline({ reportId, createdAt }: { reportId: string; createdAt: string }) {
+  const { data: history, isLoading } = useQuery<ReportStatusHistoryEntry[]>({
+    queryKey: [`/api/admin/reports/${reportId}/status-history`],
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Laden...</p>;
+  }
+  return <ReportStatusTimeline createdAt={createdAt} history={history ?? []} />;
+}
 
 export default function ReportsPage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [showOriginalContent, setShowOriginalContent] = useState<{[key: string]: boolean}>({});
   const [deletingReportId, setDeletingReportId] = useState<string | null>(null);
-  const [deletePassword, setDeletePassword] = useState('');
+  const [updatingStatusId, setUpdatingStatusId] = useState<string | null>(null);
+  const [updatingSeverityId, setUpdatingSeverityId] = useState<string | null>(null);
+  const [showTimeline, setShowTimeline] = useState<{[key: string]: boolean}>({});
+  const [pageSize, setPageSize] = useState('25');
+  const [sort, setSort] = useState<'createdAt' | 'incidentDateTime' | 'severity'>('createdAt');
+  const [mediaStatus, setMediaStatus] = useState<string>('all');
+  // Cursor of every visited page; the last entry is the current page (null = first page)
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { hasRole } = useAdminAuth();
+
+  const currentCursor = cursors[cursors.length - 1];
 
-  // Fetch all reports (including rejected ones) for admin  
-  const { data: allReports = [], isLoading, error } = useQuery<any[]>({
-    queryKey: ['/api/admin/reports'],
+  // Fetch one page of all reports (including rejected ones) for admin
+  const { data: page, isLoading, error } = useQuery<ReportPage>({
+    queryKey: ['/api/admin/reports', { limit: pageSize, sort, mediaStatus, cursor: currentCursor ?? '' }],
     enabled: true,
     retry: 3,
     refetchOnMount: true,
   });
+  const allReports: any[] = page?.reports ?? [];
 
-  const handleDeleteAllReports = async () => {
-    // Check password first
-    if (deletePassword !== 'JustDoIt') {
-      toast({
-        title: "Incorrect Password",
-        description: "Please enter the correct password to proceed.",
-        variant: "destructive",
-      });
-      return;
+  const resetPaging = () => setCursors([null]);
+
+  const handleNextPage = () => {
+    if (page?.nextCursor) {
+      setCursors(prev => [...prev, page.nextCursor]);
     }
+  };
 
+  const handlePreviousPage = () => {
+    setCursors(prev => prev.length > 1 ? prev.slice(0, -1) : prev);
+  };
+
+  const handleDeleteAllReports = async () => {
     setIsDeleting(true);
     try {
-      const response = await apiRequest('DELETE', '/api/admin/reports', {
-        headers: {
-          'X-Admin-Password': deletePassword
-        }
-      });
+      await apiRequest('DELETE', '/api/admin/reports');
 
       toast({
         title: "Success",
         description: "All reports have been deleted successfully.",
       });
 
-      // Reset password field
-      setDeletePassword('');
-
       // Invalidate and refetch all related queries
       queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
       queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
@@ -94,6 +120,68 @@ export default function ReportsPage() {
     }
   };
 
+  const handleStatusChange = async (reportId: string, status: ReportStatus) => {
+    setUpdatingStatusId(reportId);
+    try {
+      await apiRequest('POST', `/api/admin/reports/${reportId}/status`, { status });
+
+      toast({
+        title: "Status bijgewerkt",
+        description: `Rapport staat nu op "${getReportStatusInfo(status).name}".`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/reports/${reportId}/status-history`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}/status-history`] });
+    } catch (error) {
+      console.error('Error updating report status:', error);
+      toast({
+        title: "Error",
+        description: "Status kon niet worden bijgewerkt. Herlaad de pagina en probeer opnieuw.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingStatusId(null);
+    }
+  };
+
+  // 'computed' drops the override and restores the computed score
+  const handleSeverityChange = async (reportId: string, value: string) => {
+    setUpdatingSeverityId(reportId);
+    try {
+      const severity = value === 'computed' ? null : Number(value);
+      await apiRequest('POST', `/api/admin/reports/${reportId}/severity`, { severity });
+
+      toast({
+        title: "Ernst bijgewerkt",
+        description: severity === null
+          ? "Rapport gebruikt opnieuw de berekende ernst."
+          : `Rapport heeft nu ernst "${getSeverityInfo(severity).name}".`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+    } catch (error) {
+      console.error('Error updating report severity:', error);
+      toast({
+        title: "Error",
+        description: "Ernst kon niet worden bijgewerkt.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingSeverityId(null);
+    }
+  };
+
+  const toggleTimeline = (reportId: string) => {
+    setShowTimeline(prev => ({
+      ...prev,
+      [reportId]: !prev[reportId]
+    }));
+  };
+
   const toggleOriginalContent = (reportId: string) => {
     setShowOriginalContent(prev => ({
       ...prev,
@@ -105,6 +193,9 @@ export default function ReportsPage() {
     if (report.moderationStatus === 'rejected') {
       return <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" />Afgewezen</Badge>;
     }
+    if (report.moderationStatus === 'pending') {
+      return <Badge variant="outline" className="gap-1"><Clock className="h-3 w-3" />Wacht op review</Badge>;
+    }
     if (report.isModerated) {
       return <Badge variant="secondary" className="gap-1"><CheckCircle className="h-3 w-3" />Gemoderated</Badge>;
     }
@@ -113,80 +204,64 @@ export default function ReportsPage() {
 
   return (
     <div className="space-y-4 md:space-y-6">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Database className="h-5 w-5" />
-            Database Management
-          </CardTitle>
-          <CardDescription>
-            Reset and clean up your database for testing purposes
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-3 md:space-y-4">
-          <div className="bg-muted/50 rounded-lg p-4">
-            <h3 className="font-medium mb-2">Delete All Reports</h3>
-            <p className="text-sm text-muted-foreground mb-4">
-              This will permanently delete all incident reports from the database. 
-              This action cannot be undone and is useful for testing with fresh data.
-            </p>
-
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button 
-                  variant="destructive" 
-                  className="gap-2"
-                  data-testid="button-delete-all"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  Delete All Reports
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Password Required</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete all 
-                    incident reports and associated data from the database.
-                    <br /><br />
-                    Please enter the password to proceed:
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <div className="py-4">
-                  <Label htmlFor="delete-password" className="text-sm font-medium">
-                    Password
-                  </Label>
-                  <Input
-                    id="delete-password"
-                    type="password"
-                    value={deletePassword}
-                    onChange={(e) => setDeletePassword(e.target.value)}
-                    placeholder="Enter password to proceed"
-                    className="mt-1"
-                    data-testid="input-delete-password"
-                  />
-                </div>
-                <AlertDialogFooter>
-                  <AlertDialogCancel 
-                    data-testid="button-cancel"
-                    onClick={() => setDeletePassword('')}
-                  >
-                    Cancel
-                  </AlertDialogCancel>
-                  <AlertDialogAction 
-                    onClick={handleDeleteAllReports}
-                    disabled={isDeleting || !deletePassword.trim()}
-                    data-testid="button-confirm-delete"
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+      {/* Only superadmins may wipe the database */}
+      {hasRole('superadmin') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Database Management
+            </CardTitle>
+            <CardDescription>
+              Reset and clean up your database for testing purposes
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 md:space-y-4">
+            <div className="bg-muted/50 rounded-lg p-4">
+              <h3 className="font-medium mb-2">Delete All Reports</h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                This will permanently delete all incident reports from the database. 
+                This action cannot be undone and is useful for testing with fresh data.
+              </p>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button 
+                    variant="destructive" 
+                    className="gap-2"
+                    data-testid="button-delete-all"
                   >
-                    {isDeleting ? "Deleting..." : "Yes, delete all reports"}
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
-          </div>
-        </CardContent>
-      </Card>
+                    <Trash2 className="h-4 w-4" />
+                    Delete All Reports
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This action cannot be undone. This will permanently delete all 
+                      incident reports and associated data from the database.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel data-testid="button-cancel">
+                      Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction 
+                      onClick={handleDeleteAllReports}
+                      disabled={isDeleting}
+                      data-testid="button-confirm-delete"
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      {isDeleting ? "Deleting..." : "Yes, delete all reports"}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -211,6 +286,49 @@ export default function ReportsPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          <div className="flex flex-col sm:flex-row gap-2 mb-4">
+            <Select
+              value={sort}
+              onValueChange={(value) => { setSort(value as typeof sort); resetPaging(); }}
+            >
+              <SelectTrigger className="sm:w-56" data-testid="select-report-sort">
+                <SelectValue placeholder="Sorteren op" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="createdAt">Nieuwste eerst (ingediend)</SelectItem>
+                <SelectItem value="incidentDateTime">Nieuwste eerst (incident)</SelectItem>
+                <SelectItem value="severity">Ernstigste eerst</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={mediaStatus}
+              onValueChange={(value) => { setMediaStatus(value); resetPaging(); }}
+            >
+              <SelectTrigger className="sm:w-56" data-testid="select-media-status">
+                <SelectValue placeholder="Foto's en video's" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Alle rapporten</SelectItem>
+                {mediaStatuses.map(status => (
+                  <SelectItem key={status} value={status}>Media: {mediaStatusLabels[status].label.toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={pageSize}
+              onValueChange={(value) => { setPageSize(value); resetPaging(); }}
+            >
+              <SelectTrigger className="sm:w-40" data-testid="select-page-size">
+                <SelectValue placeholder="Per pagina" />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map(size => (
+                  <SelectItem key={size} value={size}>{size} per pagina</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {isLoading ? (
             <p className="text-muted-foreground">Laden...</p>
           ) : error ? (
@@ -221,25 +339,78 @@ export default function ReportsPage() {
             <p className="text-muted-foreground">Geen rapporten gevonden</p>
           ) : (
             <div className="space-y-4">
-              {allReports
-                .sort((a: any, b: any) => {
-                  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-                })
-                .map((report: any) => (
+              {allReports.map((report: any) => (
                 <div key={report.id} className="border rounded-lg p-3 md:p-4 space-y-2 md:space-y-3">
                   <div className="flex flex-col md:flex-row md:items-start justify-between gap-2 md:gap-0">
                     <div className="space-y-1 flex-1">
                       <div className="flex items-center gap-2">
                         <h3 className="font-medium text-sm">
-                          {showOriginalContent[report.id] ? report.originalTitle || report.title : report.title}
+                          {showOriginalContent[report.id]
+                            ? <RedactedText text={report.originalTitle || report.title} redactions={report.piiRedactions ?? []} field="title" />
+                            : report.title}
                         </h3>
                         {getStatusBadge(report)}
+                        <ReportStatusBadge status={report.status} />
+                        {report.severityOverriddenBy && (
+                          <Badge variant="outline" className="text-xs" title={`Berekend: ${report.computedSeverity}`}>
+                            Ernst aangepast door {report.severityOverriddenBy}
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        {showOriginalContent[report.id] ? report.originalDescription || report.description : report.description}
+                        {showOriginalContent[report.id]
+                          ? <RedactedText text={report.originalDescription || report.description} redactions={report.piiRedactions ?? []} field="description" />
+                          : report.description}
                       </p>
+                      {showOriginalContent[report.id] && <RedactionSummary redactions={report.piiRedactions ?? []} />}
                     </div>
                     <div className="flex items-center gap-2">
+                      <Select
+                        value=""
+                        onValueChange={(value) => handleStatusChange(report.id, value as ReportStatus)}
+                        disabled={updatingStatusId === report.id}
+                      >
+                        <SelectTrigger className="h-8 w-40 text-xs" data-testid={`select-report-status-${report.id}`}>
+                          <SelectValue placeholder="Status wijzigen" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(reportStatusTransitions[report.status as ReportStatus] ?? []).map(status => (
+                            <SelectItem key={status} value={status}>{getReportStatusInfo(status).name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      <Select
+                        value={String(report.severity)}
+                        onValueChange={(value) => handleSeverityChange(report.id, value)}
+                        disabled={updatingSeverityId === report.id}
+                      >
+                        <SelectTrigger className="h-8 w-36 text-xs" data-testid={`select-report-severity-${report.id}`}>
+                          <SelectValue placeholder="Ernst" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: REPORT_SEVERITY_MAX - REPORT_SEVERITY_MIN + 1 }, (_, i) => REPORT_SEVERITY_MIN + i).map(severity => (
+                            <SelectItem key={severity} value={String(severity)}>
+                              Ernst {severity}: {getSeverityInfo(severity).name}
+                            </SelectItem>
+                          ))}
+                          {report.severityOverriddenBy && (
+                            <SelectItem value="computed">Berekend ({report.computedSeverity})</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleTimeline(report.id)}
+                        className="gap-1 text-xs"
+                        data-testid={`button-report-timeline-${report.id}`}
+                      >
+                        <History className="h-3 w-3" />
+                        Tijdlijn
+                      </Button>
+
                       {(report.originalTitle || report.originalDescription) && (
                         <Button
                           variant="ghost"
@@ -293,22 +464,63 @@ export default function ReportsPage() {
                     <div>
                       <span className="font-medium">{report.category}</span>
                       {report.subcategory && ` • ${report.subcategory}`}
+                      {report.categorySuggestionAccepted === false && (
+                        <span data-testid={`text-suggested-category-${report.id}`}>
+                          {` (voorgesteld: ${report.suggestedCategory}${report.suggestedSubcategory ? ` • ${report.suggestedSubcategory}` : ''})`}
+                        </span>
+                      )}
                     </div>
                     <div>
                       {report.incidentDateTime && format(new Date(report.incidentDateTime), 'dd/MM/yyyy HH:mm')}
                     </div>
                   </div>
 
+                  <ReportMediaReview media={report.media ?? []} />
+
                   {report.moderationReason && (
                     <div className="bg-muted/50 rounded p-2">
                       <p className="text-xs font-medium text-muted-foreground">Moderatie reden:</p>
                       <p className="text-xs text-muted-foreground">{report.moderationReason}</p>
                     </div>
                   )}
+
+                  {showTimeline[report.id] && (
+                    <div className="bg-muted/50 rounded p-2">
+                      <AdminStatusTimeline reportId={report.id} createdAt={report.createdAt} />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           )}
+
+          {(cursors.length > 1 || page?.nextCursor) && (
+            <div className="flex items-center justify-between pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePreviousPage}
+                disabled={cursors.length <= 1 || isLoading}
+                className="gap-1"
+                data-testid="button-previous-page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Vorige
+              </Button>
+              <span className="text-sm text-muted-foreground">Pagina {cursors.length}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleNextPage}
+                disabled={!page?.nextCursor || isLoading}
+                className="gap-1"
+                data-testid="button-next-page"
+              >
+                Volgende
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
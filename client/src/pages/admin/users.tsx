@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, Plus, Users, KeyRound } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { adminRoles, type AdminRole, type SafeAdminUser } from '@shared/schema';
+
+const roleLabels: Record<AdminRole, string> = {
+  superadmin: 'Superadmin',
+  moderator: 'Moderator',
+  municipality_viewer: 'Gemeente (alleen statistieken)',
+};
+
+const emptyForm = { username: '', password: '', role: 'moderator' as AdminRole, municipality: '' };
+
+export default function UsersPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAdminAuth();
+  const [newUser, setNewUser] = useState(emptyForm);
+  const [passwordResets, setPasswordResets] = useState<{[id: string]: string}>({});
+
+  const { data: users = [], isLoading } = useQuery<SafeAdminUser[]>({
+    queryKey: ['/api/admin/users'],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Er is een fout opgetreden.",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: typeof emptyForm) => apiRequest('POST', '/api/admin/users', {
+      ...data,
+      municipality: data.role === 'municipality_viewer' ? data.municipality : null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      setNewUser(emptyForm);
+      toast({ title: "Success", description: "Gebruiker toegevoegd." });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Record<string, unknown> }) => apiRequest('PUT', `/api/admin/users/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      toast({ title: "Success", description: "Gebruiker bijgewerkt." });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/users/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      toast({ title: "Success", description: "Gebruiker verwijderd." });
+    },
+    onError,
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(newUser);
+  };
+
+  const handleResetPassword = (id: string) => {
+    updateMutation.mutate({ id, data: { password: passwordResets[id] } });
+    setPasswordResets(prev => ({ ...prev, [id]: '' }));
+  };
+
+  const canCreate = newUser.username.trim().length >= 3 && newUser.password.length >= 10 &&
+    (newUser.role !== 'municipality_viewer' || newUser.municipality.trim().length > 0);
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Nieuwe gebruiker
+          </CardTitle>
+          <CardDescription>
+            Moderators beheren meldingen en moderatie, gemeente accounts zien enkel de City Report van hun gemeente
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="new-username">Gebruikersnaam</Label>
+              <Input
+                id="new-username"
+                value={newUser.username}
+                onChange={(e) => setNewUser(prev => ({ ...prev, username: e.target.value }))}
+                data-testid="input-new-username"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-password">Wachtwoord (min. 10 tekens)</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newUser.password}
+                onChange={(e) => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+                data-testid="input-new-password"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Rol</Label>
+              <Select value={newUser.role} onValueChange={(role) => setNewUser(prev => ({ ...prev, role: role as AdminRole }))}>
+                <SelectTrigger data-testid="select-new-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {adminRoles.map(role => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {newUser.role === 'municipality_viewer' && (
+              <div className="space-y-1">
+                <Label htmlFor="new-municipality">Gemeente</Label>
+                <Input
+                  id="new-municipality"
+                  placeholder="bv. Antwerpen"
+                  value={newUser.municipality}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, municipality: e.target.value }))}
+                  data-testid="input-new-municipality"
+                />
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <Button type="submit" disabled={!canCreate || createMutation.isPending} data-testid="button-create-user">
+                {createMutation.isPending ? 'Toevoegen...' : 'Gebruiker toevoegen'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Admin accounts ({users.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Laden...</p>}
+          {users.map(user => {
+            const isSelf = user.id === currentUser?.id;
+            return (
+              <div key={user.id} className="border rounded-lg p-3 space-y-3" data-testid={`user-${user.id}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {user.username}
+                      {isSelf && <Badge variant="outline">Jij</Badge>}
+                      {!user.isActive && <Badge variant="destructive">Gedeactiveerd</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {roleLabels[user.role as AdminRole]}{user.municipality ? ` · ${user.municipality}` : ''}
+                      {' · '}
+                      {user.lastLoginAt ? `Laatst ingelogd ${format(new Date(user.lastLoginAt), 'dd/MM/yyyy HH:mm')}` : 'Nog nooit ingelogd'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSelf || updateMutation.isPending}
+                      onClick={() => updateMutation.mutate({ id: user.id, data: { isActive: !user.isActive } })}
+                      data-testid={`button-toggle-active-${user.id}`}
+                    >
+                      {user.isActive ? 'Deactiveren' : 'Activeren'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSelf || deleteMutation.isPending}
+                      onClick={() => {
+                        if (confirm(`Gebruiker ${user.username} verwijderen?`)) {
+                          deleteMutation.mutate(user.id);
+                        }
+                      }}
+                      data-testid={`button-delete-user-${user.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Nieuw wachtwoord"
+                    className="max-w-xs h-8"
+                    value={passwordResets[user.id] ?? ''}
+                    onChange={(e) => setPasswordResets(prev => ({ ...prev, [user.id]: e.target.value }))}
+                    data-testid={`input-reset-password-${user.id}`}
+                  />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="gap-1"
+                    disabled={(passwordResets[user.id] ?? '').length < 10 || updateMutation.isPending}
+                    onClick={() => handleResetPassword(user.id)}
+                    data-testid={`button-reset-password-${user.id}`}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                    Wachtwoord instellen
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
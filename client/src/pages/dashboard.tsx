@@ -3,12 +3,13 @@ import InteractiveMap from "@/components/map/InteractiveMap";
 import ReportsList from "@/components/reports/ReportsList";
 import ReportModal from "@/components/reports/ReportModal";
 import ReportDetailModal from "@/components/reports/ReportDetailModal";
+import { MyAppealsDialog, ReportAppealDialog, type RejectedReport } from "@/components/reports/ReportAppeal";
 import FilterSheet from "@/components/reports/FilterSheet";
 import FloatingActionButton from "@/components/ui/floating-action-button";
 import BottomSheet from "@/components/ui/bottom-sheet";
 import StoriesPage from "@/pages/stories";
 import { BottomSheetRef } from 'react-spring-bottom-sheet';
-import { Settings, Home, MapPin, Grid3X3, Activity, BookOpen, Menu, X } from "lucide-react";
+import { Settings, Home, MapPin, Grid3X3, Activity, BookOpen, Menu, X, Scale } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export default function Dashboard() {
@@ -25,6 +26,8 @@ export default function Dashboard() {
   const [currentZoom, setCurrentZoom] = useState<number>(15);
   const [showFilters, setShowFilters] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [rejectedReport, setRejectedReport] = useState<RejectedReport | null>(null);
+  const [isAppealsOpen, setIsAppealsOpen] = useState(false);
   const bottomSheetRef = useRef<BottomSheetRef>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -205,6 +208,17 @@ export default function Dashboard() {
                   <Home className="h-4 w-4" />
                   Dashboard
                 </button>
+                <button
+                  onClick={() => {
+                    setIsMenuOpen(false);
+                    setIsAppealsOpen(true);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                  data-testid="menu-appeals"
+                >
+                  <Scale className="h-4 w-4" />
+                  Mijn bezwaren
+                </button>
                 <button
                   onClick={() => {
                     setIsMenuOpen(false);
@@ -328,8 +342,12 @@ export default function Dashboard() {
         locationSelectionMode={locationSelectionMode}
         onLocationSelectionModeToggle={() => setLocationSelectionMode(!locationSelectionMode)}
         onLocationSelectionStart={handleLocationSelectionStart}
+        onRejected={setRejectedReport}
       />
 
+      <ReportAppealDialog rejection={rejectedReport} onClose={() => setRejectedReport(null)} />
+      <MyAppealsDialog isOpen={isAppealsOpen} onClose={() => setIsAppealsOpen(false)} />
+
       <ReportDetailModal
         isOpen={isDetailModalOpen}
         onClose={() => setIsDetailModalOpen(false)}
@@ -0,0 +1,73 @@
+CREATE TABLE "municipalities" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"postcode" varchar(10) NOT NULL,
+	"reporting_url" text NOT NULL,
+	"alternative_url" text,
+	"is_active" boolean DEFAULT true,
+	"last_checked" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" varchar(50) NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notes_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "reports" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"original_title" text,
+	"original_description" text,
+	"category" varchar(50) NOT NULL,
+	"subcategory" varchar(100),
+	"latitude" real,
+	"longitude" real,
+	"location_description" text,
+	"image_url" text,
+	"authorities_contacted" boolean DEFAULT false,
+	"involvement_type" varchar(20) NOT NULL,
+	"incident_date_time" timestamp,
+	"moderation_status" varchar(20) DEFAULT 'approved',
+	"moderation_reason" text,
+	"is_moderated" boolean DEFAULT false,
+	"is_public" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scraped_reports" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"source_url" text NOT NULL,
+	"source_name" text NOT NULL,
+	"source_favicon" text,
+	"published_at" timestamp,
+	"scraped_at" timestamp DEFAULT now() NOT NULL,
+	"postcode" varchar(10),
+	"location" text,
+	"category" varchar(50),
+	"confidence" real,
+	"status" varchar(20) DEFAULT 'pending',
+	"ai_analysis" json,
+	"extracted_data" json,
+	"approved_by" varchar(100),
+	"approved_at" timestamp,
+	"report_id" varchar
+);
+--> statement-breakpoint
+CREATE TABLE "scraping_config" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"postcode" varchar(10) NOT NULL,
+	"keywords" json NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"is_manual" boolean DEFAULT true,
+	"last_scraped_at" timestamp,
+	"scraping_frequency" varchar(20) DEFAULT 'daily',
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,3 @@
+CREATE INDEX "reports_location_idx" ON "reports" USING gist (point("longitude", "latitude"));--> statement-breakpoint
+CREATE INDEX "reports_created_at_idx" ON "reports" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "reports_incident_date_time_idx" ON "reports" USING btree ("incident_date_time");
\ No newline at end of file
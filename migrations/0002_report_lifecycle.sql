@@ -0,0 +1,14 @@
+CREATE TABLE "report_status_history" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" varchar NOT NULL,
+	"from_status" varchar(20) NOT NULL,
+	"to_status" varchar(20) NOT NULL,
+	"changed_by" varchar(100) NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "status" varchar(20) DEFAULT 'open' NOT NULL;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "status_updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "report_status_history" ADD CONSTRAINT "report_status_history_report_id_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "report_status_history_report_id_idx" ON "report_status_history" USING btree ("report_id","created_at");
\ No newline at end of file
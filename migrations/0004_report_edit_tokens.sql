@@ -0,0 +1,8 @@
+CREATE TABLE "report_edit_tokens" (
+	"report_id" varchar PRIMARY KEY NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "report_edit_tokens" ADD CONSTRAINT "report_edit_tokens_report_id_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."reports"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
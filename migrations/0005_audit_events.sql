@@ -0,0 +1,25 @@
+CREATE TABLE "audit_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor" varchar(100) NOT NULL,
+	"actor_role" varchar(30),
+	"action" varchar(60) NOT NULL,
+	"entity_type" varchar(40) NOT NULL,
+	"entity_id" varchar,
+	"before" jsonb,
+	"after" jsonb,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"request_method" varchar(10),
+	"request_path" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_entity_idx" ON "audit_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_events_actor_idx" ON "audit_events" USING btree ("actor");--> statement-breakpoint
+CREATE FUNCTION "audit_events_append_only"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;--> statement-breakpoint
+CREATE TRIGGER "audit_events_append_only" BEFORE UPDATE OR DELETE OR TRUNCATE ON "audit_events" FOR EACH STATEMENT EXECUTE FUNCTION "audit_events_append_only"();
@@ -0,0 +1,11 @@
+CREATE TABLE "moderation_prompts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" varchar(40) NOT NULL,
+	"version" integer NOT NULL,
+	"content" text NOT NULL,
+	"author" varchar(100) NOT NULL,
+	"restored_from_version" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "moderation_prompts_kind_version_idx" ON "moderation_prompts" USING btree ("kind","version");
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TABLE "moderation_test_cases" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"expect_approved" boolean NOT NULL,
+	"expect_spam" boolean DEFAULT false NOT NULL,
+	"expect_inappropriate" boolean DEFAULT false NOT NULL,
+	"expect_pii" boolean DEFAULT false NOT NULL,
+	"notes" text,
+	"created_by" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "moderation_test_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"prompt_version" integer,
+	"provider" varchar(20) NOT NULL,
+	"started_by" varchar(100) NOT NULL,
+	"case_count" integer NOT NULL,
+	"passed_count" integer NOT NULL,
+	"metrics" jsonb NOT NULL,
+	"results" jsonb NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "moderation_test_runs_created_at_idx" ON "moderation_test_runs" USING btree ("created_at");--> statement-breakpoint
+INSERT INTO "moderation_test_cases" ("title", "description", "category", "expect_approved", "expect_spam", "expect_inappropriate", "expect_pii", "notes", "created_by") VALUES
+	('neger gespot bij bushalte', 'neger gespot bij bushalte vanmorgen', 'degradation', false, false, true, false, 'Racistische taal, voorheen test 1 van de pipeline test', 'system'),
+	('mooie varens in het bos', 'schone natuur aangetroffen tijdens wandeling', 'status', true, false, false, false, 'Positieve observatie, voorheen test 2 van de pipeline test', 'system'),
+	('Fiets gestolen aan station', 'Mijn fiets werd vannacht gestolen aan het station, het slot was doorgeknipt.', 'theft', true, false, false, false, NULL, 'system'),
+	('Graffiti op spoorwegbrug', 'Nieuwe graffiti op de spoorwegbrug aan de Leie, ook op het infobord.', 'degradation', true, false, false, false, NULL, 'system'),
+	('Verdachte persoon bij auto''s', 'Iemand loopt al een uur aan de deuren van geparkeerde auto''s te voelen in de Lange Straat.', 'suspicious', true, false, false, false, NULL, 'system'),
+	('Gat in het fietspad', 'Diep gat in het fietspad ter hoogte van de rotonde, gevaarlijk voor fietsers in het donker.', 'dangerous', true, false, false, false, NULL, 'system'),
+	('test', 'test', 'suspicious', false, true, false, false, 'Testbericht', 'system'),
+	('hallo wereld', 'hallo wereld', 'status', false, true, false, false, 'Testbericht', 'system'),
+	('GRATIS IPHONE', 'Klik hier op www.win-nu.be en krijg gratis een iPhone, korting voor de eerste 100!', 'cyber', false, true, false, false, 'Reclame met link', 'system'),
+	('Parkeren op fietspad', 'Die klootzak van de overkant parkeert weer op het fietspad.', 'dangerous', false, false, true, false, 'Scheldwoord', 'system'),
+	('Inbraak bij de buren', 'Inbraak bij de buren, bel me voor details op 0471 23 45 67.', 'theft', false, false, false, true, 'Telefoonnummer', 'system'),
+	('Sluikstort aan container', 'Zakken afval naast de glascontainer, mail me op an.devries@telenet.be voor foto''s.', 'degradation', false, false, false, true, 'E-mailadres', 'system');
@@ -0,0 +1,4 @@
+ALTER TABLE "reports" ADD COLUMN "moderation_confidence" real;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "reviewed_by" varchar(100);--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+CREATE INDEX "reports_moderation_status_idx" ON "reports" USING btree ("moderation_status","created_at");
\ No newline at end of file
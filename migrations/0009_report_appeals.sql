@@ -0,0 +1,13 @@
+CREATE TABLE "report_appeals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" varchar NOT NULL,
+	"explanation" text NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"decided_by" varchar(100),
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "report_appeals" ADD CONSTRAINT "report_appeals_report_id_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "report_appeals_report_id_idx" ON "report_appeals" USING btree ("report_id");--> statement-breakpoint
+CREATE INDEX "report_appeals_status_idx" ON "report_appeals" USING btree ("status","created_at");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "ai_call_logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(40) NOT NULL,
+	"provider" varchar(20) NOT NULL,
+	"model" varchar(100),
+	"prompt_version" integer,
+	"input_tokens" integer,
+	"output_tokens" integer,
+	"latency_ms" integer NOT NULL,
+	"success" boolean NOT NULL,
+	"error" text,
+	"input" jsonb NOT NULL,
+	"raw_response" text,
+	"parsed_result" jsonb,
+	"report_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "ai_call_logs_created_at_idx" ON "ai_call_logs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "ai_call_logs_type_idx" ON "ai_call_logs" USING btree ("type","created_at");--> statement-breakpoint
+CREATE INDEX "ai_call_logs_report_id_idx" ON "ai_call_logs" USING btree ("report_id");
\ No newline at end of file
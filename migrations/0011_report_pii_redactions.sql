@@ -0,0 +1 @@
+ALTER TABLE "reports" ADD COLUMN "pii_redactions" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "reports" ADD COLUMN "suggested_category" varchar(50);--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "suggested_subcategory" varchar(100);--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "category_suggestion_accepted" boolean;--> statement-breakpoint
+-- The shared taxonomy now uses the report form's keys
+UPDATE "moderation_test_cases" SET "category" = 'public' WHERE "category" = 'degradation';--> statement-breakpoint
+UPDATE "moderation_test_cases" SET "category" = 'theft' WHERE "category" = 'cyber';--> statement-breakpoint
+UPDATE "scraped_reports" SET "category" = 'public' WHERE "category" = 'degradation';--> statement-breakpoint
+UPDATE "scraped_reports" SET "category" = 'theft' WHERE "category" = 'cyber';
@@ -0,0 +1,13 @@
+CREATE TABLE "report_translations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" varchar NOT NULL,
+	"language" varchar(2) NOT NULL,
+	"source_hash" varchar(64) NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "language" varchar(2);--> statement-breakpoint
+ALTER TABLE "report_translations" ADD CONSTRAINT "report_translations_report_id_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "report_translations_report_language_idx" ON "report_translations" USING btree ("report_id","language");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "reports" ADD COLUMN "duplicate_of" varchar;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_duplicate_of_reports_id_fk" FOREIGN KEY ("duplicate_of") REFERENCES "public"."reports"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reports_duplicate_of_idx" ON "reports" USING btree ("duplicate_of");
\ No newline at end of file
@@ -0,0 +1,36 @@
+ALTER TABLE "reports" ADD COLUMN "severity" integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "computed_severity" integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "severity_overridden_by" varchar(100);--> statement-breakpoint
+CREATE INDEX "reports_severity_idx" ON "reports" USING btree ("severity");--> statement-breakpoint
+-- Existing reports are scored like new ones (server/severity.ts), without the AI urgency
+UPDATE "reports" SET "computed_severity" = CASE WHEN "category" = 'status' THEN 1 ELSE least(5, greatest(1, round(
+  coalesce(CASE "subcategory"
+    WHEN 'Physical aggression (fighting, restraining)' THEN 5
+    WHEN 'Unwanted behavior (catcalling, sexual remarks, racism)' THEN 3
+    WHEN 'Threats' THEN 4.5
+    WHEN 'Dangerous animals (e.g., unleashed dogs)' THEN 3.5
+    WHEN 'Strange or unusual behavior' THEN 2
+    WHEN 'Suspicious noises' THEN 2
+    WHEN 'Littering' THEN 1
+    WHEN 'Illegal dumping' THEN 1.5
+    WHEN 'Nighttime noise' THEN 1.5
+    WHEN 'Dog fouling' THEN 1
+    WHEN 'Graffiti' THEN 1
+    WHEN 'Vandalism' THEN 2
+    WHEN 'Bike theft' THEN 2.5
+    WHEN 'Property damage' THEN 2.5
+    WHEN 'Porch piracy' THEN 2.5
+    WHEN 'Cybercrime' THEN 3
+    WHEN 'Pickpocketing' THEN 3
+    WHEN 'Other dangerous situations' THEN 4
+  END, CASE "category"
+    WHEN 'harassment' THEN 4
+    WHEN 'suspicious' THEN 2
+    WHEN 'public' THEN 1.5
+    WHEN 'theft' THEN 3
+    WHEN 'dangerous' THEN 4
+  END, 2)
+  + CASE WHEN "involvement_type" = 'victim' THEN 0.5 ELSE 0 END
+  + CASE WHEN "authorities_contacted" THEN 0.5 ELSE 0 END
+))) END;--> statement-breakpoint
+UPDATE "reports" SET "severity" = "computed_severity";
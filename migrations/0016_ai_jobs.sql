@@ -0,0 +1,16 @@
+CREATE TABLE "ai_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(40) NOT NULL,
+	"report_id" varchar NOT NULL,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "ai_jobs" ADD CONSTRAINT "ai_jobs_report_id_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_jobs_status_run_at_idx" ON "ai_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "ai_jobs_report_id_idx" ON "ai_jobs" USING btree ("report_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "reports" ADD COLUMN "thumbnail_url" text;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "image_path" text;--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "image_status" varchar(20);--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "image_moderation" jsonb;--> statement-breakpoint
+-- Photos uploaded before the image pipeline stay published as they were
+UPDATE "reports" SET "image_status" = 'approved' WHERE "image_url" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "report_media" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_id" varchar NOT NULL,
+	"kind" varchar(10) NOT NULL,
+	"position" integer NOT NULL,
+	"caption" text,
+	"object_key" text,
+	"content_type" varchar(100) NOT NULL,
+	"url" text,
+	"thumbnail_url" text,
+	"status" varchar(20) DEFAULT 'processing' NOT NULL,
+	"moderation" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "report_media" ADD CONSTRAINT "report_media_report_id_reports_id_fk" FOREIGN KEY ("report_id") REFERENCES "public"."reports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "report_media_report_id_idx" ON "report_media" USING btree ("report_id","position");--> statement-breakpoint
+CREATE INDEX "report_media_url_idx" ON "report_media" USING btree ("url");--> statement-breakpoint
+CREATE INDEX "report_media_thumbnail_url_idx" ON "report_media" USING btree ("thumbnail_url");--> statement-breakpoint
+-- The photo of each report becomes its first media item
+INSERT INTO "report_media" ("report_id", "kind", "position", "object_key", "content_type", "url", "thumbnail_url", "status", "moderation", "created_at")
+SELECT "id", 'image', 0, "image_path", 'image/jpeg', "image_url", "thumbnail_url", COALESCE("image_status", 'approved'), "image_moderation", "created_at"
+FROM "reports" WHERE "image_path" IS NOT NULL OR "image_url" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "image_path";--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "image_status";--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "image_moderation";
\ No newline at end of file
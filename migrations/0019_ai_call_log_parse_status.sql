@@ -0,0 +1,5 @@
+ALTER TABLE "ai_call_logs" ADD COLUMN "parse_status" varchar(20) DEFAULT 'not-parsed' NOT NULL;--> statement-breakpoint
+-- Failed calls with a raw response got an answer that could not be parsed; successful calls were parsed
+-- from JSON except summaries and everything from the local provider
+UPDATE "ai_call_logs" SET "parse_status" = 'unparseable' WHERE NOT "success" AND "raw_response" IS NOT NULL;--> statement-breakpoint
+UPDATE "ai_call_logs" SET "parse_status" = 'parsed' WHERE "success" AND "type" <> 'summary' AND "provider" <> 'local';
\ No newline at end of file
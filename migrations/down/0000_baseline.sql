@@ -0,0 +1,9 @@
+DROP TABLE "municipalities" CASCADE;
+--> statement-breakpoint
+DROP TABLE "notes" CASCADE;
+--> statement-breakpoint
+DROP TABLE "reports" CASCADE;
+--> statement-breakpoint
+DROP TABLE "scraped_reports" CASCADE;
+--> statement-breakpoint
+DROP TABLE "scraping_config" CASCADE;
@@ -0,0 +1,5 @@
+DROP INDEX "reports_location_idx";
+--> statement-breakpoint
+DROP INDEX "reports_created_at_idx";
+--> statement-breakpoint
+DROP INDEX "reports_incident_date_time_idx";
@@ -0,0 +1,5 @@
+DROP TABLE "report_status_history" CASCADE;
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "status";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "status_updated_at";
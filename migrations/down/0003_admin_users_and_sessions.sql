@@ -0,0 +1,3 @@
+DROP TABLE "admin_users" CASCADE;
+--> statement-breakpoint
+DROP TABLE "session" CASCADE;
@@ -0,0 +1,3 @@
+DROP TABLE "report_edit_tokens" CASCADE;
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "edited_at";
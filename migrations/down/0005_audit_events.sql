@@ -0,0 +1,3 @@
+DROP TABLE "audit_events" CASCADE;
+--> statement-breakpoint
+DROP FUNCTION "audit_events_append_only"();
@@ -0,0 +1,3 @@
+DROP TABLE "moderation_test_cases" CASCADE;
+--> statement-breakpoint
+DROP TABLE "moderation_test_runs" CASCADE;
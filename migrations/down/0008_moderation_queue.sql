@@ -0,0 +1,7 @@
+DROP INDEX "reports_moderation_status_idx";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "moderation_confidence";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "reviewed_by";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "reviewed_at";
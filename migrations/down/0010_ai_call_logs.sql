@@ -0,0 +1 @@
+DROP TABLE "ai_call_logs" CASCADE;
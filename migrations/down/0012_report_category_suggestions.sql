@@ -0,0 +1,5 @@
+ALTER TABLE "reports" DROP COLUMN "suggested_category";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "suggested_subcategory";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "category_suggestion_accepted";
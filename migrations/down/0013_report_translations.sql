@@ -0,0 +1,3 @@
+DROP TABLE "report_translations" CASCADE;
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "language";
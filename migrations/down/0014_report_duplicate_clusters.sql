@@ -0,0 +1,6 @@
+ALTER TABLE "reports" DROP CONSTRAINT "reports_duplicate_of_reports_id_fk";
+
+--> statement-breakpoint
+DROP INDEX "reports_duplicate_of_idx";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "duplicate_of";
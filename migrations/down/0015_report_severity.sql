@@ -0,0 +1,7 @@
+DROP INDEX "reports_severity_idx";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "severity";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "computed_severity";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "severity_overridden_by";
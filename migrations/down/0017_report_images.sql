@@ -0,0 +1,7 @@
+ALTER TABLE "reports" DROP COLUMN "thumbnail_url";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "image_path";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "image_status";
+--> statement-breakpoint
+ALTER TABLE "reports" DROP COLUMN "image_moderation";
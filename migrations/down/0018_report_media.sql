@@ -0,0 +1,12 @@
+ALTER TABLE "reports" ADD COLUMN "image_path" text;
+--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "image_status" varchar(20);
+--> statement-breakpoint
+ALTER TABLE "reports" ADD COLUMN "image_moderation" jsonb;
+--> statement-breakpoint
+-- Only the first photo of each report is kept
+UPDATE "reports" SET "image_path" = m."object_key", "image_status" = m."status", "image_moderation" = m."moderation"
+FROM (SELECT DISTINCT ON ("report_id") * FROM "report_media" WHERE "kind" = 'image' ORDER BY "report_id", "position") m
+WHERE m."report_id" = "reports"."id";
+--> statement-breakpoint
+DROP TABLE "report_media" CASCADE;
@@ -0,0 +1 @@
+ALTER TABLE "ai_call_logs" DROP COLUMN "parse_status";
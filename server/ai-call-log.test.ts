@@ -0,0 +1,37 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initStorage, storage } from './storage';
+import { getAICallStats } from './ai-call-log';
+
+// The statistics on the local backend, in a server time zone that is still on the previous day
+// when UTC is already on the next one
+
+const zone = process.env.TZ;
+
+before(async () => {
+  process.env.TZ = 'America/New_York';
+  await initStorage();
+});
+
+after(() => {
+  if (zone === undefined) delete process.env.TZ;
+  else process.env.TZ = zone;
+});
+
+describe('getAICallStats', () => {
+  test('counts calls on either side of midnight UTC on their own UTC day', async () => {
+    const log = (createdAt: string) => storage.createAICallLog({
+      type: 'translation', provider: 'anthropic', model: 'claude-3-haiku-20240307', latencyMs: 100, success: true,
+      parseStatus: 'parsed', input: {}, inputTokens: 10, outputTokens: 5, createdAt: new Date(createdAt),
+    });
+    await log('2025-05-31T12:00:00Z'); // Before the window
+    await log('2025-06-01T23:59:00Z');
+    await log('2025-06-02T00:01:00Z');
+    await log('2025-06-02T00:20:00Z');
+
+    // 20:30 on June 1st in New York
+    const stats = await getAICallStats({ days: 2, type: 'translation' }, new Date('2025-06-02T00:30:00Z'));
+    assert.deepEqual(stats.days.map(day => [day.day, day.calls]), [['2025-06-01', 1], ['2025-06-02', 2]]);
+    assert.equal(stats.totals.calls, 3);
+  });
+});
@@ -0,0 +1,135 @@
+import type { AICallDayStats, AICallStats, AICallStatsQuery, AICallType, NewAICallLog } from '@shared/schema';
+import { AIResponseParseError, type AIProviderName, type AIProviderResponse } from './ai-provider';
+import { storage, type AICallDailyCounts } from './storage';
+
+// USD per million tokens. Models without a price (e.g. an ANTHROPIC_MODEL override) get no cost estimate.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+};
+
+export interface AICallContext {
+  type: AICallType;
+  provider: AIProviderName;
+  input: Record<string, unknown>;
+  promptVersion?: number | null; // Moderation prompt version, null for the file default
+  reportId?: string | null;
+}
+
+// Runs a provider call and stores it in the AI call log, whether it succeeds or not.
+// A failing log write is reported but never fails the call itself.
+export async function recordAICall<T>(
+  context: AICallContext,
+  call: () => Promise<AIProviderResponse<T>>,
+): Promise<AIProviderResponse<T>> {
+  const startTime = Date.now();
+  const entry = {
+    type: context.type,
+    provider: context.provider,
+    promptVersion: context.promptVersion ?? null,
+    reportId: context.reportId ?? null,
+    input: context.input,
+  };
+
+  try {
+    const response = await call();
+    await saveAICallLog({
+      ...entry,
+      model: response.model ?? null,
+      inputTokens: response.usage?.inputTokens ?? null,
+      outputTokens: response.usage?.outputTokens ?? null,
+      latencyMs: Date.now() - startTime,
+      success: true,
+      parseStatus: response.parseStatus ?? 'not-parsed',
+      rawResponse: response.rawResponse,
+      parsedResult: response.result,
+    });
+    return response;
+  } catch (error) {
+    const parseError = error instanceof AIResponseParseError ? error : undefined;
+    await saveAICallLog({
+      ...entry,
+      model: parseError?.model ?? null,
+      inputTokens: parseError?.usage?.inputTokens ?? null,
+      outputTokens: parseError?.usage?.outputTokens ?? null,
+      latencyMs: Date.now() - startTime,
+      success: false,
+      parseStatus: parseError ? 'unparseable' : 'not-parsed',
+      error: error instanceof Error ? error.message : String(error),
+      rawResponse: parseError?.rawResponse ?? null,
+    });
+    throw error;
+  }
+}
+
+async function saveAICallLog(log: NewAICallLog): Promise<void> {
+  try {
+    await storage.createAICallLog(log);
+  } catch (error) {
+    console.error('Failed to write AI call log:', error);
+  }
+}
+
+export function estimateCostUsd(model: string | null, inputTokens: number, outputTokens: number): number | null {
+  const price = model ? MODEL_PRICES[model] : undefined;
+  if (!price) {
+    return null;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+// Cost of a group of rows, null as soon as one row with tokens has no known price
+function groupCost(rows: AICallDailyCounts[]): number | null {
+  let total = 0;
+  for (const row of rows) {
+    if (row.inputTokens === 0 && row.outputTokens === 0) continue;
+    const cost = estimateCostUsd(row.model, row.inputTokens, row.outputTokens);
+    if (cost === null) return null;
+    total += cost;
+  }
+  return total;
+}
+
+function dayStats(day: string, rows: AICallDailyCounts[]): AICallDayStats {
+  const calls = rows.reduce((sum, row) => sum + row.calls, 0);
+  const failures = rows.reduce((sum, row) => sum + row.failures, 0);
+  const totalLatencyMs = rows.reduce((sum, row) => sum + row.totalLatencyMs, 0);
+  return {
+    day,
+    calls,
+    failures,
+    inputTokens: rows.reduce((sum, row) => sum + row.inputTokens, 0),
+    outputTokens: rows.reduce((sum, row) => sum + row.outputTokens, 0),
+    avgLatencyMs: calls > 0 ? Math.round(totalLatencyMs / calls) : null,
+    failureRate: calls > 0 ? failures / calls : null,
+    estimatedCostUsd: groupCost(rows),
+  };
+}
+
+// Daily calls, failure rate, token usage, latency and estimated cost for the last `days` days
+// Days are UTC days, like the ones the database groups the calls by, whatever the server's time zone
+export async function getAICallStats(query: AICallStatsQuery, now = new Date()): Promise<AICallStats> {
+  const since = new Date(now);
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (query.days - 1));
+
+  const [rows, p95LatencyMs] = await Promise.all([
+    storage.getAICallDailyCounts(since, query.type),
+    storage.getAICallLatencyPercentile(since, 0.95, query.type),
+  ]);
+
+  const days: AICallDayStats[] = [];
+  for (let i = 0; i < query.days; i++) {
+    const date = new Date(since);
+    date.setUTCDate(since.getUTCDate() + i);
+    const day = date.toISOString().slice(0, 10);
+    days.push(dayStats(day, rows.filter(row => row.day === day)));
+  }
+
+  const { day: _day, ...totals } = dayStats('', rows);
+  return {
+    days,
+    totals: { ...totals, p95LatencyMs: p95LatencyMs === null ? null : Math.round(p95LatencyMs) },
+  };
+}
@@ -0,0 +1,88 @@
+import type { AIJob, AIJobType } from '@shared/schema';
+import { storage } from './storage';
+import { moderateReport, holdReportForReview } from './report-moderation';
+import { moderateReportMedia, holdReportMediaForReview } from './image-moderation';
+
+// Background queue for AI work that used to run inside the request. Jobs are stored in ai_jobs, so
+// they survive a restart; a failed job is retried with exponential backoff and after
+// AI_JOB_MAX_ATTEMPTS it is dead: its report is held for manual review and an admin can requeue
+// it (POST /api/admin/ai-jobs/:id/retry).
+
+const POLL_MS = Number(process.env.AI_JOB_POLL_MS || 1000);
+const MAX_ATTEMPTS = Number(process.env.AI_JOB_MAX_ATTEMPTS || 5);
+const RETRY_BASE_MS = Number(process.env.AI_JOB_RETRY_BASE_MS || 10_000);
+const RETRY_MAX_MS = 15 * 60 * 1000;
+// A running job not finished after this long was left behind by a crashed worker and is claimed again
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+const handlers: Record<AIJobType, { run: (job: AIJob) => Promise<void>; onDead: (job: AIJob) => Promise<void> }> = {
+  'report-moderation': {
+    run: job => moderateReport(job.reportId),
+    onDead: job => holdReportForReview(job.reportId),
+  },
+  'image-moderation': {
+    run: job => moderateReportMedia(job.reportId),
+    onDead: job => holdReportMediaForReview(job.reportId),
+  },
+};
+
+// Wait before attempt n + 1: the base after the first failure, doubling up to RETRY_MAX_MS
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+let draining = false;
+
+async function runJob(job: AIJob): Promise<void> {
+  const handler = handlers[job.type as AIJobType];
+  try {
+    if (!handler) {
+      throw new Error(`Unknown AI job type: ${job.type}`);
+    }
+    await handler.run(job);
+    await storage.completeAIJob(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!handler || job.attempts >= MAX_ATTEMPTS) {
+      console.error(`AI job ${job.id} (${job.type}) failed after ${job.attempts} attempt(s), giving up:`, message);
+      await storage.failAIJob(job.id, message, null);
+      await handler?.onDead(job);
+      return;
+    }
+    const retryAt = new Date(Date.now() + retryDelayMs(job.attempts));
+    console.warn(`AI job ${job.id} (${job.type}) failed, retrying at ${retryAt.toISOString()}:`, message);
+    await storage.failAIJob(job.id, message, retryAt);
+  }
+}
+
+// One job at a time until none is due
+async function drain(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    let job: AIJob | undefined;
+    while ((job = await storage.claimAIJob(new Date(Date.now() - STALE_AFTER_MS)))) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('AI job worker error:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+// Starts work right away instead of at the next poll
+export function wakeAIJobWorker(): void {
+  void drain();
+}
+
+export async function enqueueAIJob(type: AIJobType, reportId: string): Promise<AIJob> {
+  const job = await storage.createAIJob(type, reportId);
+  wakeAIJobWorker();
+  return job;
+}
+
+export function startAIJobWorker(): void {
+  setInterval(wakeAIJobWorker, POLL_MS).unref();
+  wakeAIJobWorker();
+}
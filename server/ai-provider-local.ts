@@ -0,0 +1,178 @@
+import type { CategorySuggestion, ImageModeration } from '@shared/schema';
+import type {
+  AIProvider,
+  AIProviderResponse,
+  ContentFilterResult,
+  NewsAnalysisResult,
+  NewsArticle,
+  ReportText,
+  TextFormalizationResult,
+} from './ai-provider';
+import { suggestCategoriesByKeywords } from './category-keywords';
+
+// Rule-based stand-in for the language model: the same input always gives the same result,
+// so moderation and news analysis work offline, without an API key and in tests.
+// The policy and instruction prompts are ignored.
+
+const SLURS = ['neger', 'negro', 'nigger', 'makak', 'kankerlijer'];
+const PROFANITY = ['kanker', 'klootzak', 'kutwijf', 'hoer', 'fuck', 'shit', 'idioot', 'debiel'];
+const SPAM_PHRASES = ['koop nu', 'gratis', 'korting', 'klik hier', 'casino', 'bitcoin', 'viagra', 'buy now', 'click here'];
+const TEST_MESSAGES = ['test', 'testing', 'testing 123', 'test 123', 'hallo wereld', 'hello world', 'asdf', 'lorem ipsum'];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE_PATTERN = /(?:\+32|0032|\b0)\s?4?\d(?:[\s./-]?\d){7}\b/;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?:\s?\d{4}){3}\b/i;
+const NATIONAL_NUMBER_PATTERN = /\b\d{2}\.?\d{2}\.?\d{2}-?\d{3}\.?\d{2}\b/;
+const URL_PATTERN = /https?:\/\/|www\./i;
+
+// Keyword → category for news analysis, first match wins
+const NEWS_CATEGORY_KEYWORDS: [string, string[]][] = [
+  ['theft', ['diefstal', 'inbraak', 'gestolen', 'overval', 'zakkenroller', 'fietsdiefstal', 'phishing', 'fraude', 'oplichting', 'hack', 'identiteitsfraude']],
+  ['public', ['vandalisme', 'graffiti', 'sluikstort', 'vernield', 'beschadigd']],
+  ['harassment', ['agressie', 'geweld', 'bedreiging', 'intimidatie', 'vechtpartij']],
+  ['dangerous', ['ongeval', 'brand', 'gevaar', 'gevaarlijk', 'aanrijding']],
+  ['suspicious', ['verdacht', 'overlast', 'politie', 'incident']],
+];
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9à-ÿ]+/).filter(Boolean);
+}
+
+function containsWord(text: string, list: string[]): string | undefined {
+  const textWords = words(text);
+  return list.find(entry => textWords.includes(entry));
+}
+
+function containsPhrase(text: string, list: string[]): string | undefined {
+  const lower = text.toLowerCase();
+  return list.find(entry => lower.includes(entry));
+}
+
+function isShouting(text: string): boolean {
+  const letters = text.replace(/[^A-Za-zÀ-ÿ]/g, '');
+  return letters.length >= 12 && letters === letters.toUpperCase();
+}
+
+function hasRepetition(text: string): boolean {
+  const textWords = words(text);
+  return /(.)\1{5,}/.test(text) || (textWords.length >= 6 && new Set(textWords).size <= textWords.length / 3);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,!?;:])/g, '$1')
+    .replace(/([!?])[!?]+/g, '$1')
+    .replace(/\.{2,}/g, '.')
+    .trim();
+}
+
+export class LocalAIProvider implements AIProvider {
+  readonly name = 'local' as const;
+
+  async checkHealth(): Promise<void> {}
+
+  async filterContent(title: string, description: string): Promise<AIProviderResponse<ContentFilterResult>> {
+    const text = `${title} ${description}`;
+    const reasons: string[] = [];
+
+    const slur = containsWord(text, SLURS);
+    const profanity = containsWord(text, PROFANITY);
+    const hasInappropriateContent = !!(slur || profanity);
+    if (hasInappropriateContent) {
+      reasons.push(slur ? 'Bevat discriminerende taal' : 'Bevat grove taal');
+    }
+
+    const isTestMessage = TEST_MESSAGES.includes(title.trim().toLowerCase()) || TEST_MESSAGES.includes(description.trim().toLowerCase());
+    const isClearSpam = isTestMessage || !!containsPhrase(text, SPAM_PHRASES) || URL_PATTERN.test(text);
+    const isSpam = isClearSpam || isShouting(text) || hasRepetition(text);
+    if (isSpam) {
+      reasons.push(isTestMessage ? 'Lijkt een testbericht' : 'Lijkt spam of reclame');
+    }
+
+    const hasPII = [EMAIL_PATTERN, PHONE_PATTERN, IBAN_PATTERN, NATIONAL_NUMBER_PATTERN].some(pattern => pattern.test(text));
+    if (hasPII) {
+      reasons.push('Bevat persoonlijke gegevens');
+    }
+
+    // Shouting and repetition alone are weak signals, so those verdicts go to a moderator
+    const hasStrongSignal = hasInappropriateContent || isClearSpam || hasPII;
+    const result: ContentFilterResult = {
+      isApproved: reasons.length === 0,
+      isSpam,
+      hasInappropriateContent,
+      hasPII,
+      confidence: reasons.length === 0 ? 0.8 : hasStrongSignal ? 0.9 : 0.5,
+      ...(reasons.length > 0 && { reason: reasons.join('; ') }),
+    };
+    return { result, rawResponse: JSON.stringify(result) };
+  }
+
+  // Only tidies the text (whitespace, punctuation, capitals) so no details are ever added or lost
+  async formalizeText(title: string, description: string): Promise<AIProviderResponse<TextFormalizationResult>> {
+    const formalizedTitle = capitalize(tidy(title).replace(/[.!?]+$/, ''));
+    let formalizedDescription = capitalize(tidy(description));
+    if (formalizedDescription && !/[.!?]$/.test(formalizedDescription)) {
+      formalizedDescription += '.';
+    }
+    const result = { formalizedTitle, formalizedDescription };
+    return { result, rawResponse: JSON.stringify(result) };
+  }
+
+  // Free-form text needs a real model; callers fall back to their non-AI summary
+  async generateSummary(): Promise<AIProviderResponse<string>> {
+    throw new Error('Summaries are not available with the local AI provider');
+  }
+
+  // Callers show the untranslated text instead
+  async translateReport(): Promise<AIProviderResponse<ReportText>> {
+    throw new Error('Translations are not available with the local AI provider');
+  }
+
+  // There is no image model to run locally, so faces and plates cannot be found and blurred:
+  // every photo is held for a moderator instead of being published as it is
+  async moderateImage(): Promise<AIProviderResponse<ImageModeration>> {
+    const result: ImageModeration = { safe: false, flags: [], reason: 'No image model available - held for manual review', regions: [] };
+    return { result, rawResponse: JSON.stringify(result) };
+  }
+
+  async analyzeNews(article: NewsArticle): Promise<AIProviderResponse<NewsAnalysisResult>> {
+    const result = this.analyzeNewsText(article);
+    return { result, rawResponse: JSON.stringify(result) };
+  }
+
+  async suggestCategories(title: string, description: string): Promise<AIProviderResponse<CategorySuggestion[]>> {
+    const result = suggestCategoriesByKeywords(title, description);
+    return { result, rawResponse: JSON.stringify(result) };
+  }
+
+  private analyzeNewsText(article: NewsArticle): NewsAnalysisResult {
+    const text = `${article.title} ${article.description}`;
+    const matches = NEWS_CATEGORY_KEYWORDS
+      .map(([category, keywords]) => ({ category, keyword: containsPhrase(text, keywords) }))
+      .filter((match): match is { category: string; keyword: string } => !!match.keyword);
+
+    if (matches.length === 0) {
+      return {
+        isIncidentRelated: false,
+        confidence: 0.2,
+        reasoning: 'Geen incident-gerelateerde trefwoorden gevonden',
+      };
+    }
+
+    const [{ category, keyword }] = matches;
+    const location = article.title.match(/\bin (?:centrum )?([A-Z][A-Za-zÀ-ÿ-]+)/)?.[1];
+    return {
+      isIncidentRelated: true,
+      confidence: Math.min(0.5 + 0.15 * matches.length, 0.95),
+      category,
+      ...(location && { location }),
+      extractedData: { incidentType: keyword },
+      reasoning: `Trefwoorden gevonden: ${matches.map(match => match.keyword).join(', ')}`,
+    };
+  }
+}
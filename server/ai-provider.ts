@@ -0,0 +1,103 @@
+import type { AICallParseStatus, CategorySuggestion, ImageModeration, ReportLanguage } from '@shared/schema';
+import { AnthropicProvider } from './ai-provider-anthropic';
+import { LocalAIProvider } from './ai-provider-local';
+
+export interface ContentFilterResult {
+  isApproved: boolean;
+  isSpam: boolean;
+  hasInappropriateContent: boolean;
+  hasPII: boolean;
+  confidence?: number; // 0-1, how sure the filter is of its verdict; low values go to the moderation queue
+  urgency?: number; // 0-1, how urgent or serious the incident is; feeds the report's severity score
+  reason?: string;
+}
+
+export interface TextFormalizationResult {
+  formalizedTitle: string;
+  formalizedDescription: string;
+}
+
+export interface ReportText {
+  title: string;
+  description: string;
+}
+
+export interface NewsArticle {
+  title: string;
+  description: string;
+  source: string;
+}
+
+export interface NewsAnalysisResult {
+  isIncidentRelated: boolean;
+  confidence: number;
+  category?: string;
+  location?: string;
+  extractedData?: {
+    latitude?: number;
+    longitude?: number;
+    incidentType?: string;
+  };
+  reasoning: string;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Parsed result plus the raw model output, model and token usage, kept in the AI call log
+export interface AIProviderResponse<T> {
+  result: T;
+  rawResponse: string;
+  model?: string; // Unset for the local provider
+  usage?: AIUsage;
+  parseStatus?: AICallParseStatus; // "parsed" when the result was read from JSON output, unset for plain text
+}
+
+// The model answered, but not in the expected format. Carries what the call log needs.
+export class AIResponseParseError extends Error {
+  constructor(
+    message: string,
+    readonly rawResponse: string,
+    readonly model?: string,
+    readonly usage?: AIUsage,
+  ) {
+    super(message);
+    this.name = 'AIResponseParseError';
+  }
+}
+
+// Everything the app asks of a language model. Providers throw when a call fails or the
+// response is unusable; callers decide on the fallback (moderation fails closed).
+export interface AIProvider {
+  readonly name: AIProviderName;
+  checkHealth(): Promise<void>;
+  // policyPrompt holds the moderation instructions (server/prompts/ or a custom test prompt)
+  filterContent(title: string, description: string, policyPrompt: string): Promise<AIProviderResponse<ContentFilterResult>>;
+  // The formalized text stays in the original language; language is null when it was not detected
+  formalizeText(title: string, description: string, instructionPrompt: string, language: ReportLanguage | null): Promise<AIProviderResponse<TextFormalizationResult>>;
+  generateSummary(systemPrompt: string, prompt: string): Promise<AIProviderResponse<string>>;
+  analyzeNews(article: NewsArticle, postcode: string): Promise<AIProviderResponse<NewsAnalysisResult>>;
+  // Ranked best first; callers still check the keys against the category taxonomy
+  suggestCategories(title: string, description: string): Promise<AIProviderResponse<CategorySuggestion[]>>;
+  translateReport(text: ReportText, from: ReportLanguage, to: ReportLanguage): Promise<AIProviderResponse<ReportText>>;
+  // Safety check of a JPEG photo plus the faces and licence plates in it
+  moderateImage(image: Buffer): Promise<AIProviderResponse<ImageModeration>>;
+}
+
+// 'anthropic' (default) calls the Anthropic API, 'local' is a deterministic rule-based stub
+// that needs no network or API key
+export type AIProviderName = 'anthropic' | 'local';
+
+export const aiProviderName: AIProviderName =
+  process.env.AI_PROVIDER === 'local' ? 'local' : 'anthropic';
+
+let provider: AIProvider | undefined;
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = aiProviderName === 'local' ? new LocalAIProvider() : new AnthropicProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,35 @@
+import type { Request } from 'express';
+import type { AuditAction, AuditEntityType } from '@shared/schema';
+import { storage } from './storage';
+
+export interface AuditEventInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: unknown; // Snapshots must not contain secrets such as password hashes
+  after?: unknown;
+  actor?: string; // Defaults to the logged in admin
+}
+
+// Record an admin or moderation action with the acting account and request metadata.
+// Call after the change succeeded. A failure to write the event is logged, not thrown,
+// because the change itself has already been made.
+export async function recordAuditEvent(req: Request, event: AuditEventInput): Promise<void> {
+  try {
+    await storage.createAuditEvent({
+      actor: event.actor ?? req.user?.username ?? 'anonymous',
+      actorRole: req.user?.role ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get('User-Agent')?.slice(0, 500) ?? null,
+      requestMethod: req.method,
+      requestPath: req.originalUrl.slice(0, 500),
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error);
+  }
+}
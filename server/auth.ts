@@ -0,0 +1,187 @@
+import { randomBytes } from 'crypto';
+import type { Express, NextFunction, Request, RequestHandler, Response } from 'express';
+import session from 'express-session';
+import connectPgSimple from 'connect-pg-simple';
+import createMemoryStore from 'memorystore';
+import passport from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
+import { z } from 'zod';
+import { loginSchema, type AdminRole, type AdminUser, type SafeAdminUser } from '@shared/schema';
+import { createNeonPool, storageBackend } from './db';
+import { hashPassword, verifyPassword } from './passwords';
+import { recordAuditEvent } from './audit';
+import { storage } from './storage';
+
+declare global {
+  namespace Express {
+    interface User extends SafeAdminUser {}
+  }
+}
+
+const SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+
+// Roles that may moderate and manage content; municipality viewers only get statistics
+export const STAFF_ROLES: AdminRole[] = ['superadmin', 'moderator'];
+
+export function toSafeAdminUser({ passwordHash, ...user }: AdminUser): SafeAdminUser {
+  return user;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  console.warn('SESSION_SECRET is not set, using a random secret: admin sessions end on every restart');
+  return randomBytes(32).toString('hex');
+}
+
+// Sessions live next to the data: in Postgres (the "session" table) or in memory for the local backend
+function createSessionStore(): session.Store {
+  if (storageBackend === 'local') {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: SESSION_MAX_AGE_MS });
+  }
+  const PgStore = connectPgSimple(session);
+  return new PgStore({ pool: createNeonPool(), tableName: 'session', createTableIfMissing: false });
+}
+
+// Create the first superadmin from ADMIN_USERNAME/ADMIN_PASSWORD when there are no accounts yet
+async function bootstrapAdminUser(): Promise<void> {
+  if (await storage.countAdminUsers() > 0) {
+    return;
+  }
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) {
+    console.warn('No admin accounts exist, set ADMIN_USERNAME and ADMIN_PASSWORD to create a superadmin');
+    return;
+  }
+  await storage.createAdminUser({
+    username: ADMIN_USERNAME,
+    passwordHash: await hashPassword(ADMIN_PASSWORD),
+    role: 'superadmin',
+  });
+  console.log(`Created superadmin account "${ADMIN_USERNAME}"`);
+}
+
+// Session cookies, passport and the /api/auth endpoints. Must run before registerRoutes.
+export async function setupAuth(app: Express): Promise<void> {
+  await bootstrapAdminUser();
+
+  app.set('trust proxy', 1);
+  app.use(session({
+    store: createSessionStore(),
+    secret: sessionSecret(),
+    name: 'safetymap.sid',
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getAdminUserByUsername(username);
+      if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toSafeAdminUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getAdminUser(id);
+      // Deactivated or deleted accounts lose their sessions immediately
+      done(null, user && user.isActive ? toSafeAdminUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/auth/login', (req, res, next) => {
+    try {
+      req.body = loginSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid login data", details: error.errors });
+      }
+      return next(error);
+    }
+
+    passport.authenticate('local', async (error: unknown, user: Express.User | false) => {
+      if (error) {
+        console.error('Error during login:', error);
+        return res.status(500).json({ error: "Login failed" });
+      }
+      if (!user) {
+        await recordAuditEvent(req, { action: 'auth.login', entityType: 'admin_user', actor: req.body.username, after: { success: false } });
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      // New session id on login to prevent session fixation
+      req.session.regenerate(regenerateError => {
+        if (regenerateError) {
+          return next(regenerateError);
+        }
+        req.login(user, async loginError => {
+          if (loginError) {
+            return next(loginError);
+          }
+          await storage.updateAdminUser(user.id, { lastLoginAt: new Date() });
+          await recordAuditEvent(req, { action: 'auth.login', entityType: 'admin_user', entityId: user.id, after: { success: true } });
+          res.json(user);
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', async (req, res, next) => {
+    if (req.user) {
+      await recordAuditEvent(req, { action: 'auth.logout', entityType: 'admin_user', entityId: req.user.id });
+    }
+    req.logout(logoutError => {
+      if (logoutError) {
+        return next(logoutError);
+      }
+      req.session.destroy(() => {
+        res.clearCookie('safetymap.sid');
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+};
+
+// Use after requireAuth
+export function requireRole(...roles: AdminRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role as AdminRole)) {
+      return res.status(403).json({ error: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,89 @@
+import { CATEGORY_SUGGESTION_MAX, type CategoryKey, type CategorySuggestion } from '@shared/schema';
+
+// Keyword classifier for the report form's category suggestion. It is the fallback when the AI
+// call fails and what the local AI provider answers with. Keywords are Dutch, lowercase and
+// matched as the start of a word, so "fiets" also matches "fietsen" and "fietsslot".
+
+interface KeywordRule {
+  category: CategoryKey;
+  subcategory: string | null; // null: only the category is implied
+  keywords: string[];
+}
+
+const KEYWORD_RULES: KeywordRule[] = [
+  { category: 'harassment', subcategory: 'Physical aggression (fighting, restraining)', keywords: ['vecht', 'geslagen', 'sloeg', 'slaan', 'geschopt', 'duw', 'klap', 'agressie', 'agressief', 'mishandel', 'vastgehouden'] },
+  { category: 'harassment', subcategory: 'Unwanted behavior (catcalling, sexual remarks, racism)', keywords: ['nageroepen', 'naroepen', 'nafluiten', 'gefloten', 'seksue', 'opmerking', 'racis', 'uitgescholden', 'scheld', 'lastiggevallen', 'betast'] },
+  { category: 'harassment', subcategory: 'Threats', keywords: ['bedreig', 'dreig', 'mes', 'wapen', 'intimid'] },
+  { category: 'harassment', subcategory: 'Dangerous animals (e.g., unleashed dogs)', keywords: ['loslopend', 'gebeten', 'bijt', 'aangevallen', 'zonder leiband', 'hond'] },
+  { category: 'suspicious', subcategory: 'Strange or unusual behavior', keywords: ['verdacht', 'rondhang', 'loert', 'gluren', 'rondlopen', 'rondrijden', 'vreemd', 'onbekend', 'aanbellen', 'foto\'s van huizen'] },
+  { category: 'suspicious', subcategory: 'Suspicious noises', keywords: ['geluid', 'geknal', 'glasgerinkel', 'gegil', 'geschreeuw', 'gebonk', 'knal'] },
+  { category: 'public', subcategory: 'Littering', keywords: ['zwerfvuil', 'afval', 'blikjes', 'peuk', 'rommel', 'vuilnis'] },
+  { category: 'public', subcategory: 'Illegal dumping', keywords: ['sluikstort', 'gedumpt', 'dumpen', 'achtergelaten', 'matras', 'grofvuil', 'bouwafval'] },
+  { category: 'public', subcategory: 'Nighttime noise', keywords: ['lawaai', 'nachtlawaai', 'muziek', 'feest', 'nachtrust', 'herrie', 'geluidsoverlast'] },
+  { category: 'public', subcategory: 'Dog fouling', keywords: ['hondenpoep', 'hondenstront', 'uitwerpselen', 'drol'] },
+  { category: 'public', subcategory: 'Graffiti', keywords: ['graffiti', 'gespoten', 'spuitbus', 'tag', 'beklad', 'bekladding'] },
+  { category: 'public', subcategory: 'Vandalism', keywords: ['vandal', 'vernield', 'vernieling', 'kapotgemaakt', 'ingegooid', 'bushokje', 'speeltuin', 'omvergetrokken'] },
+  { category: 'theft', subcategory: 'Bike theft', keywords: ['fiets', 'fietsslot', 'fietsendiefstal', 'step', 'bakfiets'] },
+  { category: 'theft', subcategory: 'Property damage', keywords: ['auto beschadigd', 'bekrast', 'kras', 'ruit', 'spiegel', 'banden', 'lekgestoken', 'deuk'] },
+  { category: 'theft', subcategory: 'Porch piracy', keywords: ['pakket', 'pakje', 'levering', 'bezorgd', 'brievenbus', 'voordeur'] },
+  { category: 'theft', subcategory: 'Cybercrime', keywords: ['phishing', 'sms', 'oplicht', 'fraude', 'gehackt', 'hack', 'valse', 'nep', 'wachtwoord', 'bankgegevens'] },
+  { category: 'theft', subcategory: 'Pickpocketing', keywords: ['gerold', 'zakkenroll', 'portefeuille', 'portemonnee', 'gsm gestolen', 'handtas', 'uit mijn zak'] },
+  { category: 'theft', subcategory: null, keywords: ['gestolen', 'diefstal', 'dief', 'inbraak', 'ingebroken', 'inbreker', 'weggenomen'] },
+  { category: 'dangerous', subcategory: 'Other dangerous situations', keywords: ['gevaar', 'gevaarlijk', 'brand', 'rook', 'gaslek', 'gaslucht', 'kabel', 'put', 'gat in', 'omgevallen', 'boom', 'ongeval', 'aanrijding', 'te snel', 'glas op'] },
+  { category: 'status', subcategory: 'Just status reports', keywords: ['rustig', 'alles ok', 'niets aan de hand', 'geen problemen', 'opgelost', 'update', 'weer in orde'] },
+];
+
+// Confidence of the best match with one keyword hit; every extra hit adds a share, capped below 1
+const BASE_CONFIDENCE = 0.35;
+const CONFIDENCE_PER_HIT = 0.15;
+const MAX_CONFIDENCE = 0.85;
+
+function matchesKeyword(text: string, keyword: string): boolean {
+  const index = text.indexOf(keyword);
+  return index !== -1 && (index === 0 || !/[a-zà-ÿ]/.test(text.charAt(index - 1)));
+}
+
+// Title hits count double: the title usually names the incident, the description the circumstances
+export function suggestCategoriesByKeywords(title: string, description: string): CategorySuggestion[] {
+  const lowerTitle = title.toLowerCase();
+  const lowerDescription = description.toLowerCase();
+
+  const ranked: { category: CategoryKey; subcategory: string | null; hits: number }[] = [];
+  for (const rule of KEYWORD_RULES) {
+    let hits = 0;
+    for (const keyword of rule.keywords) {
+      if (matchesKeyword(lowerTitle, keyword)) hits += 2;
+      else if (matchesKeyword(lowerDescription, keyword)) hits += 1;
+    }
+    if (hits > 0) {
+      ranked.push({ category: rule.category, subcategory: rule.subcategory, hits });
+    }
+  }
+
+  // A category-only rule strengthens that category's best subcategory instead of competing with it
+  for (const generic of ranked.filter(score => score.subcategory === null)) {
+    const specific = ranked
+      .filter(score => score.category === generic.category && score.subcategory !== null)
+      .sort((a, b) => b.hits - a.hits)[0];
+    if (specific) {
+      specific.hits += generic.hits;
+      generic.hits = 0;
+    }
+  }
+
+  // One suggestion per category; its best subcategory wins
+  const best = new Map<CategoryKey, (typeof ranked)[number]>();
+  for (const score of ranked.filter(score => score.hits > 0).sort((a, b) => b.hits - a.hits)) {
+    if (!best.has(score.category)) {
+      best.set(score.category, score);
+    }
+  }
+
+  return Array.from(best.values())
+    .slice(0, CATEGORY_SUGGESTION_MAX)
+    .map(score => ({
+      category: score.category,
+      subcategory: score.subcategory,
+      confidence: Math.round(Math.min(BASE_CONFIDENCE + CONFIDENCE_PER_HIT * (score.hits - 1), MAX_CONFIDENCE) * 100) / 100,
+    }));
+}
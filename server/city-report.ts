@@ -0,0 +1,420 @@
+import PDFDocument from 'pdfkit';
+import { format } from 'date-fns';
+import type { IStorage } from './storage';
+import { summarizeRegionReports } from './ai';
+import { renderStaticMap } from './static-map';
+import { getIncidentTimeStats, getReportCategoryStats, getReportStatsSummary, type StatsContext } from './stats';
+import {
+  categories,
+  type CategoryKey,
+  type CityReportFormat,
+  type IncidentTimeStats,
+  type Report,
+  type ReportCategoryStats,
+  type ReportStatsSummary,
+  type StatsCount,
+  type StatsMeta,
+} from '@shared/schema';
+
+// Everything that goes into a municipal city report, in any export format
+export interface CityReport {
+  meta: StatsMeta;
+  summary: ReportStatsSummary;
+  categories: ReportCategoryStats;
+  incidentTimes: IncidentTimeStats;
+  reports: Report[]; // Public reports only
+  regionSummary: string | null; // AI summary, only generated for PDF exports
+}
+
+export async function buildCityReport(
+  storage: IStorage,
+  context: StatsContext,
+  options: { withRegionSummary: boolean },
+): Promise<CityReport> {
+  const [summary, categoryStats, incidentTimes, reports] = await Promise.all([
+    getReportStatsSummary(storage, context),
+    getReportCategoryStats(storage, context),
+    getIncidentTimeStats(storage, context),
+    storage.getPublicReportsForStats(context.current),
+  ]);
+
+  return {
+    meta: context.meta,
+    summary,
+    categories: categoryStats,
+    incidentTimes,
+    reports,
+    regionSummary: options.withRegionSummary ? await summarizeRegionReports(reports) : null,
+  };
+}
+
+const CONTENT_TYPES: Record<CityReportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  geojson: 'application/geo+json',
+};
+
+export function cityReportContentType(exportFormat: CityReportFormat): string {
+  return CONTENT_TYPES[exportFormat];
+}
+
+function scopeName(meta: StatsMeta): string {
+  if (!meta.scope) return 'Alle gemeenten';
+  return meta.scope.postcode ? `${meta.scope.postcode} ${meta.scope.municipality ?? ''}`.trim() : meta.scope.municipality ?? '';
+}
+
+// e.g. stadsrapport-antwerpen-2025-09-01-2025-09-30.pdf
+export function cityReportFilename(report: CityReport, exportFormat: CityReportFormat): string {
+  const slug = scopeName(report.meta).toLowerCase().normalize('NFD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const from = report.meta.period.from.slice(0, 10);
+  const to = report.meta.period.to.slice(0, 10);
+  return `stadsrapport-${slug}-${from}-${to}.${exportFormat}`;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'incidentDateTime',
+  'category',
+  'subcategory',
+  'status',
+  'title',
+  'description',
+  'latitude',
+  'longitude',
+  'locationDescription',
+] as const satisfies readonly (keyof Report)[];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet applications from evaluating user content as formulas
+  if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderCityReportCsv(report: CityReport): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...report.reports.map(r => CSV_COLUMNS.map(column => csvValue(r[column])).join(',')),
+  ];
+  // BOM so spreadsheet applications detect UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function renderCityReportGeoJson(report: CityReport) {
+  return {
+    type: 'FeatureCollection' as const,
+    metadata: report.meta,
+    features: report.reports
+      .filter(r => r.latitude !== null && r.longitude !== null)
+      .map(r => ({
+        type: 'Feature' as const,
+        id: r.id,
+        geometry: { type: 'Point' as const, coordinates: [r.longitude!, r.latitude!] },
+        properties: {
+          title: r.title,
+          description: r.description,
+          category: r.category,
+          subcategory: r.subcategory,
+          status: r.status,
+          locationDescription: r.locationDescription,
+          incidentDateTime: r.incidentDateTime,
+          createdAt: r.createdAt,
+        },
+      })),
+  };
+}
+
+const PAGE_MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const WEEKDAYS = ['Ma', 'Di', 'Wo', 'Do', 'Vr', 'Za', 'Zo'];
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Open',
+  acknowledged: 'Erkend',
+  in_progress: 'In behandeling',
+  resolved: 'Opgelost',
+  expired: 'Verlopen',
+};
+
+type Doc = PDFKit.PDFDocument;
+
+const formatDate = (iso: string | Date) => format(new Date(iso), 'dd/MM/yyyy');
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const formatHours = (hours: number | null) => (hours === null ? '-' : `${hours.toFixed(1)} u`);
+const formatDelta = (count: StatsCount) =>
+  count.delta === null ? '-' : `${count.delta > 0 ? '+' : ''}${Math.round(count.delta * 100)}%`;
+
+function categoryInfo(category: string): { name: string; color: string } {
+  return categories[category as CategoryKey] ?? { name: category, color: '#6b7280' };
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+// Start a new page when the next block does not fit on the current one
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+    doc.addPage();
+  }
+}
+
+function heading(doc: Doc, text: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827').text(text, PAGE_MARGIN);
+  doc.moveDown(0.4);
+  doc.font('Helvetica').fontSize(10).fillColor('#374151');
+}
+
+function drawKeyFigures(doc: Doc, summary: ReportStatsSummary) {
+  const rows: [string, string, string][] = [
+    ['Totaal meldingen', String(summary.reports.current), formatDelta(summary.reports)],
+    ['Opgelost', `${summary.resolved.current} (${formatPercent(summary.resolutionRate)})`, formatDelta(summary.resolved)],
+    ['Afgewezen door moderatie', `${summary.rejected.current} (${formatPercent(summary.rejectionRate)})`, formatDelta(summary.rejected)],
+    ['Herschreven door AI moderatie', formatPercent(summary.moderationRate), '-'],
+    ['Gem. reactietijd', formatHours(summary.avgResponseHours.current), `vorige: ${formatHours(summary.avgResponseHours.previous)}`],
+  ];
+
+  const columns = [PAGE_MARGIN, PAGE_MARGIN + 230, PAGE_MARGIN + 360];
+  const drawRow = (row: string[]) => {
+    const y = doc.y;
+    row.forEach((value, i) => doc.text(value, columns[i], y, { lineBreak: false }));
+    doc.y = y + 15;
+  };
+
+  doc.font('Helvetica-Bold');
+  drawRow(['', 'Deze periode', 'vs vorige periode']);
+  doc.font('Helvetica');
+  rows.forEach(drawRow);
+}
+
+function drawCategoryBars(doc: Doc, stats: ReportCategoryStats) {
+  if (stats.categories.length === 0) {
+    doc.text('Geen meldingen in deze periode.', PAGE_MARGIN);
+    return;
+  }
+
+  const labelWidth = 160;
+  const barWidth = contentWidth(doc) - labelWidth - 90;
+  for (const category of stats.categories) {
+    const { name, color } = categoryInfo(category.category);
+    ensureSpace(doc, 20 + category.subcategories.length * 13);
+
+    const y = doc.y;
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#111827').text(name, PAGE_MARGIN, y, { width: labelWidth, lineBreak: false });
+    doc.rect(PAGE_MARGIN + labelWidth, y + 1, barWidth, 8).fill('#e5e7eb');
+    doc.rect(PAGE_MARGIN + labelWidth, y + 1, Math.max(barWidth * category.share, 1), 8).fill(color);
+    doc.font('Helvetica').fillColor('#374151')
+      .text(`${category.count} (${formatPercent(category.share)})`, PAGE_MARGIN + labelWidth + barWidth + 8, y, { lineBreak: false });
+    doc.y = y + 14;
+
+    doc.fontSize(8).fillColor('#6b7280');
+    doc.text(`${formatPercent(category.rejectionRate)} afgewezen`, PAGE_MARGIN + 10, doc.y, { lineBreak: false });
+    doc.y += 11;
+    for (const sub of category.subcategories) {
+      doc.text(`${sub.subcategory}: ${sub.count} (${formatPercent(sub.share)})`, PAGE_MARGIN + 10, doc.y, { lineBreak: false });
+      doc.y += 11;
+    }
+    doc.fontSize(10).fillColor('#374151');
+    doc.y += 6;
+  }
+}
+
+function drawColumnChart(doc: Doc, values: number[], labels: string[]) {
+  const height = 100;
+  ensureSpace(doc, height + 20);
+
+  const top = doc.y;
+  const width = contentWidth(doc);
+  const slot = width / values.length;
+  const max = Math.max(...values, 1);
+
+  values.forEach((value, i) => {
+    const barHeight = (value / max) * height;
+    const x = PAGE_MARGIN + i * slot;
+    doc.rect(x + 2, top + height - barHeight, slot - 4, barHeight).fill('#3b82f6');
+    doc.fontSize(7).fillColor('#6b7280').text(labels[i], x, top + height + 3, { width: slot, align: 'center', lineBreak: false });
+    if (value > 0) {
+      doc.text(String(value), x, top + height - barHeight - 9, { width: slot, align: 'center', lineBreak: false });
+    }
+  });
+
+  doc.fontSize(10).fillColor('#374151');
+  doc.y = top + height + 18;
+}
+
+async function drawIncidentMap(doc: Doc, report: CityReport) {
+  const located = report.reports.filter(r => r.latitude !== null && r.longitude !== null);
+  if (located.length === 0) {
+    doc.text('Geen meldingen met locatie in deze periode.', PAGE_MARGIN);
+    return;
+  }
+
+  const width = contentWidth(doc);
+  const height = 400;
+  ensureSpace(doc, height + 40);
+
+  const points = located.map(r => ({ lat: r.latitude!, lng: r.longitude! }));
+  const map = await renderStaticMap(points, width, height);
+  const left = PAGE_MARGIN;
+  const top = doc.y;
+
+  doc.save();
+  doc.rect(left, top, width, height).clip();
+  doc.rect(left, top, width, height).fill('#f3f4f6');
+  for (const tile of map.tiles) {
+    doc.image(tile.image, left + tile.x, top + tile.y, { width: tile.size, height: tile.size });
+  }
+  for (const r of located) {
+    const { x, y } = map.project({ lat: r.latitude!, lng: r.longitude! });
+    doc.circle(left + x, top + y, 5).fillOpacity(0.85).fillAndStroke(categoryInfo(r.category).color, '#ffffff');
+  }
+  doc.restore();
+  doc.rect(left, top, width, height).lineWidth(0.5).stroke('#9ca3af');
+
+  // Legend
+  doc.y = top + height + 8;
+  let x = left;
+  doc.fontSize(8);
+  for (const category of report.categories.categories) {
+    const { name, color } = categoryInfo(category.category);
+    const labelWidth = doc.widthOfString(name) + 20;
+    if (x + labelWidth > left + width) {
+      x = left;
+      doc.y += 12;
+    }
+    doc.circle(x + 4, doc.y + 3, 4).fill(color);
+    doc.fillColor('#374151').text(name, x + 11, doc.y, { lineBreak: false });
+    x += labelWidth;
+  }
+  doc.y += 14;
+  if (map.tiles.length > 0) {
+    doc.fillColor('#6b7280').text('Kaartgegevens © OpenStreetMap-bijdragers', left);
+  }
+  doc.fontSize(10).fillColor('#374151');
+}
+
+function drawReportTable(doc: Doc, reports: Report[]) {
+  const columns = [
+    { label: 'Datum', width: 65, value: (r: Report) => formatDate(r.incidentDateTime ?? r.createdAt) },
+    { label: 'Categorie', width: 110, value: (r: Report) => categoryInfo(r.category).name },
+    { label: 'Status', width: 75, value: (r: Report) => STATUS_LABELS[r.status] ?? r.status },
+    { label: 'Titel', width: contentWidth(doc) - 250, value: (r: Report) => r.title },
+  ];
+
+  const drawHeader = () => {
+    let x = PAGE_MARGIN;
+    doc.font('Helvetica-Bold').fontSize(9).fillColor('#111827');
+    const y = doc.y;
+    for (const column of columns) {
+      doc.text(column.label, x, y, { width: column.width, lineBreak: false });
+      x += column.width;
+    }
+    doc.y = y + 14;
+    doc.font('Helvetica').fillColor('#374151');
+  };
+
+  if (reports.length === 0) {
+    doc.text('Geen publieke meldingen in deze periode.', PAGE_MARGIN);
+    return;
+  }
+
+  drawHeader();
+  for (const r of reports) {
+    const rowHeight = Math.max(...columns.map(c => doc.heightOfString(c.value(r), { width: c.width - 5 }))) + 4;
+    if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      drawHeader();
+    }
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    for (const column of columns) {
+      doc.text(column.value(r), x, y, { width: column.width - 5 });
+      x += column.width;
+    }
+    doc.y = y + rowHeight;
+  }
+  doc.fontSize(10);
+}
+
+function drawFooters(doc: Doc, title: string) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.fontSize(8).fillColor('#9ca3af').text(
+      `${title} - pagina ${i + 1} van ${range.count}`,
+      PAGE_MARGIN,
+      doc.page.height - PAGE_MARGIN + 10,
+      { width: contentWidth(doc), align: 'center', lineBreak: false },
+    );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+export async function renderCityReportPdf(report: CityReport): Promise<Buffer> {
+  const title = `Stadsrapport ${scopeName(report.meta)}`;
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: title, Author: 'Safetymap' },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const { period, scope } = report.meta;
+
+  // Title page: key figures and AI summary
+  doc.font('Helvetica-Bold').fontSize(22).fillColor('#111827').text(title);
+  doc.font('Helvetica').fontSize(10).fillColor('#374151');
+  doc.moveDown(0.5);
+  doc.text(`Periode: ${formatDate(period.from)} - ${formatDate(new Date(new Date(period.to).getTime() - 1))}`);
+  doc.text(`Vergeleken met: ${formatDate(period.previousFrom)} - ${formatDate(new Date(new Date(period.previousTo).getTime() - 1))}`);
+  if (scope) {
+    doc.text(`Postcodes: ${scope.postcodes.join(', ')}`);
+  }
+  doc.text(`Gegenereerd op ${format(new Date(), 'dd/MM/yyyy HH:mm')}`);
+
+  heading(doc, 'Kerncijfers');
+  drawKeyFigures(doc, report.summary);
+
+  if (report.regionSummary) {
+    heading(doc, 'Samenvatting');
+    doc.text(report.regionSummary.replace(/\*\*/g, ''), PAGE_MARGIN, doc.y, { width: contentWidth(doc) });
+    doc.fontSize(8).fillColor('#6b7280').text('Automatisch gegenereerd op basis van de publieke meldingen.');
+    doc.fontSize(10).fillColor('#374151');
+  }
+
+  heading(doc, 'Meldingen per categorie');
+  drawCategoryBars(doc, report.categories);
+
+  heading(doc, 'Tijdstip van incidenten');
+  drawColumnChart(doc, report.incidentTimes.byHour, report.incidentTimes.byHour.map((_, hour) => String(hour)));
+
+  heading(doc, 'Dag van de week');
+  drawColumnChart(doc, report.incidentTimes.byWeekday, WEEKDAYS);
+
+  doc.addPage();
+  heading(doc, 'Kaart van meldingen');
+  await drawIncidentMap(doc, report);
+
+  doc.addPage();
+  heading(doc, `Publieke meldingen (${report.reports.length})`);
+  drawReportTable(doc, report.reports);
+
+  drawFooters(doc, title);
+  doc.end();
+  return finished;
+}
@@ -1,13 +1,48 @@
-import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-http';
+import { drizzle as drizzlePglite, type PgliteDatabase } from 'drizzle-orm/pglite';
+import { neon, neonConfig, Pool } from '@neondatabase/serverless';
+import ws from 'ws';
+import { PGlite } from '@electric-sql/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Driver-independent database type shared by all storage backends
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Keeps the PGlite client reachable so it can be closed (and flushed to disk)
+export type LocalDatabase = PgliteDatabase<typeof schema> & { $client: PGlite };
+
+// 'neon' (default) talks to DATABASE_URL, 'local' runs an embedded Postgres (PGlite)
+export type StorageBackend = 'neon' | 'local';
+
+export const storageBackend: StorageBackend =
+  process.env.STORAGE_BACKEND === 'local' ? 'local' : 'neon';
+
+export function createNeonDatabase(): Database {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database? Use STORAGE_BACKEND=local to run without one.",
+    );
+  }
+
+  // Use HTTP connection for better compatibility
+  const sql = neon(process.env.DATABASE_URL);
+  return drizzleNeon(sql, { schema });
 }
 
-// Use HTTP connection for better compatibility
-const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql, { schema });
\ No newline at end of file
+export const DEFAULT_LOCAL_DB_PATH = 'memory://';
+
+// Connection pool for libraries that need a pg compatible client (session store)
+export function createNeonPool(): Pool {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to create a connection pool");
+  }
+  neonConfig.webSocketConstructor = ws;
+  return new Pool({ connectionString: process.env.DATABASE_URL });
+}
+
+// LOCAL_DB_PATH persists the embedded database to disk, otherwise it lives in memory
+export function createLocalDatabase(dataDir = process.env.LOCAL_DB_PATH || DEFAULT_LOCAL_DB_PATH): LocalDatabase {
+  const client = new PGlite(dataDir);
+  return drizzlePglite(client, { schema });
+}
@@ -0,0 +1,135 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Report } from '@shared/schema';
+import { initStorage, storage } from './storage';
+import { findDuplicateOf, getReportClusters, mergeReportClusters, textSimilarity } from './duplicate-detection';
+
+// With the default thresholds: 150 m, 72 hours and a text similarity of 0.25. The reports are placed
+// away from the fixtures, and each test at its own spot so they are not each other's candidates.
+
+const HOUR_MS = 60 * 60 * 1000;
+const METERS_PER_DEGREE_LATITUDE = 111_320;
+const REPORTED_AT = new Date(Date.UTC(2025, 5, 1, 12));
+const DUMPING = { title: 'Zetels gedumpt', description: 'Twee oude zetels en een matras gedumpt naast de glasbak' };
+
+let spot = 0;
+
+function createReport(fields: Partial<Report> = {}): Promise<Report> {
+  return storage.createReportWithModeration({
+    ...DUMPING,
+    category: 'public',
+    involvementType: 'witness',
+    latitude: 50.6,
+    longitude: 5.5,
+    createdAt: REPORTED_AT,
+    ...fields,
+  });
+}
+
+// A fresh spot for one test, about a kilometre from the previous one
+function nextSpot(): { latitude: number; longitude: number } {
+  spot++;
+  return { latitude: 50.6 + spot * 0.01, longitude: 5.5 };
+}
+
+const metersNorth = (latitude: number, meters: number) => latitude + meters / METERS_PER_DEGREE_LATITUDE;
+
+before(async () => {
+  await initStorage();
+});
+
+describe('textSimilarity', () => {
+  test('is 1 for the same words and 0 for none in common', () => {
+    assert.equal(textSimilarity('Zetels gedumpt aan de glasbak', 'glasbak: zetels GEDUMPT'), 1);
+    assert.equal(textSimilarity('Zetels gedumpt', 'Fiets gestolen'), 0);
+  });
+
+  test('matches words on their first six letters and ignores short words', () => {
+    assert.equal(textSimilarity('gedumpt glasbakken', 'gedumpte glasbak'), 1);
+    assert.equal(textSimilarity('de en op aan', 'de en op aan'), 0);
+  });
+
+  test('is the share of distinct words in common', () => {
+    assert.equal(textSimilarity('zetels matras glasbak', 'zetels matras fiets'), 2 / 4);
+  });
+});
+
+describe('findDuplicateOf', () => {
+  const draft = (location: { latitude: number; longitude: number }, fields: Record<string, unknown> = {}) => ({
+    ...DUMPING,
+    category: 'public',
+    ...location,
+    createdAt: new Date(REPORTED_AT.getTime() + 2 * HOUR_MS),
+    ...fields,
+  });
+
+  test('finds an earlier report close by with similar text', async () => {
+    const location = nextSpot();
+    const earlier = await createReport(location);
+    assert.equal(await findDuplicateOf(draft({ ...location, latitude: metersNorth(location.latitude, 100) })), earlier.id);
+  });
+
+  test('ignores reports further away than the radius', async () => {
+    const location = nextSpot();
+    await createReport(location);
+    assert.equal(await findDuplicateOf(draft({ ...location, latitude: metersNorth(location.latitude, 200) })), null);
+  });
+
+  test('ignores reports outside the time window, and later reports', async () => {
+    const location = nextSpot();
+    await createReport(location);
+    assert.equal(await findDuplicateOf(draft(location, { createdAt: new Date(REPORTED_AT.getTime() + 73 * HOUR_MS) })), null);
+    assert.equal(await findDuplicateOf(draft(location, { createdAt: new Date(REPORTED_AT.getTime() - HOUR_MS) })), null);
+  });
+
+  test('ignores reports of another category, with other text or without a location', async () => {
+    const location = nextSpot();
+    await createReport(location);
+    assert.equal(await findDuplicateOf(draft(location, { category: 'suspicious' })), null);
+    assert.equal(await findDuplicateOf(draft(location, { title: 'Graffiti', description: 'Nieuwe tekening op de gevel van het station' })), null);
+    assert.equal(await findDuplicateOf(draft(location, { latitude: null, longitude: null })), null);
+  });
+
+  test('ignores rejected reports', async () => {
+    const location = nextSpot();
+    await createReport({ ...location, moderationStatus: 'rejected', isPublic: false });
+    assert.equal(await findDuplicateOf(draft(location)), null);
+  });
+
+  test('joins the cluster of the most similar report', async () => {
+    const location = nextSpot();
+    const canonical = await createReport({ ...location, title: 'Afval', description: 'Zakken afval naast de glasbak' });
+    await createReport({ ...location, duplicateOf: canonical.id, createdAt: new Date(REPORTED_AT.getTime() + HOUR_MS) });
+    assert.equal(await findDuplicateOf(draft(location)), canonical.id);
+  });
+});
+
+describe('report clusters', () => {
+  test('merge two clusters into one, then split a report back out', async () => {
+    const location = nextSpot();
+    const at = (hours: number) => new Date(REPORTED_AT.getTime() + hours * HOUR_MS);
+    const first = await createReport({ ...location, createdAt: at(0) });
+    const firstDuplicate = await createReport({ ...location, createdAt: at(1), duplicateOf: first.id });
+    const second = await createReport({ ...location, createdAt: at(2) });
+    const secondDuplicate = await createReport({ ...location, createdAt: at(3), duplicateOf: second.id });
+
+    // Naming any member merges its whole cluster
+    const merged = await mergeReportClusters(firstDuplicate.id, [secondDuplicate.id]);
+    assert.equal(merged?.canonical.id, first.id);
+    assert.deepEqual(merged?.duplicates.map(report => report.id), [firstDuplicate.id, second.id, secondDuplicate.id]);
+    assert.ok((await getReportClusters()).some(cluster => cluster.canonical.id === first.id && cluster.duplicates.length === 3));
+
+    await storage.splitReportFromCluster(second.id);
+    assert.equal((await storage.getReport(second.id))?.duplicateOf, null);
+    assert.deepEqual((await storage.getReportClusterMembers(first.id)).map(report => report.id), [first.id, firstDuplicate.id, secondDuplicate.id]);
+
+    // A canonical report leaves its cluster to the oldest duplicate
+    await storage.splitReportFromCluster(first.id);
+    assert.deepEqual((await storage.getReportClusterMembers(firstDuplicate.id)).map(report => report.id), [firstDuplicate.id, secondDuplicate.id]);
+    assert.equal((await storage.getReport(first.id))?.duplicateOf, null);
+  });
+
+  test('merge nothing into a report that does not exist', async () => {
+    assert.equal(await mergeReportClusters('missing', []), undefined);
+  });
+});
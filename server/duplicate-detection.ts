@@ -0,0 +1,104 @@
+import type { Report, ReportCluster } from '@shared/schema';
+import { storage } from './storage';
+
+// Near-duplicate detection for new reports: an earlier report of the same category, close by,
+// recent and with similar text is taken to describe the same incident. The new report then joins
+// that report's cluster, so the map can show the incident once.
+
+const RADIUS_KM = Number(process.env.DUPLICATE_RADIUS_METERS || 150) / 1000;
+const WINDOW_HOURS = Number(process.env.DUPLICATE_WINDOW_HOURS || 72);
+// Share of distinct words the two texts have in common (0-1)
+const MIN_SIMILARITY = Number(process.env.DUPLICATE_MIN_SIMILARITY || 0.25);
+
+// Words of four letters or more, cut to their first six so "zetel" and "zetels" or
+// "gedumpt" and "gedumpte" match
+function wordStems(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9à-ÿß]+/)
+      .filter(word => word.length >= 4)
+      .map(word => word.slice(0, 6)),
+  );
+}
+
+// Jaccard similarity of the word stems
+export function textSimilarity(a: string, b: string): number {
+  const stemsA = wordStems(a);
+  const stemsB = wordStems(b);
+  if (stemsA.size === 0 || stemsB.size === 0) return 0;
+  const shared = Array.from(stemsA).filter(stem => stemsB.has(stem)).length;
+  return shared / (stemsA.size + stemsB.size - shared);
+}
+
+// The reporter's own words compare best, the published text may be formalized
+function reportText(report: Pick<Report, 'title' | 'description' | 'originalTitle' | 'originalDescription'>): string {
+  return `${report.originalTitle ?? report.title} ${report.originalDescription ?? report.description}`;
+}
+
+interface DraftReport {
+  title: string;
+  description: string;
+  category: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  createdAt: Date;
+}
+
+// Canonical report of the cluster a new report belongs to, null when it is not a duplicate. Only
+// earlier reports are candidates, so two reports moderated at the same time never point at each other.
+export async function findDuplicateOf(draft: DraftReport): Promise<string | null> {
+  if (draft.latitude == null || draft.longitude == null) {
+    return null;
+  }
+
+  const since = new Date(draft.createdAt.getTime() - WINDOW_HOURS * 60 * 60 * 1000);
+  const candidates = await storage.findDuplicateCandidates(draft.category, draft.latitude, draft.longitude, RADIUS_KM, since, draft.createdAt);
+  const text = `${draft.title} ${draft.description}`;
+
+  let best: { report: Report; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    const similarity = textSimilarity(text, reportText(candidate));
+    if (similarity >= MIN_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { report: candidate, similarity };
+    }
+  }
+  return best ? best.report.duplicateOf ?? best.report.id : null;
+}
+
+// Every cluster of two or more reports, the most recently reported incident first
+export async function getReportClusters(): Promise<ReportCluster[]> {
+  const clustered = await storage.getClusteredReports();
+  const clusters = new Map<string, ReportCluster>();
+  for (const report of clustered.filter(report => !report.duplicateOf)) {
+    clusters.set(report.id, { canonical: report, duplicates: [] });
+  }
+  for (const report of clustered.filter(report => report.duplicateOf)) {
+    clusters.get(report.duplicateOf!)?.duplicates.push(report);
+  }
+
+  const lastReportedAt = (cluster: ReportCluster) =>
+    Math.max(...[cluster.canonical, ...cluster.duplicates].map(report => report.createdAt.getTime()));
+  return Array.from(clusters.values()).sort((a, b) => lastReportedAt(b) - lastReportedAt(a));
+}
+
+// Merges the clusters of reportIds into the cluster of canonicalId. Undefined when canonicalId does not exist.
+export async function mergeReportClusters(canonicalId: string, reportIds: string[]): Promise<ReportCluster | undefined> {
+  const canonical = await storage.getReport(canonicalId);
+  if (!canonical) {
+    return undefined;
+  }
+  const rootId = canonical.duplicateOf ?? canonical.id;
+
+  const roots = new Set<string>();
+  for (const id of reportIds) {
+    const report = await storage.getReport(id);
+    if (report) {
+      roots.add(report.duplicateOf ?? report.id);
+    }
+  }
+  roots.delete(rootId);
+  await storage.mergeReportClusters(rootId, Array.from(roots));
+
+  const [root, ...duplicates] = await storage.getReportClusterMembers(rootId);
+  return { canonical: root, duplicates };
+}
@@ -0,0 +1,19 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Reporter edit tokens: 256 random bits handed out once, only the SHA-256 hash is stored.
+// The tokens are high-entropy, so a fast unsalted hash is enough (unlike admin passwords).
+
+export function createEditToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashEditToken(token) };
+}
+
+export function hashEditToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyEditToken(token: string, tokenHash: string): boolean {
+  const supplied = Buffer.from(hashEditToken(token), 'hex');
+  const stored = Buffer.from(tokenHash, 'hex');
+  return supplied.length === stored.length && timingSafeEqual(supplied, stored);
+}
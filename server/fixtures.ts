@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { IStorage } from './storage';
+import { computeSeverity } from './severity';
+import type { InsertMunicipality, InsertScrapingConfig } from '@shared/schema';
+
+interface ReportFixture {
+  title: string;
+  description: string;
+  category: string;
+  involvementType: string;
+  createdAt?: string;
+  [key: string]: unknown;
+}
+
+interface NoteFixture {
+  key: string;
+  content: string;
+}
+
+function readFixture<T>(name: string): T[] {
+  try {
+    return JSON.parse(readFileSync(join(process.cwd(), 'server/fixtures', name), 'utf-8'));
+  } catch (error) {
+    console.error(`Failed to read fixture file ${name}:`, error);
+    return [];
+  }
+}
+
+// Seed a fresh storage backend with the JSON fixtures in server/fixtures/. Admin accounts are not
+// seeded: the first superadmin comes from ADMIN_USERNAME/ADMIN_PASSWORD (server/auth.ts).
+export async function seedFixtures(storage: IStorage): Promise<void> {
+  const reports = readFixture<ReportFixture>('reports.json');
+  for (const report of reports) {
+    const severity = computeSeverity({
+      category: report.category,
+      subcategory: report.subcategory as string | undefined,
+      involvementType: report.involvementType,
+      authoritiesContacted: report.authoritiesContacted as boolean | undefined,
+    });
+    await storage.createReportWithModeration({
+      ...report,
+      severity,
+      computedSeverity: severity,
+      createdAt: report.createdAt ? new Date(report.createdAt) : undefined,
+    });
+  }
+
+  const municipalities = readFixture<InsertMunicipality>('municipalities.json');
+  for (const municipality of municipalities) {
+    await storage.createMunicipality(municipality);
+  }
+
+  const configs = readFixture<InsertScrapingConfig>('scraping-configs.json');
+  for (const config of configs) {
+    await storage.createScrapingConfig(config);
+  }
+
+  const notes = readFixture<NoteFixture>('notes.json');
+  for (const note of notes) {
+    await storage.saveNote(note.key, note.content);
+  }
+
+  console.log(`Seeded local database with ${reports.length} reports, ${municipalities.length} municipalities, ${configs.length} scraping configs and ${notes.length} notes`);
+}
@@ -197,6 +197,28 @@ export class GeocodingService {
     }
   }
 
+  // All postal codes of a municipality, matched case-insensitively on its name
+  async getPostalCodesByMunicipality(municipality: string, country: string = 'BE'): Promise<PostalCodeInfo[]> {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT postal_code, municipality, latitude, longitude
+        FROM postal_codes
+        WHERE municipality = ? COLLATE NOCASE AND country = ?
+        ORDER BY postal_code
+      `);
+
+      return stmt.all(municipality, country).map((result: any) => ({
+        postalCode: result.postal_code,
+        municipality: result.municipality,
+        latitude: result.latitude,
+        longitude: result.longitude,
+      }));
+    } catch (error) {
+      console.error('Local geocoding error:', error);
+      return [];
+    }
+  }
+
   async reverseGeocode(latitude: number, longitude: number): Promise<string | null> {
     try {
       // Find closest postal code based on coordinates
@@ -0,0 +1,123 @@
+import { REPORT_IMAGE_MAX_BYTES, REPORT_VIDEO_MAX_BYTES, reportVideoContentTypes, type ImageModeration, type ReportMedia } from '@shared/schema';
+import { AIContentModerator } from './ai';
+import { InvalidMediaError, readPrivateImage, removeImageVariants, renderImageVariants, storeUploadedImage } from './image-processing';
+import { publishVideo, storeUploadedVideo } from './video-processing';
+import { storage, type NewReportMediaItem } from './storage';
+
+// Moderation of report photos and video clips (reportMedia). The request only strips the metadata
+// and stores each upload privately; the safety check and the face and licence plate detection run
+// in the background job queue (server/ai-jobs.ts). Safe photos are published with the detected
+// regions blurred, the others wait for a moderator (POST /api/admin/report-media/:id/review). The
+// AI does not watch clips, so every clip waits for a moderator.
+
+export interface MediaUpload {
+  buffer: Buffer;
+  mimetype: string;
+  caption?: string;
+}
+
+const VIDEO_REVIEW: ImageModeration = {
+  safe: false,
+  flags: [],
+  reason: 'Video clips are published after manual review',
+  regions: [],
+};
+
+const isVideo = (contentType: string) => (reportVideoContentTypes as readonly string[]).includes(contentType);
+
+// Items for new uploads, stored right away: private and unpublished until checked. Objects of
+// uploads before an invalid one are left to the media garbage collection.
+export async function prepareReportMedia(uploads: MediaUpload[]): Promise<NewReportMediaItem[]> {
+  const items: NewReportMediaItem[] = [];
+  for (const upload of uploads) {
+    const caption = upload.caption || null;
+    if (isVideo(upload.mimetype)) {
+      if (upload.buffer.length > REPORT_VIDEO_MAX_BYTES) {
+        throw new InvalidMediaError(`Video clips can be at most ${REPORT_VIDEO_MAX_BYTES / 1024 / 1024} MB`);
+      }
+      const objectKey = await storeUploadedVideo(upload.buffer, upload.mimetype);
+      items.push({ kind: 'video', caption, objectKey, contentType: upload.mimetype, status: 'processing' });
+    } else {
+      if (upload.buffer.length > REPORT_IMAGE_MAX_BYTES) {
+        throw new InvalidMediaError(`Photos can be at most ${REPORT_IMAGE_MAX_BYTES / 1024 / 1024} MB`);
+      }
+      const objectKey = await storeUploadedImage(upload.buffer);
+      items.push({ kind: 'image', caption, objectKey, contentType: 'image/jpeg', status: 'processing' });
+    }
+  }
+  return items;
+}
+
+// The report's cover (imageUrl, thumbnailUrl) is its first published photo
+export async function updateReportCover(reportId: string): Promise<void> {
+  const cover = (await storage.getReportMedia(reportId)).find(item => item.kind === 'image' && item.status === 'approved' && item.url);
+  await storage.updateReportModeration(reportId, { imageUrl: cover?.url ?? null, thumbnailUrl: cover?.thumbnailUrl ?? null });
+}
+
+// Job handler for the items still being checked. AI errors are thrown so the job is retried;
+// items checked before the error keep their outcome.
+export async function moderateReportMedia(reportId: string): Promise<void> {
+  const items = (await storage.getReportMedia(reportId)).filter(item => item.status === 'processing');
+  if (items.length === 0) {
+    return; // Withdrawn, replaced or handled by an earlier job
+  }
+
+  try {
+    for (const item of items) {
+      if (item.kind === 'video') {
+        await storage.updateReportMedia(item.id, { status: 'flagged', moderation: VIDEO_REVIEW });
+        continue;
+      }
+
+      const moderation = await new AIContentModerator().moderateImage(await readPrivateImage(item.objectKey!), { reportId });
+      const variants = moderation.safe ? await renderImageVariants(item.objectKey!, moderation.regions) : null;
+      const updated = await storage.updateReportMedia(item.id, {
+        status: moderation.safe ? 'approved' : 'flagged',
+        moderation,
+        url: variants?.imageUrl ?? null,
+        thumbnailUrl: variants?.thumbnailUrl ?? null,
+      });
+      // The reporter may have replaced the media while it was checked
+      if (!updated) {
+        await removeImageVariants([variants?.imageUrl ?? null, variants?.thumbnailUrl ?? null]);
+      }
+    }
+  } finally {
+    await updateReportCover(reportId);
+  }
+}
+
+// The job ran out of attempts: the remaining items stay unpublished and wait for a moderator
+export async function holdReportMediaForReview(reportId: string): Promise<void> {
+  const unavailable: ImageModeration = {
+    safe: false,
+    flags: [],
+    reason: 'Image moderation temporarily unavailable - held for manual review',
+    regions: [],
+  };
+  for (const item of await storage.getReportMedia(reportId)) {
+    if (item.status === 'processing') {
+      await storage.updateReportMedia(item.id, { status: 'flagged', moderation: item.kind === 'video' ? VIDEO_REVIEW : unavailable });
+    }
+  }
+}
+
+// Moderator decision on a photo or clip. Approving publishes it, a photo with the detected regions
+// blurred; rejecting takes any published variants offline.
+export async function reviewReportMedia(item: ReportMedia, decision: 'approve' | 'reject'): Promise<ReportMedia | undefined> {
+  let updated: ReportMedia | undefined;
+  if (decision === 'reject') {
+    await removeImageVariants([item.url, item.thumbnailUrl]);
+    updated = await storage.updateReportMedia(item.id, { status: 'rejected', url: null, thumbnailUrl: null });
+  } else if ((item.status === 'approved' && item.url) || !item.objectKey) {
+    // Already online, or a photo from before object storage that can only be republished as it was
+    updated = await storage.updateReportMedia(item.id, { status: item.url ? 'approved' : item.status });
+  } else if (item.kind === 'video') {
+    updated = await storage.updateReportMedia(item.id, { status: 'approved', url: await publishVideo(item.objectKey) });
+  } else {
+    const variants = await renderImageVariants(item.objectKey, item.moderation?.regions ?? []);
+    updated = await storage.updateReportMedia(item.id, { status: 'approved', url: variants.imageUrl, thumbnailUrl: variants.thumbnailUrl });
+  }
+  await updateReportCover(item.reportId);
+  return updated;
+}
@@ -0,0 +1,121 @@
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import type { ImageRegion } from '@shared/schema';
+import { getObjectStorage, mediaKey, mediaUrl } from './object-storage';
+
+// Photo handling for reports (video clips: server/video-processing.ts). An upload is re-encoded
+// right away, which drops its EXIF data (GPS position, camera, time), and stored under originals/,
+// which is never served publicly. Only the variants rendered from it under reports/, with faces
+// and licence plates blurred, are published. Everything goes through the object storage driver
+// (server/object-storage.ts).
+
+export const ORIGINALS_PREFIX = 'originals/';
+export const VARIANTS_PREFIX = 'reports/';
+export const MEDIA_PREFIXES = [ORIGINALS_PREFIX, VARIANTS_PREFIX];
+
+// Longest side in pixels
+const STORED_MAX_PX = 2400;
+const LARGE_MAX_PX = 1600;
+const THUMBNAIL_PX = 320;
+// Detected boxes are often tight, blur a bit around them
+const REGION_PADDING = 0.15;
+
+// An upload that is not a usable photo or clip; the message is shown to the reporter
+export class InvalidMediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMediaError';
+  }
+}
+
+export interface ImageVariants {
+  imageUrl: string;
+  thumbnailUrl: string;
+}
+
+// Re-encodes an upload as JPEG without metadata, upright according to its EXIF orientation.
+// Returns the object key of the private copy.
+export async function storeUploadedImage(upload: Buffer): Promise<string> {
+  let image: Buffer;
+  try {
+    image = await sharp(upload)
+      .rotate()
+      .resize({ width: STORED_MAX_PX, height: STORED_MAX_PX, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 90 })
+      .toBuffer();
+  } catch (error) {
+    throw new InvalidMediaError(`Unreadable image: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const key = `${ORIGINALS_PREFIX}${randomUUID()}.jpg`;
+  await getObjectStorage().put(key, image, 'image/jpeg');
+  return key;
+}
+
+export async function readPrivateImage(key: string): Promise<Buffer> {
+  const object = await getObjectStorage().get(key);
+  if (!object) {
+    throw new Error(`Stored image not found: ${key}`);
+  }
+  return object.body;
+}
+
+// Pixel box of a region, padded and clipped to the image
+function regionBox(region: ImageRegion, width: number, height: number) {
+  const padX = region.width * REGION_PADDING;
+  const padY = region.height * REGION_PADDING;
+  const left = Math.max(0, Math.floor((region.x - padX) * width));
+  const top = Math.max(0, Math.floor((region.y - padY) * height));
+  const right = Math.min(width, Math.ceil((region.x + region.width + padX) * width));
+  const bottom = Math.min(height, Math.ceil((region.y + region.height + padY) * height));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+export async function blurRegions(image: Buffer, regions: ImageRegion[]): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height || regions.length === 0) {
+    return image;
+  }
+
+  const overlays: sharp.OverlayOptions[] = [];
+  for (const region of regions) {
+    const box = regionBox(region, width, height);
+    if (box.width < 2 || box.height < 2) continue;
+    // Strong enough that a face or plate can not be recognised, whatever its size
+    const sigma = Math.max(8, Math.max(box.width, box.height) / 6);
+    const blurred = await sharp(image).extract(box).blur(sigma).toBuffer();
+    overlays.push({ input: blurred, left: box.left, top: box.top });
+  }
+  return await sharp(image).composite(overlays).jpeg({ quality: 90 }).toBuffer();
+}
+
+// Renders the large and thumbnail variant of a private photo with regions blurred
+export async function renderImageVariants(key: string, regions: ImageRegion[]): Promise<ImageVariants> {
+  const blurred = await blurRegions(await readPrivateImage(key), regions);
+  const large = await sharp(blurred)
+    .resize({ width: LARGE_MAX_PX, height: LARGE_MAX_PX, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 82 })
+    .toBuffer();
+  const thumbnail = await sharp(blurred)
+    .resize({ width: THUMBNAIL_PX, height: THUMBNAIL_PX, fit: 'cover' })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+
+  const id = randomUUID();
+  const storage = getObjectStorage();
+  await storage.put(`${VARIANTS_PREFIX}${id}.jpg`, large, 'image/jpeg');
+  await storage.put(`${VARIANTS_PREFIX}${id}-thumb.jpg`, thumbnail, 'image/jpeg');
+  return {
+    imageUrl: mediaUrl(`${VARIANTS_PREFIX}${id}.jpg`),
+    thumbnailUrl: mediaUrl(`${VARIANTS_PREFIX}${id}-thumb.jpg`),
+  };
+}
+
+// Takes published variants offline, e.g. when a moderator rejects the photo. Photos uploaded
+// before object storage are left alone.
+export async function removeImageVariants(urls: (string | null)[]): Promise<void> {
+  for (const key of urls.map(mediaKey)) {
+    if (key) {
+      await getObjectStorage().delete(key);
+    }
+  }
+}
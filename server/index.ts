@@ -1,5 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initStorage } from "./storage";
+import { setupAuth } from "./auth";
+import { startAIJobWorker } from "./ai-jobs";
+import { startMediaGC } from "./media-gc";
+import { importLegacyUploads } from "./legacy-uploads";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,7 +42,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
+  await importLegacyUploads();
+  await setupAuth(app);
   const server = await registerRoutes(app);
+  startAIJobWorker();
+  startMediaGC();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ReportLanguage } from '@shared/schema';
+import { detectLanguage } from './language-detection';
+
+const cases: [string, ReportLanguage | null][] = [
+  ['Fiets gestolen aan het station, niet op slot', 'nl'],
+  ['Vélo volé à la gare, il était pas attaché', 'fr'],
+  ['Bike stolen at the station, it was not locked', 'en'],
+  ['Fahrrad am Bahnhof gestohlen, es war nicht abgeschlossen', 'de'],
+  ['Wildplassers in de straat, ook vannacht weer', 'nl'],
+  ['Des tags sur la façade de l\'école, encore cette nuit', 'fr'],
+  ['Someone dumped tyres in the park again tonight', 'en'],
+  ['Gestern wurde hier wieder Müll auf die Straße geworfen', 'de'],
+  // Too short to tell, even when the words are clearly of one language
+  ['Fiets gestolen', null],
+  ['Vélo volé', null],
+  ['Bike stolen', null],
+  ['Graffiti', null],
+  ['de fiets', null],
+  ['', null],
+  ['in de straat', 'nl'],
+  // Mixed text goes to the language most of it is in, or to none when it is about even
+  ['Le chien de mon voisin is weer aan het blaffen in de tuin', 'nl'],
+  ['Hier is de straat weer vuil, merci beaucoup', 'nl'],
+  ['On a volé mon vélo dans la rue, echt niet normaal', 'fr'],
+  ['Die Straße ist gesperrt, de weg is dicht', null],
+  ['The dog is in de tuin', null],
+];
+
+describe('detectLanguage', () => {
+  for (const [text, language] of cases) {
+    test(`detects ${language ?? 'no language'} in "${text}"`, () => {
+      assert.equal(detectLanguage(text), language);
+    });
+  }
+});
@@ -0,0 +1,42 @@
+import type { ReportLanguage } from '@shared/schema';
+
+// Stopword-based language detection for report text. Reports are short and informal, so this
+// only tells Dutch, French, English and German apart; anything else, or text too short to
+// decide on, is left undetected.
+
+const STOPWORDS: Record<ReportLanguage, string[]> = {
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'op', 'in', 'met', 'niet', 'dat', 'die', 'er', 'aan', 'ik', 'mijn', 'wij', 'ze', 'zijn', 'was', 'werd', 'naar', 'bij', 'ook', 'voor', 'hier', 'weer', 'nog', 'al', 'wordt', 'geen', 'heeft', 'hebben', 'straat', 'gisteren', 'vandaag', 'vanmorgen', 'vannacht'],
+  fr: ['le', 'la', 'les', 'un', 'une', 'des', 'et', 'est', 'dans', 'sur', 'pour', 'pas', 'que', 'qui', 'du', 'au', 'aux', 'avec', 'il', 'elle', 'je', 'mon', 'ma', 'nous', 'sont', 'été', 'ont', 'ce', 'cette', 'rue', 'hier', 'aujourd', 'ce matin', 'cette nuit', 'très', 'encore'],
+  en: ['the', 'a', 'an', 'and', 'of', 'is', 'on', 'in', 'with', 'not', 'that', 'this', 'there', 'at', 'my', 'we', 'they', 'was', 'were', 'has', 'have', 'been', 'for', 'to', 'from', 'again', 'street', 'yesterday', 'today', 'tonight', 'someone'],
+  de: ['der', 'die', 'das', 'ein', 'eine', 'und', 'ist', 'auf', 'im', 'mit', 'nicht', 'dass', 'es', 'ich', 'mein', 'meine', 'wir', 'sie', 'sind', 'war', 'wurde', 'nach', 'bei', 'auch', 'für', 'hier', 'wieder', 'noch', 'kein', 'hat', 'haben', 'straße', 'strasse', 'gestern', 'heute'],
+};
+
+// Below this many stopword hits the text is too short to tell
+const MIN_HITS = 2;
+// The winner needs this many times the hits of the runner-up
+const MIN_MARGIN = 1.5;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-zà-ÿß]+/).filter(Boolean);
+}
+
+export function detectLanguage(text: string): ReportLanguage | null {
+  const tokens = tokenize(text);
+  const joined = ` ${tokens.join(' ')} `;
+
+  const scores = (Object.keys(STOPWORDS) as ReportLanguage[])
+    .map(language => ({
+      language,
+      // Multi-word entries ("ce matin") are matched against the joined text, others per token
+      hits: STOPWORDS[language].reduce((sum, word) => sum + (word.includes(' ')
+        ? (joined.includes(` ${word} `) ? 1 : 0)
+        : tokens.filter(token => token === word).length), 0),
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_HITS || best.hits < runnerUp.hits * MIN_MARGIN) {
+    return null;
+  }
+  return best.language;
+}
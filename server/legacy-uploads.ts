@@ -0,0 +1,65 @@
+import type { ImageModeration } from '@shared/schema';
+import { storage } from './storage';
+import { enqueueAIJob } from './ai-jobs';
+import { updateReportCover } from './image-moderation';
+import { InvalidMediaError, storeUploadedImage } from './image-processing';
+import { LocalObjectStorage } from './object-storage-local';
+
+// Photos uploaded before object storage: files under uploads/, referred to as /uploads/<file> and
+// served to anyone. On startup each is moved into object storage like a new upload (re-encoded
+// without EXIF data and stored privately) and checked again by the image-moderation job before it
+// is published. The media garbage collection removes the files once nothing refers to them.
+
+const LEGACY_UPLOADS_URL = '/uploads/';
+
+export const legacyUploads = new LocalObjectStorage('uploads');
+
+const MISSING_PHOTO: ImageModeration = {
+  safe: false,
+  flags: [],
+  reason: 'Photo from before object storage is missing or unreadable',
+  regions: [],
+};
+
+// Name of the file under uploads/, undefined for other URLs
+export function legacyUploadKey(url: string | null): string | undefined {
+  return url?.startsWith(LEGACY_UPLOADS_URL) ? url.slice(LEGACY_UPLOADS_URL.length) : undefined;
+}
+
+export async function importLegacyUploads(): Promise<void> {
+  const items = await storage.getReportMediaByUrlPrefix(LEGACY_UPLOADS_URL);
+  const reportIds = new Set<string>();
+  const toCheck = new Set<string>();
+  let missing = 0;
+
+  for (const item of items) {
+    const key = legacyUploadKey(item.url) ?? legacyUploadKey(item.thumbnailUrl);
+    const file = key ? await legacyUploads.get(key) : undefined;
+    let objectKey: string | undefined;
+    try {
+      objectKey = file && await storeUploadedImage(file.body);
+    } catch (error) {
+      if (!(error instanceof InvalidMediaError)) throw error;
+    }
+
+    await storage.updateReportMedia(item.id, objectKey
+      ? { objectKey, contentType: 'image/jpeg', url: null, thumbnailUrl: null, status: 'processing', moderation: null }
+      : { url: null, thumbnailUrl: null, status: 'rejected', moderation: MISSING_PHOTO });
+    reportIds.add(item.reportId);
+    if (objectKey) {
+      toCheck.add(item.reportId);
+    } else {
+      missing++;
+    }
+  }
+
+  for (const reportId of Array.from(reportIds)) {
+    await updateReportCover(reportId);
+  }
+  for (const reportId of Array.from(toCheck)) {
+    await enqueueAIJob('image-moderation', reportId);
+  }
+  if (items.length > 0) {
+    console.log(`Moved ${items.length - missing} photos from uploads/ into object storage, ${missing} were missing or unreadable`);
+  }
+}
@@ -0,0 +1,56 @@
+import type { MediaGCResult } from '@shared/schema';
+import { storage } from './storage';
+import { getObjectStorage, mediaKey, type ObjectInfo, type ObjectStorageDriver } from './object-storage';
+import { MEDIA_PREFIXES } from './image-processing';
+import { legacyUploadKey, legacyUploads } from './legacy-uploads';
+
+// Garbage collection of stored photos and clips: objects no media item refers to any more, because
+// the report was deleted or its media replaced or rejected, are removed, and so are the files under
+// uploads/ once they were moved into object storage (server/legacy-uploads.ts). Runs every
+// MEDIA_GC_INTERVAL_HOURS and on demand (POST /api/admin/media/gc).
+
+const GC_INTERVAL_MS = Number(process.env.MEDIA_GC_INTERVAL_HOURS || 24) * 60 * 60 * 1000;
+// Younger objects may belong to an upload whose report is not saved yet
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+export async function collectMediaGarbage(): Promise<MediaGCResult> {
+  const objectStorage = getObjectStorage();
+  // Listed before the references are read, so an object saved in between is never seen as unused
+  const objects = (await Promise.all(MEDIA_PREFIXES.map(prefix => objectStorage.list(prefix)))).flat();
+  const legacyFiles = await legacyUploads.list('');
+
+  const referenced = new Set<string>();
+  const referencedLegacy = new Set<string>();
+  for (const item of await storage.getReportMediaReferences()) {
+    for (const key of [item.objectKey, mediaKey(item.url), mediaKey(item.thumbnailUrl)]) {
+      if (key) referenced.add(key);
+    }
+    for (const key of [legacyUploadKey(item.url), legacyUploadKey(item.thumbnailUrl)]) {
+      if (key) referencedLegacy.add(key);
+    }
+  }
+
+  const deleted = await deleteUnreferenced(objectStorage, objects, referenced)
+    + await deleteUnreferenced(legacyUploads, legacyFiles, referencedLegacy);
+  return { scanned: objects.length + legacyFiles.length, deleted };
+}
+
+async function deleteUnreferenced(driver: ObjectStorageDriver, objects: ObjectInfo[], referenced: Set<string>): Promise<number> {
+  const cutoff = Date.now() - GRACE_PERIOD_MS;
+  let deleted = 0;
+  for (const object of objects) {
+    if (!referenced.has(object.key) && object.lastModified.getTime() < cutoff) {
+      await driver.delete(object.key);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+export function startMediaGC(): void {
+  setInterval(() => {
+    collectMediaGarbage()
+      .then(result => result.deleted > 0 && console.log(`Media GC removed ${result.deleted} of ${result.scanned} objects`))
+      .catch(error => console.error('Media GC error:', error));
+  }, GC_INTERVAL_MS).unref();
+}
@@ -0,0 +1,103 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createRequire } from 'module';
+import { createLocalDatabase, createNeonDatabase, storageBackend, type Database } from './db';
+import {
+  MIGRATIONS_DIR,
+  baselineMigrations,
+  downMigrationPath,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+  readJournal,
+} from './migrations';
+
+// Migration CLI, targets the backend selected by STORAGE_BACKEND (and LOCAL_DB_PATH):
+//   tsx server/migrate.ts status | up | down [steps] | baseline <tag> | generate-down
+const USAGE = 'Usage: tsx server/migrate.ts <status|up|down [steps]|baseline <tag>|generate-down>';
+
+// Write migrations/down/<tag>.sql for every migration that has none, by diffing each
+// schema snapshot back to the previous one
+async function generateDownMigrations(): Promise<void> {
+  // drizzle-kit's ESM build cannot be imported at runtime, load the CommonJS API instead
+  const require = createRequire(import.meta.url);
+  const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+  const readSnapshot = (idx: number) =>
+    JSON.parse(readFileSync(join(MIGRATIONS_DIR, 'meta', `${String(idx).padStart(4, '0')}_snapshot.json`), 'utf-8'));
+
+  for (const entry of readJournal()) {
+    const file = downMigrationPath(entry.tag);
+    if (existsSync(file)) continue;
+
+    const current = readSnapshot(entry.idx);
+    const previous = entry.idx === 0 ? generateDrizzleJson({}) : readSnapshot(entry.idx - 1);
+    const statements = await generateMigration(current, previous);
+
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, statements.join('\n--> statement-breakpoint\n') + '\n');
+    console.log(`Generated down migration ${file}`);
+  }
+}
+
+async function run(db: Database, command: string, arg?: string): Promise<void> {
+  switch (command) {
+    case 'status': {
+      const { applied, pending } = await getMigrationStatus(db);
+      applied.forEach(tag => console.log(`  applied  ${tag}`));
+      pending.forEach(tag => console.log(`  pending  ${tag}`));
+      break;
+    }
+    case 'up': {
+      const applied = await migrateUp(db);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      const rolledBack = await migrateDown(db, steps);
+      console.log(`Rolled back ${rolledBack.length} migration(s)`);
+      break;
+    }
+    case 'baseline': {
+      if (!arg) {
+        throw new Error('baseline requires the tag of the last migration already present in the database');
+      }
+      const marked = await baselineMigrations(db, arg);
+      console.log(`Marked ${marked.length} migration(s) as applied`);
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+async function main(): Promise<void> {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (command === 'generate-down') {
+    return generateDownMigrations();
+  }
+
+  if (storageBackend === 'local') {
+    if (!process.env.LOCAL_DB_PATH) {
+      console.warn('LOCAL_DB_PATH is not set, migrating a throwaway in-memory database');
+    }
+    const db = createLocalDatabase();
+    try {
+      await run(db, command, arg);
+    } finally {
+      await db.$client.close();
+    }
+  } else {
+    await run(createNeonDatabase(), command, arg);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
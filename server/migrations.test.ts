@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sql } from 'drizzle-orm';
+import { createLocalDatabase, type Database } from './db';
+import { migrateDown, migrateUp, type Migration } from './migrations';
+
+// Applying and rolling back migrations on an in-memory PGlite database, with made-up migrations
+
+const createWidgets: Migration = {
+  tag: '0000_widgets',
+  up: ['CREATE TABLE "widgets" ("id" integer PRIMARY KEY)', 'INSERT INTO "widgets" VALUES (1)'],
+  down: ['DROP TABLE "widgets"'],
+};
+
+// Fails on its last statement, after creating a table and rewriting data
+const brokenGadgets: Migration = {
+  tag: '0001_gadgets',
+  up: ['CREATE TABLE "gadgets" ("id" integer)', 'UPDATE "widgets" SET "id" = 2', 'SELECT 1 / 0'],
+  down: ['DROP TABLE "gadgets"', 'SELECT 1 / 0'],
+};
+
+async function tableExists(db: Database, table: string): Promise<boolean> {
+  const result = await db.execute(sql`select to_regclass(${table}) as "table"`);
+  return result.rows[0].table !== null;
+}
+
+async function appliedTags(db: Database): Promise<string[]> {
+  const result = await db.execute(sql`select "tag" from "schema_migrations" order by "tag"`);
+  return result.rows.map(row => row.tag as string);
+}
+
+describe('migrations', () => {
+  test('roll back a migration that fails halfway, so it can be fixed and applied again', async () => {
+    const db = createLocalDatabase('memory://');
+    await assert.rejects(migrateUp(db, [createWidgets, brokenGadgets]));
+
+    assert.deepEqual(await appliedTags(db), ['0000_widgets']);
+    assert.equal(await tableExists(db, 'gadgets'), false);
+    assert.deepEqual((await db.execute(sql`select "id" from "widgets"`)).rows, [{ id: 1 }]);
+
+    const fixedGadgets = { ...brokenGadgets, up: brokenGadgets.up.slice(0, -1) };
+    assert.deepEqual(await migrateUp(db, [createWidgets, fixedGadgets]), ['0001_gadgets']);
+    assert.equal(await tableExists(db, 'gadgets'), true);
+  });
+
+  test('keep a migration applied when its down migration fails halfway', async () => {
+    const db = createLocalDatabase('memory://');
+    const gadgets = { ...brokenGadgets, up: brokenGadgets.up.slice(0, -1) };
+    await migrateUp(db, [createWidgets, gadgets]);
+
+    await assert.rejects(migrateDown(db, 1, [createWidgets, gadgets]));
+    assert.deepEqual(await appliedTags(db), ['0000_widgets', '0001_gadgets']);
+    assert.equal(await tableExists(db, 'gadgets'), true);
+
+    assert.deepEqual(await migrateDown(db, 2, [createWidgets, { ...gadgets, down: ['DROP TABLE "gadgets"'] }]), ['0001_gadgets', '0000_widgets']);
+    assert.equal(await tableExists(db, 'widgets'), false);
+  });
+});
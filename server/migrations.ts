@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { asc, desc, eq, is, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { pgTable, timestamp, varchar } from 'drizzle-orm/pg-core';
+import type { Database } from './db';
+
+// Generated by drizzle-kit (npm run db:generate). Down migrations live in migrations/down/
+// and are generated from the reverse diff of the schema snapshots.
+export const MIGRATIONS_DIR = join(process.cwd(), 'migrations');
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+// Bookkeeping table; intentionally not part of shared/schema.ts so drizzle-kit ignores it
+const schemaMigrations = pgTable("schema_migrations", {
+  tag: varchar("tag", { length: 255 }).primaryKey(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
+
+interface JournalEntry {
+  idx: number;
+  tag: string;
+  when: number;
+}
+
+export interface Migration {
+  tag: string;
+  up: string[];
+  down: string[] | null; // null when no down migration exists
+}
+
+export interface MigrationStatus {
+  applied: string[];
+  pending: string[];
+}
+
+function readStatements(file: string): string[] {
+  return readFileSync(file, 'utf-8')
+    .split(STATEMENT_BREAKPOINT)
+    .map(statement => statement.trim())
+    .filter(statement => statement.length > 0);
+}
+
+export function readJournal(): JournalEntry[] {
+  const journal = JSON.parse(readFileSync(join(MIGRATIONS_DIR, 'meta/_journal.json'), 'utf-8'));
+  return [...journal.entries].sort((a: JournalEntry, b: JournalEntry) => a.idx - b.idx);
+}
+
+export function downMigrationPath(tag: string): string {
+  return join(MIGRATIONS_DIR, 'down', `${tag}.sql`);
+}
+
+// All migrations in the order they must be applied
+export function loadMigrations(): Migration[] {
+  return readJournal().map(entry => {
+    const downPath = downMigrationPath(entry.tag);
+    return {
+      tag: entry.tag,
+      up: readStatements(join(MIGRATIONS_DIR, `${entry.tag}.sql`)),
+      down: existsSync(downPath) ? readStatements(downPath) : null,
+    };
+  });
+}
+
+async function ensureMigrationsTable(db: Database): Promise<void> {
+  await db.execute(sql`CREATE TABLE IF NOT EXISTS "schema_migrations" (
+    "tag" varchar(255) PRIMARY KEY NOT NULL,
+    "applied_at" timestamp DEFAULT now() NOT NULL
+  )`);
+}
+
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus> {
+  await ensureMigrationsTable(db);
+  const rows = await db.select().from(schemaMigrations).orderBy(asc(schemaMigrations.tag));
+  const applied = rows.map(row => row.tag);
+  const pending = loadMigrations()
+    .map(migration => migration.tag)
+    .filter(tag => !applied.includes(tag));
+  return { applied, pending };
+}
+
+type Query = BatchItem<'pg'> & PromiseLike<unknown>;
+
+// Runs a migration's statements and its schema_migrations change all or nothing, so a statement that
+// fails halfway leaves the database as it was. neon-http has no interactive transactions, but runs a
+// batch as one.
+async function executeInTransaction(db: Database, queries: (tx: Database) => Query[]): Promise<void> {
+  if (is(db, NeonHttpDatabase)) {
+    const [first, ...rest] = queries(db);
+    await db.batch([first, ...rest]);
+    return;
+  }
+  await db.transaction(async tx => {
+    for (const query of queries(tx)) {
+      await query;
+    }
+  });
+}
+
+// Apply all pending migrations in order. Returns the applied tags.
+export async function migrateUp(db: Database, migrations = loadMigrations()): Promise<string[]> {
+  const { applied } = await getMigrationStatus(db);
+  const pending = migrations.filter(migration => !applied.includes(migration.tag));
+
+  for (const migration of pending) {
+    await executeInTransaction(db, tx => [
+      ...migration.up.map(statement => tx.execute(sql.raw(statement))),
+      tx.insert(schemaMigrations).values({ tag: migration.tag }),
+    ]);
+    console.log(`Applied migration ${migration.tag}`);
+  }
+
+  return pending.map(migration => migration.tag);
+}
+
+// Roll back the most recently applied migrations. Returns the rolled back tags.
+export async function migrateDown(db: Database, steps = 1, migrations = loadMigrations()): Promise<string[]> {
+  await ensureMigrationsTable(db);
+  const latest = await db.select().from(schemaMigrations)
+    .orderBy(desc(schemaMigrations.tag))
+    .limit(steps);
+
+  const rolledBack: string[] = [];
+  for (const { tag } of latest) {
+    const migration = migrations.find(m => m.tag === tag);
+    if (!migration?.down) {
+      throw new Error(`Migration ${tag} has no down migration at ${downMigrationPath(tag)}`);
+    }
+    const down = migration.down;
+    await executeInTransaction(db, tx => [
+      ...down.map(statement => tx.execute(sql.raw(statement))),
+      tx.delete(schemaMigrations).where(eq(schemaMigrations.tag, tag)),
+    ]);
+    rolledBack.push(tag);
+    console.log(`Rolled back migration ${tag}`);
+  }
+
+  return rolledBack;
+}
+
+// Mark migrations up to and including `tag` as applied without running them.
+// For databases that were created with drizzle-kit push before migrations existed.
+export async function baselineMigrations(db: Database, tag: string): Promise<string[]> {
+  const migrations = loadMigrations();
+  const index = migrations.findIndex(migration => migration.tag === tag);
+  if (index === -1) {
+    throw new Error(`Unknown migration ${tag}`);
+  }
+
+  const { applied } = await getMigrationStatus(db);
+  const marked = migrations.slice(0, index + 1)
+    .map(migration => migration.tag)
+    .filter(migrationTag => !applied.includes(migrationTag));
+  for (const migrationTag of marked) {
+    await db.insert(schemaMigrations).values({ tag: migrationTag });
+  }
+  return marked;
+}
+
+// Startup check: refuse to run against a database with pending migrations
+export async function assertSchemaMigrated(db: Database): Promise<void> {
+  const { pending } = await getMigrationStatus(db);
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is not up to date, ${pending.length} pending migration(s): ${pending.join(', ')}. Run "npm run db:migrate" first.`,
+    );
+  }
+}
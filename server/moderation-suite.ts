@@ -0,0 +1,96 @@
+import {
+  moderationTestMetricKeys,
+  type ModerationFlagMetrics,
+  type ModerationTestCase,
+  type ModerationTestCaseResult,
+  type ModerationTestMetricKey,
+  type ModerationTestOutcome,
+  type NewModerationTestRun,
+} from '@shared/schema';
+import { AIContentModerator } from './ai';
+
+const expectedOutcome = (testCase: ModerationTestCase): ModerationTestOutcome => ({
+  isApproved: testCase.expectApproved,
+  isSpam: testCase.expectSpam,
+  hasInappropriateContent: testCase.expectInappropriate,
+  hasPII: testCase.expectPII,
+});
+
+// Whether the outcome counts as positive for the metric
+const isPositive = (outcome: ModerationTestOutcome, key: ModerationTestMetricKey): boolean =>
+  key === 'rejection' ? !outcome.isApproved : outcome[key];
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator === 0 ? null : numerator / denominator;
+
+export function computeFlagMetrics(results: ModerationTestCaseResult[]): Record<ModerationTestMetricKey, ModerationFlagMetrics> {
+  const metrics = {} as Record<ModerationTestMetricKey, ModerationFlagMetrics>;
+  for (const key of moderationTestMetricKeys) {
+    let truePositives = 0, falsePositives = 0, falseNegatives = 0, trueNegatives = 0;
+    for (const result of results) {
+      const expected = isPositive(result.expected, key);
+      const actual = isPositive(result.actual, key);
+      if (expected && actual) truePositives++;
+      else if (!expected && actual) falsePositives++;
+      else if (expected && !actual) falseNegatives++;
+      else trueNegatives++;
+    }
+    metrics[key] = {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+    };
+  }
+  return metrics;
+}
+
+// Run every corpus case through the content filter with the given prompt. Nothing is stored
+// as a report; the caller saves the returned run. Cases run one after another to stay within
+// provider rate limits.
+export async function runModerationSuite(
+  testCases: ModerationTestCase[],
+  prompt: { content: string; version: number | null },
+  startedBy: string,
+  moderator = new AIContentModerator(),
+): Promise<NewModerationTestRun> {
+  const startTime = Date.now();
+  const results: ModerationTestCaseResult[] = [];
+
+  for (const testCase of testCases) {
+    const caseStart = Date.now();
+    const filterResult = await moderator.filterContent(testCase.title, testCase.description, { prompt });
+    const expected = expectedOutcome(testCase);
+    const actual: ModerationTestOutcome = {
+      isApproved: filterResult.isApproved,
+      isSpam: filterResult.isSpam,
+      hasInappropriateContent: filterResult.hasInappropriateContent,
+      hasPII: filterResult.hasPII,
+    };
+
+    results.push({
+      caseId: testCase.id,
+      title: testCase.title,
+      description: testCase.description,
+      expected,
+      actual,
+      reason: filterResult.reason ?? null,
+      passed: expected.isApproved === actual.isApproved,
+      flagMismatches: moderationTestMetricKeys.filter(key => isPositive(expected, key) !== isPositive(actual, key)),
+      durationMs: Date.now() - caseStart,
+    });
+  }
+
+  return {
+    promptVersion: prompt.version,
+    provider: moderator.providerName,
+    startedBy,
+    caseCount: results.length,
+    passedCount: results.filter(result => result.passed).length,
+    metrics: computeFlagMetrics(results),
+    results,
+    durationMs: Date.now() - startTime,
+  };
+}
@@ -1,14 +1,8 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { storage } from './storage';
+import { getAIProvider, type AIProvider, type NewsAnalysisResult } from './ai-provider';
+import { recordAICall } from './ai-call-log';
 import type { InsertScrapedReport } from '@shared/schema';
 
-// The newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-5-sonnet-20241022" nor "claude-3-sonnet-20240229".
-const DEFAULT_MODEL_STR = "claude-sonnet-4-20250514";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
 interface NewsSearchResult {
   title: string;
   url: string;
@@ -24,21 +18,9 @@ interface ScrapingResult {
   error?: string;
 }
 
-interface AIAnalysisResult {
-  isIncidentRelated: boolean;
-  confidence: number;
-  category?: string;
-  location?: string;
-  extractedData?: {
-    latitude?: number;
-    longitude?: number;
-    incidentType?: string;
-  };
-  reasoning: string;
-}
-
 export class NewsScraper {
-  
+  constructor(private provider: AIProvider = getAIProvider()) {}
+
   async scrapeNews(postcode: string, keywords: string[]): Promise<ScrapingResult> {
     try {
       console.log(`Starting news scraping for postcode ${postcode} with keywords:`, keywords);
@@ -108,74 +90,14 @@ export class NewsScraper {
     return results;
   }
 
-  async analyzeNewsWithAI(newsItem: NewsSearchResult, postcode: string): Promise<AIAnalysisResult> {
+  async analyzeNewsWithAI(newsItem: NewsSearchResult, postcode: string): Promise<NewsAnalysisResult> {
     try {
-      const prompt = `
-Je bent een AI die nieuws artikelen analyseert voor een community safety platform.
-
-Analyseer dit nieuwsartikel en bepaal of het relevant is voor een lokaal veiligheidsplatform:
-
-Titel: ${newsItem.title}
-Beschrijving: ${newsItem.description}
-Bron: ${newsItem.source}
-Postcode gebied: ${postcode}
-
-Bepaal:
-1. Is dit gerelateerd aan een veiligheidsincident? (diefstal, vandalisme, overlast, etc.)
-2. Geef een confidence score (0.0 - 1.0)
-3. Welke categorie past het beste? (theft, degradation, suspicious, dangerous, harassment, cyber)
-4. Probeer een specifieke locatie te extraheren
-5. Geef je redenering
-
-Antwoord in dit JSON format:
-{
-  "isIncidentRelated": boolean,
-  "confidence": number,
-  "category": "string",
-  "location": "string",
-  "extractedData": {
-    "incidentType": "string"
-  },
-  "reasoning": "string"
-}
-`;
-
-      const response = await anthropic.messages.create({
-        model: DEFAULT_MODEL_STR,
-        max_tokens: 1000,
-        messages: [{ role: 'user', content: prompt }]
-      });
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from AI');
-      }
-
-      // Parse AI response
-      const aiText = content.text;
-      let analysisResult: AIAnalysisResult;
-
-      try {
-        // Try to extract JSON from the response
-        const jsonMatch = aiText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          analysisResult = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error('No JSON found in AI response');
-        }
-      } catch (parseError) {
-        console.warn('Failed to parse AI analysis, using fallback:', parseError);
-        // Fallback analysis
-        analysisResult = {
-          isIncidentRelated: false,
-          confidence: 0.3,
-          reasoning: 'AI analysis failed, marked as low confidence'
-        };
-      }
-
+      const { result: analysisResult } = await recordAICall(
+        { type: 'news-analysis', provider: this.provider.name, input: { title: newsItem.title, description: newsItem.description, source: newsItem.source, postcode } },
+        () => this.provider.analyzeNews(newsItem, postcode),
+      );
       console.log('AI Analysis Result:', analysisResult);
       return analysisResult;
-
     } catch (error) {
       console.error('AI analysis error:', error);
       return {
@@ -0,0 +1,93 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { signMediaUrl, type ByteRange, type ObjectHead, type ObjectInfo, type ObjectStorageDriver, type StoredObject } from './object-storage';
+
+// Objects as files under MEDIA_DIR, the content type in a .meta.json file next to each.
+// Signed URLs point at the app's own /media/ route.
+
+const META_SUFFIX = '.meta.json';
+
+export class LocalObjectStorage implements ObjectStorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private readonly root = process.env.MEDIA_DIR || 'media') {}
+
+  // Keys are generated by the app, but never let one escape the root
+  private filePath(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const file = this.filePath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+    await fs.writeFile(file + META_SUFFIX, JSON.stringify({ contentType }));
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    const file = this.filePath(key);
+    try {
+      const [body, meta] = await Promise.all([
+        fs.readFile(file),
+        fs.readFile(file + META_SUFFIX, 'utf8').then(JSON.parse).catch(() => ({})),
+      ]);
+      return { body, contentType: meta.contentType || 'application/octet-stream' };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<ObjectHead | undefined> {
+    const file = this.filePath(key);
+    try {
+      const [stat, meta] = await Promise.all([
+        fs.stat(file),
+        fs.readFile(file + META_SUFFIX, 'utf8').then(JSON.parse).catch(() => ({})),
+      ]);
+      return { size: stat.size, contentType: meta.contentType || 'application/octet-stream' };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.filePath(key), range && { start: range.start, end: range.end });
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.filePath(key);
+    await fs.rm(file, { force: true });
+    await fs.rm(file + META_SUFFIX, { force: true });
+  }
+
+  async list(prefix: string): Promise<ObjectInfo[]> {
+    const dir = path.resolve(this.root, prefix);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir, { recursive: true });
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const objects: ObjectInfo[] = [];
+    for (const entry of entries.filter(entry => !entry.endsWith(META_SUFFIX))) {
+      const stat = await fs.stat(path.join(dir, entry));
+      if (stat.isFile()) {
+        objects.push({ key: path.posix.join(prefix, entry.split(path.sep).join('/')), lastModified: stat.mtime });
+      }
+    }
+    return objects;
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return signMediaUrl(key, expiresInSeconds);
+  }
+}
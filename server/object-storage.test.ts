@@ -0,0 +1,128 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { text } from 'stream/consumers';
+import S3rver from 's3rver';
+import { verifyMediaSignature, type ObjectStorageDriver } from './object-storage';
+import { LocalObjectStorage } from './object-storage-local';
+import { S3ObjectStorage } from './object-storage-s3';
+
+// Behaviour every object storage driver shares. The s3 driver runs against s3rver, an in-process
+// S3 stand-in, the same way it runs against MinIO (S3_ENDPOINT, S3_FORCE_PATH_STYLE=true).
+
+interface DriverFixture {
+  driver: ObjectStorageDriver;
+  // Body behind a URL from driver.signedUrl, undefined when access is refused
+  fetchSigned(url: string): Promise<Buffer | undefined>;
+  checksSignatures: boolean; // s3rver serves presigned URLs without checking their signature
+  teardown(): Promise<void>;
+}
+
+function describeDriver(name: string, setup: () => Promise<DriverFixture>) {
+  describe(name, () => {
+    let fixture: DriverFixture;
+
+    before(async () => {
+      fixture = await setup();
+    });
+
+    after(async () => {
+      await fixture?.teardown();
+    });
+
+    test('returns a stored object with its content type', async () => {
+      await fixture.driver.put('originals/a.jpg', Buffer.from('photo'), 'image/jpeg');
+      const object = await fixture.driver.get('originals/a.jpg');
+      assert.equal(object?.body.toString(), 'photo');
+      assert.equal(object?.contentType, 'image/jpeg');
+    });
+
+    test('returns undefined for a key that does not exist', async () => {
+      assert.equal(await fixture.driver.get('originals/missing.jpg'), undefined);
+    });
+
+    test('streams an object whole or one byte range of it', async () => {
+      await fixture.driver.put('reports/clip.mp4', Buffer.from('0123456789'), 'video/mp4');
+      assert.deepEqual(await fixture.driver.head('reports/clip.mp4'), { size: 10, contentType: 'video/mp4' });
+      assert.equal(await fixture.driver.head('reports/missing.mp4'), undefined);
+      assert.equal(await text(await fixture.driver.stream('reports/clip.mp4')), '0123456789');
+      assert.equal(await text(await fixture.driver.stream('reports/clip.mp4', { start: 2, end: 5 })), '2345');
+      await fixture.driver.delete('reports/clip.mp4');
+    });
+
+    test('lists the objects under a prefix', async () => {
+      await fixture.driver.put('reports/b.mp4', Buffer.from('clip'), 'video/mp4');
+      await fixture.driver.put('reports/thumbnails/c.jpg', Buffer.from('thumbnail'), 'image/jpeg');
+      const objects = await fixture.driver.list('reports/');
+      assert.deepEqual(objects.map(object => object.key).sort(), ['reports/b.mp4', 'reports/thumbnails/c.jpg']);
+      assert.ok(objects.every(object => object.lastModified.getTime() > Date.now() - 60_000));
+    });
+
+    test('deletes an object, and ignores keys that do not exist', async () => {
+      await fixture.driver.put('originals/d.jpg', Buffer.from('photo'), 'image/jpeg');
+      await fixture.driver.delete('originals/d.jpg');
+      await fixture.driver.delete('originals/d.jpg');
+      assert.equal(await fixture.driver.get('originals/d.jpg'), undefined);
+      assert.ok(!(await fixture.driver.list('originals/')).some(object => object.key === 'originals/d.jpg'));
+    });
+
+    test('gives access through a signed URL', async () => {
+      await fixture.driver.put('originals/e.jpg', Buffer.from('private photo'), 'image/jpeg');
+      const url = await fixture.driver.signedUrl('originals/e.jpg', 60);
+      assert.equal((await fixture.fetchSigned(url))?.toString(), 'private photo');
+    });
+
+    test('refuses a signed URL for another key', async (t) => {
+      if (!fixture.checksSignatures) {
+        return t.skip('not checked by this stand-in');
+      }
+      const url = await fixture.driver.signedUrl('originals/e.jpg', 60);
+      assert.equal(await fixture.fetchSigned(url.replace('e.jpg', 'a.jpg')), undefined);
+    });
+  });
+}
+
+describeDriver('LocalObjectStorage', async () => {
+  const root = await mkdtemp(path.join(tmpdir(), 'media-'));
+  const driver = new LocalObjectStorage(root);
+  return {
+    driver,
+    // What GET /media/* checks before serving
+    async fetchSigned(url) {
+      const { pathname, searchParams } = new URL(url, 'http://localhost');
+      const key = pathname.slice('/media/'.length);
+      return verifyMediaSignature(key, searchParams.get('expires'), searchParams.get('signature') ?? undefined)
+        ? (await driver.get(key))?.body
+        : undefined;
+    },
+    checksSignatures: true,
+    teardown: () => rm(root, { recursive: true, force: true }),
+  };
+});
+
+describeDriver('S3ObjectStorage (s3rver)', async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), 's3-'));
+  const server = new S3rver({ address: '127.0.0.1', port: 0, silent: true, directory, configureBuckets: [{ name: 'report-photos', configs: [] }] });
+  const { port } = await server.run();
+  Object.assign(process.env, {
+    S3_BUCKET: 'report-photos',
+    S3_ENDPOINT: `http://127.0.0.1:${port}`,
+    S3_FORCE_PATH_STYLE: 'true',
+    S3_ACCESS_KEY_ID: 'S3RVER', // s3rver's fixed credentials
+    S3_SECRET_ACCESS_KEY: 'S3RVER',
+  });
+  return {
+    driver: new S3ObjectStorage(),
+    async fetchSigned(url) {
+      const response = await fetch(url);
+      return response.ok ? Buffer.from(await response.arrayBuffer()) : undefined;
+    },
+    checksSignatures: false,
+    async teardown() {
+      await server.close();
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+});
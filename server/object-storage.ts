@@ -0,0 +1,102 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Readable } from 'stream';
+import { LocalObjectStorage } from './object-storage-local';
+import { S3ObjectStorage } from './object-storage-s3';
+
+// Where uploaded photos and their variants live. The app serves them under /media/<key>: photos of
+// public reports to everyone, the others only through a time-limited signed URL.
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+// Size and content type, to answer Range requests before streaming
+export interface ObjectHead {
+  contentType: string;
+  size: number;
+}
+
+// Inclusive byte offsets, like the Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface ObjectInfo {
+  key: string;
+  lastModified: Date;
+}
+
+export interface ObjectStorageDriver {
+  readonly name: ObjectStorageName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | undefined>; // Undefined when the key does not exist
+  head(key: string): Promise<ObjectHead | undefined>; // Undefined when the key does not exist
+  // The object's bytes, or only the given range, without loading it into memory
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>; // No error when the key does not exist
+  list(prefix: string): Promise<ObjectInfo[]>;
+  // URL that gives access to the object until expiresInSeconds from now
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+// 'local' (default) keeps objects in MEDIA_DIR, 's3' in an S3-compatible bucket (AWS, MinIO, R2, ...)
+export type ObjectStorageName = 'local' | 's3';
+
+export const objectStorageName: ObjectStorageName =
+  process.env.OBJECT_STORAGE === 's3' ? 's3' : 'local';
+
+export const MEDIA_URL_PREFIX = '/media/';
+export const SIGNED_URL_TTL_SECONDS = Number(process.env.MEDIA_SIGNED_URL_TTL_SECONDS || 15 * 60);
+
+let driver: ObjectStorageDriver | undefined;
+
+export function getObjectStorage(): ObjectStorageDriver {
+  if (!driver) {
+    driver = objectStorageName === 's3' ? new S3ObjectStorage() : new LocalObjectStorage();
+  }
+  return driver;
+}
+
+// Stable URL of an object, served by GET /media/* when the report is public
+export const mediaUrl = (key: string) => `${MEDIA_URL_PREFIX}${key}`;
+
+// Key of a /media/ URL, undefined for other URLs (e.g. photos uploaded before object storage)
+export function mediaKey(url: string | null): string | undefined {
+  return url?.startsWith(MEDIA_URL_PREFIX) ? url.slice(MEDIA_URL_PREFIX.length) : undefined;
+}
+
+// Signatures of the /media/ URLs the local driver hands out. Without MEDIA_SIGNING_SECRET a random
+// secret is used, so signed URLs stop working on a restart.
+function signingSecret(): string {
+  if (process.env.MEDIA_SIGNING_SECRET) {
+    return process.env.MEDIA_SIGNING_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production' && objectStorageName === 'local') {
+    throw new Error('MEDIA_SIGNING_SECRET must be set in production');
+  }
+  return randomBytes(32).toString('hex');
+}
+
+let secret: string | undefined;
+
+function signature(key: string, expires: number): string {
+  secret ??= signingSecret();
+  return createHmac('sha256', secret).update(`${key}:${expires}`).digest('base64url');
+}
+
+export function signMediaUrl(key: string, expiresInSeconds: number): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${mediaUrl(key)}?expires=${expires}&signature=${signature(key, expires)}`;
+}
+
+export function verifyMediaSignature(key: string, expires: unknown, given: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (typeof given !== 'string' || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(signature(key, expiresAt));
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,103 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PIIType } from '@shared/schema';
+import { redactReportText, redactText } from './pii-redaction';
+
+// What the rules mask decides what becomes public, see server/pii-redaction.ts
+
+const matches: [PIIType, string][] = [
+  ['phone', '0471 23 45 67'],
+  ['phone', '0471/23.45.67'],
+  ['phone', '+32 471 23 45 67'],
+  ['phone', '0032471234567'],
+  ['phone', '03 123 45 67'],
+  ['phone', '02/123.45.67'],
+  ['email', 'jan.peeters+buurt@example.be'],
+  ['iban', 'BE68 5390 0754 7034'],
+  ['iban', 'BE68539007547034'],
+  ['national_number', '85.07.30-033.28'],
+  ['national_number', '85073003328'],
+  ['license_plate', '1-ABC-123'],
+  ['license_plate', '1abc123'],
+  ['license_plate', 'ABC-123'],
+  ['license_plate', '123-ABC'],
+];
+
+const names: [string, string][] = [
+  ['meneer Peeters', 'Peeters'],
+  ['buurman Jan van der Berg', 'Jan van der Berg'],
+  ['mijn naam is Els', 'Els'],
+  ['Mevr. De Smet', 'De Smet'],
+  // An introducer at the start of a sentence is capitalized too
+  ['Meneer Janssens stond erbij', 'Janssens'],
+  ['Gisteren zag Buurvrouw An Claes het', 'An Claes'],
+];
+
+// Numbers and capitalized words that are not personal data
+const nearMisses = [
+  'op 12/05/2024',
+  'op 12.05.2024 om 14.30',
+  'op 12-05-2024 om 14:30',
+  'op 01.02.03 rond 10u',
+  'tussen 20.00 en 22.30',
+  'om 23u45',
+  'van 2019-2024',
+  '2000 Antwerpen',
+  'postcode 9000',
+  'Kerkstraat 123',
+  'Kerkstraat 12 bus 3',
+  'huisnummers 101-103',
+  '€ 1.250,00',
+  'De Meir in Antwerpen',
+  'Jan 2024',
+];
+
+describe('redactText', () => {
+  for (const [type, value] of matches) {
+    test(`masks ${type} ${value}`, () => {
+      const text = `Gezien bij ${value}, gisteren`;
+      const result = redactText(text);
+      assert.deepEqual(result.spans, [{ type, start: 11, end: 11 + value.length }]);
+      assert.equal(text.slice(result.spans[0].start, result.spans[0].end), value);
+    });
+  }
+
+  for (const [text, name] of names) {
+    test(`masks the name in "${text}"`, () => {
+      const result = redactText(text);
+      assert.deepEqual(result.spans.map(span => [span.type, text.slice(span.start, span.end)]), [['name', name]]);
+      assert.equal(result.text, text.replace(name, '[naam]'));
+    });
+  }
+
+  for (const text of nearMisses) {
+    test(`leaves "${text}" alone`, () => {
+      assert.deepEqual(redactText(text), { text, spans: [] });
+    });
+  }
+
+  test('masks each match once, with the earlier pattern winning', () => {
+    // The e-mail address starts like a name after "naam:"
+    const text = 'naam: Piet.Peeters@example.be of 0471 23 45 67';
+    const result = redactText(text);
+    assert.equal(result.text, 'naam: [e-mailadres] of [telefoonnummer]');
+    assert.deepEqual(result.spans.map(span => span.type), ['email', 'phone']);
+  });
+});
+
+describe('redactReportText', () => {
+  test('returns the offsets of every mask in the original title and description', () => {
+    const title = 'Auto 1-ABC-123 fout geparkeerd';
+    const description = 'Buurman Peeters (0471 23 45 67) weet meer, mail jan@example.be';
+    const result = redactReportText(title, description);
+
+    assert.equal(result.title, 'Auto [nummerplaat] fout geparkeerd');
+    assert.equal(result.description, 'Buurman [naam] ([telefoonnummer]) weet meer, mail [e-mailadres]');
+    assert.deepEqual(result.redactions.map(({ field, type, start, end }) => [field, type, (field === 'title' ? title : description).slice(start, end)]), [
+      ['title', 'license_plate', '1-ABC-123'],
+      ['description', 'name', 'Peeters'],
+      ['description', 'phone', '0471 23 45 67'],
+      ['description', 'email', 'jan@example.be'],
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { PIIRedaction, PIIType } from '@shared/schema';
+
+// Rule-based masking of personal data in a reporter's text. It runs before the text is sent to
+// the AI provider or published, so these patterns never depend on what the model does.
+// Anything it misses is still up to the content filter's hasPII flag.
+
+export const PII_PLACEHOLDERS: Record<PIIType, string> = {
+  name: '[naam]',
+  phone: '[telefoonnummer]',
+  email: '[e-mailadres]',
+  license_plate: '[nummerplaat]',
+  national_number: '[rijksregisternummer]',
+  iban: '[rekeningnummer]',
+};
+
+// Checked in this order; a later pattern never masks text an earlier one already matched
+const PII_PATTERNS: [PIIType, RegExp][] = [
+  ['email', /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g],
+  ['iban', /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?\b/g],
+  // YY.MM.DD-XXX.CC, with or without separators
+  ['national_number', /\b\d{2}\.?\d{2}\.?\d{2}[-\s]?\d{3}\.?\d{2}\b/g],
+  // Belgian mobile (04xx) and landline numbers, also with +32 or 0032
+  ['phone', /(?:\+32|\b0032|\b0)\s?[1-9](?:[\s./-]?\d){7,8}\b/g],
+  // 1-ABC-123 (since 2010), ABC-123 and 123-ABC
+  ['license_plate', /\b(?:[1-9]-?[A-Z]{3}-?\d{3}|[A-Z]{3}-\d{3}|\d{3}-[A-Z]{3})\b/gi],
+];
+
+// Only names right after one of these words are masked; capitalized words alone are too often places or streets
+const NAME_INTRODUCER = /(?:^|[^a-zà-ÿ])(?:meneer|mevrouw|mevr\.?|mw\.?|dhr\.?|mr\.?|juffrouw|buurman|buurvrouw|genaamd|naam is|naam:)\s+/gi;
+// A capitalized name of up to four parts, including particles like "van der". Matched where an
+// introducer ends, so "Buurman" at the start of a sentence is not taken for the first name.
+const NAME_PATTERN = /^[A-Z][A-Za-zà-ÿ'-]+(?:\s+(?:(?:van|de|der|den|ter|ten|te|la|le|du)\s+)*[A-Z][A-Za-zà-ÿ'-]+){0,3}/;
+
+export interface RedactedText {
+  text: string;
+  spans: Omit<PIIRedaction, 'field'>[]; // Offsets into the input, sorted
+}
+
+function findSpans(text: string): Omit<PIIRedaction, 'field'>[] {
+  const spans: Omit<PIIRedaction, 'field'>[] = [];
+  const overlaps = (start: number, end: number) => spans.some(span => start < span.end && end > span.start);
+  const add = (type: PIIType, start: number, end: number) => {
+    if (!overlaps(start, end)) {
+      spans.push({ type, start, end });
+    }
+  };
+
+  for (const [type, pattern] of PII_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      add(type, match.index!, match.index! + match[0].length);
+    }
+  }
+
+  for (const introducer of Array.from(text.matchAll(NAME_INTRODUCER))) {
+    const start = introducer.index! + introducer[0].length;
+    const name = text.slice(start).match(NAME_PATTERN);
+    if (name) {
+      add('name', start, start + name[0].length);
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+export function redactText(text: string): RedactedText {
+  const spans = findSpans(text);
+  let redacted = '';
+  let position = 0;
+  for (const span of spans) {
+    redacted += text.slice(position, span.start) + PII_PLACEHOLDERS[span.type];
+    position = span.end;
+  }
+  return { text: redacted + text.slice(position), spans };
+}
+
+// Masks title and description; the spans say what was masked where in the original text
+export function redactReportText(title: string, description: string): { title: string; description: string; redactions: PIIRedaction[] } {
+  const redactedTitle = redactText(title);
+  const redactedDescription = redactText(description);
+  return {
+    title: redactedTitle.text,
+    description: redactedDescription.text,
+    redactions: [
+      ...redactedTitle.spans.map(span => ({ field: 'title' as const, ...span })),
+      ...redactedDescription.spans.map(span => ({ field: 'description' as const, ...span })),
+    ],
+  };
+}
@@ -0,0 +1,44 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+// Per-IP request limits for public endpoints that can trigger AI provider calls. Counts are kept
+// in memory per fixed window, so they are per server process and start over on a restart.
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export function rateLimit({ windowMs, max }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, Window>();
+  let nextSweep = Date.now() + windowMs;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    // Forget the windows that ended, so the map does not grow with every client ever seen
+    if (now >= nextSweep) {
+      windows.forEach((window, key) => {
+        if (window.resetAt <= now) windows.delete(key);
+      });
+      nextSweep = now + windowMs;
+    }
+
+    const key = req.ip ?? 'unknown';
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    if (window.count > max) {
+      res.set('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ error: "Too many requests, please try again later" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,89 @@
+import type { Report, ReportLanguage } from '@shared/schema';
+import { AIContentModerator } from './ai';
+import { redactReportText, redactText } from './pii-redaction';
+import { detectLanguage } from './language-detection';
+import { findDuplicateOf } from './duplicate-detection';
+import { computeSeverity } from './severity';
+import { storage } from './storage';
+
+// Moderation of submitted and edited reports. The request only masks personal data and stores the
+// report as pending; the AI content filter and formalizer run in the background job queue
+// (server/ai-jobs.ts), which publishes or rejects the report when they are done.
+
+// Fields stored with the reporter's text right away: personal data masked, hidden until moderated
+export function prepareReportText(originalTitle: string, originalDescription: string) {
+  const { title, description, redactions } = redactReportText(originalTitle || '', originalDescription || '');
+  return {
+    title,
+    description,
+    piiRedactions: redactions,
+    // Detected on the reporter's own text, the redaction placeholders are Dutch
+    language: detectLanguage(`${originalTitle} ${originalDescription}`),
+    moderationStatus: 'pending',
+    moderationReason: null,
+    moderationConfidence: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    isModerated: false,
+    isPublic: false,
+  } satisfies Partial<Report>;
+}
+
+// Job handler: content filter first, formalization unless rejected. Pending reports are formalized
+// too so moderators can compare both texts in the moderation queue. AI errors are thrown so the
+// job is retried; nothing is published on a fallback.
+export async function moderateReport(reportId: string): Promise<void> {
+  const report = await storage.getReport(reportId);
+  if (!report || report.moderationStatus !== 'pending') {
+    return; // Withdrawn, or reviewed by a moderator in the meantime
+  }
+
+  const moderator = new AIContentModerator();
+  const { title, description } = redactReportText(report.originalTitle ?? report.title, report.originalDescription ?? report.description);
+  const options = { reportId, language: report.language as ReportLanguage | null, retryable: true };
+
+  const filterResult = await moderator.filterContent(title, description, options);
+  const moderationStatus = moderator.moderationDecision({
+    ...filterResult,
+    moderatedTitle: title,
+    moderatedDescription: description,
+  });
+  const rejected = moderationStatus === 'rejected';
+
+  let moderatedTitle = title;
+  let moderatedDescription = description;
+  if (!rejected) {
+    const formalizationResult = await moderator.formalizeText(title, description, options);
+    // Same pass over the published text, in case the formalizer added anything that looks like personal data
+    moderatedTitle = redactText(formalizationResult.formalizedTitle).text;
+    moderatedDescription = redactText(formalizationResult.formalizedDescription).text;
+  }
+
+  // Same incident as an earlier report nearby? Only looked up for new reports, never for rejected ones.
+  const duplicateOf = rejected || report.editedAt
+    ? report.duplicateOf
+    : await findDuplicateOf({ ...report, title: report.originalTitle ?? report.title, description: report.originalDescription ?? report.description });
+  const computedSeverity = computeSeverity({ ...report, urgency: filterResult.urgency });
+
+  await storage.updateReportModeration(reportId, {
+    title: moderatedTitle.trim() || `Gemoderate melding: ${report.category}`,
+    description: moderatedDescription.trim() || "Melding is gemoderated vanwege ongepaste inhoud.",
+    moderationStatus,
+    moderationReason: filterResult.reason || null,
+    moderationConfidence: filterResult.confidence ?? null,
+    isModerated: true,
+    isPublic: moderationStatus === 'approved',
+    duplicateOf,
+    computedSeverity,
+    // A moderator's override stays
+    ...(!report.severityOverriddenBy && { severity: computedSeverity }),
+  }, 'pending');
+}
+
+// The job ran out of attempts: the report stays pending and goes to the moderation queue
+export async function holdReportForReview(reportId: string): Promise<void> {
+  await storage.updateReportModeration(reportId, {
+    moderationReason: 'Content moderation temporarily unavailable - held for manual review',
+    moderationConfidence: 0,
+  }, 'pending');
+}
@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { reportLanguages, type Report, type ReportLanguage, type ReportTranslationView } from '@shared/schema';
+import { AIContentModerator } from './ai';
+import { storage } from './storage';
+
+// Cached machine translations of public report text. A translation is made the first time a
+// viewer asks for it and reused until the report's title or description changes.
+
+function sourceHash(report: Report): string {
+  return createHash('sha256').update(`${report.title}\n${report.description}`).digest('hex');
+}
+
+function isReportLanguage(language: string | null): language is ReportLanguage {
+  return (reportLanguages as readonly string[]).includes(language ?? '');
+}
+
+// Translations of the given public reports into language. Reports already in that language or
+// of unknown language are skipped, as are reports whose translation failed.
+export async function getReportTranslations(reports: Report[], language: ReportLanguage): Promise<ReportTranslationView[]> {
+  const candidates = reports.filter(report => isReportLanguage(report.language) && report.language !== language);
+  const cached = await storage.getReportTranslations(candidates.map(report => report.id), language);
+  const moderator = new AIContentModerator();
+
+  const translations = await Promise.all(candidates.map(async (report): Promise<ReportTranslationView | null> => {
+    const sourceLanguage = report.language as ReportLanguage;
+    const hash = sourceHash(report);
+    const hit = cached.find(translation => translation.reportId === report.id && translation.sourceHash === hash);
+    if (hit) {
+      return { reportId: report.id, language, sourceLanguage, title: hit.title, description: hit.description };
+    }
+
+    try {
+      const text = await moderator.translateReport(
+        { title: report.title, description: report.description },
+        sourceLanguage,
+        language,
+        { reportId: report.id },
+      );
+      await storage.saveReportTranslation({ reportId: report.id, language, sourceHash: hash, ...text });
+      return { reportId: report.id, language, sourceLanguage, ...text };
+    } catch (error) {
+      console.error(`Failed to translate report ${report.id} to ${language}:`, error);
+      return null;
+    }
+  }));
+
+  return translations.filter((translation): translation is ReportTranslationView => translation !== null);
+}
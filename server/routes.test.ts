@@ -0,0 +1,159 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { tmpdir } from 'os';
+import path from 'path';
+import express from 'express';
+import type { Report } from '@shared/schema';
+import { initStorage, storage } from './storage';
+import { getObjectStorage, mediaUrl } from './object-storage';
+import { setupAuth } from './auth';
+import { registerRoutes } from './routes';
+
+// The HTTP API on the local backend (in-memory PGlite with the fixtures, media in a temporary
+// directory), as server/index.ts sets it up without the job worker, so queued reports stay where a
+// test puts them.
+
+const ADMIN = { username: 'route-test-admin', password: 'route-test-password' };
+
+let server: Server;
+let baseUrl: string;
+let mediaDir: string;
+
+before(async () => {
+  process.env.ADMIN_USERNAME = ADMIN.username;
+  process.env.ADMIN_PASSWORD = ADMIN.password;
+  mediaDir = await mkdtemp(path.join(tmpdir(), 'media-'));
+  process.env.MEDIA_DIR = mediaDir;
+  await initStorage();
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  await setupAuth(app);
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(mediaDir, { recursive: true, force: true });
+});
+
+async function login(): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(ADMIN),
+  });
+  assert.equal(response.status, 200);
+  return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+function createReport(fields: Partial<Report> = {}): Promise<Report> {
+  return storage.createReportWithModeration({
+    title: 'Verdachte persoon aan de schoolpoort',
+    description: 'Een man stond een uur lang aan de schoolpoort te kijken',
+    category: 'other',
+    involvementType: 'witness',
+    latitude: 51.2194,
+    longitude: 4.4025,
+    moderationStatus: 'approved',
+    isPublic: true,
+    ...fields,
+  });
+}
+
+describe('public reports', () => {
+  test('do not name the moderator who approved a queued report', async () => {
+    const report = await createReport({ moderationStatus: 'pending', moderationConfidence: 0.4, isPublic: false });
+    const cookie = await login();
+    const review = await fetch(`${baseUrl}/api/admin/moderation-queue/review`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: cookie },
+      body: JSON.stringify({ ids: [report.id], decision: 'approve' }),
+    });
+    assert.deepEqual((await review.json()).reviewed.map((reviewed: Report) => reviewed.reviewedBy), [ADMIN.username]);
+
+    const single = await (await fetch(`${baseUrl}/api/reports/${report.id}`)).json();
+    const listed = (await (await fetch(`${baseUrl}/api/reports`)).json()).find((item: Report) => item.id === report.id);
+    for (const publicReport of [single, listed]) {
+      assert.equal(publicReport.reviewedBy, null);
+      assert.equal(publicReport.reviewedAt, null);
+      assert.equal(publicReport.moderationConfidence, null);
+      assert.ok(!JSON.stringify(publicReport).includes(ADMIN.username));
+    }
+  });
+
+  test('do not name the moderator who overrode the severity', async () => {
+    const report = await createReport();
+    const override = await fetch(`${baseUrl}/api/admin/reports/${report.id}/severity`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: await login() },
+      body: JSON.stringify({ severity: 5 }),
+    });
+    assert.equal((await override.json()).severityOverriddenBy, ADMIN.username);
+
+    const publicReport = await (await fetch(`${baseUrl}/api/reports/${report.id}`)).json();
+    assert.equal(publicReport.severity, 5);
+    assert.equal(publicReport.severityOverriddenBy, null);
+  });
+});
+
+describe('media', () => {
+  test('serves a byte range of a published clip as partial content', async () => {
+    const key = 'reports/route-test.mp4';
+    await getObjectStorage().put(key, Buffer.from('0123456789'), 'video/mp4');
+    const report = await createReport();
+    await storage.replaceReportMedia(report.id, [{ kind: 'video', contentType: 'video/mp4', objectKey: key, url: mediaUrl(key), status: 'approved' }]);
+    const url = `${baseUrl}${mediaUrl(key)}`;
+
+    const whole = await fetch(url);
+    assert.equal(whole.status, 200);
+    assert.equal(whole.headers.get('accept-ranges'), 'bytes');
+    assert.equal(await whole.text(), '0123456789');
+
+    const partial = await fetch(url, { headers: { Range: 'bytes=2-5' } });
+    assert.equal(partial.status, 206);
+    assert.equal(partial.headers.get('content-range'), 'bytes 2-5/10');
+    assert.equal(partial.headers.get('content-length'), '4');
+    assert.equal(partial.headers.get('content-type'), 'video/mp4');
+    assert.equal(await partial.text(), '2345');
+
+    const tail = await fetch(url, { headers: { Range: 'bytes=-3' } });
+    assert.equal(await tail.text(), '789');
+
+    const outside = await fetch(url, { headers: { Range: 'bytes=20-' } });
+    assert.equal(outside.status, 416);
+    assert.equal(outside.headers.get('content-range'), 'bytes */10');
+  });
+});
+
+describe('rate limits', () => {
+  test('stop a visitor asking for translations too often', async () => {
+    const report = await createReport({ language: 'nl' });
+    const url = `${baseUrl}/api/reports/translations?language=nl&ids=${report.id}`;
+    for (let i = 0; i < 30; i++) {
+      assert.equal((await fetch(url)).status, 200);
+    }
+    const limited = await fetch(url);
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+  });
+
+  test('stop a visitor asking for category suggestions too often', async () => {
+    const suggest = () => fetch(`${baseUrl}/api/reports/category-suggestions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: 'Fiets gestolen', description: 'Aan het station, niet op slot' }),
+    });
+    for (let i = 0; i < 30; i++) {
+      assert.equal((await suggest()).status, 200);
+    }
+    assert.equal((await suggest()).status, 429);
+    // The region summaries share the limit
+    assert.equal((await fetch(`${baseUrl}/api/region/2000/ai-summary`)).status, 429);
+  });
+});
@@ -1,113 +1,234 @@
-import express, { type Express } from "express";
+import { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertReportSchema, insertScrapingConfigSchema, insertMunicipalitySchema, insertNoteSchema } from "@shared/schema";
+import { insertReportSchema, insertScrapingConfigSchema, insertMunicipalitySchema, insertNoteSchema, reportQuerySchema, reportStatusTransitionSchema, reportStatusTransitions, canTransitionReportStatus, statsQuerySchema, cityReportExportSchema, insertAdminUserSchema, updateAdminUserSchema, updateReportSchema, auditEventQuerySchema, aiCallLogQuerySchema, aiCallStatsQuerySchema, saveModerationPromptsSchema, moderationPromptKinds, insertModerationTestCaseSchema, runModerationTestSchema, moderationQueueQuerySchema, moderationReviewSchema, moderationQueueStatuses, insertReportAppealSchema, categorySuggestionRequestSchema, reportTranslationQuerySchema, reportClusterMergeSchema, reportClusterSplitSchema, reportSeverityOverrideSchema, reportMediaReviewSchema, reportMediaCaptionsSchema, reportVideoContentTypes, REPORT_MEDIA_MAX_FILES, REPORT_VIDEO_MAX_BYTES, aiJobQuerySchema, AI_JOB_LIST_LIMIT, type AIJobList, type ModerationStatus, type ReportModerationOutcome, type ModerationPromptKind, type ModerationQueueStatus, type ModerationReviewResponse, type ReportAppeal, type ReportAppealOutcome, type ReportClusterSummary, type ModerationPromptsResponse, type PublicReportMedia, type Report, type ReportWithMedia, type ReportStatus, type StatsQuery } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
-import { AIContentModerator, getAILogs } from "./ai";
+import { pipeline } from "stream/promises";
+import { AIContentModerator, getActiveModerationPrompt, suggestReportCategories, summarizeRegionReports } from "./ai";
+import { getAICallStats } from "./ai-call-log";
+import { redactReportText } from "./pii-redaction";
+import { getReportTranslations } from "./report-translations";
+import { rateLimit } from "./rate-limit";
+import { getReportClusters, mergeReportClusters } from "./duplicate-detection";
+import { computeSeverity } from "./severity";
+import { prepareReportText } from "./report-moderation";
+import { prepareReportMedia, reviewReportMedia, updateReportCover, type MediaUpload } from "./image-moderation";
+import { InvalidMediaError } from "./image-processing";
+import { getObjectStorage, mediaKey, MEDIA_URL_PREFIX, SIGNED_URL_TTL_SECONDS, verifyMediaSignature } from "./object-storage";
+import { collectMediaGarbage } from "./media-gc";
+import { enqueueAIJob, wakeAIJobWorker } from "./ai-jobs";
 import { GeocodingService } from "./geocoding";
 import { newsScraper } from "./news-scraper";
+import { resolveStatsContext, getReportStatsSummary, getReportCategoryStats, getIncidentTimeStats } from "./stats";
+import { requireAuth, requireRole, STAFF_ROLES, toSafeAdminUser } from "./auth";
+import { hashPassword } from "./passwords";
+import { createEditToken, verifyEditToken } from "./edit-tokens";
+import { recordAuditEvent } from "./audit";
+import { runModerationSuite } from "./moderation-suite";
+import { buildCityReport, cityReportContentType, cityReportFilename, renderCityReportCsv, renderCityReportGeoJson, renderCityReportPdf } from "./city-report";
+
+// Number of moderation suite runs kept visible in the admin panel
+const MODERATION_TEST_RUN_HISTORY = 20;
+
+// Radius around a postal code center that counts as "in" the region
+const REGION_RADIUS_KM = 2;
+
+// Translation requests per visitor IP per minute; a cache miss costs an AI provider call per report
+const TRANSLATION_RATE_LIMIT = Number(process.env.TRANSLATION_RATE_LIMIT || 30);
+// Requests per visitor IP per minute to the public endpoints that call the AI provider directly:
+// category suggestions while typing and the region summary and analyses
+const AI_RATE_LIMIT = Number(process.env.AI_RATE_LIMIT || 30);
+// New and edited reports per visitor IP per minute; each one queues content filter and photo checks
+const REPORT_RATE_LIMIT = Number(process.env.REPORT_RATE_LIMIT || 10);
+
+// Municipality viewers default to, and are limited to, their own municipality
+function scopeStatsQuery(query: StatsQuery, user: Express.User): StatsQuery {
+  if (user.role === 'municipality_viewer' && !query.postcode && !query.municipality) {
+    return { ...query, municipality: user.municipality ?? undefined };
+  }
+  return query;
+}
+
+function isStatsScopeAllowed(municipality: string | undefined, user: Express.User): boolean {
+  if (user.role !== 'municipality_viewer') {
+    return true;
+  }
+  return !!municipality && municipality.toLowerCase() === user.municipality?.toLowerCase();
+}
+
+// Who moderated a report or overrode its severity, and how sure the content filter was, stay admin-only,
+// like changedBy in the status history. The original text too when personal data was masked in it, by
+// the redaction pass or by a moderator editing a queued report.
+function toPublicReport(report: Report): Report {
+  const moderation = { moderationReason: null, moderationConfidence: null, reviewedBy: null, reviewedAt: null, severityOverriddenBy: null };
+  if (!report.reviewedBy && report.piiRedactions.length === 0) {
+    return { ...report, ...moderation };
+  }
+  return { ...report, ...moderation, originalTitle: null, originalDescription: null, piiRedactions: [] };
+}
+
+async function signMediaUrl(url: string | null): Promise<string | null> {
+  const key = mediaKey(url);
+  return key ? await getObjectStorage().signedUrl(key, SIGNED_URL_TTL_SECONDS) : url;
+}
 
-// Legacy default moderation prompt
-function getDefaultModerationPrompt(): string {
-  return `Je bent een content moderator voor een community safety platform waar burgers incidenten rapporteren.
-
-Analyseer de volgende melding en geef een JSON response terug met:
-- isApproved: boolean (true als de melding echt lijkt en gepubliceerd kan worden)
-- isSpam: boolean (true als het een grap, meme, test of spam lijkt)
-- hasInappropriateContent: boolean (true als er racisme, discriminatie, grove taal of ongepaste inhoud in staat)
-- hasPII: boolean (true als er persoonlijke informatie zoals namen, telefoonnummers, adressen in staat)
-- moderatedTitle: string (ALTIJD herschreven titel in formele, neutrale taal zonder persoonlijke info - ook bij afwijzing)
-- moderatedDescription: string (ALTIJD herschreven beschrijving in formele, neutrale taal zonder persoonlijke info - ook bij afwijzing)
-- reason: string (alleen als isApproved false is - korte uitleg waarom afgekeurd)
-
-✅ TOEGESTAAN:
-- Echte veiligheidsincidenten (diefstal, vandalisme, geweld)
-- Overlast in openbare ruimte (geluidsoverlast, vervuiling)
-- Verkeerssituaties en gevaarlijke situaties
-- Constructieve meldingen over infrastructuur problemen
-- Waarnemingen van verdachte activiteiten
-
-❌ NIET TOEGESTAAN:
-- Algemene complimenten zonder specifiek incident ("mooi park")
-- Test berichten of spam ("test", "hallo")
-- Persoonlijke informatie (namen, telefoonnummers, adressen)
-- Racistische of discriminerende inhoud
-- Grove taal of beledigingen
-
-Richtlijnen voor herschrijven:
-- Verander naar formele, neutrale taal
-- Verwijder namen, telefoonnummers, specifieke adressen (maar behoud algemene locatie zoals "bij de supermarkt")
-- Behoud belangrijke details over het incident zelf
-- Maak het professioneel maar begrijpelijk
-- Verwijder emotionele taal en vervang door feitelijke beschrijving
-
-BELANGRIJK: Geef alleen pure JSON terug zonder markdown code blocks.`;
+// Photos of reports that are not public are only reachable through a signed URL, also for admins
+async function withSignedMedia<T extends Report>(report: T): Promise<T> {
+  if (report.isPublic) {
+    return report;
+  }
+  return { ...report, imageUrl: await signMediaUrl(report.imageUrl), thumbnailUrl: await signMediaUrl(report.thumbnailUrl) };
 }
 
+// Admin listings: every report with all its media, signed like the cover
+async function withReportMedia(reportList: Report[]): Promise<ReportWithMedia[]> {
+  const media = await storage.getReportMediaForReports(reportList.map(report => report.id));
+  return await Promise.all(reportList.map(async report => ({
+    ...await withSignedMedia(report),
+    media: await Promise.all(media.filter(item => item.reportId === report.id).map(async item => report.isPublic
+      ? item
+      : { ...item, url: await signMediaUrl(item.url), thumbnailUrl: await signMediaUrl(item.thumbnailUrl) })),
+  })));
+}
 
-// Distance calculation helper (Haversine formula)
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+// Photos and clips of POST /api/reports and PATCH /api/reports/:id, with the caption sent for each
+function mediaUploads(req: Request): MediaUpload[] {
+  const { captions } = z.object({ captions: reportMediaCaptionsSchema }).parse(req.body);
+  const files = (req.files ?? []) as Express.Multer.File[];
+  return files.map((file, index) => ({ buffer: file.buffer, mimetype: file.mimetype, caption: captions[index] }));
 }
 
 // Configure multer for file uploads
 const upload = multer({
-  dest: 'uploads/',
+  storage: multer.memoryStorage(), // Processed before anything is stored, see server/image-moderation.ts
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+    fileSize: REPORT_VIDEO_MAX_BYTES, // Photos have a lower limit, checked in prepareReportMedia
+    files: REPORT_MEDIA_MAX_FILES,
   },
   fileFilter: (req: any, file: any, cb: any) => {
-    if (file.mimetype.startsWith('image/')) {
+    if (file.mimetype.startsWith('image/') || (reportVideoContentTypes as readonly string[]).includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new Error('Only photos and MP4 or MOV clips are allowed'));
     }
   },
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const geocodingService = new GeocodingService();
+  const translationRateLimit = rateLimit({ windowMs: 60_000, max: TRANSLATION_RATE_LIMIT });
+  const aiRateLimit = rateLimit({ windowMs: 60_000, max: AI_RATE_LIMIT });
+  const reportRateLimit = rateLimit({ windowMs: 60_000, max: REPORT_RATE_LIMIT });
+
+  // Every admin route needs a logged in account; routes not open to all roles add their own guard
+  app.use("/api/admin", requireAuth);
+  const staffOnly = requireRole(...STAFF_ROLES);
+  const superadminOnly = requireRole('superadmin');
+
   // Get public reports only (for main dashboard)
+  // Optional filters: category, subcategory (repeatable), bbox (north/south/east/west), center+radius (lat/lng/radius in km)
+  // and a time window (from/to on timeField). With limit or cursor the response is a
+  // { reports, nextCursor } page sorted by sort (createdAt, incidentDateTime or distance).
   app.get("/api/reports", async (req, res) => {
     try {
-      const category = req.query.category as string;
-      let reports;
-
-      if (category && category !== 'all') {
-        reports = await storage.getPublicReportsByCategory(category);
-      } else {
-        reports = await storage.getAllPublicReports();
+      const query = reportQuerySchema.parse(req.query);
+      if (query.limit !== undefined || query.cursor) {
+        const page = await storage.getPublicReportsPage(query);
+        return res.json({ ...page, reports: page.reports.map(toPublicReport) });
       }
-
-      res.json(reports);
+      const reports = await storage.queryPublicReports(query);
+      res.json(reports.map(toPublicReport));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch reports" });
     }
   });
 
+  // Translations of public reports into the viewer's language, made on first request and cached
+  // (before /api/reports/:id so "translations" is not taken for an id)
+  app.get("/api/reports/translations", translationRateLimit, async (req, res) => {
+    try {
+      const query = reportTranslationQuerySchema.parse(req.query);
+      const reports = await storage.getPublicReportsByIds(query.ids);
+      res.json(await getReportTranslations(reports, query.language));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Report translation error:", error);
+      res.status(500).json({ error: "Failed to fetch translations" });
+    }
+  });
+
   // Get single report
   app.get("/api/reports/:id", async (req, res) => {
     try {
       const report = await storage.getReport(req.params.id);
-      if (!report) {
+      if (!report || !report.isPublic) {
         return res.status(404).json({ error: "Report not found" });
       }
-      res.json(report);
+      res.json(toPublicReport(report));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch report" });
     }
   });
 
+  // Published photos and clips of a public report, in carousel order
+  app.get("/api/reports/:id/media", async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report || !report.isPublic) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      const media: PublicReportMedia[] = (await storage.getReportMedia(report.id))
+        .filter(item => item.status === 'approved' && item.url)
+        .map(({ id, kind, position, caption, url, thumbnailUrl }) => ({ id, kind, position, caption, url, thumbnailUrl }));
+      res.json(media);
+    } catch (error) {
+      console.error("Error fetching report media:", error);
+      res.status(500).json({ error: "Failed to fetch report media" });
+    }
+  });
+
+  // Lifecycle timeline of a public report (without who made each change)
+  app.get("/api/reports/:id/status-history", async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report || !report.isPublic) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      const history = await storage.getReportStatusHistory(report.id);
+      res.json(history.map(({ changedBy, ...entry }) => entry));
+    } catch (error) {
+      console.error("Error fetching report status history:", error);
+      res.status(500).json({ error: "Failed to fetch status history" });
+    }
+  });
+
+  // How many public reports describe the same incident, for "X others reported this"
+  app.get("/api/reports/:id/cluster", async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report || !report.isPublic) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      const canonicalReportId = report.duplicateOf ?? report.id;
+      const members = await storage.getReportClusterMembers(canonicalReportId);
+      const summary: ReportClusterSummary = {
+        canonicalReportId,
+        reportCount: members.filter(member => member.isPublic).length,
+      };
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching report cluster:", error);
+      res.status(500).json({ error: "Failed to fetch report cluster" });
+    }
+  });
+
   // Get reports by postal code
   app.get("/api/region/:postalCode/reports", async (req, res) => {
     try {
@@ -120,32 +241,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Postal code not found" });
       }
 
-      // Get all reports and filter by proximity to postal code center
-      let allReports;
-      if (category && category !== 'all') {
-        allReports = await storage.getPublicReportsByCategory(category);
-      } else {
-        allReports = await storage.getAllPublicReports();
-      }
-
-      // Filter reports within ~2km radius of postal code center
-      const radiusKm = 2;
-      const reportsInPostalCode = allReports.filter(report => {
-        if (!report.latitude || !report.longitude) return false;
-
-        const distance = calculateDistance(
-          postalInfo.latitude, 
-          postalInfo.longitude,
-          report.latitude,
-          report.longitude
-        );
-
-        return distance <= radiusKm;
+      // Reports within the region radius of the postal code center
+      const reportsInPostalCode = await storage.queryPublicReports({
+        category,
+        lat: postalInfo.latitude,
+        lng: postalInfo.longitude,
+        radius: REGION_RADIUS_KM,
       });
 
       res.json({
         postalCode: postalInfo,
-        reports: reportsInPostalCode,
+        reports: reportsInPostalCode.map(toPublicReport),
         count: reportsInPostalCode.length
       });
     } catch (error) {
@@ -155,7 +261,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get AI summary for postal code
-  app.get("/api/region/:postalCode/ai-summary", async (req, res) => {
+  app.get("/api/region/:postalCode/ai-summary", aiRateLimit, async (req, res) => {
     try {
       const postalCode = req.params.postalCode;
 
@@ -165,71 +271,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Postal code not found" });
       }
 
-      // Get all reports for this postal code (no radius limit)
-      const allReports = await storage.getAllPublicReports();
-      const reportsInPostalCode = allReports.filter(report => {
-        if (!report.latitude || !report.longitude) return false;
-
-        const distance = calculateDistance(
-          postalInfo.latitude, 
-          postalInfo.longitude,
-          report.latitude,
-          report.longitude
-        );
-
-        return distance <= 2; // Keep minimal radius for exact postal code area
+      // Get all reports for this postal code
+      const reportsInPostalCode = await storage.queryPublicReports({
+        lat: postalInfo.latitude,
+        lng: postalInfo.longitude,
+        radius: REGION_RADIUS_KM,
       });
 
-      if (reportsInPostalCode.length === 0) {
-        return res.json({ summary: "Geen recente meldingen in deze regio." });
-      }
-
-      // Generate AI summary
-      const moderator = new AIContentModerator();
-
-      // Group reports by category
-      const reportsByCategory = reportsInPostalCode.reduce((acc, report) => {
-        if (!acc[report.category]) {
-          acc[report.category] = [];
-        }
-        acc[report.category].push(report.description);
-        return acc;
-      }, {} as Record<string, string[]>);
-
-      const categoryTexts = Object.entries(reportsByCategory)
-        .map(([category, descriptions]) => `${category} (${descriptions.length} meldingen): ${descriptions.join(', ')}`)
-        .join('. ');
-
-      const prompt = `Je bent een stadsmanager die rapporteert aan de burgemeester. Groepeer deze buurtmeldingen per hoofdcategorie: ${categoryTexts}
-
-Maak een samenvatting per categorie:
-- Vermeld aantal meldingen per categorie
-- Beschrijf kort wat de hoofdproblemen zijn binnen elke categorie
-- Focus op publieke veiligheid en openbare ruimte
-- Negeer administratieve/private zaken
-
-Format: 
-**[Categorie naam] ({aantal} meldingen):** korte beschrijving
-
-Maximaal 3-4 categorieën, professionele toon.`;
-
-      try {
-        const summary = await moderator.generateSummary(prompt);
-        res.json({ summary: summary || "Gemengde meldingen in de buurt." });
-      } catch (aiError) {
-        // Fallback summary without AI
-        const categoryCount = reportsInPostalCode.reduce((acc, report) => {
-          acc[report.category] = (acc[report.category] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
-
-        const topCategory = Object.entries(categoryCount)
-          .sort(([,a], [,b]) => b - a)[0];
-
-        const fallbackSummary = `${reportsInPostalCode.length} meldingen in deze regio. Meest voorkomend: ${topCategory[0]} (${topCategory[1]} meldingen).`;
-        res.json({ summary: fallbackSummary });
-      }
-
+      res.json({ summary: await summarizeRegionReports(reportsInPostalCode) });
     } catch (error) {
       console.error('AI summary error:', error);
       res.status(500).json({ error: "Failed to generate AI summary" });
@@ -237,7 +286,7 @@ Maximaal 3-4 categorieën, professionele toon.`;
   });
 
   // Get AI journalism analysis for specific category in postal code
-  app.get("/api/region/:postalCode/category/:category/analysis", async (req, res) => {
+  app.get("/api/region/:postalCode/category/:category/analysis", aiRateLimit, async (req, res) => {
     try {
       const postalCode = req.params.postalCode;
       const category = req.params.category;
@@ -249,19 +298,11 @@ Maximaal 3-4 categorieën, professionele toon.`;
       }
 
       // Get all reports for this category in this postal code
-      const allReports = await storage.getAllPublicReports();
-      const categoryReports = allReports.filter(report => {
-        if (report.category !== category) return false;
-        if (!report.latitude || !report.longitude) return false;
-
-        const distance = calculateDistance(
-          postalInfo.latitude, 
-          postalInfo.longitude,
-          report.latitude,
-          report.longitude
-        );
-
-        return distance <= 2;
+      const categoryReports = await storage.queryPublicReports({
+        category,
+        lat: postalInfo.latitude,
+        lng: postalInfo.longitude,
+        radius: REGION_RADIUS_KM,
       });
 
       if (categoryReports.length < 2) {
@@ -342,11 +383,25 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  // Create new report with AI moderation
-  app.post("/api/reports", upload.single('image'), async (req: any, res) => {
+  // Ranked category suggestions for the draft text in the report form. The text is masked
+  // first, like in moderation, so no personal data reaches the AI provider.
+  app.post("/api/reports/category-suggestions", aiRateLimit, async (req, res) => {
     try {
-      console.log("DEBUG - Raw request body:", req.body);
+      const draft = categorySuggestionRequestSchema.parse(req.body);
+      const redacted = redactReportText(draft.title, draft.description);
+      res.json(await suggestReportCategories(redacted.title, redacted.description));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid draft", details: error.errors });
+      }
+      console.error("Category suggestion error:", error);
+      res.status(500).json({ error: "Failed to suggest categories" });
+    }
+  });
 
+  // Create new report; AI moderation runs in the background job queue (202)
+  app.post("/api/reports", reportRateLimit, upload.array('media', REPORT_MEDIA_MAX_FILES), async (req: any, res) => {
+    try {
       const reportData = {
         ...req.body,
         latitude: req.body.latitude ? parseFloat(req.body.latitude) : null,
@@ -355,110 +410,204 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
         incidentDateTime: req.body.incidentDateTime || undefined,
       };
 
-      // Add image URL if file was uploaded
-      if (req.file) {
-        reportData.imageUrl = `/uploads/${req.file.filename}`;
-      }
-
-      console.log("DEBUG - Processed data:", reportData);
-
       const validatedData = insertReportSchema.parse(reportData);
+      // Photos are published by their own moderation job, without metadata and with faces and plates blurred
+      const media = await prepareReportMedia(mediaUploads(req));
 
-      // Run AI content moderation - Prompts are now read from files automatically
-      const moderator = new AIContentModerator();
-      console.log('DEBUG - Using content filter prompt: Custom/Default prompt loaded');
-      
-      // Step 1: Content filtering (prompts read automatically from server/prompts/)
-      const filterResult = await moderator.filterContent(
-        validatedData.title || '',
-        validatedData.description || ''
-      );
-      
-      console.log('DEBUG - Content Filter Result:', filterResult);
-      
-      // Step 2: Text formalization only if approved (prompts read automatically from files)
-      let moderatedTitle = validatedData.title;
-      let moderatedDescription = validatedData.description;
-      
-      if (filterResult.isApproved) {
-        const formalizationResult = await moderator.formalizeText(
-          validatedData.title || '',
-          validatedData.description || ''
-        );
-        moderatedTitle = formalizationResult.formalizedTitle;
-        moderatedDescription = formalizationResult.formalizedDescription;
-      }
-      
-      // Construct moderation result for backward compatibility
-      const moderationResult = {
-        isApproved: filterResult.isApproved,
-        isSpam: filterResult.isSpam,
-        hasInappropriateContent: filterResult.hasInappropriateContent,
-        hasPII: filterResult.hasPII,
-        moderatedTitle,
-        moderatedDescription,
-        reason: filterResult.reason
-      };
-
-      console.log("DEBUG - Moderation result:", moderationResult);
+      // Scored again with the content filter's urgency once the moderation job ran
+      const severity = computeSeverity(validatedData);
 
-      // NEW STRATEGY: Save ALL reports, use isPublic flag for visibility
-      const shouldReject = moderator.shouldAutoReject(moderationResult);
-
-      // Prepare report data with moderation results - ALWAYS save with original + moderated content
+      // Stored right away with personal data masked and hidden; the moderation job publishes or
+      // rejects it (server/ai-jobs.ts). The original text is kept for admins.
       const finalReportData = {
         ...validatedData,
+        severity,
+        computedSeverity: severity,
+        // Whether the reporter kept the category the form suggested
+        categorySuggestionAccepted: validatedData.suggestedCategory
+          ? validatedData.suggestedCategory === validatedData.category
+          : null,
         originalTitle: validatedData.title,
         originalDescription: validatedData.description,
-        // FORCE: Always use moderated version if available, create fallback if AI fails
-        title: (moderationResult.moderatedTitle && moderationResult.moderatedTitle.trim().length > 0) 
-          ? moderationResult.moderatedTitle 
-          : (shouldReject ? `Gemoderate melding: ${validatedData.category}` : validatedData.title),
-        description: (moderationResult.moderatedDescription && moderationResult.moderatedDescription.trim().length > 0) 
-          ? moderationResult.moderatedDescription 
-          : (shouldReject ? "Melding is gemoderated vanwege ongepaste inhoud." : validatedData.description),
-        moderationStatus: shouldReject ? 'rejected' : 'approved',
-        moderationReason: moderationResult.reason || null,
-        isModerated: true, // AI always processes content
-        isPublic: !shouldReject, // Only approved content is public
+        ...prepareReportText(validatedData.title, validatedData.description),
       };
 
-      console.log("DEBUG - Final report data before save:", {
-        id: 'will-be-generated',
-        title: finalReportData.title,
-        originalTitle: finalReportData.originalTitle,
-        isPublic: finalReportData.isPublic,
-        moderationStatus: finalReportData.moderationStatus
-      });
-
-      // ALWAYS save the report first, regardless of moderation result
       const report = await storage.createReportWithModeration(finalReportData);
-      console.log("DEBUG - Report saved with ID:", report.id, "isPublic:", report.isPublic);
-
-      // If rejected, return error to user but report is already saved in admin area
-      if (shouldReject) {
-        return res.status(400).json({ 
-          error: "Content rejected by moderation",
-          reason: moderationResult.reason || "Content appears to be spam or inappropriate",
-          reportId: report.id // Include for debugging
-        });
+
+      // The edit token is only ever shown in this response. The reporter needs it to follow the
+      // moderation (GET /api/reports/:id/moderation), to edit and to appeal a rejection.
+      const { token, tokenHash } = createEditToken();
+      await storage.saveReportEditToken(report.id, tokenHash);
+      await enqueueAIJob('report-moderation', report.id);
+      if (media.length > 0) {
+        await storage.replaceReportMedia(report.id, media);
+        await enqueueAIJob('image-moderation', report.id);
       }
 
-      res.status(201).json(report);
+      res.status(202).json({ ...report, editToken: token, message: "Report is being checked" });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.log("DEBUG - Validation errors:", JSON.stringify(error.errors, null, 2));
         return res.status(400).json({ error: "Validation failed", details: error.errors });
       }
-      console.log("DEBUG - Other error:", error);
+      if (error instanceof InvalidMediaError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error creating report:", error);
       res.status(500).json({ error: "Failed to create report" });
     }
   });
 
-  // Delete report
+  // Reporter edits and withdrawals need the edit token from POST /api/reports in the X-Edit-Token header.
+  // Sends the error response and returns undefined when the report is missing or the token is wrong.
+  const findOwnedReport = async (req: Request, res: Response): Promise<Report | undefined> => {
+    const report = await storage.getReport(req.params.id);
+    if (!report) {
+      res.status(404).json({ error: "Report not found" });
+      return undefined;
+    }
+    const token = req.get('X-Edit-Token');
+    const tokenHash = await storage.getReportEditTokenHash(report.id);
+    if (!token || !tokenHash || !verifyEditToken(token, tokenHash)) {
+      res.status(403).json({ error: "Invalid or missing edit token" });
+      return undefined;
+    }
+    return report;
+  };
+
+  // Edit own report; the merged text goes through AI moderation again before it is public (202)
+  app.patch("/api/reports/:id", reportRateLimit, upload.array('media', REPORT_MEDIA_MAX_FILES), async (req: any, res) => {
+    try {
+      const report = await findOwnedReport(req, res);
+      if (!report) return;
+
+      // The moderator reviews the text as it was appealed
+      if ((await storage.getReportAppeal(report.id))?.status === 'pending') {
+        return res.status(409).json({ error: "Report cannot be edited while its appeal is pending" });
+      }
+
+      const changes = updateReportSchema.parse({
+        ...req.body,
+        latitude: req.body.latitude !== undefined ? parseFloat(req.body.latitude) : undefined,
+        longitude: req.body.longitude !== undefined ? parseFloat(req.body.longitude) : undefined,
+        incidentDateTime: req.body.incidentDateTime || undefined,
+      });
+      // New uploads replace all earlier photos and clips
+      const media = await prepareReportMedia(mediaUploads(req));
+      if (media.length > 0) {
+        await storage.replaceReportMedia(report.id, media);
+        await updateReportCover(report.id);
+      }
+
+      const title = changes.title ?? report.originalTitle ?? report.title;
+      const description = changes.description ?? report.originalDescription ?? report.description;
+      const updated = await storage.updateReportContent(report.id, {
+        ...changes,
+        incidentDateTime: changes.incidentDateTime ? new Date(changes.incidentDateTime) : undefined,
+        originalTitle: title,
+        originalDescription: description,
+        ...prepareReportText(title, description),
+      });
+      if (!updated) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      // Like a new submission: hidden until the moderation job has checked the edit
+      await enqueueAIJob('report-moderation', updated.id);
+      if (media.length > 0) {
+        await enqueueAIJob('image-moderation', updated.id);
+      }
+      res.status(202).json({ ...updated, message: "Report is being checked" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      if (error instanceof InvalidMediaError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error editing report:", error);
+      res.status(500).json({ error: "Failed to edit report" });
+    }
+  });
+
+  // Moderation outcome for the reporter, polled after submitting or editing until it is no longer
+  // "checking". The reason is only given for a rejection, which the reporter can appeal.
+  app.get("/api/reports/:id/moderation", async (req, res) => {
+    try {
+      const report = await findOwnedReport(req, res);
+      if (!report) return;
+
+      const checking = await storage.hasOpenAIJob(report.id);
+      const status = checking ? 'checking' : report.moderationStatus as ModerationStatus;
+      const outcome: ReportModerationOutcome = {
+        reportId: report.id,
+        status,
+        reason: status === 'rejected' ? report.moderationReason || "Content appears to be spam or inappropriate" : null,
+      };
+      res.json(outcome);
+    } catch (error) {
+      console.error("Error fetching report moderation:", error);
+      res.status(500).json({ error: "Failed to fetch moderation status" });
+    }
+  });
+
+  const toAppealOutcome = (report: Report, appeal: ReportAppeal): ReportAppealOutcome => ({
+    reportId: report.id,
+    title: report.originalTitle ?? report.title,
+    status: appeal.status as ReportAppealOutcome['status'],
+    explanation: appeal.explanation,
+    createdAt: appeal.createdAt.toISOString(),
+    decidedAt: appeal.decidedAt?.toISOString() ?? null,
+    moderationReason: report.moderationStatus === 'rejected' ? report.moderationReason : null,
+  });
+
+  // Appeal a rejection with an explanation; it goes to the moderation queue. One appeal per report.
+  app.post("/api/reports/:id/appeal", async (req, res) => {
+    try {
+      const report = await findOwnedReport(req, res);
+      if (!report) return;
+
+      const { explanation } = insertReportAppealSchema.parse(req.body);
+      if (report.moderationStatus !== 'rejected') {
+        return res.status(409).json({ error: "Only rejected reports can be appealed" });
+      }
+      const appeal = await storage.createReportAppeal(report.id, explanation);
+      if (!appeal) {
+        return res.status(409).json({ error: "Report has already been appealed" });
+      }
+      res.status(201).json(toAppealOutcome(report, appeal));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      console.error("Error appealing report:", error);
+      res.status(500).json({ error: "Failed to appeal report" });
+    }
+  });
+
+  // Appeal outcome for the reporter
+  app.get("/api/reports/:id/appeal", async (req, res) => {
+    try {
+      const report = await findOwnedReport(req, res);
+      if (!report) return;
+
+      const appeal = await storage.getReportAppeal(report.id);
+      if (!appeal) {
+        return res.status(404).json({ error: "Report has not been appealed" });
+      }
+      res.json(toAppealOutcome(report, appeal));
+    } catch (error) {
+      console.error("Error fetching report appeal:", error);
+      res.status(500).json({ error: "Failed to fetch appeal" });
+    }
+  });
+
+  // Withdraw own report
   app.delete("/api/reports/:id", async (req, res) => {
     try {
-      const success = await storage.deleteReport(req.params.id);
+      const report = await findOwnedReport(req, res);
+      if (!report) return;
+
+      const success = await storage.deleteReport(report.id);
       if (!success) {
         return res.status(404).json({ error: "Report not found" });
       }
@@ -470,7 +619,7 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
 
 
   // API Health Check endpoint
-  app.get("/api/admin/api-health", async (req, res) => {
+  app.get("/api/admin/api-health", staffOnly, async (req, res) => {
     try {
       const moderator = new AIContentModerator();
       const health = await moderator.checkAPIHealth();
@@ -481,19 +630,180 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  // AI Logs endpoint for debugging
-  app.get("/api/admin/ai-logs", async (req, res) => {
+  // Persistent log of every AI call, newest first, see server/ai-call-log.ts
+  app.get("/api/admin/ai-logs", staffOnly, async (req, res) => {
     try {
-      const logs = getAILogs();
-      res.json(logs);
+      const query = aiCallLogQuerySchema.parse(req.query);
+      res.json(await storage.getAICallLogsPage(query));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
       console.error('Error fetching AI logs:', error);
       res.status(500).json({ error: "Failed to fetch AI logs" });
     }
   });
 
+  // Daily failure rate, token usage, latency and estimated cost of AI calls
+  app.get("/api/admin/ai-logs/stats", staffOnly, async (req, res) => {
+    try {
+      const query = aiCallStatsQuerySchema.parse(req.query);
+      res.json(await getAICallStats(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error('Error fetching AI call stats:', error);
+      res.status(500).json({ error: "Failed to fetch AI call stats" });
+    }
+  });
+
+  // AI job queue: counts per status and the jobs with one status, dead ones by default
+  app.get("/api/admin/ai-jobs", staffOnly, async (req, res) => {
+    try {
+      const { status } = aiJobQuerySchema.parse(req.query);
+      const list: AIJobList = {
+        counts: await storage.getAIJobCounts(),
+        jobs: await storage.getAIJobs(status, AI_JOB_LIST_LIMIT),
+      };
+      res.json(list);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error('Error fetching AI jobs:', error);
+      res.status(500).json({ error: "Failed to fetch AI jobs" });
+    }
+  });
+
+  // Requeue a dead job with fresh attempts, e.g. after an AI provider outage
+  app.post("/api/admin/ai-jobs/:id/retry", staffOnly, async (req, res) => {
+    try {
+      const existing = await storage.getAIJob(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "AI job not found" });
+      }
+      const job = await storage.retryAIJob(existing.id);
+      if (!job) {
+        return res.status(409).json({ error: "Only dead AI jobs can be retried" });
+      }
+      await recordAuditEvent(req, {
+        action: 'ai_job.retry',
+        entityType: 'ai_job',
+        entityId: job.id,
+        before: { status: 'dead' },
+        after: { status: job.status },
+      });
+      wakeAIJobWorker();
+      res.json(job);
+    } catch (error) {
+      console.error('Error retrying AI job:', error);
+      res.status(500).json({ error: "Failed to retry AI job" });
+    }
+  });
+
+  // Moderation prompts: the active content filter and formalization instructions
+  const getModerationPrompts = async (): Promise<ModerationPromptsResponse> => ({
+    contentFilter: await getActiveModerationPrompt('content_filter'),
+    textFormalization: await getActiveModerationPrompt('text_formalization'),
+  });
+
+  const parsePromptKind = (kind: string): ModerationPromptKind | undefined =>
+    (moderationPromptKinds as readonly string[]).includes(kind) ? kind as ModerationPromptKind : undefined;
+
+  app.get("/api/admin/moderation-prompts", staffOnly, async (req, res) => {
+    try {
+      res.json(await getModerationPrompts());
+    } catch (error) {
+      console.error('Error fetching moderation prompts:', error);
+      res.status(500).json({ error: "Failed to fetch moderation prompts" });
+    }
+  });
+
+  // Saves a new version of every prompt whose text changed
+  app.post("/api/admin/moderation-prompts", staffOnly, async (req, res) => {
+    try {
+      const data = saveModerationPromptsSchema.parse(req.body);
+      const current = await getModerationPrompts();
+      const changes: [ModerationPromptKind, string | undefined, string][] = [
+        ['content_filter', data.contentFilter, current.contentFilter.content],
+        ['text_formalization', data.textFormalization, current.textFormalization.content],
+      ];
+
+      for (const [kind, content, previous] of changes) {
+        if (content === undefined || content === previous.trim()) {
+          continue;
+        }
+        const created = await storage.createModerationPromptVersion({ kind, content, author: req.user!.username });
+        await recordAuditEvent(req, {
+          action: 'moderation_prompt.save',
+          entityType: 'moderation_prompt',
+          entityId: `${kind}:${created.version}`,
+          before: { content: previous },
+          after: { version: created.version, content },
+        });
+      }
+
+      res.json(await getModerationPrompts());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid prompt data", details: error.errors });
+      }
+      console.error('Error saving moderation prompts:', error);
+      res.status(500).json({ error: "Failed to save moderation prompts" });
+    }
+  });
+
+  app.get("/api/admin/moderation-prompts/:kind/versions", staffOnly, async (req, res) => {
+    try {
+      const kind = parsePromptKind(req.params.kind);
+      if (!kind) {
+        return res.status(404).json({ error: "Unknown prompt kind" });
+      }
+      res.json(await storage.getModerationPromptVersions(kind));
+    } catch (error) {
+      console.error('Error fetching moderation prompt versions:', error);
+      res.status(500).json({ error: "Failed to fetch moderation prompt versions" });
+    }
+  });
+
+  // Rollback adds a new version with the old content, so the history stays complete
+  app.post("/api/admin/moderation-prompts/:kind/versions/:version/rollback", staffOnly, async (req, res) => {
+    try {
+      const kind = parsePromptKind(req.params.kind);
+      const version = Number(req.params.version);
+      const target = kind && Number.isInteger(version) ? await storage.getModerationPromptVersion(kind, version) : undefined;
+      if (!kind || !target) {
+        return res.status(404).json({ error: "Prompt version not found" });
+      }
+
+      const previous = await getActiveModerationPrompt(kind);
+      if (previous.version === target.version) {
+        return res.status(409).json({ error: "This version is already active" });
+      }
+
+      const created = await storage.createModerationPromptVersion({
+        kind,
+        content: target.content,
+        author: req.user!.username,
+        restoredFromVersion: target.version,
+      });
+      await recordAuditEvent(req, {
+        action: 'moderation_prompt.rollback',
+        entityType: 'moderation_prompt',
+        entityId: `${kind}:${created.version}`,
+        before: { version: previous.version, content: previous.content },
+        after: { version: created.version, restoredFromVersion: target.version, content: created.content },
+      });
+      res.json(created);
+    } catch (error) {
+      console.error('Error rolling back moderation prompt:', error);
+      res.status(500).json({ error: "Failed to roll back moderation prompt" });
+    }
+  });
+
   // Notes endpoints for Best Practices and other documentation
-  app.get("/api/admin/notes/:key", async (req, res) => {
+  app.get("/api/admin/notes/:key", staffOnly, async (req, res) => {
     try {
       const { key } = req.params;
       const note = await storage.getNote(key);
@@ -509,7 +819,7 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.post("/api/admin/notes/:key", async (req, res) => {
+  app.post("/api/admin/notes/:key", staffOnly, async (req, res) => {
     try {
       const { key } = req.params;
       
@@ -524,7 +834,9 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
       }).pick({ content: true });
       
       const validatedData = validationSchema.parse(req.body);
+      const previous = await storage.getNote(key);
       const note = await storage.saveNote(key, validatedData.content);
+      await recordAuditEvent(req, { action: 'note.save', entityType: 'note', entityId: key, before: previous ?? null, after: note });
       res.json(note);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -536,10 +848,17 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
   });
 
   // Admin routes - IMPORTANT: PUT GET BEFORE DELETE to avoid Express route conflicts
-  app.get("/api/admin/reports", async (req, res) => {
+  app.get("/api/admin/reports", staffOnly, async (req, res) => {
     console.log("DEBUG - Admin GET route hit!");
     try {
-      const category = req.query.category as string;
+      // Paged when limit or cursor is given, same parameters as GET /api/reports
+      const query = reportQuerySchema.parse(req.query);
+      if (query.limit !== undefined || query.cursor) {
+        const page = await storage.getReportsPage(query);
+        return res.json({ ...page, reports: await withReportMedia(page.reports) });
+      }
+
+      const category = query.category;
       let reports;
 
       if (category && category !== 'all') {
@@ -559,27 +878,24 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
         });
       }
 
-      res.json(reports);
+      res.json(await withReportMedia(reports));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
       console.log("DEBUG - Admin reports error:", error);
       res.status(500).json({ error: "Failed to fetch admin reports" });
     }
   });
 
-  app.delete("/api/admin/reports", async (req, res) => {
+  app.delete("/api/admin/reports", superadminOnly, async (req, res) => {
     console.log("DEBUG - Admin DELETE route hit!");
-    
-    // Check for admin password in request header
-    const adminPassword = req.headers['x-admin-password'];
-    if (adminPassword !== 'JustDoIt') {
-      console.log("DEBUG - Invalid or missing admin password");
-      return res.status(403).json({ 
-        error: "Forbidden: Invalid admin password" 
-      });
-    }
-    
     try {
+      const reportCount = (await storage.getAllReports()).length;
       const success = await storage.deleteAllReports();
+      if (success) {
+        await recordAuditEvent(req, { action: 'report.delete_all', entityType: 'report', before: { reportCount } });
+      }
       res.json({ success, message: success ? "All reports deleted" : "Failed to delete reports" });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete all reports" });
@@ -587,12 +903,14 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
   });
 
   // Delete single report by ID (Admin only)
-  app.delete("/api/admin/reports/:id", async (req, res) => {
+  app.delete("/api/admin/reports/:id", staffOnly, async (req, res) => {
     console.log("DEBUG - Admin DELETE single report route hit!", req.params.id);
     try {
       const { id } = req.params;
+      const report = await storage.getReport(id);
       const success = await storage.deleteReport(id);
       if (success) {
+        await recordAuditEvent(req, { action: 'report.delete', entityType: 'report', entityId: id, before: report });
         res.json({ success: true, message: "Report deleted successfully" });
       } else {
         res.status(404).json({ error: "Report not found" });
@@ -603,8 +921,431 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
+  // Report lifecycle: move a report to another status, see reportStatusTransitions
+  app.post("/api/admin/reports/:id/status", staffOnly, async (req, res) => {
+    try {
+      const transition = reportStatusTransitionSchema.parse(req.body);
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      if (!canTransitionReportStatus(report.status, transition.status)) {
+        return res.status(409).json({
+          error: `Cannot change status from ${report.status} to ${transition.status}`,
+          allowed: reportStatusTransitions[report.status as ReportStatus] ?? [],
+        });
+      }
+
+      const updated = await storage.updateReportStatus(report.id, report.status, transition, req.user!.username);
+      if (!updated) {
+        return res.status(409).json({ error: "Report status was changed in the meantime, reload and try again" });
+      }
+      await recordAuditEvent(req, {
+        action: 'report.status_change',
+        entityType: 'report',
+        entityId: report.id,
+        before: { status: report.status },
+        after: { status: updated.status, note: transition.note ?? null },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid status", details: error.errors });
+      }
+      console.error("Error updating report status:", error);
+      res.status(500).json({ error: "Failed to update report status" });
+    }
+  });
+
+  app.get("/api/admin/reports/:id/status-history", staffOnly, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.json(await storage.getReportStatusHistory(report.id));
+    } catch (error) {
+      console.error("Error fetching report status history:", error);
+      res.status(500).json({ error: "Failed to fetch status history" });
+    }
+  });
+
+  // Moderator override of the computed severity; null goes back to the computed score
+  app.post("/api/admin/reports/:id/severity", staffOnly, async (req, res) => {
+    try {
+      const { severity } = reportSeverityOverrideSchema.parse(req.body);
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+
+      const updated = await storage.updateReportSeverity(report.id, severity, req.user!.username);
+      if (!updated) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      await recordAuditEvent(req, {
+        action: 'report.severity_override',
+        entityType: 'report',
+        entityId: report.id,
+        before: { severity: report.severity, overridden: !!report.severityOverriddenBy },
+        after: { severity: updated.severity, overridden: !!updated.severityOverriddenBy },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid severity", details: error.errors });
+      }
+      console.error("Error updating report severity:", error);
+      res.status(500).json({ error: "Failed to update report severity" });
+    }
+  });
+
+  // The uploaded photo or clip without metadata, a photo unblurred, for reviewing flagged items
+  app.get("/api/admin/report-media/:id/original", staffOnly, async (req, res) => {
+    try {
+      const item = await storage.getReportMediaItem(req.params.id);
+      if (!item?.objectKey) {
+        return res.status(404).json({ error: "Report media not found" });
+      }
+      res.redirect(await getObjectStorage().signedUrl(item.objectKey, SIGNED_URL_TTL_SECONDS));
+    } catch (error) {
+      console.error("Error fetching report media:", error);
+      res.status(500).json({ error: "Failed to fetch report media" });
+    }
+  });
+
+  // Publish a flagged photo (blurred like an automatically approved one) or clip, or take it offline
+  app.post("/api/admin/report-media/:id/review", staffOnly, async (req, res) => {
+    try {
+      const { decision } = reportMediaReviewSchema.parse(req.body);
+      const item = await storage.getReportMediaItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Report media not found" });
+      }
+      if (item.status === 'processing') {
+        return res.status(409).json({ error: "Report media is still being checked" });
+      }
+
+      const updated = await reviewReportMedia(item, decision);
+      if (!updated) {
+        return res.status(404).json({ error: "Report media not found" });
+      }
+      await recordAuditEvent(req, {
+        action: 'report.media_review',
+        entityType: 'report',
+        entityId: item.reportId,
+        before: { mediaId: item.id, kind: item.kind, status: item.status, url: item.url },
+        after: { mediaId: updated.id, kind: updated.kind, status: updated.status, url: updated.url },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid decision", details: error.errors });
+      }
+      console.error("Error reviewing report media:", error);
+      res.status(500).json({ error: "Failed to review report media" });
+    }
+  });
+
+  // Duplicate clusters: reports of the same incident linked to a canonical report
+  app.get("/api/admin/report-clusters", staffOnly, async (req, res) => {
+    try {
+      res.json(await getReportClusters());
+    } catch (error) {
+      console.error("Error fetching report clusters:", error);
+      res.status(500).json({ error: "Failed to fetch report clusters" });
+    }
+  });
+
+  // Merge the clusters of reportIds into the cluster of canonicalId
+  app.post("/api/admin/report-clusters/merge", staffOnly, async (req, res) => {
+    try {
+      const { canonicalId, reportIds } = reportClusterMergeSchema.parse(req.body);
+      const cluster = await mergeReportClusters(canonicalId, reportIds);
+      if (!cluster) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      await recordAuditEvent(req, {
+        action: 'report.cluster_merge',
+        entityType: 'report',
+        entityId: cluster.canonical.id,
+        before: { reportIds },
+        after: { canonicalId: cluster.canonical.id, duplicateIds: cluster.duplicates.map(report => report.id) },
+      });
+      res.json(cluster);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid merge", details: error.errors });
+      }
+      console.error("Error merging report clusters:", error);
+      res.status(500).json({ error: "Failed to merge report clusters" });
+    }
+  });
+
+  // Take reports out of their cluster; a canonical report leaves its duplicates to the oldest of them
+  app.post("/api/admin/report-clusters/split", staffOnly, async (req, res) => {
+    try {
+      const { reportIds } = reportClusterSplitSchema.parse(req.body);
+      for (const id of Array.from(new Set(reportIds))) {
+        const report = await storage.getReport(id);
+        if (!report) continue;
+        await storage.splitReportFromCluster(id);
+        await recordAuditEvent(req, {
+          action: 'report.cluster_split',
+          entityType: 'report',
+          entityId: id,
+          before: { duplicateOf: report.duplicateOf },
+          after: { duplicateOf: null },
+        });
+      }
+      res.json(await getReportClusters());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid split", details: error.errors });
+      }
+      console.error("Error splitting report clusters:", error);
+      res.status(500).json({ error: "Failed to split report clusters" });
+    }
+  });
+
+  // Moderation queue: pending (PII or low AI confidence), appealed and rejected reports waiting for a moderator
+  app.get("/api/admin/moderation-queue", staffOnly, async (req, res) => {
+    try {
+      const { status } = moderationQueueQuerySchema.parse(req.query);
+      const queue = await storage.getModerationQueue(status);
+      res.json(await Promise.all(queue.map(withSignedMedia)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Error fetching moderation queue:", error);
+      res.status(500).json({ error: "Failed to fetch moderation queue" });
+    }
+  });
+
+  // Approve (optionally with edited text) or reject with a reason, for one or more queued reports
+  app.post("/api/admin/moderation-queue/review", staffOnly, async (req, res) => {
+    try {
+      const { ids, ...review } = moderationReviewSchema.parse(req.body);
+      const response: ModerationReviewResponse = { reviewed: [], skipped: [] };
+
+      for (const id of Array.from(new Set(ids))) {
+        const report = await storage.getReport(id);
+        const fromStatus = report?.moderationStatus as ModerationQueueStatus | undefined;
+        if (!report || !fromStatus || !moderationQueueStatuses.includes(fromStatus)) {
+          response.skipped.push(id);
+          continue;
+        }
+
+        const updated = await storage.reviewReport(id, fromStatus, review, req.user!.username);
+        if (!updated) {
+          response.skipped.push(id);
+          continue;
+        }
+        const appeal = await storage.decideReportAppeal(id, review.decision === 'approve' ? 'accepted' : 'denied', req.user!.username);
+        await recordAuditEvent(req, {
+          action: 'report.review',
+          entityType: 'report',
+          entityId: id,
+          before: { moderationStatus: fromStatus, moderationReason: report.moderationReason, title: report.title, description: report.description },
+          after: {
+            moderationStatus: updated.moderationStatus,
+            moderationReason: updated.moderationReason,
+            title: updated.title,
+            description: updated.description,
+            ...(appeal && { appeal: appeal.status }),
+          },
+        });
+        response.reviewed.push(updated);
+      }
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid review", details: error.errors });
+      }
+      console.error("Error reviewing reports:", error);
+      res.status(500).json({ error: "Failed to review reports" });
+    }
+  });
+
+  // Admin statistics for the City Report page. Every endpoint takes an optional period
+  // (from/to, default last 30 days) and postcode or municipality.
+  const statsEndpoints = {
+    "summary": getReportStatsSummary,
+    "categories": getReportCategoryStats,
+    "incident-times": getIncidentTimeStats,
+  };
+
+  for (const [name, computeStats] of Object.entries(statsEndpoints)) {
+    app.get(`/api/admin/stats/${name}`, async (req, res) => {
+      try {
+        const query = statsQuerySchema.parse(req.query);
+        const context = await resolveStatsContext(scopeStatsQuery(query, req.user!), geocodingService, REGION_RADIUS_KM);
+        if (!context) {
+          return res.status(404).json({ error: "Postcode or municipality not found" });
+        }
+        if (!isStatsScopeAllowed(context.meta.scope?.municipality, req.user!)) {
+          return res.status(403).json({ error: "You can only view statistics of your own municipality" });
+        }
+        res.json(await computeStats(storage, context));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+        }
+        console.error(`Error computing ${name} stats:`, error);
+        res.status(500).json({ error: "Failed to compute statistics" });
+      }
+    });
+  }
+
+  // Municipal city report download (PDF, CSV or GeoJSON) for a municipality or postcode and period
+  app.get("/api/admin/city-report/export", async (req, res) => {
+    try {
+      const { format } = cityReportExportSchema.parse(req.query);
+      const query = scopeStatsQuery(statsQuerySchema.parse(req.query), req.user!);
+      if (!query.postcode && !query.municipality) {
+        return res.status(400).json({ error: "Choose a municipality or postcode to export" });
+      }
+
+      const context = await resolveStatsContext(query, geocodingService, REGION_RADIUS_KM);
+      if (!context) {
+        return res.status(404).json({ error: "Postcode or municipality not found" });
+      }
+      if (!isStatsScopeAllowed(context.meta.scope?.municipality, req.user!)) {
+        return res.status(403).json({ error: "You can only export reports of your own municipality" });
+      }
+
+      const report = await buildCityReport(storage, context, { withRegionSummary: format === 'pdf' });
+      const body = format === 'pdf'
+        ? await renderCityReportPdf(report)
+        : format === 'csv'
+          ? renderCityReportCsv(report)
+          : JSON.stringify(renderCityReportGeoJson(report), null, 2);
+
+      res.setHeader('Content-Type', cityReportContentType(format));
+      res.setHeader('Content-Disposition', `attachment; filename="${cityReportFilename(report, format)}"`);
+      res.send(body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Error exporting city report:", error);
+      res.status(500).json({ error: "Failed to export city report" });
+    }
+  });
+
+  // Admin account management (superadmin only)
+  app.get("/api/admin/users", superadminOnly, async (req, res) => {
+    try {
+      const users = await storage.getAllAdminUsers();
+      res.json(users.map(toSafeAdminUser));
+    } catch (error) {
+      console.error("Error fetching admin users:", error);
+      res.status(500).json({ error: "Failed to fetch admin users" });
+    }
+  });
+
+  app.post("/api/admin/users", superadminOnly, async (req, res) => {
+    try {
+      const { password, ...data } = insertAdminUserSchema.parse(req.body);
+      if (await storage.getAdminUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+      const user = await storage.createAdminUser({
+        ...data,
+        municipality: data.role === 'municipality_viewer' ? data.municipality : null,
+        passwordHash: await hashPassword(password),
+      });
+      await recordAuditEvent(req, { action: 'admin_user.create', entityType: 'admin_user', entityId: user.id, after: toSafeAdminUser(user) });
+      res.status(201).json(toSafeAdminUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid user data", details: error.errors });
+      }
+      console.error("Error creating admin user:", error);
+      res.status(500).json({ error: "Failed to create admin user" });
+    }
+  });
+
+  app.put("/api/admin/users/:id", superadminOnly, async (req, res) => {
+    try {
+      const { password, ...data } = updateAdminUserSchema.parse(req.body);
+      const existing = await storage.getAdminUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+      if (existing.id === req.user!.id && (data.isActive === false || (data.role && data.role !== existing.role))) {
+        return res.status(400).json({ error: "You cannot deactivate your own account or change your own role" });
+      }
+
+      const role = data.role ?? existing.role;
+      const municipality = data.municipality !== undefined ? data.municipality : existing.municipality;
+      if (role === 'municipality_viewer' && !municipality) {
+        return res.status(400).json({ error: "Municipality viewers need a municipality" });
+      }
+
+      const user = await storage.updateAdminUser(existing.id, {
+        ...data,
+        municipality: role === 'municipality_viewer' ? municipality : null,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "Admin user not found" });
+      }
+      await recordAuditEvent(req, {
+        action: 'admin_user.update',
+        entityType: 'admin_user',
+        entityId: user.id,
+        before: toSafeAdminUser(existing),
+        after: { ...toSafeAdminUser(user), passwordChanged: !!password },
+      });
+      res.json(toSafeAdminUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid user data", details: error.errors });
+      }
+      console.error("Error updating admin user:", error);
+      res.status(500).json({ error: "Failed to update admin user" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id", superadminOnly, async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ error: "You cannot delete your own account" });
+      }
+      const user = await storage.getAdminUser(req.params.id);
+      const success = await storage.deleteAdminUser(req.params.id);
+      if (success) {
+        await recordAuditEvent(req, { action: 'admin_user.delete', entityType: 'admin_user', entityId: req.params.id, before: user && toSafeAdminUser(user) });
+        res.json({ success: true });
+      } else {
+        res.status(404).json({ error: "Admin user not found" });
+      }
+    } catch (error) {
+      console.error("Error deleting admin user:", error);
+      res.status(500).json({ error: "Failed to delete admin user" });
+    }
+  });
+
+  // Audit log (superadmin only), newest first; paged with limit and cursor
+  app.get("/api/admin/audit-events", superadminOnly, async (req, res) => {
+    try {
+      const query = auditEventQuerySchema.parse(req.query);
+      res.json(await storage.getAuditEventsPage(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters", details: error.errors });
+      }
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ error: "Failed to fetch audit events" });
+    }
+  });
+
   // News Scraping Configuration API
-  app.get("/api/admin/scraping-configs", async (req, res) => {
+  app.get("/api/admin/scraping-configs", staffOnly, async (req, res) => {
     try {
       const configs = await storage.getScrapingConfigs();
       res.json(configs);
@@ -614,10 +1355,11 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.post("/api/admin/scraping-configs", async (req, res) => {
+  app.post("/api/admin/scraping-configs", staffOnly, async (req, res) => {
     try {
       const validatedData = insertScrapingConfigSchema.parse(req.body);
       const config = await storage.createScrapingConfig(validatedData);
+      await recordAuditEvent(req, { action: 'scraping_config.create', entityType: 'scraping_config', entityId: config.id, after: config });
       res.json(config);
     } catch (error) {
       console.error("Error creating scraping config:", error);
@@ -625,11 +1367,13 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.put("/api/admin/scraping-configs/:id", async (req, res) => {
+  app.put("/api/admin/scraping-configs/:id", staffOnly, async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getScrapingConfig(id);
       const success = await storage.updateScrapingConfig(id, req.body);
       if (success) {
+        await recordAuditEvent(req, { action: 'scraping_config.update', entityType: 'scraping_config', entityId: id, before, after: await storage.getScrapingConfig(id) });
         res.json({ success: true });
       } else {
         res.status(404).json({ error: "Scraping configuration not found" });
@@ -640,11 +1384,13 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.delete("/api/admin/scraping-configs/:id", async (req, res) => {
+  app.delete("/api/admin/scraping-configs/:id", staffOnly, async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getScrapingConfig(id);
       const success = await storage.deleteScrapingConfig(id);
       if (success) {
+        await recordAuditEvent(req, { action: 'scraping_config.delete', entityType: 'scraping_config', entityId: id, before });
         res.json({ success: true });
       } else {
         res.status(404).json({ error: "Scraping configuration not found" });
@@ -681,10 +1427,11 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.post("/api/admin/municipalities", async (req, res) => {
+  app.post("/api/admin/municipalities", staffOnly, async (req, res) => {
     try {
       const validatedData = insertMunicipalitySchema.parse(req.body);
       const municipality = await storage.createMunicipality(validatedData);
+      await recordAuditEvent(req, { action: 'municipality.create', entityType: 'municipality', entityId: municipality.id, after: municipality });
       res.json(municipality);
     } catch (error) {
       console.error("Error creating municipality:", error);
@@ -692,11 +1439,13 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.put("/api/admin/municipalities/:id", async (req, res) => {
+  app.put("/api/admin/municipalities/:id", staffOnly, async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getMunicipality(id);
       const success = await storage.updateMunicipality(id, req.body);
       if (success) {
+        await recordAuditEvent(req, { action: 'municipality.update', entityType: 'municipality', entityId: id, before, after: await storage.getMunicipality(id) });
         res.json({ success: true });
       } else {
         res.status(404).json({ error: "Municipality not found" });
@@ -707,11 +1456,13 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.delete("/api/admin/municipalities/:id", async (req, res) => {
+  app.delete("/api/admin/municipalities/:id", staffOnly, async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getMunicipality(id);
       const success = await storage.deleteMunicipality(id);
       if (success) {
+        await recordAuditEvent(req, { action: 'municipality.delete', entityType: 'municipality', entityId: id, before });
         res.json({ success: true });
       } else {
         res.status(404).json({ error: "Municipality not found" });
@@ -723,7 +1474,7 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
   });
 
   // Scraped Reports API
-  app.get("/api/admin/scraped-reports", async (req, res) => {
+  app.get("/api/admin/scraped-reports", staffOnly, async (req, res) => {
     try {
       const status = req.query.status as string;
       let reports;
@@ -741,7 +1492,7 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.put("/api/admin/scraped-reports/:id/status", async (req, res) => {
+  app.put("/api/admin/scraped-reports/:id/status", staffOnly, async (req, res) => {
     try {
       const { id } = req.params;
       const { status } = req.body;
@@ -750,8 +1501,16 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
         return res.status(400).json({ error: "Invalid status" });
       }
       
-      const success = await storage.updateScrapedReportStatus(id, status, 'admin');
+      const before = await storage.getScrapedReport(id);
+      const success = await storage.updateScrapedReportStatus(id, status, req.user!.username);
       if (success) {
+        await recordAuditEvent(req, {
+          action: 'scraped_report.status_change',
+          entityType: 'scraped_report',
+          entityId: id,
+          before: before && { status: before.status, title: before.title },
+          after: { status, title: before?.title },
+        });
         res.json({ success: true });
       } else {
         res.status(404).json({ error: "Scraped report not found" });
@@ -762,11 +1521,13 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  app.delete("/api/admin/scraped-reports/:id", async (req, res) => {
+  app.delete("/api/admin/scraped-reports/:id", staffOnly, async (req, res) => {
     try {
       const { id } = req.params;
+      const before = await storage.getScrapedReport(id);
       const success = await storage.deleteScrapedReport(id);
       if (success) {
+        await recordAuditEvent(req, { action: 'scraped_report.delete', entityType: 'scraped_report', entityId: id, before });
         res.json({ success: true });
       } else {
         res.status(404).json({ error: "Scraped report not found" });
@@ -778,7 +1539,7 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
   });
 
   // Manual News Scraping Trigger
-  app.post("/api/admin/scrape-news", async (req, res) => {
+  app.post("/api/admin/scrape-news", staffOnly, async (req, res) => {
     try {
       const { postcode, keywords } = req.body;
       
@@ -804,6 +1565,13 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
       if (config) {
         await storage.updateScrapingConfig(config.id, { lastScrapedAt: new Date() });
       }
+
+      await recordAuditEvent(req, {
+        action: 'news.scrape',
+        entityType: 'scraping_config',
+        entityId: config?.id,
+        after: { postcode, keywords, totalFound: scrapingResult.results.length, savedCount },
+      });
       
       res.json({
         success: true,
@@ -817,169 +1585,171 @@ Journalist toon: professioneel maar toegankelijk, focus op wat burgers moeten we
     }
   });
 
-  // AI Moderation Test Endpoint
-  app.post("/api/admin/moderation-test", async (req, res) => {
+  // Moderation regression suite: a labelled corpus run straight through the content filter
+  app.get("/api/admin/moderation-test-cases", staffOnly, async (req, res) => {
     try {
-      const startTime = Date.now();
-      
-      // Test case 1: Inappropriate content (should be blocked)
-      const inappropriateTestData = {
-        title: "neger gespot bij bushalte",
-        description: "neger gespot bij bushalte vanmorgen",
-        category: "degradation",
-        subcategory: "Littering", 
-        involvementType: "witness",
-        authoritiesContacted: "false"
-      };
-
-      // Test case 2: Appropriate content (should be approved and formalized)
-      const appropriateTestData = {
-        title: "mooie varens in het bos",
-        description: "schone natuur aangetroffen tijdens wandeling",
-        category: "status",
-        involvementType: "witness", 
-        authoritiesContacted: "false"
-      };
+      res.json(await storage.getModerationTestCases());
+    } catch (error) {
+      console.error('Error fetching moderation test cases:', error);
+      res.status(500).json({ error: "Failed to fetch moderation test cases" });
+    }
+  });
 
-      const results = [];
+  app.post("/api/admin/moderation-test-cases", staffOnly, async (req, res) => {
+    try {
+      const data = insertModerationTestCaseSchema.parse(req.body);
+      const testCase = await storage.createModerationTestCase(data, req.user!.username);
+      await recordAuditEvent(req, { action: 'moderation_test_case.create', entityType: 'moderation_test_case', entityId: testCase.id, after: testCase });
+      res.status(201).json(testCase);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid test case data", details: error.errors });
+      }
+      console.error('Error creating moderation test case:', error);
+      res.status(500).json({ error: "Failed to create moderation test case" });
+    }
+  });
 
-      // Test 1: Submit inappropriate content
-      console.log("MODERATION TEST: Starting test 1 (inappropriate content)");
-      const test1Start = Date.now();
-      try {
-        const test1FormData = new FormData();
-        Object.entries(inappropriateTestData).forEach(([key, value]) => {
-          test1FormData.append(key, value);
-        });
-        
-        const test1Response = await fetch(`http://localhost:${process.env.PORT || 5000}/api/reports`, {
-          method: 'POST',
-          body: test1FormData
-        });
-        
-        const test1ResponseData = await test1Response.text();
-        let test1ParsedData;
-        try {
-          test1ParsedData = JSON.parse(test1ResponseData);
-        } catch {
-          test1ParsedData = test1ResponseData;
-        }
+  app.put("/api/admin/moderation-test-cases/:id", staffOnly, async (req, res) => {
+    try {
+      const data = insertModerationTestCaseSchema.partial().parse(req.body);
+      const previous = await storage.getModerationTestCase(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ error: "Test case not found" });
+      }
+      const testCase = await storage.updateModerationTestCase(req.params.id, data);
+      await recordAuditEvent(req, { action: 'moderation_test_case.update', entityType: 'moderation_test_case', entityId: req.params.id, before: previous, after: testCase });
+      res.json(testCase);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid test case data", details: error.errors });
+      }
+      console.error('Error updating moderation test case:', error);
+      res.status(500).json({ error: "Failed to update moderation test case" });
+    }
+  });
 
-        // Evaluate if test 1 passed (inappropriate content should be blocked = 400)
-        const test1Passed = test1Response.status === 400;
-        
-        results.push({
-          id: "inappropriate",
-          testData: inappropriateTestData,
-          expected: "Should be BLOCKED (400 status)",
-          passed: test1Passed,
-          submissionResult: {
-            success: test1Response.ok,
-            status: test1Response.status,
-            response: test1ParsedData,
-            durationMs: Date.now() - test1Start
-          }
-        });
-      } catch (error) {
-        results.push({
-          id: "inappropriate",
-          testData: inappropriateTestData,
-          expected: "Should be BLOCKED (400 status)",
-          passed: false,
-          submissionResult: {
-            success: false,
-            status: 0,
-            response: { error: error instanceof Error ? error.message : String(error) },
-            durationMs: Date.now() - test1Start
-          }
-        });
+  app.delete("/api/admin/moderation-test-cases/:id", staffOnly, async (req, res) => {
+    try {
+      const previous = await storage.getModerationTestCase(req.params.id);
+      const deleted = await storage.deleteModerationTestCase(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Test case not found" });
       }
+      await recordAuditEvent(req, { action: 'moderation_test_case.delete', entityType: 'moderation_test_case', entityId: req.params.id, before: previous ?? null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting moderation test case:', error);
+      res.status(500).json({ error: "Failed to delete moderation test case" });
+    }
+  });
 
-      // Wait 2 seconds between tests to prevent server overload
-      console.log("MODERATION TEST: Waiting 2 seconds before test 2...");
-      await new Promise(resolve => setTimeout(resolve, 2000));
+  // Runs the whole corpus against the active content filter prompt or a saved version
+  app.post("/api/admin/moderation-test", staffOnly, async (req, res) => {
+    try {
+      const { promptVersion } = runModerationTestSchema.parse(req.body ?? {});
 
-      // Test 2: Submit appropriate content
-      console.log("MODERATION TEST: Starting test 2 (appropriate content)");
-      const test2Start = Date.now();
-      try {
-        const test2FormData = new FormData();
-        Object.entries(appropriateTestData).forEach(([key, value]) => {
-          test2FormData.append(key, value);
-        });
-        
-        const test2Response = await fetch(`http://localhost:${process.env.PORT || 5000}/api/reports`, {
-          method: 'POST',
-          body: test2FormData
-        });
-        
-        const test2ResponseData = await test2Response.text();
-        let test2ParsedData;
-        try {
-          test2ParsedData = JSON.parse(test2ResponseData);
-        } catch {
-          test2ParsedData = test2ResponseData;
+      let prompt: { content: string; version: number | null };
+      if (promptVersion !== undefined) {
+        const version = await storage.getModerationPromptVersion('content_filter', promptVersion);
+        if (!version) {
+          return res.status(404).json({ error: "Prompt version not found" });
         }
-
-        // Evaluate if test 2 passed (appropriate content should be approved = 201)
-        const test2Passed = test2Response.status === 201;
-        
-        results.push({
-          id: "appropriate",
-          testData: appropriateTestData,
-          expected: "Should be APPROVED (201 status)",
-          passed: test2Passed,
-          submissionResult: {
-            success: test2Response.ok,
-            status: test2Response.status,
-            response: test2ParsedData,
-            durationMs: Date.now() - test2Start
-          }
-        });
-      } catch (error) {
-        results.push({
-          id: "appropriate", 
-          testData: appropriateTestData,
-          expected: "Should be APPROVED (201 status)",
-          passed: false,
-          submissionResult: {
-            success: false,
-            status: 0,
-            response: { error: error instanceof Error ? error.message : String(error) },
-            durationMs: Date.now() - test2Start
-          }
-        });
+        prompt = version;
+      } else {
+        prompt = await getActiveModerationPrompt('content_filter');
       }
 
-      const totalDuration = Date.now() - startTime;
-      console.log("MODERATION TEST: Completed both tests");
+      const testCases = await storage.getModerationTestCases();
+      if (testCases.length === 0) {
+        return res.status(400).json({ error: "The test corpus is empty" });
+      }
 
-      // Calculate summary
-      const testsPassed = results.filter(r => r.passed).length;
-      const totalTests = results.length;
-      const allTestsPassed = testsPassed === totalTests;
+      const run = await storage.createModerationTestRun(
+        await runModerationSuite(testCases, prompt, req.user!.username),
+      );
 
-      res.json({
-        startedAt: new Date(startTime).toISOString(),
-        totalDurationMs: totalDuration,
-        serverDelay: 2000,
-        summary: {
-          passed: testsPassed,
-          total: totalTests,
-          allPassed: allTestsPassed,
-          status: allTestsPassed ? "ALL_TESTS_PASSED" : "SOME_TESTS_FAILED"
-        },
-        tests: results
+      await recordAuditEvent(req, {
+        action: 'moderation.test',
+        entityType: 'moderation',
+        entityId: run.id,
+        after: { promptVersion: run.promptVersion, passed: run.passedCount, total: run.caseCount },
       });
 
+      res.json(run);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error running moderation test:", error);
       res.status(500).json({ error: "Failed to run moderation test" });
     }
   });
 
-  // Serve uploaded images
-  app.use('/uploads', express.static('uploads'));
+  app.get("/api/admin/moderation-test-runs", staffOnly, async (req, res) => {
+    try {
+      res.json(await storage.getModerationTestRuns(MODERATION_TEST_RUN_HISTORY));
+    } catch (error) {
+      console.error('Error fetching moderation test runs:', error);
+      res.status(500).json({ error: "Failed to fetch moderation test runs" });
+    }
+  });
+
+  // Remove stored photos no report refers to any more; also runs on a timer, see server/media-gc.ts
+  app.post("/api/admin/media/gc", superadminOnly, async (req, res) => {
+    try {
+      const result = await collectMediaGarbage();
+      await recordAuditEvent(req, { action: 'media.gc', entityType: 'media', after: result });
+      res.json(result);
+    } catch (error) {
+      console.error("Error collecting media garbage:", error);
+      res.status(500).json({ error: "Failed to collect media garbage" });
+    }
+  });
+
+  // Stored photos and clips: with a valid signature (see withSignedMedia), otherwise only the
+  // published variants of public reports. Streamed, with a single Range as 206 partial content so
+  // browsers can seek in clips (Safari only plays video that way).
+  app.get(`${MEDIA_URL_PREFIX}*`, async (req, res) => {
+    try {
+      const key = req.path.slice(MEDIA_URL_PREFIX.length);
+      if (!verifyMediaSignature(key, req.query.expires, req.query.signature)) {
+        const item = await storage.getReportMediaByUrl(req.path);
+        const report = item && await storage.getReport(item.reportId);
+        if (item?.status !== 'approved' || !report?.isPublic) {
+          return res.status(404).json({ error: "Media not found" });
+        }
+      }
+
+      const object = await getObjectStorage().head(key);
+      if (!object) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+      res.type(object.contentType).set('Accept-Ranges', 'bytes');
+
+      // Several ranges at once (multipart responses) and malformed headers get the whole object
+      const ranges = req.headers.range ? req.range(object.size, { combine: true }) : undefined;
+      if (ranges === -1) {
+        return res.status(416).set('Content-Range', `bytes */${object.size}`).end();
+      }
+      const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : undefined;
+      if (range) {
+        res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+      }
+      res.set('Content-Length', String(range ? range.end - range.start + 1 : object.size));
+      await pipeline(await getObjectStorage().stream(key, range), res);
+    } catch (error: any) {
+      // A browser cancels the rest of a clip it no longer needs, e.g. when seeking
+      if (error?.code === 'ERR_STREAM_PREMATURE_CLOSE') {
+        return;
+      }
+      console.error("Error serving media:", error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
 
   const httpServer = createServer(app);
   return httpServer;
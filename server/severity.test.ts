@@ -0,0 +1,69 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sql } from 'drizzle-orm';
+import { categories, categoryKeys } from '@shared/schema';
+import { createLocalDatabase } from './db';
+import { loadMigrations, migrateUp } from './migrations';
+import { DatabaseStorage } from './storage';
+import { seedFixtures } from './fixtures';
+import { computeSeverity, type SeverityInput } from './severity';
+
+const base: SeverityInput = { category: 'theft', subcategory: 'Bike theft', involvementType: 'witness' };
+
+describe('computeSeverity', () => {
+  const cases: [string, SeverityInput, number][] = [
+    ['scores a subcategory by its own weight', base, 3],
+    ['falls back to the category weight without a subcategory', { ...base, subcategory: null }, 3],
+    ['falls back to the category weight for an unknown subcategory', { ...base, category: 'harassment', subcategory: 'Something else' }, 4],
+    ['scores an unknown category as 2', { ...base, category: 'unknown', subcategory: null }, 2],
+    ['scores status reports at the minimum, whatever else is set', { category: 'status', involvementType: 'victim', authoritiesContacted: true, urgency: 1 }, 1],
+    ['raises the score for a victim', { ...base, subcategory: 'Property damage', involvementType: 'victim' }, 3],
+    ['raises the score when authorities were contacted', { ...base, subcategory: 'Littering', authoritiesContacted: true }, 2],
+    ['adds the victim and authorities bonuses up', { ...base, subcategory: 'Strange or unusual behavior', involvementType: 'victim', authoritiesContacted: true }, 3],
+    ['leaves the score alone at a neutral urgency', { ...base, urgency: 0.5 }, 3],
+    ['lowers the score at urgency 0', { ...base, urgency: 0 }, 2],
+    ['raises the score at urgency 1', { ...base, urgency: 1 }, 4],
+    ['clamps to the maximum', { ...base, category: 'harassment', subcategory: 'Physical aggression (fighting, restraining)', involvementType: 'victim', authoritiesContacted: true, urgency: 1 }, 5],
+    ['clamps to the minimum', { ...base, category: 'public', subcategory: 'Littering', urgency: 0 }, 1],
+  ];
+
+  for (const [name, input, expected] of cases) {
+    test(name, () => {
+      assert.equal(computeSeverity(input), expected);
+    });
+  }
+});
+
+// Migration 0015 scored existing reports with a copy of the weights in SQL
+describe('migration 0015 severity backfill', () => {
+  test('scores reports like computeSeverity without an urgency', async () => {
+    const db = createLocalDatabase('memory://');
+    await migrateUp(db);
+    const storage = new DatabaseStorage(db);
+    await seedFixtures(storage);
+    // Every (sub)category, also the ones the fixtures lack, with and without the bonuses
+    for (const category of categoryKeys) {
+      for (const subcategory of [null, ...categories[category].subcategories]) {
+        for (const [involvementType, authoritiesContacted] of [['witness', false], ['victim', true]] as const) {
+          await storage.createReportWithModeration({ title: 'Melding', description: 'Beschrijving', category, subcategory, involvementType, authoritiesContacted });
+        }
+      }
+    }
+
+    const backfill = loadMigrations().find(migration => migration.tag === '0015_report_severity')!.up
+      .filter(statement => statement.includes('UPDATE "reports"'));
+    assert.equal(backfill.length, 2);
+    await db.execute(sql`update "reports" set "computed_severity" = 0, "severity" = 0`);
+    for (const statement of backfill) {
+      await db.execute(sql.raw(statement));
+    }
+
+    const reports = await storage.getAllReports();
+    assert.ok(reports.length > 40);
+    for (const report of reports) {
+      const expected = computeSeverity(report);
+      assert.equal(report.computedSeverity, expected, `${report.category} / ${report.subcategory}`);
+      assert.equal(report.severity, expected);
+    }
+  });
+});
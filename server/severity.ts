@@ -0,0 +1,66 @@
+import { REPORT_SEVERITY_MAX, REPORT_SEVERITY_MIN, type CategoryKey } from '@shared/schema';
+
+// Rule-based severity of a report, scored at submission and after every reporter edit. The
+// (sub)category sets the base, the circumstances and the content filter's urgency move it up or
+// down. Moderators can override the result (POST /api/admin/reports/:id/severity).
+
+const CATEGORY_SEVERITY: Record<CategoryKey, number> = {
+  harassment: 4,
+  suspicious: 2,
+  public: 1.5,
+  theft: 3,
+  dangerous: 4,
+  status: 1,
+};
+
+const SUBCATEGORY_SEVERITY: Record<string, number> = {
+  'Physical aggression (fighting, restraining)': 5,
+  'Unwanted behavior (catcalling, sexual remarks, racism)': 3,
+  'Threats': 4.5,
+  'Dangerous animals (e.g., unleashed dogs)': 3.5,
+  'Strange or unusual behavior': 2,
+  'Suspicious noises': 2,
+  'Littering': 1,
+  'Illegal dumping': 1.5,
+  'Nighttime noise': 1.5,
+  'Dog fouling': 1,
+  'Graffiti': 1,
+  'Vandalism': 2,
+  'Bike theft': 2.5,
+  'Property damage': 2.5,
+  'Porch piracy': 2.5,
+  'Cybercrime': 3,
+  'Pickpocketing': 3,
+  'Other dangerous situations': 4,
+};
+
+// Someone was harmed, rather than seeing it happen
+const VICTIM_BONUS = 0.5;
+// Police or city services were called in
+const AUTHORITIES_BONUS = 0.5;
+// Urgency 0 lowers the score by this much, urgency 1 raises it by as much
+const URGENCY_RANGE = 1;
+
+export interface SeverityInput {
+  category: string;
+  subcategory?: string | null;
+  involvementType: string;
+  authoritiesContacted?: boolean | null;
+  urgency?: number; // 0-1 from the content filter, unset when it gave none
+}
+
+export function computeSeverity(input: SeverityInput): number {
+  // Status reports describe no incident
+  if (input.category === 'status') {
+    return REPORT_SEVERITY_MIN;
+  }
+
+  let score = (input.subcategory ? SUBCATEGORY_SEVERITY[input.subcategory] : undefined)
+    ?? CATEGORY_SEVERITY[input.category as CategoryKey]
+    ?? 2;
+  if (input.involvementType === 'victim') score += VICTIM_BONUS;
+  if (input.authoritiesContacted) score += AUTHORITIES_BONUS;
+  if (input.urgency !== undefined) score += (input.urgency - 0.5) * 2 * URGENCY_RANGE;
+
+  return Math.min(REPORT_SEVERITY_MAX, Math.max(REPORT_SEVERITY_MIN, Math.round(score)));
+}
@@ -0,0 +1,105 @@
+// Static map rendering for server-side documents (city report PDF): picks a zoom level that fits
+// all points, downloads the covering slippy map tiles and projects points onto the image.
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 15;
+const TILE_TIMEOUT_MS = 3000;
+
+// {z}/{x}/{y} tile URL template. Set MAP_TILE_URL to an empty string to render maps without
+// a base layer, e.g. on servers without internet access.
+const TILE_URL = process.env.MAP_TILE_URL ?? 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface StaticMapTile {
+  x: number; // Offset from the top-left of the map
+  y: number;
+  size: number;
+  image: Buffer;
+}
+
+export interface StaticMap {
+  width: number;
+  height: number;
+  zoom: number;
+  tiles: StaticMapTile[]; // Empty when no base layer could be loaded
+  project(point: LatLng): { x: number; y: number };
+}
+
+// Web Mercator world pixel coordinates at a zoom level
+function worldX(lng: number, zoom: number): number {
+  return ((lng + 180) / 360) * TILE_SIZE * 2 ** zoom;
+}
+
+function worldY(lat: number, zoom: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * TILE_SIZE * 2 ** zoom;
+}
+
+async function fetchTile(zoom: number, x: number, y: number): Promise<Buffer | null> {
+  const url = TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y));
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'Safetymap city report (server-side static map)' },
+      signal: AbortSignal.timeout(TILE_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    return Buffer.from(await response.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// points must not be empty
+export async function renderStaticMap(points: LatLng[], width: number, height: number): Promise<StaticMap> {
+  const lats = points.map(p => p.lat);
+  const lngs = points.map(p => p.lng);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lngs);
+  const west = Math.min(...lngs);
+
+  // Highest zoom at which all points fit with some padding
+  let zoom = MAX_ZOOM;
+  while (zoom > 1 && (
+    worldX(east, zoom) - worldX(west, zoom) > width * 0.85 ||
+    worldY(south, zoom) - worldY(north, zoom) > height * 0.85
+  )) {
+    zoom--;
+  }
+
+  const left = (worldX(west, zoom) + worldX(east, zoom)) / 2 - width / 2;
+  const top = (worldY(north, zoom) + worldY(south, zoom)) / 2 - height / 2;
+  const project = (point: LatLng) => ({
+    x: worldX(point.lng, zoom) - left,
+    y: worldY(point.lat, zoom) - top,
+  });
+
+  const tiles: StaticMapTile[] = [];
+  if (TILE_URL) {
+    const tileCount = 2 ** zoom;
+    const requests: Promise<void>[] = [];
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + height) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= tileCount) continue;
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        requests.push(fetchTile(zoom, wrappedX, ty).then(image => {
+          if (image) {
+            tiles.push({ x: tx * TILE_SIZE - left, y: ty * TILE_SIZE - top, size: TILE_SIZE, image });
+          }
+        }));
+      }
+    }
+    await Promise.all(requests);
+    if (tiles.length === 0) {
+      console.warn('Static map: no tiles could be loaded, rendering without base layer');
+    }
+  }
+
+  return { width, height, zoom, tiles, project };
+}
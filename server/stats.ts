@@ -0,0 +1,152 @@
+import type { IStorage } from './storage';
+import type { GeocodingService } from './geocoding';
+import {
+  STATS_DEFAULT_PERIOD_DAYS,
+  type CategoryStats,
+  type IncidentTimeStats,
+  type ReportCategoryStats,
+  type ReportStatsFilter,
+  type ReportStatsSummary,
+  type StatsCount,
+  type StatsMeta,
+  type StatsQuery,
+  type StatsScope,
+} from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Period, previous period and area filters resolved from a StatsQuery
+export interface StatsContext {
+  meta: StatsMeta;
+  current: ReportStatsFilter;
+  previous: ReportStatsFilter;
+}
+
+const ratio = (part: number, total: number) => (total > 0 ? part / total : 0);
+
+function statsCount(current: number, previous: number): StatsCount {
+  return { current, previous, delta: previous > 0 ? (current - previous) / previous : null };
+}
+
+// Returns null when the postcode or municipality is unknown
+export async function resolveStatsContext(
+  query: StatsQuery,
+  geocoding: GeocodingService,
+  regionRadiusKm: number,
+): Promise<StatsContext | null> {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - STATS_DEFAULT_PERIOD_DAYS * DAY_MS);
+  const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()));
+
+  let scope: StatsScope | null = null;
+  let areas: ReportStatsFilter['areas'];
+
+  if (query.postcode || query.municipality) {
+    const postalCodes = query.postcode
+      ? [await geocoding.getPostalCodeInfo(query.postcode)].filter(info => info !== null)
+      : await geocoding.getPostalCodesByMunicipality(query.municipality!);
+    if (postalCodes.length === 0) {
+      return null;
+    }
+
+    scope = {
+      postcode: query.postcode,
+      municipality: postalCodes[0].municipality,
+      postcodes: postalCodes.map(info => info.postalCode),
+    };
+    areas = postalCodes.map(info => ({ lat: info.latitude, lng: info.longitude, radius: regionRadiusKm }));
+  }
+
+  return {
+    meta: {
+      period: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        previousFrom: previousFrom.toISOString(),
+        previousTo: from.toISOString(),
+      },
+      scope,
+    },
+    current: { from, to, areas },
+    previous: { from: previousFrom, to: from, areas },
+  };
+}
+
+export async function getReportStatsSummary(storage: IStorage, context: StatsContext): Promise<ReportStatsSummary> {
+  const [current, previous] = await Promise.all([
+    storage.getReportStatusCounts(context.current),
+    storage.getReportStatusCounts(context.previous),
+  ]);
+
+  return {
+    ...context.meta,
+    reports: statsCount(current.total, previous.total),
+    resolved: statsCount(current.resolved, previous.resolved),
+    rejected: statsCount(current.rejected, previous.rejected),
+    resolutionRate: ratio(current.resolved, current.total),
+    rejectionRate: ratio(current.rejected, current.total),
+    moderationRate: ratio(current.moderated, current.total),
+    highSeverity: statsCount(current.highSeverity, previous.highSeverity),
+    avgSeverity: { current: current.avgSeverity, previous: previous.avgSeverity },
+    avgResponseHours: { current: current.avgResponseHours, previous: previous.avgResponseHours },
+  };
+}
+
+export async function getReportCategoryStats(storage: IStorage, context: StatsContext): Promise<ReportCategoryStats> {
+  const rows = await storage.getReportCategoryCounts(context.current);
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+
+  const byCategory = new Map<string, CategoryStats>();
+  for (const row of rows) {
+    const stats = byCategory.get(row.category) ?? {
+      category: row.category,
+      count: 0,
+      share: 0,
+      rejected: 0,
+      rejectionRate: 0,
+      avgSeverity: 0,
+      subcategories: [],
+    };
+    stats.count += row.count;
+    stats.rejected += row.rejected;
+    stats.avgSeverity += row.severitySum; // Summed here, averaged below
+    if (row.subcategory) {
+      stats.subcategories.push({ subcategory: row.subcategory, count: row.count, share: 0 });
+    }
+    byCategory.set(row.category, stats);
+  }
+
+  const categories = Array.from(byCategory.values()).map(stats => ({
+    ...stats,
+    share: ratio(stats.count, total),
+    rejectionRate: ratio(stats.rejected, stats.count),
+    avgSeverity: ratio(stats.avgSeverity, stats.count),
+    subcategories: stats.subcategories
+      .map(sub => ({ ...sub, share: ratio(sub.count, stats.count) }))
+      .sort((a, b) => b.count - a.count),
+  }));
+
+  return {
+    ...context.meta,
+    total,
+    categories: categories.sort((a, b) => b.count - a.count),
+  };
+}
+
+export async function getIncidentTimeStats(storage: IStorage, context: StatsContext): Promise<IncidentTimeStats> {
+  const rows = await storage.getIncidentTimeCounts(context.current);
+  const byHour = new Array(24).fill(0);
+  const byWeekday = new Array(7).fill(0);
+
+  for (const row of rows) {
+    byHour[row.hour] += row.count;
+    byWeekday[row.weekday - 1] += row.count;
+  }
+
+  return {
+    ...context.meta,
+    total: rows.reduce((sum, row) => sum + row.count, 0),
+    byHour,
+    byWeekday,
+  };
+}
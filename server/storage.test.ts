@@ -0,0 +1,205 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { aiCallLogQuerySchema, encodeReportCursor, reportQuerySchema, reportSortKeys, type AICallParseStatus, type Report } from '@shared/schema';
+import { LocalStorage, type IStorage } from './storage';
+
+// Behaviour every IStorage backend shares. Runs against an in-memory LocalStorage (PGlite), which
+// executes the same queries as DatabaseStorage on Neon.
+
+let sequence = 0;
+
+async function createReport(storage: IStorage, fields: Partial<Report> = {}): Promise<Report> {
+  sequence++;
+  return storage.createReportWithModeration({
+    title: `Melding ${sequence}`,
+    description: `Beschrijving van melding ${sequence}`,
+    category: 'other',
+    involvementType: 'witness',
+    latitude: 51.2194,
+    longitude: 4.4025,
+    moderationStatus: 'approved',
+    isPublic: true,
+    createdAt: new Date(Date.UTC(2025, 0, 1, 0, sequence)),
+    ...fields,
+  });
+}
+
+function describeStorage(name: string, createStorage: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      storage = await createStorage();
+    });
+
+    test('hides reports that are not public from the public lookups', async () => {
+      const visible = await createReport(storage);
+      const hidden = await createReport(storage, { moderationStatus: 'rejected', isPublic: false });
+
+      assert.equal((await storage.getReport(hidden.id))?.id, hidden.id);
+      const publicIds = (await storage.getAllPublicReports()).map(report => report.id);
+      assert.ok(publicIds.includes(visible.id));
+      assert.ok(!publicIds.includes(hidden.id));
+      assert.deepEqual((await storage.getPublicReportsByIds([visible.id, hidden.id])).map(report => report.id), [visible.id]);
+    });
+
+    test('filters public reports on a bounding box in the database', async () => {
+      const ghent = await createReport(storage, { latitude: 51.0543, longitude: 3.7174 });
+      const query = reportQuerySchema.parse({ north: '51.1', south: '51.0', east: '3.8', west: '3.6' });
+      assert.deepEqual((await storage.queryPublicReports(query)).map(report => report.id), [ghent.id]);
+    });
+
+    test('filters reports on any of the given subcategories', async () => {
+      const fight = await createReport(storage, { subcategory: 'Physical aggression (fighting, restraining)' });
+      const dog = await createReport(storage, { subcategory: 'Dangerous animals (e.g., unleashed dogs)' });
+      await createReport(storage, { subcategory: 'Other' });
+      const query = reportQuerySchema.parse({ subcategory: [fight.subcategory, dog.subcategory], limit: '100' });
+      assert.deepEqual((await storage.getPublicReportsPage(query)).reports.map(report => report.id), [dog.id, fight.id]);
+    });
+
+    for (const sort of reportSortKeys) {
+      test(`pages through all reports by ${sort} with cursors, without gaps or repeats`, async () => {
+        const params = { sort, lat: '51.2', lng: '4.4' };
+        const all = await storage.getReportsPage(reportQuerySchema.parse({ ...params, limit: '100' }));
+        const seen: string[] = [];
+        let cursor: string | null | undefined;
+        do {
+          const page = await storage.getReportsPage(reportQuerySchema.parse({ ...params, limit: '2', cursor: cursor ?? undefined }));
+          seen.push(...page.reports.map(report => report.id));
+          cursor = page.nextCursor;
+        } while (cursor);
+        assert.deepEqual(seen, all.reports.map(report => report.id));
+      });
+    }
+
+    test('rejects a cursor whose value does not fit the sort key', () => {
+      const cursor = (value: string) => encodeReportCursor({ value, id: 'x' });
+      assert.equal(reportQuerySchema.safeParse({ cursor: cursor('abc') }).success, false);
+      assert.equal(reportQuerySchema.safeParse({ cursor: cursor('2025-02-30 10:00:00') }).success, false);
+      assert.equal(reportQuerySchema.safeParse({ sort: 'severity', cursor: cursor('2025-01-01 10:00:00') }).success, false);
+      assert.equal(reportQuerySchema.safeParse({ cursor: cursor('2025-01-01 10:00:00.123') }).success, true);
+    });
+
+    test('applies a status transition only from the expected status and records it', async () => {
+      const report = await createReport(storage);
+      const updated = await storage.updateReportStatus(report.id, 'open', { status: 'acknowledged' }, 'moderator');
+      assert.equal(updated?.status, 'acknowledged');
+      assert.equal(await storage.updateReportStatus(report.id, 'open', { status: 'resolved' }, 'moderator'), undefined);
+
+      const history = await storage.getReportStatusHistory(report.id);
+      assert.deepEqual(history.map(entry => [entry.fromStatus, entry.toStatus]), [['open', 'acknowledged']]);
+    });
+
+    test('leaves a moderator decision alone when the moderation job finishes later', async () => {
+      const report = await createReport(storage, { moderationStatus: 'pending', isPublic: false });
+      await storage.reviewReport(report.id, 'pending', { decision: 'reject', reason: 'Spam' }, 'moderator');
+
+      const outcome = await storage.updateReportModeration(report.id, { moderationStatus: 'approved', isPublic: true }, 'pending');
+      assert.equal(outcome, undefined);
+      const stored = await storage.getReport(report.id);
+      assert.equal(stored?.moderationStatus, 'rejected');
+      assert.equal(stored?.isPublic, false);
+    });
+
+    test('replaces report media in the given order', async () => {
+      const report = await createReport(storage);
+      const first = await storage.replaceReportMedia(report.id, [
+        { kind: 'image', contentType: 'image/jpeg', objectKey: 'originals/a.jpg', url: '/media/reports/a.jpg', thumbnailUrl: '/media/thumbnails/a.jpg' },
+      ]);
+      const second = await storage.replaceReportMedia(report.id, [
+        { kind: 'video', contentType: 'video/mp4', objectKey: 'originals/b.mp4', caption: 'Filmpje' },
+        { kind: 'image', contentType: 'image/jpeg', objectKey: 'originals/c.jpg' },
+      ]);
+
+      assert.deepEqual((await storage.getReportMedia(report.id)).map(item => [item.position, item.objectKey]), [
+        [0, 'originals/b.mp4'],
+        [1, 'originals/c.jpg'],
+      ]);
+      assert.equal(await storage.getReportMediaItem(first[0].id), undefined);
+      assert.equal(await storage.getReportMediaByUrl('/media/thumbnails/a.jpg'), undefined);
+      assert.equal(second[0].caption, 'Filmpje');
+    });
+
+    test('keeps one note per key', async () => {
+      await storage.saveNote('test_note', 'eerste');
+      await storage.saveNote('test_note', 'tweede');
+      assert.equal((await storage.getNote('test_note'))?.content, 'tweede');
+    });
+
+    test('refuses a second admin account with the same username', async () => {
+      const before = await storage.countAdminUsers();
+      const user = await storage.createAdminUser({ username: 'test-admin', passwordHash: 'hash', role: 'moderator' });
+      await assert.rejects(storage.createAdminUser({ username: 'test-admin', passwordHash: 'hash', role: 'superadmin' }));
+      assert.equal(await storage.countAdminUsers(), before + 1);
+      assert.ok(await storage.deleteAdminUser(user.id));
+    });
+
+    test('filters AI call logs on parse status apart from success', async () => {
+      const log = (success: boolean, parseStatus: AICallParseStatus) => storage.createAICallLog({
+        type: 'content-filter', provider: 'anthropic', latencyMs: 10, success, parseStatus, input: {}, reportId: 'parse-status-test',
+      });
+      await log(true, 'parsed');
+      const unparseable = await log(false, 'unparseable');
+      const unreachable = await log(false, 'not-parsed');
+
+      const page = (params: Record<string, string>) => storage.getAICallLogsPage(aiCallLogQuerySchema.parse({ reportId: 'parse-status-test', ...params }));
+      assert.deepEqual((await page({ parseStatus: 'unparseable' })).logs.map(entry => entry.id), [unparseable.id]);
+      assert.deepEqual((await page({ success: 'false', parseStatus: 'not-parsed' })).logs.map(entry => entry.id), [unreachable.id]);
+      assert.equal((await page({ success: 'false' })).logs.length, 2);
+    });
+
+    test('claims a due AI job once and keeps it open until it completes', async () => {
+      const report = await createReport(storage);
+      const job = await storage.createAIJob('report-moderation', report.id);
+      assert.ok(await storage.hasOpenAIJob(report.id));
+
+      const claimed = await storage.claimAIJob(new Date(0));
+      assert.equal(claimed?.id, job.id);
+      assert.equal(claimed?.attempts, 1);
+      assert.equal(await storage.claimAIJob(new Date(0)), undefined);
+
+      await storage.completeAIJob(job.id);
+      assert.equal(await storage.hasOpenAIJob(report.id), false);
+    });
+  });
+}
+
+describeStorage('LocalStorage (PGlite)', async () => {
+  const storage = new LocalStorage('memory://');
+  await storage.init({ seed: false });
+  return storage;
+});
+
+describe('LocalStorage fixtures', () => {
+  test('seeds a new database once, not again after all reports are deleted', async () => {
+    const storage = new LocalStorage('memory://');
+    await storage.init();
+    const municipalities = (await storage.getAllMunicipalities()).length;
+    assert.ok((await storage.getAllReports()).length > 0);
+    assert.equal(await storage.countAdminUsers(), 0);
+
+    await storage.deleteAllReports();
+    await storage.init(); // As on the next start of a persisted database
+
+    assert.equal((await storage.getAllReports()).length, 0);
+    assert.equal((await storage.getAllMunicipalities()).length, municipalities);
+  });
+
+  test('keeps its marker out of the notes admins can edit', async () => {
+    const storage = new LocalStorage('memory://');
+    await storage.init();
+    assert.equal(await storage.getNote('local_fixtures_seeded'), undefined);
+  });
+
+  test('takes over the marker note of a database seeded by an earlier version', async () => {
+    const storage = new LocalStorage('memory://');
+    await storage.init({ seed: false });
+    await storage.saveNote('local_fixtures_seeded', '2025-01-01T00:00:00.000Z');
+    await storage.init();
+
+    assert.equal((await storage.getAllReports()).length, 0);
+    assert.equal(await storage.getNote('local_fixtures_seeded'), undefined);
+    await storage.init();
+    assert.equal((await storage.getAllReports()).length, 0);
+  });
+});
@@ -4,6 +4,19 @@ import {
   scrapingConfig,
   municipalities,
   notes,
+  reportStatusHistory,
+  reportEditTokens,
+  adminUsers,
+  auditEvents,
+  moderationPrompts,
+  moderationTestCases,
+  moderationTestRuns,
+  reportAppeals,
+  aiCallLogs,
+  reportTranslations,
+  aiJobs,
+  aiJobStatuses,
+  reportMedia,
   type Report, 
   type InsertReport,
   type ScrapedReport,
@@ -13,26 +26,149 @@ import {
   type Municipality,
   type InsertMunicipality,
   type Note,
-  type InsertNote
+  type InsertNote,
+  type ReportQuery,
+  type ReportPage,
+  type ReportStatusTransition,
+  type ModerationQueueStatus,
+  type ModerationStatus,
+  type ModerationQueueView,
+  type ModerationQueueItem,
+  type ModerationReview,
+  type ReportAppeal,
+  type ReportAppealStatus,
+  type ReportStatusHistoryEntry,
+  type ReportStatsFilter,
+  type AdminUser,
+  type AuditEvent,
+  type AuditEventPage,
+  type AuditEventQuery,
+  type InsertAuditEvent,
+  type ModerationPrompt,
+  type ModerationPromptKind,
+  type ModerationTestCase,
+  type InsertModerationTestCase,
+  type ModerationTestRun,
+  type NewModerationTestRun,
+  type AICallLog,
+  type AICallLogPage,
+  type AICallLogQuery,
+  type AICallType,
+  type NewAICallLog,
+  type ReportTranslation,
+  type NewReportTranslation,
+  type AIJob,
+  type AIJobStatus,
+  type AIJobType,
+  type ReportMedia,
+  type NewReportMedia,
+  encodeReportCursor,
+  AI_CALL_LOG_PAGE_SIZE_DEFAULT,
+  AUDIT_PAGE_SIZE_DEFAULT,
+  REPORT_PAGE_SIZE_DEFAULT,
+  REPORT_SEVERITY_HIGH
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { createNeonDatabase, createLocalDatabase, storageBackend, DEFAULT_LOCAL_DB_PATH, type Database } from "./db";
+import { assertSchemaMigrated, migrateUp } from "./migrations";
+import { seedFixtures } from "./fixtures";
+import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { eq, and, or, not, asc, desc, gte, lt, lte, like, inArray, isNull, isNotNull, getTableColumns, sql, type SQL } from "drizzle-orm";
 import { promises as fs } from 'fs';
 import * as path from 'path';
 
+// Raw aggregates behind the admin statistics, see server/stats.ts
+export interface ReportStatusCounts {
+  total: number;
+  resolved: number;
+  rejected: number;
+  moderated: number;
+  highSeverity: number; // Severity 4 or 5
+  avgSeverity: number | null;
+  avgResponseHours: number | null;
+}
+
+export interface ReportCategoryCount {
+  category: string;
+  subcategory: string | null;
+  count: number;
+  rejected: number;
+  severitySum: number;
+}
+
+export interface IncidentTimeCount {
+  hour: number; // 0-23
+  weekday: number; // ISO, 1 = Monday
+  count: number;
+}
+
+// Raw aggregates behind the AI call statistics, see server/ai-call-log.ts
+export interface AICallDailyCounts {
+  day: string; // yyyy-mm-dd, UTC
+  model: string | null;
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalLatencyMs: number;
+}
+
+// Admin account as stored, the password is hashed by the caller (server/passwords.ts)
+export type NewAdminUser = typeof adminUsers.$inferInsert;
+// Media item as uploaded, positioned by its place in the list given to replaceReportMedia
+export type NewReportMediaItem = Omit<NewReportMedia, 'reportId' | 'position'>;
+export type NewModerationPromptVersion = Pick<ModerationPrompt, 'kind' | 'content' | 'author'> & { restoredFromVersion?: number | null };
+
 export interface IStorage {
   getReport(id: string): Promise<Report | undefined>;
   getAllReports(): Promise<Report[]>; // Admin: All reports including rejected
   getAllPublicReports(): Promise<Report[]>; // Public: Only approved reports
   getReportsByCategory(category: string): Promise<Report[]>; // Admin: All reports by category
   getPublicReportsByCategory(category: string): Promise<Report[]>; // Public: Only approved reports by category
+  getPublicReportsByIds(ids: string[]): Promise<Report[]>; // Public: Unknown or hidden ids are left out
+  queryPublicReports(query: ReportQuery): Promise<Report[]>; // Public: Bounding box, radius and time window filters evaluated in the database
+  getPublicReportsPage(query: ReportQuery): Promise<ReportPage>; // Public: Cursor-paginated version of queryPublicReports
+  getReportsPage(query: ReportQuery): Promise<ReportPage>; // Admin: Cursor-paginated, including rejected
   createReport(report: InsertReport): Promise<Report>;
   createReportWithModeration(report: any): Promise<Report>; // For AI moderated reports
   deleteReport(id: string): Promise<boolean>;
   deleteAllReports(): Promise<boolean>; // Add admin function
+  updateReportStatus(id: string, fromStatus: string, transition: ReportStatusTransition, changedBy: string): Promise<Report | undefined>; // Undefined when the report is no longer in fromStatus
+  getReportStatusHistory(reportId: string): Promise<ReportStatusHistoryEntry[]>; // Oldest first
+  updateReportSeverity(id: string, severity: number | null, overriddenBy: string): Promise<Report | undefined>; // null restores computedSeverity
+  updateReportContent(id: string, content: Partial<Report>): Promise<Report | undefined>; // Reporter edit, sets editedAt
+  updateReportModeration(id: string, fields: Partial<Report>, fromStatus?: ModerationStatus): Promise<Report | undefined>; // Outcome of the moderation job; undefined when the report is no longer in fromStatus
+  saveReportEditToken(reportId: string, tokenHash: string): Promise<void>;
+  getReportEditTokenHash(reportId: string): Promise<string | undefined>;
+  getModerationQueue(view: ModerationQueueView): Promise<ModerationQueueItem[]>; // Oldest first
+  reviewReport(id: string, fromStatus: ModerationQueueStatus, review: Omit<ModerationReview, 'ids'>, reviewedBy: string): Promise<Report | undefined>; // Undefined when the report is no longer in fromStatus
+  createReportAppeal(reportId: string, explanation: string): Promise<ReportAppeal | undefined>; // Undefined when the report was already appealed
+  getReportAppeal(reportId: string): Promise<ReportAppeal | undefined>;
+  decideReportAppeal(reportId: string, status: Exclude<ReportAppealStatus, 'pending'>, decidedBy: string): Promise<ReportAppeal | undefined>; // Undefined when there is no pending appeal
+  findDuplicateCandidates(category: string, lat: number, lng: number, radiusKm: number, since: Date, before: Date): Promise<Report[]>; // Not rejected, newest first
+  getReportMedia(reportId: string): Promise<ReportMedia[]>; // In carousel order
+  getReportMediaForReports(reportIds: string[]): Promise<ReportMedia[]>; // In carousel order per report
+  getReportMediaItem(id: string): Promise<ReportMedia | undefined>;
+  getReportMediaByUrl(url: string): Promise<ReportMedia | undefined>; // The item whose url or thumbnailUrl it is
+  getReportMediaByUrlPrefix(prefix: string): Promise<ReportMedia[]>; // Items whose url or thumbnailUrl starts with it
+  replaceReportMedia(reportId: string, items: NewReportMediaItem[]): Promise<ReportMedia[]>; // Removes the report's earlier items
+  updateReportMedia(id: string, fields: Partial<ReportMedia>): Promise<ReportMedia | undefined>; // Undefined when the item was removed meanwhile
+  getReportMediaReferences(): Promise<Pick<ReportMedia, 'objectKey' | 'url' | 'thumbnailUrl'>[]>; // Every stored item, see server/media-gc.ts
+  getReportClusterMembers(canonicalId: string): Promise<Report[]>; // The canonical report and its duplicates, oldest first
+  getClusteredReports(): Promise<Report[]>; // Every report in a cluster of two or more, oldest first
+  mergeReportClusters(canonicalId: string, clusterIds: string[]): Promise<number>; // Moves the clusters of clusterIds under canonicalId, returns the number of reports moved
+  splitReportFromCluster(id: string): Promise<void>; // A canonical report hands its cluster to its oldest duplicate
+  getReportTranslations(reportIds: string[], language: string): Promise<ReportTranslation[]>;
+  saveReportTranslation(translation: NewReportTranslation): Promise<ReportTranslation>; // Replaces the report's earlier translation into that language
+
+  // Statistics methods (admin, including rejected reports)
+  getReportStatusCounts(filter: ReportStatsFilter): Promise<ReportStatusCounts>;
+  getReportCategoryCounts(filter: ReportStatsFilter): Promise<ReportCategoryCount[]>;
+  getIncidentTimeCounts(filter: ReportStatsFilter): Promise<IncidentTimeCount[]>;
+  getPublicReportsForStats(filter: ReportStatsFilter): Promise<Report[]>; // Oldest first, for exports
   
   // Scraped Reports methods
   getAllScrapedReports(): Promise<ScrapedReport[]>;
+  getScrapedReport(id: string): Promise<ScrapedReport | undefined>;
   getScrapedReportsByStatus(status: string): Promise<ScrapedReport[]>;
   createScrapedReport(report: InsertScrapedReport): Promise<ScrapedReport>;
   updateScrapedReportStatus(id: string, status: string, approvedBy?: string): Promise<boolean>;
@@ -40,12 +176,14 @@ export interface IStorage {
   
   // Scraping Configuration methods
   getScrapingConfigs(): Promise<ScrapingConfig[]>;
+  getScrapingConfig(id: string): Promise<ScrapingConfig | undefined>;
   createScrapingConfig(config: InsertScrapingConfig): Promise<ScrapingConfig>;
   updateScrapingConfig(id: string, config: Partial<ScrapingConfig>): Promise<boolean>;
   deleteScrapingConfig(id: string): Promise<boolean>;
   
   // Municipality methods
   getAllMunicipalities(): Promise<Municipality[]>;
+  getMunicipality(id: string): Promise<Municipality | undefined>;
   getMunicipalityByPostcode(postcode: string): Promise<Municipality | undefined>;
   createMunicipality(municipality: InsertMunicipality): Promise<Municipality>;
   updateMunicipality(id: string, municipality: Partial<Municipality>): Promise<boolean>;
@@ -54,42 +192,246 @@ export interface IStorage {
   // Notes methods
   getNote(key: string): Promise<Note | undefined>;
   saveNote(key: string, content: string): Promise<Note>;
+
+  // Admin user methods
+  getAdminUser(id: string): Promise<AdminUser | undefined>;
+  getAdminUserByUsername(username: string): Promise<AdminUser | undefined>;
+  getAllAdminUsers(): Promise<AdminUser[]>;
+  countAdminUsers(): Promise<number>;
+  createAdminUser(user: NewAdminUser): Promise<AdminUser>;
+  updateAdminUser(id: string, user: Partial<NewAdminUser>): Promise<AdminUser | undefined>;
+  deleteAdminUser(id: string): Promise<boolean>;
+
+  // Audit log methods (append-only)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEventsPage(query: AuditEventQuery): Promise<AuditEventPage>; // Newest first
+
+  // Moderation prompt methods (versioned, the highest version is active)
+  getActiveModerationPrompt(kind: ModerationPromptKind): Promise<ModerationPrompt | undefined>;
+  getModerationPromptVersions(kind: ModerationPromptKind): Promise<ModerationPrompt[]>; // Newest first
+  getModerationPromptVersion(kind: ModerationPromptKind, version: number): Promise<ModerationPrompt | undefined>;
+  createModerationPromptVersion(prompt: NewModerationPromptVersion): Promise<ModerationPrompt>; // Gets the next version number
+
+  // Moderation regression suite methods
+  getModerationTestCases(): Promise<ModerationTestCase[]>; // Oldest first
+  getModerationTestCase(id: string): Promise<ModerationTestCase | undefined>;
+  createModerationTestCase(testCase: InsertModerationTestCase, createdBy: string): Promise<ModerationTestCase>;
+  updateModerationTestCase(id: string, testCase: Partial<InsertModerationTestCase>): Promise<ModerationTestCase | undefined>;
+  deleteModerationTestCase(id: string): Promise<boolean>;
+  createModerationTestRun(run: NewModerationTestRun): Promise<ModerationTestRun>;
+  getModerationTestRuns(limit: number): Promise<ModerationTestRun[]>; // Newest first
+  getModerationTestRun(id: string): Promise<ModerationTestRun | undefined>;
+
+  // AI call log methods (append-only, written by server/ai-call-log.ts)
+  createAICallLog(log: NewAICallLog): Promise<AICallLog>;
+  getAICallLogsPage(query: AICallLogQuery): Promise<AICallLogPage>; // Newest first
+  getAICallDailyCounts(since: Date, type?: AICallType): Promise<AICallDailyCounts[]>; // Per day and model
+  getAICallLatencyPercentile(since: Date, percentile: number, type?: AICallType): Promise<number | null>;
+
+  // AI job queue, see server/ai-jobs.ts
+  createAIJob(type: AIJobType, reportId: string): Promise<AIJob>;
+  claimAIJob(staleBefore: Date): Promise<AIJob | undefined>; // Next due job, or a running one locked before staleBefore; counts the attempt
+  completeAIJob(id: string): Promise<void>;
+  failAIJob(id: string, error: string, retryAt: Date | null): Promise<void>; // null: no attempts left, the job is dead
+  getAIJob(id: string): Promise<AIJob | undefined>;
+  retryAIJob(id: string): Promise<AIJob | undefined>; // Requeues a dead job with fresh attempts, undefined when it is not dead
+  hasOpenAIJob(reportId: string): Promise<boolean>; // Queued or running
+  getAIJobs(status: AIJobStatus, limit: number): Promise<AIJob[]>; // Newest first
+  getAIJobCounts(): Promise<Record<AIJobStatus, number>>;
+}
+
+// Enough to find the best match among recent reports nearby, see server/duplicate-detection.ts
+const DUPLICATE_CANDIDATE_LIMIT = 50;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+// Haversine distance in kilometers between a report and the given point
+function distanceKm(lat: number, lng: number): SQL {
+  return sql`${EARTH_RADIUS_KM}::float8 * 2 * asin(sqrt(
+    power(sin(radians(${reports.latitude} - ${lat}::float8) / 2), 2) +
+    cos(radians(${lat}::float8)) * cos(radians(${reports.latitude})) *
+    power(sin(radians(${reports.longitude} - ${lng}::float8) / 2), 2)
+  ))`;
+}
+
+interface ReportSort {
+  expression: SQL;
+  direction: 'asc' | 'desc';
+  type: 'timestamp' | 'float8' | 'int4'; // Postgres type to cast cursor values back to
+}
+
+// Ordering for a sort key. Ties are broken on id so cursors are stable.
+function reportSort(query: ReportQuery): ReportSort {
+  if (query.sort === 'distance' && query.lat !== undefined && query.lng !== undefined) {
+    return { expression: distanceKm(query.lat, query.lng), direction: 'asc', type: 'float8' };
+  }
+  if (query.sort === 'severity') {
+    return { expression: sql`${reports.severity}`, direction: 'desc', type: 'int4' };
+  }
+  if (query.sort === 'incidentDateTime') {
+    return { expression: sql`coalesce(${reports.incidentDateTime}, ${reports.createdAt})`, direction: 'desc', type: 'timestamp' };
+  }
+  return { expression: sql`${reports.createdAt}`, direction: 'desc', type: 'timestamp' };
+}
+
+function reportOrderBy({ expression, direction }: ReportSort): SQL[] {
+  return direction === 'desc'
+    ? [desc(expression), desc(reports.id)]
+    : [asc(expression), asc(reports.id)];
+}
+
+// Translate a ReportQuery into SQL conditions. Bounding boxes use the GiST index on
+// point(longitude, latitude); radius searches pre-filter on the enclosing box before
+// applying the exact haversine distance.
+function reportQueryConditions(query: ReportQuery): SQL[] {
+  const conditions: SQL[] = [];
+  const location = sql`point(${reports.longitude}, ${reports.latitude})`;
+
+  if (query.category && query.category !== 'all') {
+    conditions.push(eq(reports.category, query.category));
+  }
+
+  if (query.subcategory?.length) {
+    conditions.push(inArray(reports.subcategory, query.subcategory));
+  }
+
+  if (query.minSeverity !== undefined) {
+    conditions.push(gte(reports.severity, query.minSeverity));
+  }
+
+  if (query.mediaStatus) {
+    conditions.push(sql`exists (select 1 from ${reportMedia} where ${reportMedia.reportId} = ${reports.id} and ${reportMedia.status} = ${query.mediaStatus})`);
+  }
+
+  if (query.north !== undefined && query.south !== undefined && query.east !== undefined && query.west !== undefined) {
+    conditions.push(sql`${location} <@ box(point(${query.west}::float8, ${query.south}::float8), point(${query.east}::float8, ${query.north}::float8))`);
+  }
+
+  if (query.lat !== undefined && query.lng !== undefined && query.radius !== undefined) {
+    const latDelta = query.radius / KM_PER_DEGREE_LAT;
+    const lngDelta = query.radius / (KM_PER_DEGREE_LAT * Math.max(Math.cos(query.lat * Math.PI / 180), 0.01));
+    conditions.push(sql`${location} <@ box(point(${query.lng - lngDelta}::float8, ${query.lat - latDelta}::float8), point(${query.lng + lngDelta}::float8, ${query.lat + latDelta}::float8))`);
+    conditions.push(sql`${distanceKm(query.lat, query.lng)} <= ${query.radius}::float8`);
+  }
+
+  if (query.sort === 'distance') {
+    conditions.push(isNotNull(reports.latitude), isNotNull(reports.longitude));
+  }
+
+  const timeColumn = query.timeField === 'incidentDateTime' ? reports.incidentDateTime : reports.createdAt;
+  if (query.from) {
+    conditions.push(gte(timeColumn, query.from));
+  }
+  if (query.to) {
+    conditions.push(lte(timeColumn, query.to));
+  }
+
+  return conditions;
+}
+
+// Period on createdAt, optionally restricted to reports inside any of the areas
+function reportStatsConditions(filter: ReportStatsFilter): SQL[] {
+  const conditions = [gte(reports.createdAt, filter.from), lt(reports.createdAt, filter.to)];
+  if (filter.areas) {
+    const inAreas = filter.areas.map(area => and(...reportQueryConditions(area)));
+    conditions.push(or(...inAreas) ?? sql`false`);
+  }
+  return conditions;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(protected readonly db: Database = createNeonDatabase()) {}
+
+  // Refuses to start against a database with pending migrations
+  async init(): Promise<void> {
+    await assertSchemaMigrated(this.db);
+  }
+
   async getReport(id: string): Promise<Report | undefined> {
-    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    const [report] = await this.db.select().from(reports).where(eq(reports.id, id));
     return report || undefined;
   }
 
   async getAllReports(): Promise<Report[]> {
     // Admin: Get ALL reports including rejected ones
     console.log("DEBUG - getAllReports called");
-    const result = await db.select().from(reports);
+    const result = await this.db.select().from(reports);
     console.log("DEBUG - getAllReports result:", result.length, "reports found");
     return result;
   }
 
   async getAllPublicReports(): Promise<Report[]> {
     // Public: Only get approved reports that are marked as public
-    return await db.select().from(reports)
+    return await this.db.select().from(reports)
       .where(eq(reports.isPublic, true));
   }
 
   async getReportsByCategory(category: string): Promise<Report[]> {
     // Admin: All reports by category including rejected
-    return await db.select().from(reports)
+    return await this.db.select().from(reports)
       .where(eq(reports.category, category));
   }
 
   async getPublicReportsByCategory(category: string): Promise<Report[]> {
     // Public: Only approved reports by category
-    return await db.select().from(reports)
+    return await this.db.select().from(reports)
       .where(and(eq(reports.category, category), eq(reports.isPublic, true)));
   }
 
+  async getPublicReportsByIds(ids: string[]): Promise<Report[]> {
+    if (ids.length === 0) return [];
+    return await this.db.select().from(reports)
+      .where(and(inArray(reports.id, ids), eq(reports.isPublic, true)));
+  }
+
+  async queryPublicReports(query: ReportQuery): Promise<Report[]> {
+    return await this.db.select().from(reports)
+      .where(and(eq(reports.isPublic, true), ...reportQueryConditions(query)))
+      .orderBy(...reportOrderBy(reportSort(query)));
+  }
+
+  async getPublicReportsPage(query: ReportQuery): Promise<ReportPage> {
+    return this.getReportsPageWhere(query, [eq(reports.isPublic, true)]);
+  }
+
+  async getReportsPage(query: ReportQuery): Promise<ReportPage> {
+    // Admin: paginate over ALL reports including rejected ones
+    return this.getReportsPageWhere(query, []);
+  }
+
+  // Keyset pagination on (sort key, id); one extra row is fetched to detect a next page
+  protected async getReportsPageWhere(query: ReportQuery, baseConditions: SQL[]): Promise<ReportPage> {
+    const limit = query.limit ?? REPORT_PAGE_SIZE_DEFAULT;
+    const sort = reportSort(query);
+    const conditions = [...baseConditions, ...reportQueryConditions(query)];
+
+    if (query.cursor) {
+      const cursorValue = sql`${query.cursor.value}::${sql.raw(sort.type)}`;
+      conditions.push(sort.direction === 'desc'
+        ? sql`(${sort.expression}, ${reports.id}) < (${cursorValue}, ${query.cursor.id})`
+        : sql`(${sort.expression}, ${reports.id}) > (${cursorValue}, ${query.cursor.id})`);
+    }
+
+    const rows = await this.db
+      .select({ report: reports, sortValue: sql<string>`(${sort.expression})::text` })
+      .from(reports)
+      .where(and(...conditions))
+      .orderBy(...reportOrderBy(sort))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      reports: page.map(row => row.report),
+      nextCursor: rows.length > limit && last
+        ? encodeReportCursor({ value: last.sortValue, id: last.report.id })
+        : null,
+    };
+  }
+
   async createReport(insertReport: InsertReport): Promise<Report> {
-    const [report] = await db
+    const [report] = await this.db
       .insert(reports)
       .values({
         ...insertReport,
@@ -100,7 +442,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createReportWithModeration(reportData: any): Promise<Report> {
-    const [report] = await db
+    const [report] = await this.db
       .insert(reports)
       .values({
         ...reportData,
@@ -111,13 +453,231 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteReport(id: string): Promise<boolean> {
-    const result = await db.delete(reports).where(eq(reports.id, id));
-    return (result.rowCount || 0) > 0;
+    const deleted = await this.db.delete(reports).where(eq(reports.id, id))
+      .returning({ id: reports.id });
+    return deleted.length > 0;
+  }
+
+  async updateReportModeration(id: string, fields: Partial<Report>, fromStatus?: ModerationStatus): Promise<Report | undefined> {
+    // With fromStatus, a moderator's decision made while the job ran is not overwritten
+    const [report] = await this.db.update(reports).set(fields)
+      .where(and(eq(reports.id, id), fromStatus ? eq(reports.moderationStatus, fromStatus) : undefined))
+      .returning();
+    return report || undefined;
+  }
+
+  async updateReportContent(id: string, content: Partial<Report>): Promise<Report | undefined> {
+    const [report] = await this.db
+      .update(reports)
+      .set({ ...content, editedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return report || undefined;
+  }
+
+  async saveReportEditToken(reportId: string, tokenHash: string): Promise<void> {
+    await this.db.insert(reportEditTokens).values({ reportId, tokenHash });
+  }
+
+  async getReportEditTokenHash(reportId: string): Promise<string | undefined> {
+    const [row] = await this.db
+      .select({ tokenHash: reportEditTokens.tokenHash })
+      .from(reportEditTokens)
+      .where(eq(reportEditTokens.reportId, reportId));
+    return row?.tokenHash;
+  }
+
+  async getModerationQueue(view: ModerationQueueView): Promise<ModerationQueueItem[]> {
+    const openAppeal = and(eq(reportAppeals.reportId, reports.id), eq(reportAppeals.status, 'pending'));
+    const condition = view === 'appealed' ? isNotNull(reportAppeals.id)
+      : view === 'rejected' ? and(eq(reports.moderationStatus, 'rejected'), isNull(reportAppeals.id))
+      : eq(reports.moderationStatus, view);
+    // Appealed reports are oldest appeal first, the others oldest report first
+    // Reports whose moderation job has not finished are still being checked
+    const beingChecked = sql`exists (select 1 from ${aiJobs} where ${aiJobs.reportId} = ${reports.id} and ${aiJobs.status} in ('queued', 'running'))`;
+    return await this.db.select({ ...getTableColumns(reports), appeal: reportAppeals })
+      .from(reports)
+      .leftJoin(reportAppeals, openAppeal)
+      .where(and(condition, not(beingChecked)))
+      .orderBy(view === 'appealed' ? asc(reportAppeals.createdAt) : asc(reports.createdAt), asc(reports.id));
+  }
+
+  async reviewReport(id: string, fromStatus: ModerationQueueStatus, review: Omit<ModerationReview, 'ids'>, reviewedBy: string): Promise<Report | undefined> {
+    const approved = review.decision === 'approve';
+    // Conditional on the moderation status so a report reviewed by two moderators at once is only updated once
+    const [updated] = await this.db.update(reports)
+      .set({
+        moderationStatus: approved ? 'approved' : 'rejected',
+        isPublic: approved,
+        ...(approved ? {} : { moderationReason: review.reason }),
+        ...(review.title !== undefined && { title: review.title }),
+        ...(review.description !== undefined && { description: review.description }),
+        reviewedBy,
+        reviewedAt: new Date(),
+      })
+      .where(and(eq(reports.id, id), eq(reports.moderationStatus, fromStatus)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async createReportAppeal(reportId: string, explanation: string): Promise<ReportAppeal | undefined> {
+    const [appeal] = await this.db.insert(reportAppeals)
+      .values({ reportId, explanation })
+      .onConflictDoNothing({ target: reportAppeals.reportId })
+      .returning();
+    return appeal;
+  }
+
+  async getReportAppeal(reportId: string): Promise<ReportAppeal | undefined> {
+    const [appeal] = await this.db.select().from(reportAppeals).where(eq(reportAppeals.reportId, reportId));
+    return appeal;
+  }
+
+  async decideReportAppeal(reportId: string, status: Exclude<ReportAppealStatus, 'pending'>, decidedBy: string): Promise<ReportAppeal | undefined> {
+    const [appeal] = await this.db.update(reportAppeals)
+      .set({ status, decidedBy, decidedAt: new Date() })
+      .where(and(eq(reportAppeals.reportId, reportId), eq(reportAppeals.status, 'pending')))
+      .returning();
+    return appeal;
+  }
+
+  async getReportMedia(reportId: string): Promise<ReportMedia[]> {
+    return await this.db.select().from(reportMedia)
+      .where(eq(reportMedia.reportId, reportId))
+      .orderBy(asc(reportMedia.position));
+  }
+
+  async getReportMediaForReports(reportIds: string[]): Promise<ReportMedia[]> {
+    if (reportIds.length === 0) return [];
+    return await this.db.select().from(reportMedia)
+      .where(inArray(reportMedia.reportId, reportIds))
+      .orderBy(asc(reportMedia.reportId), asc(reportMedia.position));
+  }
+
+  async getReportMediaItem(id: string): Promise<ReportMedia | undefined> {
+    const [item] = await this.db.select().from(reportMedia).where(eq(reportMedia.id, id));
+    return item || undefined;
+  }
+
+  async getReportMediaByUrl(url: string): Promise<ReportMedia | undefined> {
+    const [item] = await this.db.select().from(reportMedia)
+      .where(or(eq(reportMedia.url, url), eq(reportMedia.thumbnailUrl, url)))
+      .limit(1);
+    return item || undefined;
+  }
+
+  async getReportMediaByUrlPrefix(prefix: string): Promise<ReportMedia[]> {
+    return await this.db.select().from(reportMedia)
+      .where(or(like(reportMedia.url, `${prefix}%`), like(reportMedia.thumbnailUrl, `${prefix}%`)));
+  }
+
+  async replaceReportMedia(reportId: string, items: NewReportMediaItem[]): Promise<ReportMedia[]> {
+    // Inserted before the old items are removed, so a failure in between loses nothing
+    const inserted = items.length === 0 ? [] : await this.db.insert(reportMedia)
+      .values(items.map((item, position) => ({ ...item, reportId, position })))
+      .returning();
+    const keep = inserted.map(item => item.id);
+    await this.db.delete(reportMedia).where(and(
+      eq(reportMedia.reportId, reportId),
+      keep.length > 0 ? not(inArray(reportMedia.id, keep)) : undefined,
+    ));
+    return inserted;
+  }
+
+  async updateReportMedia(id: string, fields: Partial<ReportMedia>): Promise<ReportMedia | undefined> {
+    const [item] = await this.db.update(reportMedia).set(fields).where(eq(reportMedia.id, id)).returning();
+    return item || undefined;
+  }
+
+  async getReportMediaReferences(): Promise<Pick<ReportMedia, 'objectKey' | 'url' | 'thumbnailUrl'>[]> {
+    return await this.db.select({ objectKey: reportMedia.objectKey, url: reportMedia.url, thumbnailUrl: reportMedia.thumbnailUrl })
+      .from(reportMedia);
+  }
+
+  async findDuplicateCandidates(category: string, lat: number, lng: number, radiusKm: number, since: Date, before: Date): Promise<Report[]> {
+    return await this.db.select().from(reports)
+      .where(and(
+        ...reportQueryConditions({ category, lat, lng, radius: radiusKm, from: since }),
+        lt(reports.createdAt, before),
+        or(isNull(reports.moderationStatus), sql`${reports.moderationStatus} <> 'rejected'`),
+      ))
+      .orderBy(desc(reports.createdAt))
+      .limit(DUPLICATE_CANDIDATE_LIMIT);
+  }
+
+  async getReportClusterMembers(canonicalId: string): Promise<Report[]> {
+    return await this.db.select().from(reports)
+      .where(or(eq(reports.id, canonicalId), eq(reports.duplicateOf, canonicalId)))
+      .orderBy(asc(reports.createdAt), asc(reports.id));
+  }
+
+  async getClusteredReports(): Promise<Report[]> {
+    return await this.db.select().from(reports)
+      .where(or(
+        isNotNull(reports.duplicateOf),
+        sql`${reports.id} in (select ${reports.duplicateOf} from ${reports} where ${reports.duplicateOf} is not null)`,
+      ))
+      .orderBy(asc(reports.createdAt), asc(reports.id));
+  }
+
+  async mergeReportClusters(canonicalId: string, clusterIds: string[]): Promise<number> {
+    if (clusterIds.length === 0) return 0;
+    // One statement, so the clusters move over together
+    const moved = await this.db.update(reports)
+      .set({ duplicateOf: canonicalId })
+      .where(and(
+        or(inArray(reports.id, clusterIds), inArray(reports.duplicateOf, clusterIds)),
+        sql`${reports.id} <> ${canonicalId}`,
+      ))
+      .returning({ id: reports.id });
+    return moved.length;
+  }
+
+  async splitReportFromCluster(id: string): Promise<void> {
+    const [report] = await this.db.select().from(reports).where(eq(reports.id, id));
+    if (!report) return;
+    if (report.duplicateOf) {
+      await this.db.update(reports).set({ duplicateOf: null }).where(eq(reports.id, id));
+      return;
+    }
+
+    const [successor] = await this.db.select({ id: reports.id }).from(reports)
+      .where(eq(reports.duplicateOf, id))
+      .orderBy(asc(reports.createdAt), asc(reports.id))
+      .limit(1);
+    if (successor) {
+      // The oldest duplicate becomes canonical, the others point to it
+      await this.db.update(reports)
+        .set({ duplicateOf: sql`case when ${reports.id} = ${successor.id} then null else ${successor.id} end` })
+        .where(eq(reports.duplicateOf, id));
+    }
+  }
+
+  async getReportTranslations(reportIds: string[], language: string): Promise<ReportTranslation[]> {
+    if (reportIds.length === 0) return [];
+    return await this.db.select().from(reportTranslations)
+      .where(and(inArray(reportTranslations.reportId, reportIds), eq(reportTranslations.language, language)));
+  }
+
+  async saveReportTranslation(translation: NewReportTranslation): Promise<ReportTranslation> {
+    const [saved] = await this.db.insert(reportTranslations)
+      .values(translation)
+      .onConflictDoUpdate({
+        target: [reportTranslations.reportId, reportTranslations.language],
+        set: {
+          sourceHash: translation.sourceHash,
+          title: translation.title,
+          description: translation.description,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
   }
 
   async deleteAllReports(): Promise<boolean> {
     try {
-      await db.delete(reports);
+      await this.db.delete(reports);
       console.log("All reports deleted from database");
       return true;
     } catch (error) {
@@ -127,19 +687,102 @@ export class DatabaseStorage implements IStorage {
   }
 
 
+  async updateReportStatus(id: string, fromStatus: string, transition: ReportStatusTransition, changedBy: string): Promise<Report | undefined> {
+    // Conditional on the current status so two concurrent transitions cannot both apply
+    const [updated] = await this.db.update(reports)
+      .set({ status: transition.status, statusUpdatedAt: new Date() })
+      .where(and(eq(reports.id, id), eq(reports.status, fromStatus)))
+      .returning();
+    if (!updated) {
+      return undefined;
+    }
+
+    await this.db.insert(reportStatusHistory).values({
+      reportId: id,
+      fromStatus,
+      toStatus: transition.status,
+      changedBy,
+      note: transition.note || null,
+    });
+    return updated;
+  }
+
+  async updateReportSeverity(id: string, severity: number | null, overriddenBy: string): Promise<Report | undefined> {
+    const [updated] = await this.db.update(reports)
+      .set(severity === null
+        ? { severity: sql`${reports.computedSeverity}`, severityOverriddenBy: null }
+        : { severity, severityOverriddenBy: overriddenBy })
+      .where(eq(reports.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getReportStatusHistory(reportId: string): Promise<ReportStatusHistoryEntry[]> {
+    return await this.db.select().from(reportStatusHistory)
+      .where(eq(reportStatusHistory.reportId, reportId))
+      .orderBy(asc(reportStatusHistory.createdAt));
+  }
+
+  async getReportStatusCounts(filter: ReportStatsFilter): Promise<ReportStatusCounts> {
+    // Response time: hours between submission and the first lifecycle change
+    const firstStatusChange = sql`(select min(${reportStatusHistory.createdAt}) from ${reportStatusHistory} where ${reportStatusHistory.reportId} = ${reports.id})`;
+    const [counts] = await this.db.select({
+      total: sql<number>`count(*)::int`,
+      resolved: sql<number>`(count(*) filter (where ${reports.status} = 'resolved'))::int`,
+      rejected: sql<number>`(count(*) filter (where ${reports.moderationStatus} = 'rejected'))::int`,
+      moderated: sql<number>`(count(*) filter (where ${reports.isModerated}))::int`,
+      highSeverity: sql<number>`(count(*) filter (where ${reports.severity} >= ${REPORT_SEVERITY_HIGH}))::int`,
+      avgSeverity: sql<number | null>`avg(${reports.severity})::float8`,
+      avgResponseHours: sql<number | null>`(avg(extract(epoch from ${firstStatusChange} - ${reports.createdAt})) / 3600)::float8`,
+    }).from(reports).where(and(...reportStatsConditions(filter)));
+    return counts;
+  }
+
+  async getReportCategoryCounts(filter: ReportStatsFilter): Promise<ReportCategoryCount[]> {
+    return await this.db.select({
+      category: reports.category,
+      subcategory: reports.subcategory,
+      count: sql<number>`count(*)::int`,
+      rejected: sql<number>`(count(*) filter (where ${reports.moderationStatus} = 'rejected'))::int`,
+      severitySum: sql<number>`sum(${reports.severity})::int`,
+    }).from(reports)
+      .where(and(...reportStatsConditions(filter)))
+      .groupBy(reports.category, reports.subcategory);
+  }
+
+  async getIncidentTimeCounts(filter: ReportStatsFilter): Promise<IncidentTimeCount[]> {
+    const hour = sql<number>`extract(hour from ${reports.incidentDateTime})::int`;
+    const weekday = sql<number>`extract(isodow from ${reports.incidentDateTime})::int`;
+    return await this.db.select({ hour, weekday, count: sql<number>`count(*)::int` })
+      .from(reports)
+      .where(and(...reportStatsConditions(filter), isNotNull(reports.incidentDateTime)))
+      .groupBy(hour, weekday);
+  }
+
+  async getPublicReportsForStats(filter: ReportStatsFilter): Promise<Report[]> {
+    return await this.db.select().from(reports)
+      .where(and(...reportStatsConditions(filter), eq(reports.isPublic, true)))
+      .orderBy(asc(reports.createdAt), asc(reports.id));
+  }
+
   // Scraped Reports methods implementation
   async getAllScrapedReports(): Promise<ScrapedReport[]> {
-    return await db.select().from(scrapedReports).orderBy(desc(scrapedReports.scrapedAt));
+    return await this.db.select().from(scrapedReports).orderBy(desc(scrapedReports.scrapedAt));
+  }
+
+  async getScrapedReport(id: string): Promise<ScrapedReport | undefined> {
+    const [report] = await this.db.select().from(scrapedReports).where(eq(scrapedReports.id, id));
+    return report || undefined;
   }
 
   async getScrapedReportsByStatus(status: string): Promise<ScrapedReport[]> {
-    return await db.select().from(scrapedReports)
+    return await this.db.select().from(scrapedReports)
       .where(eq(scrapedReports.status, status))
       .orderBy(desc(scrapedReports.scrapedAt));
   }
 
   async createScrapedReport(insertScrapedReport: InsertScrapedReport): Promise<ScrapedReport> {
-    const [scrapedReport] = await db
+    const [scrapedReport] = await this.db
       .insert(scrapedReports)
       .values({
         ...insertScrapedReport,
@@ -156,24 +799,31 @@ export class DatabaseStorage implements IStorage {
       updateData.approvedAt = new Date();
     }
     
-    const result = await db.update(scrapedReports)
+    const updated = await this.db.update(scrapedReports)
       .set(updateData)
-      .where(eq(scrapedReports.id, id));
-    return (result.rowCount || 0) > 0;
+      .where(eq(scrapedReports.id, id))
+      .returning({ id: scrapedReports.id });
+    return updated.length > 0;
   }
 
   async deleteScrapedReport(id: string): Promise<boolean> {
-    const result = await db.delete(scrapedReports).where(eq(scrapedReports.id, id));
-    return (result.rowCount || 0) > 0;
+    const deleted = await this.db.delete(scrapedReports).where(eq(scrapedReports.id, id))
+      .returning({ id: scrapedReports.id });
+    return deleted.length > 0;
   }
 
   // Scraping Configuration methods implementation
   async getScrapingConfigs(): Promise<ScrapingConfig[]> {
-    return await db.select().from(scrapingConfig).orderBy(desc(scrapingConfig.createdAt));
+    return await this.db.select().from(scrapingConfig).orderBy(desc(scrapingConfig.createdAt));
+  }
+
+  async getScrapingConfig(id: string): Promise<ScrapingConfig | undefined> {
+    const [config] = await this.db.select().from(scrapingConfig).where(eq(scrapingConfig.id, id));
+    return config || undefined;
   }
 
   async createScrapingConfig(insertConfig: InsertScrapingConfig): Promise<ScrapingConfig> {
-    const [config] = await db
+    const [config] = await this.db
       .insert(scrapingConfig)
       .values(insertConfig)
       .returning();
@@ -181,30 +831,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateScrapingConfig(id: string, configUpdate: Partial<ScrapingConfig>): Promise<boolean> {
-    const result = await db.update(scrapingConfig)
+    const updated = await this.db.update(scrapingConfig)
       .set(configUpdate)
-      .where(eq(scrapingConfig.id, id));
-    return (result.rowCount || 0) > 0;
+      .where(eq(scrapingConfig.id, id))
+      .returning({ id: scrapingConfig.id });
+    return updated.length > 0;
   }
 
   async deleteScrapingConfig(id: string): Promise<boolean> {
-    const result = await db.delete(scrapingConfig).where(eq(scrapingConfig.id, id));
-    return (result.rowCount || 0) > 0;
+    const deleted = await this.db.delete(scrapingConfig).where(eq(scrapingConfig.id, id))
+      .returning({ id: scrapingConfig.id });
+    return deleted.length > 0;
   }
 
   // Municipality methods implementation
   async getAllMunicipalities(): Promise<Municipality[]> {
-    return await db.select().from(municipalities).orderBy(municipalities.name);
+    return await this.db.select().from(municipalities).orderBy(municipalities.name);
+  }
+
+  async getMunicipality(id: string): Promise<Municipality | undefined> {
+    const [municipality] = await this.db.select().from(municipalities).where(eq(municipalities.id, id));
+    return municipality || undefined;
   }
 
   async getMunicipalityByPostcode(postcode: string): Promise<Municipality | undefined> {
-    const [municipality] = await db.select().from(municipalities)
+    const [municipality] = await this.db.select().from(municipalities)
       .where(eq(municipalities.postcode, postcode));
     return municipality || undefined;
   }
 
   async createMunicipality(insertMunicipality: InsertMunicipality): Promise<Municipality> {
-    const [municipality] = await db
+    const [municipality] = await this.db
       .insert(municipalities)
       .values(insertMunicipality)
       .returning();
@@ -212,20 +869,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateMunicipality(id: string, municipalityUpdate: Partial<Municipality>): Promise<boolean> {
-    const result = await db.update(municipalities)
+    const updated = await this.db.update(municipalities)
       .set(municipalityUpdate)
-      .where(eq(municipalities.id, id));
-    return (result.rowCount || 0) > 0;
+      .where(eq(municipalities.id, id))
+      .returning({ id: municipalities.id });
+    return updated.length > 0;
   }
 
   async deleteMunicipality(id: string): Promise<boolean> {
-    const result = await db.delete(municipalities).where(eq(municipalities.id, id));
-    return (result.rowCount || 0) > 0;
+    const deleted = await this.db.delete(municipalities).where(eq(municipalities.id, id))
+      .returning({ id: municipalities.id });
+    return deleted.length > 0;
   }
 
   // Notes methods implementation
   async getNote(key: string): Promise<Note | undefined> {
-    const [note] = await db.select().from(notes).where(eq(notes.key, key));
+    const [note] = await this.db.select().from(notes).where(eq(notes.key, key));
     return note || undefined;
   }
 
@@ -234,19 +893,404 @@ export class DatabaseStorage implements IStorage {
     const existingNote = await this.getNote(key);
     
     if (existingNote) {
-      const [updatedNote] = await db.update(notes)
+      const [updatedNote] = await this.db.update(notes)
         .set({ content, updatedAt: new Date() })
         .where(eq(notes.key, key))
         .returning();
       return updatedNote;
     } else {
       // Create new note
-      const [newNote] = await db.insert(notes)
+      const [newNote] = await this.db.insert(notes)
         .values({ key, content })
         .returning();
       return newNote;
     }
   }
+
+  async getAdminUser(id: string): Promise<AdminUser | undefined> {
+    const [user] = await this.db.select().from(adminUsers).where(eq(adminUsers.id, id));
+    return user || undefined;
+  }
+
+  async getAdminUserByUsername(username: string): Promise<AdminUser | undefined> {
+    const [user] = await this.db.select().from(adminUsers).where(eq(adminUsers.username, username));
+    return user || undefined;
+  }
+
+  async getAllAdminUsers(): Promise<AdminUser[]> {
+    return await this.db.select().from(adminUsers).orderBy(asc(adminUsers.username));
+  }
+
+  async countAdminUsers(): Promise<number> {
+    const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(adminUsers);
+    return row.count;
+  }
+
+  async createAdminUser(user: NewAdminUser): Promise<AdminUser> {
+    const [created] = await this.db.insert(adminUsers).values(user).returning();
+    return created;
+  }
+
+  async updateAdminUser(id: string, user: Partial<NewAdminUser>): Promise<AdminUser | undefined> {
+    const [updated] = await this.db
+      .update(adminUsers)
+      .set(user)
+      .where(eq(adminUsers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAdminUser(id: string): Promise<boolean> {
+    const result = await this.db.delete(adminUsers).where(eq(adminUsers.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await this.db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  // Keyset pagination on (createdAt, id), like getReportsPageWhere
+  async getAuditEventsPage(query: AuditEventQuery): Promise<AuditEventPage> {
+    const limit = query.limit ?? AUDIT_PAGE_SIZE_DEFAULT;
+    const conditions: SQL[] = [];
+
+    if (query.actor) {
+      conditions.push(sql`${auditEvents.actor} ilike ${`%${query.actor}%`}`);
+    }
+    if (query.action) {
+      conditions.push(eq(auditEvents.action, query.action));
+    }
+    if (query.entityType) {
+      conditions.push(eq(auditEvents.entityType, query.entityType));
+    }
+    if (query.entityId) {
+      conditions.push(eq(auditEvents.entityId, query.entityId));
+    }
+    if (query.q) {
+      const pattern = `%${query.q}%`;
+      conditions.push(sql`(${auditEvents.entityId} ilike ${pattern} or ${auditEvents.before}::text ilike ${pattern} or ${auditEvents.after}::text ilike ${pattern})`);
+    }
+    if (query.from) {
+      conditions.push(gte(auditEvents.createdAt, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(auditEvents.createdAt, query.to));
+    }
+    if (query.cursor) {
+      conditions.push(sql`(${auditEvents.createdAt}, ${auditEvents.id}) < (${query.cursor.value}::timestamp, ${query.cursor.id})`);
+    }
+
+    const rows = await this.db
+      .select({ event: auditEvents, sortValue: sql<string>`(${auditEvents.createdAt})::text` })
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      events: page.map(row => row.event),
+      nextCursor: rows.length > limit && last
+        ? encodeReportCursor({ value: last.sortValue, id: last.event.id })
+        : null,
+    };
+  }
+
+  async createAICallLog(log: NewAICallLog): Promise<AICallLog> {
+    const [created] = await this.db.insert(aiCallLogs).values(log).returning();
+    return created;
+  }
+
+  // Keyset pagination on (createdAt, id), like getAuditEventsPage
+  async getAICallLogsPage(query: AICallLogQuery): Promise<AICallLogPage> {
+    const limit = query.limit ?? AI_CALL_LOG_PAGE_SIZE_DEFAULT;
+    const conditions: SQL[] = [];
+
+    if (query.type) {
+      conditions.push(eq(aiCallLogs.type, query.type));
+    }
+    if (query.provider) {
+      conditions.push(eq(aiCallLogs.provider, query.provider));
+    }
+    if (query.success !== undefined) {
+      conditions.push(eq(aiCallLogs.success, query.success));
+    }
+    if (query.parseStatus) {
+      conditions.push(eq(aiCallLogs.parseStatus, query.parseStatus));
+    }
+    if (query.reportId) {
+      conditions.push(eq(aiCallLogs.reportId, query.reportId));
+    }
+    if (query.from) {
+      conditions.push(gte(aiCallLogs.createdAt, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(aiCallLogs.createdAt, query.to));
+    }
+    if (query.cursor) {
+      conditions.push(sql`(${aiCallLogs.createdAt}, ${aiCallLogs.id}) < (${query.cursor.value}::timestamp, ${query.cursor.id})`);
+    }
+
+    const rows = await this.db
+      .select({ log: aiCallLogs, sortValue: sql<string>`(${aiCallLogs.createdAt})::text` })
+      .from(aiCallLogs)
+      .where(and(...conditions))
+      .orderBy(desc(aiCallLogs.createdAt), desc(aiCallLogs.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      logs: page.map(row => row.log),
+      nextCursor: rows.length > limit && last
+        ? encodeReportCursor({ value: last.sortValue, id: last.log.id })
+        : null,
+    };
+  }
+
+  async getAICallDailyCounts(since: Date, type?: AICallType): Promise<AICallDailyCounts[]> {
+    // created_at holds UTC without a time zone, so its date is the UTC day in any session time zone
+    // (AT TIME ZONE 'UTC' would read it as UTC and shift it to the session's zone)
+    const day = sql<string>`to_char(${aiCallLogs.createdAt}, 'YYYY-MM-DD')`;
+    return await this.db
+      .select({
+        day,
+        model: aiCallLogs.model,
+        calls: sql<number>`count(*)::int`,
+        failures: sql<number>`(count(*) filter (where not ${aiCallLogs.success}))::int`,
+        inputTokens: sql<number>`coalesce(sum(${aiCallLogs.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${aiCallLogs.outputTokens}), 0)::int`,
+        totalLatencyMs: sql<number>`coalesce(sum(${aiCallLogs.latencyMs}), 0)::float8`,
+      })
+      .from(aiCallLogs)
+      .where(and(gte(aiCallLogs.createdAt, since), type ? eq(aiCallLogs.type, type) : undefined))
+      .groupBy(day, aiCallLogs.model)
+      .orderBy(day);
+  }
+
+  async getAICallLatencyPercentile(since: Date, percentile: number, type?: AICallType): Promise<number | null> {
+    const [row] = await this.db
+      .select({ value: sql<number | null>`percentile_cont(${percentile}::float8) within group (order by ${aiCallLogs.latencyMs})` })
+      .from(aiCallLogs)
+      .where(and(gte(aiCallLogs.createdAt, since), type ? eq(aiCallLogs.type, type) : undefined));
+    return row?.value ?? null;
+  }
+
+  async createAIJob(type: AIJobType, reportId: string): Promise<AIJob> {
+    const [job] = await this.db.insert(aiJobs).values({ type, reportId }).returning();
+    return job;
+  }
+
+  async claimAIJob(staleBefore: Date): Promise<AIJob | undefined> {
+    const now = new Date();
+    // SKIP LOCKED so concurrent workers never claim the same job
+    const next = this.db.select({ id: aiJobs.id }).from(aiJobs)
+      .where(or(
+        and(eq(aiJobs.status, 'queued'), lte(aiJobs.runAt, now)),
+        and(eq(aiJobs.status, 'running'), lt(aiJobs.lockedAt, staleBefore)),
+      ))
+      .orderBy(asc(aiJobs.runAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+    const [job] = await this.db.update(aiJobs)
+      .set({ status: 'running', lockedAt: now, attempts: sql`${aiJobs.attempts} + 1` })
+      .where(inArray(aiJobs.id, next))
+      .returning();
+    return job || undefined;
+  }
+
+  async completeAIJob(id: string): Promise<void> {
+    await this.db.update(aiJobs)
+      .set({ status: 'done', lockedAt: null, finishedAt: new Date() })
+      .where(eq(aiJobs.id, id));
+  }
+
+  async failAIJob(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.db.update(aiJobs)
+      .set(retryAt
+        ? { status: 'queued', runAt: retryAt, lockedAt: null, lastError: error }
+        : { status: 'dead', lockedAt: null, lastError: error, finishedAt: new Date() })
+      .where(eq(aiJobs.id, id));
+  }
+
+  async getAIJob(id: string): Promise<AIJob | undefined> {
+    const [job] = await this.db.select().from(aiJobs).where(eq(aiJobs.id, id));
+    return job || undefined;
+  }
+
+  async retryAIJob(id: string): Promise<AIJob | undefined> {
+    const [job] = await this.db.update(aiJobs)
+      .set({ status: 'queued', attempts: 0, runAt: new Date(), finishedAt: null })
+      .where(and(eq(aiJobs.id, id), eq(aiJobs.status, 'dead')))
+      .returning();
+    return job || undefined;
+  }
+
+  async hasOpenAIJob(reportId: string): Promise<boolean> {
+    const [job] = await this.db.select({ id: aiJobs.id }).from(aiJobs)
+      .where(and(eq(aiJobs.reportId, reportId), inArray(aiJobs.status, ['queued', 'running'])))
+      .limit(1);
+    return !!job;
+  }
+
+  async getAIJobs(status: AIJobStatus, limit: number): Promise<AIJob[]> {
+    return await this.db.select().from(aiJobs)
+      .where(eq(aiJobs.status, status))
+      .orderBy(desc(aiJobs.createdAt), desc(aiJobs.id))
+      .limit(limit);
+  }
+
+  async getAIJobCounts(): Promise<Record<AIJobStatus, number>> {
+    const rows = await this.db.select({ status: aiJobs.status, count: sql<number>`count(*)::int` })
+      .from(aiJobs)
+      .groupBy(aiJobs.status);
+    const counts = Object.fromEntries(aiJobStatuses.map(status => [status, 0])) as Record<AIJobStatus, number>;
+    for (const row of rows) {
+      counts[row.status as AIJobStatus] = row.count;
+    }
+    return counts;
+  }
+
+  async getActiveModerationPrompt(kind: ModerationPromptKind): Promise<ModerationPrompt | undefined> {
+    const [prompt] = await this.db
+      .select()
+      .from(moderationPrompts)
+      .where(eq(moderationPrompts.kind, kind))
+      .orderBy(desc(moderationPrompts.version))
+      .limit(1);
+    return prompt || undefined;
+  }
+
+  async getModerationPromptVersions(kind: ModerationPromptKind): Promise<ModerationPrompt[]> {
+    return await this.db
+      .select()
+      .from(moderationPrompts)
+      .where(eq(moderationPrompts.kind, kind))
+      .orderBy(desc(moderationPrompts.version));
+  }
+
+  async getModerationPromptVersion(kind: ModerationPromptKind, version: number): Promise<ModerationPrompt | undefined> {
+    const [prompt] = await this.db
+      .select()
+      .from(moderationPrompts)
+      .where(and(eq(moderationPrompts.kind, kind), eq(moderationPrompts.version, version)));
+    return prompt || undefined;
+  }
+
+  // The version is computed in the insert itself; concurrent saves collide on the unique index
+  async createModerationPromptVersion(prompt: NewModerationPromptVersion): Promise<ModerationPrompt> {
+    const [created] = await this.db
+      .insert(moderationPrompts)
+      .values({
+        ...prompt,
+        version: sql`(select coalesce(max(${moderationPrompts.version}), 0) + 1 from ${moderationPrompts} where ${moderationPrompts.kind} = ${prompt.kind})`,
+      })
+      .returning();
+    return created;
+  }
+
+  async getModerationTestCases(): Promise<ModerationTestCase[]> {
+    return await this.db.select().from(moderationTestCases).orderBy(asc(moderationTestCases.createdAt), asc(moderationTestCases.id));
+  }
+
+  async getModerationTestCase(id: string): Promise<ModerationTestCase | undefined> {
+    const [testCase] = await this.db.select().from(moderationTestCases).where(eq(moderationTestCases.id, id));
+    return testCase || undefined;
+  }
+
+  async createModerationTestCase(testCase: InsertModerationTestCase, createdBy: string): Promise<ModerationTestCase> {
+    const [created] = await this.db.insert(moderationTestCases).values({ ...testCase, createdBy }).returning();
+    return created;
+  }
+
+  async updateModerationTestCase(id: string, testCase: Partial<InsertModerationTestCase>): Promise<ModerationTestCase | undefined> {
+    const [updated] = await this.db
+      .update(moderationTestCases)
+      .set({ ...testCase, updatedAt: new Date() })
+      .where(eq(moderationTestCases.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteModerationTestCase(id: string): Promise<boolean> {
+    const result = await this.db.delete(moderationTestCases).where(eq(moderationTestCases.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createModerationTestRun(run: NewModerationTestRun): Promise<ModerationTestRun> {
+    const [created] = await this.db.insert(moderationTestRuns).values(run).returning();
+    return created;
+  }
+
+  async getModerationTestRuns(limit: number): Promise<ModerationTestRun[]> {
+    return await this.db.select().from(moderationTestRuns).orderBy(desc(moderationTestRuns.createdAt)).limit(limit);
+  }
+
+  async getModerationTestRun(id: string): Promise<ModerationTestRun | undefined> {
+    const [run] = await this.db.select().from(moderationTestRuns).where(eq(moderationTestRuns.id, id));
+    return run || undefined;
+  }
+}
+
+// Bookkeeping of the local backend, kept apart from user data (an admin can edit and delete notes).
+// Like schema_migrations not part of shared/schema.ts, so drizzle-kit ignores it.
+const localMetadata = pgTable("local_metadata", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: text("value").notNull(),
+});
+
+const FIXTURES_SEEDED_KEY = 'fixtures_seeded_at';
+// Where the marker was kept before local_metadata existed
+const LEGACY_FIXTURES_SEEDED_NOTE = 'local_fixtures_seeded';
+
+// Embedded Postgres (PGlite) backend for running the server and tests without a cloud database.
+// Shares all queries with DatabaseStorage; only the connection and bootstrapping differ.
+export class LocalStorage extends DatabaseStorage {
+  private readonly inMemory: boolean;
+
+  constructor(dataDir = process.env.LOCAL_DB_PATH || DEFAULT_LOCAL_DB_PATH) {
+    super(createLocalDatabase(dataDir));
+    this.inMemory = dataDir.startsWith('memory://');
+  }
+
+  // Migrate (in-memory only) and seed fixtures into a new database. A persisted local database is
+  // migrated with the CLI like any other. The fixtures_seeded_at marker keeps a database whose
+  // reports were all deleted from being seeded again on the next start.
+  async init(options: { seed?: boolean } = {}): Promise<void> {
+    if (this.inMemory) {
+      await migrateUp(this.db);
+    }
+    await super.init();
+    await this.db.execute(sql`CREATE TABLE IF NOT EXISTS "local_metadata" (
+      "key" varchar(100) PRIMARY KEY NOT NULL,
+      "value" text NOT NULL
+    )`);
+
+    const [seeded] = await this.db.select().from(localMetadata).where(eq(localMetadata.key, FIXTURES_SEEDED_KEY));
+    if (options.seed === false || seeded) {
+      return;
+    }
+    const legacyMarker = await this.getNote(LEGACY_FIXTURES_SEEDED_NOTE);
+    // Databases seeded before there was a marker already hold their reports
+    if (!legacyMarker && (await this.getAllReports()).length === 0) {
+      await seedFixtures(this);
+    }
+    await this.db.insert(localMetadata).values({ key: FIXTURES_SEEDED_KEY, value: legacyMarker?.content ?? new Date().toISOString() });
+    if (legacyMarker) {
+      await this.db.delete(notes).where(eq(notes.key, LEGACY_FIXTURES_SEEDED_NOTE));
+    }
+  }
+}
+
+function createStorage(): DatabaseStorage {
+  return storageBackend === 'local' ? new LocalStorage() : new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = createStorage();
+
+// Must be awaited before serving requests
+export async function initStorage(): Promise<void> {
+  await storage.init();
+}
\ No newline at end of file
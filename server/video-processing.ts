@@ -0,0 +1,109 @@
+import { randomUUID } from 'crypto';
+import { REPORT_VIDEO_MAX_SECONDS } from '@shared/schema';
+import { getObjectStorage, mediaUrl } from './object-storage';
+import { InvalidMediaError, ORIGINALS_PREFIX, VARIANTS_PREFIX } from './image-processing';
+
+// Video clips of reports (MP4 and QuickTime, both ISO base media files). Clips are not re-encoded;
+// their metadata boxes (udta, meta and XMP uuid boxes, with the GPS position, device and owner)
+// are turned into free boxes with their contents zeroed. Players skip free boxes and nothing moves,
+// so the sample offsets in the file stay valid.
+
+// Boxes whose children are walked: the file itself, the movie and its tracks
+const CONTAINER_BOXES = new Set(['moov', 'trak']);
+const METADATA_BOXES = new Set(['udta', 'meta', 'uuid']);
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+function readBoxes(file: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = file.readUInt32BE(offset);
+    const type = file.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(file.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of its parent
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new InvalidMediaError(`Corrupt video: box ${JSON.stringify(type)} runs past its parent`);
+    }
+    boxes.push({ type, start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function blankMetadata(file: Buffer, start: number, end: number): void {
+  for (const box of readBoxes(file, start, end)) {
+    if (METADATA_BOXES.has(box.type)) {
+      file.write('free', box.start + 4, 'latin1');
+      file.fill(0, box.start + box.headerSize, box.end);
+    } else if (CONTAINER_BOXES.has(box.type)) {
+      blankMetadata(file, box.start + box.headerSize, box.end);
+    }
+  }
+}
+
+// Length of the movie from its mvhd box
+function durationSeconds(file: Buffer, moov: Box): number {
+  const mvhd = readBoxes(file, moov.start + moov.headerSize, moov.end).find(box => box.type === 'mvhd');
+  if (!mvhd) {
+    throw new InvalidMediaError('Corrupt video: no movie header');
+  }
+  const body = mvhd.start + mvhd.headerSize;
+  const version = file.readUInt8(body);
+  const timescale = file.readUInt32BE(body + (version === 1 ? 20 : 12));
+  const duration = version === 1 ? Number(file.readBigUInt64BE(body + 24)) : file.readUInt32BE(body + 16);
+  return timescale > 0 ? duration / timescale : 0;
+}
+
+// Copy of an uploaded clip without metadata. Throws InvalidMediaError for anything that is not a
+// clip of at most REPORT_VIDEO_MAX_SECONDS.
+export function stripVideoMetadata(upload: Buffer): Buffer {
+  const file = Buffer.from(upload);
+  try {
+    const boxes = readBoxes(file, 0, file.length);
+    const moov = boxes.find(box => box.type === 'moov');
+    if (boxes[0]?.type !== 'ftyp' || !moov) {
+      throw new InvalidMediaError('Unsupported video, upload an MP4 or MOV clip');
+    }
+    if (durationSeconds(file, moov) > REPORT_VIDEO_MAX_SECONDS) {
+      throw new InvalidMediaError(`Video clips can be at most ${REPORT_VIDEO_MAX_SECONDS} seconds`);
+    }
+    blankMetadata(file, 0, file.length);
+  } catch (error) {
+    // Reads past the end of a truncated file throw a RangeError
+    throw error instanceof InvalidMediaError ? error : new InvalidMediaError('Unreadable video');
+  }
+  return file;
+}
+
+const extensions: Record<string, string> = { 'video/mp4': 'mp4', 'video/quicktime': 'mov' };
+
+// Returns the object key of the private copy
+export async function storeUploadedVideo(upload: Buffer, contentType: string): Promise<string> {
+  const key = `${ORIGINALS_PREFIX}${randomUUID()}.${extensions[contentType] ?? 'mp4'}`;
+  await getObjectStorage().put(key, stripVideoMetadata(upload), contentType);
+  return key;
+}
+
+// Publishes a clip a moderator approved, under a new key so the private copy's key stays unknown
+export async function publishVideo(key: string): Promise<string> {
+  const storage = getObjectStorage();
+  const object = await storage.get(key);
+  if (!object) {
+    throw new Error(`Stored video not found: ${key}`);
+  }
+  const publicKey = `${VARIANTS_PREFIX}${randomUUID()}.${extensions[object.contentType] ?? 'mp4'}`;
+  await storage.put(publicKey, object.body, object.contentType);
+  return mediaUrl(publicKey);
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, real, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, real, boolean, integer, json, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,36 +11,76 @@ export const reports = pgTable("reports", {
   originalDescription: text("original_description"), // Store original user input
   category: varchar("category", { length: 50 }).notNull(),
   subcategory: varchar("subcategory", { length: 100 }),
+  suggestedCategory: varchar("suggested_category", { length: 50 }), // Top suggestion shown in the report form, see POST /api/reports/category-suggestions
+  suggestedSubcategory: varchar("suggested_subcategory", { length: 100 }),
+  categorySuggestionAccepted: boolean("category_suggestion_accepted"), // Filed under the suggested category; null when no suggestion was shown
+  language: varchar("language", { length: 2 }), // Detected from the reporter's text, see reportLanguages; null when unclear
+  duplicateOf: varchar("duplicate_of").references((): AnyPgColumn => reports.id, { onDelete: "set null" }), // Canonical report of its duplicate cluster, null for canonical and unclustered reports
   latitude: real("latitude"),
   longitude: real("longitude"),
   locationDescription: text("location_description"),
-  imageUrl: text("image_url"),
+  imageUrl: text("image_url"), // Cover: the first published photo in reportMedia, for lists and cards
+  thumbnailUrl: text("thumbnail_url"), // Small variant of imageUrl
   authoritiesContacted: boolean("authorities_contacted").default(false),
   involvementType: varchar("involvement_type", { length: 20 }).notNull(), // 'victim' or 'witness'
+  severity: integer("severity").default(2).notNull(), // 1-5, computedSeverity unless a moderator overrode it
+  computedSeverity: integer("computed_severity").default(2).notNull(), // Scored at submission, see server/severity.ts
+  severityOverriddenBy: varchar("severity_overridden_by", { length: 100 }), // Moderator who set severity, null when computed
   incidentDateTime: timestamp("incident_date_time"), // When the incident actually occurred
-  moderationStatus: varchar("moderation_status", { length: 20 }).default("approved"), // 'approved', 'rejected', 'pending'
+  moderationStatus: varchar("moderation_status", { length: 20 }).default("approved"), // See moderationStatuses
   moderationReason: text("moderation_reason"), // Why it was rejected/modified
+  moderationConfidence: real("moderation_confidence"), // Content filter confidence (0-1), null when the AI gave none
+  piiRedactions: jsonb("pii_redactions").$type<PIIRedaction[]>().default([]).notNull(), // Spans masked in originalTitle/originalDescription, see server/pii-redaction.ts
+  reviewedBy: varchar("reviewed_by", { length: 100 }), // Moderator who approved or rejected it in the moderation queue
+  reviewedAt: timestamp("reviewed_at"),
   isModerated: boolean("is_moderated").default(false), // Whether AI modified the content
   isPublic: boolean("is_public").default(true), // Whether report is visible to public (false for rejected reports)
+  status: varchar("status", { length: 20 }).default("open").notNull(), // Lifecycle, see reportStatuses
+  statusUpdatedAt: timestamp("status_updated_at"),
+  editedAt: timestamp("edited_at"), // Last change by the reporter, see reportEditTokens
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // GiST index on the (lng, lat) point so bounding box and radius queries run in the database
+  index("reports_location_idx").using("gist", sql`point(${table.longitude}, ${table.latitude})`),
+  index("reports_created_at_idx").on(table.createdAt),
+  index("reports_incident_date_time_idx").on(table.incidentDateTime),
+  index("reports_moderation_status_idx").on(table.moderationStatus, table.createdAt),
+  index("reports_duplicate_of_idx").on(table.duplicateOf),
+  index("reports_severity_idx").on(table.severity),
+]);
 
 export const insertReportSchema = createInsertSchema(reports).omit({
   id: true,
   createdAt: true,
   moderationStatus: true,
   moderationReason: true,
+  moderationConfidence: true,
+  piiRedactions: true,
+  reviewedBy: true,
+  reviewedAt: true,
   isModerated: true,
   isPublic: true,
+  status: true,
+  statusUpdatedAt: true,
+  editedAt: true,
   originalTitle: true,
   originalDescription: true,
+  categorySuggestionAccepted: true,
+  language: true,
+  duplicateOf: true,
+  severity: true,
+  computedSeverity: true,
+  severityOverriddenBy: true,
+  imageUrl: true,
+  thumbnailUrl: true,
 }).extend({
   // Make optional fields explicitly optional
   subcategory: z.string().optional(),
+  suggestedCategory: z.string().max(50).optional(),
+  suggestedSubcategory: z.string().max(100).optional(),
   latitude: z.number().nullable().optional(),
   longitude: z.number().nullable().optional(),
   locationDescription: z.string().optional(),
-  imageUrl: z.string().optional(),
   authoritiesContacted: z.boolean().optional().default(false),
   incidentDateTime: z.string().optional(), // ISO datetime string
 });
@@ -48,42 +88,612 @@ export const insertReportSchema = createInsertSchema(reports).omit({
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Report = typeof reports.$inferSelect;
 
-// Category definitions
+// Fields a reporter can change with their edit token (PATCH /api/reports/:id); new photos and clips are file uploads
+export const updateReportSchema = insertReportSchema.pick({
+  title: true,
+  description: true,
+  category: true,
+  subcategory: true,
+  latitude: true,
+  longitude: true,
+  locationDescription: true,
+  incidentDateTime: true,
+}).partial();
+
+export type UpdateReport = z.infer<typeof updateReportSchema>;
+
+// AI moderation outcome. Pending reports (PII or a low-confidence result) and rejected reports
+// are hidden until a moderator reviews them in the moderation queue.
+export const moderationStatuses = ["approved", "pending", "rejected"] as const;
+export type ModerationStatus = typeof moderationStatuses[number];
+
+// Personal data masked by the rule-based redaction pass before moderation and storage
+export const piiTypes = ["name", "phone", "email", "license_plate", "national_number", "iban"] as const;
+export type PIIType = typeof piiTypes[number];
+
+// Offsets are into the reporter's text (originalTitle or originalDescription), end exclusive
+export interface PIIRedaction {
+  field: "title" | "description";
+  type: PIIType;
+  start: number;
+  end: number;
+}
+
+// Photo and video moderation (server/image-moderation.ts). An item is only published once the
+// safety check passed or a moderator approved it; flagged items wait for review in the admin
+// reports page. Video clips are not checked by the AI and are always flagged for review.
+export const mediaStatuses = ["processing", "approved", "flagged", "rejected"] as const;
+export type MediaStatus = typeof mediaStatuses[number];
+
+export const imageSafetyFlags = ["sexual", "violence", "gore", "hate", "other"] as const;
+export type ImageSafetyFlag = typeof imageSafetyFlags[number];
+
+// Area to blur, as fractions (0-1) of the image width and height from the top left corner
+export interface ImageRegion {
+  kind: "face" | "license_plate";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageModeration {
+  safe: boolean;
+  flags: ImageSafetyFlag[];
+  reason: string | null;
+  regions: ImageRegion[]; // Blurred in every published variant
+}
+
+// Photos and video clips of a report, in the reporter's order. Each is stored privately without its
+// metadata and only published (url) once it passed moderation.
+export const reportMediaKinds = ["image", "video"] as const;
+export type ReportMediaKind = typeof reportMediaKinds[number];
+
+export const reportMedia = pgTable("report_media", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().references(() => reports.id, { onDelete: "cascade" }),
+  kind: varchar("kind", { length: 10 }).notNull(), // See reportMediaKinds
+  position: integer("position").notNull(), // Order in the carousel, from 0
+  caption: text("caption"),
+  objectKey: text("object_key"), // The upload without metadata, never served publicly; null for photos from before object storage
+  contentType: varchar("content_type", { length: 100 }).notNull(),
+  url: text("url"), // Published variant, photos with faces and licence plates blurred; null until approved
+  thumbnailUrl: text("thumbnail_url"), // Small variant of a photo, null for clips
+  status: varchar("status", { length: 20 }).default("processing").notNull(), // See mediaStatuses
+  moderation: jsonb("moderation").$type<ImageModeration>(), // Safety check and the blurred regions, null until checked
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("report_media_report_id_idx").on(table.reportId, table.position),
+  // GET /media/* looks up the item of a published URL
+  index("report_media_url_idx").on(table.url),
+  index("report_media_thumbnail_url_idx").on(table.thumbnailUrl),
+]);
+
+export type ReportMedia = typeof reportMedia.$inferSelect;
+export type NewReportMedia = typeof reportMedia.$inferInsert;
+
+// Admin report listings include every item with its moderation
+export type ReportWithMedia = Report & { media: ReportMedia[] };
+
+// GET /api/reports/:id/media: the published items of a public report
+export type PublicReportMedia = Pick<ReportMedia, "id" | "kind" | "position" | "caption" | "url" | "thumbnailUrl">;
+
+// Uploads of POST /api/reports and PATCH /api/reports/:id (`media` files)
+export const REPORT_MEDIA_MAX_FILES = 6;
+export const REPORT_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+export const REPORT_VIDEO_MAX_BYTES = 25 * 1024 * 1024;
+export const REPORT_VIDEO_MAX_SECONDS = 30;
+export const REPORT_MEDIA_CAPTION_MAX = 200;
+// MP4 and QuickTime share the container format whose metadata the server strips
+export const reportVideoContentTypes = ["video/mp4", "video/quicktime"] as const;
+
+// `captions` form field: JSON array with a caption per file, in the order of the files
+export const reportMediaCaptionsSchema = z.string().optional().transform((value, ctx): unknown => {
+  try {
+    return value ? JSON.parse(value) : [];
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid captions" });
+    return z.NEVER;
+  }
+}).pipe(z.array(z.string().trim().max(REPORT_MEDIA_CAPTION_MAX)).max(REPORT_MEDIA_MAX_FILES));
+
+// Moderator decision on a photo or clip (POST /api/admin/report-media/:id/review)
+export const reportMediaReviewSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+});
+
+export type ReportMediaReview = z.infer<typeof reportMediaReviewSchema>;
+
+// Outcome of a garbage collection run over the stored photos (POST /api/admin/media/gc)
+export interface MediaGCResult {
+  scanned: number;
+  deleted: number;
+}
+
+// Content filter verdicts below this confidence are left to a moderator
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const moderationQueueStatuses = ["pending", "rejected"] as const;
+export type ModerationQueueStatus = typeof moderationQueueStatuses[number];
+
+// Queue tabs: rejected reports with an open appeal are listed under "appealed" instead of "rejected"
+export const moderationQueueViews = ["pending", "appealed", "rejected"] as const;
+export type ModerationQueueView = typeof moderationQueueViews[number];
+
+export const moderationQueueQuerySchema = z.object({
+  status: z.enum(moderationQueueViews).default("pending"),
+});
+
+export const MODERATION_REVIEW_BATCH_MAX = 100;
+export const moderationReviewDecisions = ["approve", "reject"] as const;
+
+// Bulk review from the moderation queue. Edited text only applies to a single approved report.
+export const moderationReviewSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(MODERATION_REVIEW_BATCH_MAX),
+  decision: z.enum(moderationReviewDecisions),
+  reason: z.string().trim().min(1).max(500).optional(),
+  title: z.string().trim().min(1).optional(),
+  description: z.string().trim().min(1).optional(),
+}).refine(review => review.decision !== "reject" || !!review.reason, {
+  message: "A reason is required to reject a report",
+  path: ["reason"],
+}).refine(review => (review.title === undefined && review.description === undefined) || (review.decision === "approve" && review.ids.length === 1), {
+  message: "Edited text can only be approved for a single report",
+  path: ["title"],
+});
+
+export type ModerationReview = z.infer<typeof moderationReviewSchema>;
+
+export type ModerationQueueItem = Report & { appeal: ReportAppeal | null };
+
+export interface ModerationReviewResponse {
+  reviewed: Report[];
+  skipped: string[]; // Not found or no longer in the queue, e.g. reviewed by someone else
+}
+
+// Reporter appeal against a rejection, one per report. Decided by the moderator's next review of
+// the report in the moderation queue: approving accepts the appeal, rejecting again denies it.
+export const reportAppealStatuses = ["pending", "accepted", "denied"] as const;
+export type ReportAppealStatus = typeof reportAppealStatuses[number];
+
+export const reportAppeals = pgTable("report_appeals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().references(() => reports.id, { onDelete: "cascade" }),
+  explanation: text("explanation").notNull(),
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // See reportAppealStatuses
+  decidedBy: varchar("decided_by", { length: 100 }),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("report_appeals_report_id_idx").on(table.reportId),
+  index("report_appeals_status_idx").on(table.status, table.createdAt),
+]);
+
+export const insertReportAppealSchema = z.object({
+  explanation: z.string().trim().min(10).max(1000),
+});
+
+export type ReportAppeal = typeof reportAppeals.$inferSelect;
+
+// Duplicate clusters: reports of the same incident point to the oldest one with duplicateOf
+// (server/duplicate-detection.ts). Admins can merge clusters or split reports off.
+export const REPORT_CLUSTER_BATCH_MAX = 50;
+
+export const reportClusterMergeSchema = z.object({
+  canonicalId: z.string().min(1), // The merged cluster keeps this report's canonical report
+  reportIds: z.array(z.string().min(1)).min(1).max(REPORT_CLUSTER_BATCH_MAX), // Their whole clusters are merged
+});
+
+export const reportClusterSplitSchema = z.object({
+  reportIds: z.array(z.string().min(1)).min(1).max(REPORT_CLUSTER_BATCH_MAX),
+});
+
+export type ReportClusterMerge = z.infer<typeof reportClusterMergeSchema>;
+export type ReportClusterSplit = z.infer<typeof reportClusterSplitSchema>;
+
+// Admin: a canonical report with its duplicates, oldest first
+export interface ReportCluster {
+  canonical: Report;
+  duplicates: Report[];
+}
+
+// Public (GET /api/reports/:id/cluster): how many public reports describe the same incident
+export interface ReportClusterSummary {
+  canonicalReportId: string;
+  reportCount: number; // Including the report itself
+}
+
+// Languages reports are detected in and translated to (server/language-detection.ts)
+export const reportLanguages = ["nl", "fr", "en", "de"] as const;
+export type ReportLanguage = typeof reportLanguages[number];
+
+// Machine translations of a report's public title and description, made on first request.
+// sourceHash is the hash of the text that was translated, so an edited report gets a fresh translation.
+export const reportTranslations = pgTable("report_translations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().references(() => reports.id, { onDelete: "cascade" }),
+  language: varchar("language", { length: 2 }).notNull(), // See reportLanguages
+  sourceHash: varchar("source_hash", { length: 64 }).notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("report_translations_report_language_idx").on(table.reportId, table.language),
+]);
+
+export type ReportTranslation = typeof reportTranslations.$inferSelect;
+export type NewReportTranslation = typeof reportTranslations.$inferInsert;
+
+export const REPORT_TRANSLATION_BATCH_MAX = 50;
+
+// GET /api/reports/translations?language=fr&ids=a,b,c
+export const reportTranslationQuerySchema = z.object({
+  language: z.enum(reportLanguages),
+  ids: z.string()
+    .transform(value => Array.from(new Set(value.split(',').map(id => id.trim()).filter(Boolean))))
+    .pipe(z.array(z.string()).min(1).max(REPORT_TRANSLATION_BATCH_MAX)),
+});
+
+// A public report's text in the requested language. Reports already in that language, of
+// unknown language or whose translation failed are left out.
+export interface ReportTranslationView {
+  reportId: string;
+  language: ReportLanguage;
+  sourceLanguage: ReportLanguage;
+  title: string;
+  description: string;
+}
+
+// What the reporter sees of their appeal (GET /api/reports/:id/appeal), without who decided it
+export interface ReportAppealOutcome {
+  reportId: string;
+  title: string;
+  status: ReportAppealStatus;
+  explanation: string;
+  createdAt: string;
+  decidedAt: string | null;
+  moderationReason: string | null; // Why the report is (still) rejected
+}
+
+// Report lifecycle. Resolved and expired reports can only be reopened.
+export const reportStatuses = ["open", "acknowledged", "in_progress", "resolved", "expired"] as const;
+export type ReportStatus = typeof reportStatuses[number];
+
+export const reportStatusTransitions: Record<ReportStatus, readonly ReportStatus[]> = {
+  open: ["acknowledged", "in_progress", "resolved", "expired"],
+  acknowledged: ["in_progress", "resolved", "expired"],
+  in_progress: ["acknowledged", "resolved", "expired"],
+  resolved: ["open"],
+  expired: ["open"],
+};
+
+export function canTransitionReportStatus(from: string, to: ReportStatus): boolean {
+  return reportStatusTransitions[from as ReportStatus]?.includes(to) ?? false;
+}
+
+export const reportStatusTransitionSchema = z.object({
+  status: z.enum(reportStatuses),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type ReportStatusTransition = z.infer<typeof reportStatusTransitionSchema>;
+
+// How serious a report is, from 1 (nuisance) to 5 (violence or acute danger). Drives pin size and
+// heatmap weight on the map.
+export const REPORT_SEVERITY_MIN = 1;
+export const REPORT_SEVERITY_MAX = 5;
+// From this severity up a report counts as serious in the statistics and the report list
+export const REPORT_SEVERITY_HIGH = 4;
+
+// Moderator override (POST /api/admin/reports/:id/severity); null restores the computed score
+export const reportSeverityOverrideSchema = z.object({
+  severity: z.number().int().min(REPORT_SEVERITY_MIN).max(REPORT_SEVERITY_MAX).nullable(),
+});
+
+export type ReportSeverityOverride = z.infer<typeof reportSeverityOverrideSchema>;
+
+// Who moved a report to which lifecycle status, and when
+export const reportStatusHistory = pgTable("report_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull().references(() => reports.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status", { length: 20 }).notNull(),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  changedBy: varchar("changed_by", { length: 100 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("report_status_history_report_id_idx").on(table.reportId, table.createdAt),
+]);
+
+export type ReportStatusHistoryEntry = typeof reportStatusHistory.$inferSelect;
+export type InsertReportStatusHistoryEntry = typeof reportStatusHistory.$inferInsert;
+
+// Reporter ownership. Only a SHA-256 hash of the edit token returned by POST /api/reports is stored.
+export const reportEditTokens = pgTable("report_edit_tokens", {
+  reportId: varchar("report_id").primaryKey().references(() => reports.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Query parameters for spatial, time-window and paginated report lookups (GET /api/reports)
+export const REPORT_PAGE_SIZE_DEFAULT = 20;
+export const REPORT_PAGE_SIZE_MAX = 100;
+export const REPORT_SUBCATEGORY_FILTER_MAX = 50;
+export const reportSortKeys = ["createdAt", "incidentDateTime", "distance", "severity"] as const;
+export type ReportSortKey = typeof reportSortKeys[number];
+
+export interface ReportCursor {
+  value: string; // Sort key of the last row, as rendered by the database
+  id: string;
+}
+
+// Opaque pagination cursor: base64 encoded [sortValue, id] of the last row on a page
+export function encodeReportCursor(cursor: ReportCursor): string {
+  return btoa(JSON.stringify([cursor.value, cursor.id]));
+}
+
+const reportCursorSchema = z.string().max(200).transform((value, ctx): ReportCursor => {
+  try {
+    const [sortValue, id] = JSON.parse(atob(value));
+    if (typeof sortValue === "string" && typeof id === "string") {
+      return { value: sortValue, id };
+    }
+  } catch {
+    // Fall through to the validation issue below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+  return z.NEVER;
+});
+
+// The cursor's sort value must parse as the Postgres type of the sort key, or the query fails
+const TIMESTAMP_TEXT = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+
+function isReportCursorValue(sort: ReportSortKey, value: string): boolean {
+  if (sort === "distance") {
+    return /^\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value); // float8, never negative
+  }
+  if (sort === "severity") {
+    return /^\d{1,9}$/.test(value); // int4
+  }
+  // timestamp: the date must exist, which Date.UTC alone does not check
+  const match = TIMESTAMP_TEXT.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    && date.getUTCHours() === hour && date.getUTCMinutes() === minute;
+}
+
+export const reportQuerySchema = z.object({
+  category: z.string().optional(),
+  // Any of these subcategories, repeated as ?subcategory=a&subcategory=b (the names contain commas)
+  subcategory: z.union([z.string(), z.array(z.string())])
+    .transform(value => [value].flat())
+    .pipe(z.array(z.string().trim().min(1).max(100)).max(REPORT_SUBCATEGORY_FILTER_MAX))
+    .optional(),
+  minSeverity: z.coerce.number().int().min(REPORT_SEVERITY_MIN).max(REPORT_SEVERITY_MAX).optional(),
+  mediaStatus: z.enum(mediaStatuses).optional(), // Reports with at least one item in this status
+  // Bounding box
+  north: z.coerce.number().min(-90).max(90).optional(),
+  south: z.coerce.number().min(-90).max(90).optional(),
+  east: z.coerce.number().min(-180).max(180).optional(),
+  west: z.coerce.number().min(-180).max(180).optional(),
+  // Center (+ optional radius in kilometers); the center is also the origin for distance sorting
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radius: z.coerce.number().positive().max(500).optional(),
+  // Time window, applied to timeField
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  timeField: z.enum(["createdAt", "incidentDateTime"]).optional(),
+  // Pagination: results are paged when limit or cursor is present
+  sort: z.enum(reportSortKeys).optional(),
+  limit: z.coerce.number().int().min(1).max(REPORT_PAGE_SIZE_MAX).optional(),
+  cursor: reportCursorSchema.optional(),
+}).refine(
+  (q) => [q.north, q.south, q.east, q.west].every(v => v === undefined) || [q.north, q.south, q.east, q.west].every(v => v !== undefined),
+  { message: "Bounding box requires north, south, east and west" },
+).refine(
+  (q) => (q.lat === undefined) === (q.lng === undefined),
+  { message: "Center requires both lat and lng" },
+).refine(
+  (q) => q.radius === undefined || q.lat !== undefined,
+  { message: "Radius search requires lat and lng" },
+).refine(
+  (q) => q.sort !== "distance" || q.lat !== undefined,
+  { message: "Sorting by distance requires lat and lng" },
+).refine(
+  (q) => !q.cursor || isReportCursorValue(q.sort ?? "createdAt", q.cursor.value),
+  { message: "Invalid cursor", path: ["cursor"] },
+);
+
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+
+export interface ReportPage {
+  reports: Report[];
+  nextCursor: string | null;
+}
+
+// Admin statistics (GET /api/admin/stats/*). The period filters on createdAt and is compared
+// with the preceding period of the same length; a scope limits reports to the region around
+// one postcode or all postcodes of a municipality.
+export const STATS_DEFAULT_PERIOD_DAYS = 30;
+
+export const statsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  postcode: z.string().regex(/^\d{4}$/, "Postcode must be 4 digits").optional(),
+  municipality: z.string().trim().min(1).max(100).optional(),
+}).refine(
+  (q) => !(q.postcode && q.municipality),
+  { message: "Filter on either postcode or municipality" },
+).refine(
+  (q) => !q.from || !q.to || q.from < q.to,
+  { message: "from must be before to" },
+);
+
+export type StatsQuery = z.infer<typeof statsQuerySchema>;
+
+export interface ReportStatsFilter {
+  from: Date;
+  to: Date; // Exclusive
+  areas?: { lat: number; lng: number; radius: number }[]; // Undefined = everywhere
+}
+
+export interface StatsPeriod {
+  from: string;
+  to: string;
+  previousFrom: string;
+  previousTo: string;
+}
+
+export interface StatsScope {
+  postcode?: string;
+  municipality?: string;
+  postcodes: string[];
+}
+
+export interface StatsMeta {
+  period: StatsPeriod;
+  scope: StatsScope | null; // null = all reports
+}
+
+export interface StatsCount {
+  current: number;
+  previous: number;
+  delta: number | null; // Relative change (0.12 = +12%), null when the previous period is empty
+}
+
+export interface ReportStatsSummary extends StatsMeta {
+  reports: StatsCount;
+  resolved: StatsCount;
+  rejected: StatsCount;
+  resolutionRate: number; // 0-1, current period
+  rejectionRate: number; // 0-1, current period
+  moderationRate: number; // 0-1, share of reports rewritten by AI moderation
+  highSeverity: StatsCount; // Reports of severity 4 or 5
+  avgSeverity: { current: number | null; previous: number | null };
+  avgResponseHours: { current: number | null; previous: number | null }; // Until the first status change
+}
+
+export interface CategoryStats {
+  category: string;
+  count: number;
+  share: number; // 0-1 of all reports in the period
+  rejected: number;
+  rejectionRate: number;
+  avgSeverity: number;
+  subcategories: { subcategory: string; count: number; share: number }[]; // share within the category
+}
+
+export interface ReportCategoryStats extends StatsMeta {
+  total: number;
+  categories: CategoryStats[];
+}
+
+export interface IncidentTimeStats extends StatsMeta {
+  total: number; // Reports with an incidentDateTime
+  byHour: number[]; // 24 buckets, 0-23
+  byWeekday: number[]; // 7 buckets, Monday first
+}
+
+// City report export (GET /api/admin/city-report/export), takes the statsQuerySchema parameters
+export const cityReportFormats = ["pdf", "csv", "geojson"] as const;
+export type CityReportFormat = typeof cityReportFormats[number];
+
+export const cityReportExportSchema = z.object({
+  format: z.enum(cityReportFormats).default("pdf"),
+});
+
+// Category definitions, the keys are stored in reports.category
 export const categories = {
   harassment: {
     name: "Personal Harassment",
-    color: "#ef4444",
-    subcategories: ["Physical aggression", "Unwanted behavior", "Threats"]
+    color: "#ef4444", // red
+    subcategories: [
+      "Physical aggression (fighting, restraining)",
+      "Unwanted behavior (catcalling, sexual remarks, racism)",
+      "Threats",
+      "Dangerous animals (e.g., unleashed dogs)"
+    ]
   },
   suspicious: {
-    name: "Suspicious Activity", 
-    color: "#f97316",
-    subcategories: ["Strange behavior", "Suspicious noises"]
+    name: "Suspicious Activity",
+    color: "#f97316", // orange
+    subcategories: [
+      "Strange or unusual behavior",
+      "Suspicious noises"
+    ]
   },
-  dangerous: {
-    name: "Dangerous Situation",
-    color: "#dc2626", 
-    subcategories: ["Objects blocking road", "Slippery surfaces", "Dangerous animals", "Other"]
-  },
-  degradation: {
+  public: {
     name: "Public Space Degradation",
-    color: "#8b5cf6",
-    subcategories: ["Littering", "Illegal dumping", "Nighttime noise", "Dog fouling", "Graffiti", "Vandalism"]
+    color: "#8b5cf6", // purple
+    subcategories: [
+      "Littering",
+      "Illegal dumping",
+      "Nighttime noise",
+      "Dog fouling",
+      "Graffiti",
+      "Vandalism"
+    ]
   },
   theft: {
-    name: "Theft & Vandalism",
-    color: "#06b6d4",
-    subcategories: ["Bike theft", "Property damage", "Porch piracy", "Pickpocketing"]
+    name: "Theft & Vandalism of Private Property",
+    color: "#06b6d4", // cyan
+    subcategories: [
+      "Bike theft",
+      "Property damage",
+      "Porch piracy",
+      "Cybercrime",
+      "Pickpocketing"
+    ]
+  },
+  dangerous: {
+    name: "Dangerous Situations",
+    color: "#dc2626", // red
+    subcategories: [
+      "Other dangerous situations"
+    ]
   },
-  cyber: {
-    name: "Cybercrime",
-    color: "#ec4899", 
-    subcategories: ["Online threats", "Identity theft", "Fraud"]
+  status: {
+    name: "Status Reports",
+    color: "#10b981", // green
+    subcategories: [
+      "Just status reports"
+    ]
   }
 } as const;
 
 export type CategoryKey = keyof typeof categories;
 
+export const categoryKeys = Object.keys(categories) as CategoryKey[];
+
+// POST /api/reports/category-suggestions: the draft text of the report form
+export const categorySuggestionRequestSchema = z.object({
+  title: z.string().max(200).default(""),
+  description: z.string().max(5000).default(""),
+}).refine(draft => (draft.title + draft.description).trim().length >= 10, {
+  message: "Title and description together need at least 10 characters",
+});
+
+export type CategorySuggestionRequest = z.infer<typeof categorySuggestionRequestSchema>;
+
+export const CATEGORY_SUGGESTION_MAX = 3;
+
+export interface CategorySuggestion {
+  category: CategoryKey;
+  subcategory: string | null; // One of the category's subcategories
+  confidence: number; // 0-1
+}
+
+// Ranked best first. source is the AI provider, or "keywords" when the AI call failed.
+export interface CategorySuggestionResponse {
+  suggestions: CategorySuggestion[];
+  source: "anthropic" | "local" | "keywords";
+}
+
 // News Scraped Reports schema
 export const scrapedReports = pgTable("scraped_reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -177,3 +787,405 @@ export const insertNoteSchema = createInsertSchema(notes).omit({
 
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
+
+// Admin accounts. Municipality viewers only see statistics of their own municipality.
+export const adminRoles = ["superadmin", "moderator", "municipality_viewer"] as const;
+export type AdminRole = typeof adminRoles[number];
+
+export const adminUsers = pgTable("admin_users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: varchar("username", { length: 100 }).notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt, see server/passwords.ts
+  role: varchar("role", { length: 30 }).notNull(), // see adminRoles
+  municipality: text("municipality"), // Required for municipality viewers
+  isActive: boolean("is_active").default(true).notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+const adminPasswordSchema = z.string().min(10, "Password must be at least 10 characters").max(200);
+
+export const insertAdminUserSchema = z.object({
+  username: z.string().trim().min(3).max(100),
+  password: adminPasswordSchema,
+  role: z.enum(adminRoles),
+  municipality: z.string().trim().min(1).max(100).nullable().optional(),
+}).refine(
+  (user) => user.role !== "municipality_viewer" || !!user.municipality,
+  { message: "Municipality viewers need a municipality", path: ["municipality"] },
+);
+
+export const updateAdminUserSchema = z.object({
+  password: adminPasswordSchema.optional(),
+  role: z.enum(adminRoles).optional(),
+  municipality: z.string().trim().min(1).max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1).max(100),
+  password: z.string().min(1).max(200),
+});
+
+export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
+export type UpdateAdminUser = z.infer<typeof updateAdminUserSchema>;
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type SafeAdminUser = Omit<AdminUser, "passwordHash">; // As sent to the client
+
+// express-session storage, layout expected by connect-pg-simple
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// Append-only audit trail of admin and moderation actions (UPDATE and DELETE are blocked by a
+// trigger, see migrations/0005_audit_events.sql). Written through server/audit.ts.
+export const auditActions = [
+  "auth.login",
+  "auth.logout",
+  "report.delete",
+  "report.delete_all",
+  "report.status_change",
+  "report.review",
+  "report.severity_override",
+  "report.image_review", // Before photos moved to reportMedia
+  "report.media_review",
+  "media.gc",
+  "ai_job.retry",
+  "report.cluster_merge",
+  "report.cluster_split",
+  "scraped_report.status_change",
+  "scraped_report.delete",
+  "scraping_config.create",
+  "scraping_config.update",
+  "scraping_config.delete",
+  "news.scrape",
+  "municipality.create",
+  "municipality.update",
+  "municipality.delete",
+  "note.save",
+  "moderation.test",
+  "moderation_prompt.save",
+  "moderation_prompt.rollback",
+  "moderation_test_case.create",
+  "moderation_test_case.update",
+  "moderation_test_case.delete",
+  "admin_user.create",
+  "admin_user.update",
+  "admin_user.delete",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEntityTypes = ["admin_user", "report", "scraped_report", "scraping_config", "municipality", "note", "moderation", "moderation_prompt", "moderation_test_case", "ai_job", "media"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actor: varchar("actor", { length: 100 }).notNull(), // Admin username, "anonymous" for failed logins
+  actorRole: varchar("actor_role", { length: 30 }),
+  action: varchar("action", { length: 60 }).notNull(), // see auditActions
+  entityType: varchar("entity_type", { length: 40 }).notNull(), // see auditEntityTypes
+  entityId: varchar("entity_id"),
+  before: jsonb("before"), // Snapshot before the change, null for creations
+  after: jsonb("after"), // Snapshot after the change, null for deletions
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  requestMethod: varchar("request_method", { length: 10 }),
+  requestPath: text("request_path"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  index("audit_events_actor_idx").on(table.actor),
+]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+
+// Filters for GET /api/admin/audit-events, newest first with cursor pagination
+export const AUDIT_PAGE_SIZE_DEFAULT = 50;
+
+export const auditEventQuerySchema = z.object({
+  actor: z.string().trim().max(100).optional(),
+  action: z.enum(auditActions).optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().trim().max(100).optional(),
+  q: z.string().trim().max(200).optional(), // Free text, searched in the snapshots
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(REPORT_PAGE_SIZE_MAX).optional(),
+  cursor: reportCursorSchema.optional(),
+});
+
+export type AuditEventQuery = z.infer<typeof auditEventQuerySchema>;
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
+// Every call to the AI provider, written by server/ai-call-log.ts. reportId is not a foreign key:
+// moderation runs before the report is stored, and the log outlives deleted reports.
+export const aiCallTypes = ["content-filter", "text-formalization", "summary", "news-analysis", "category-suggestion", "translation", "image-moderation"] as const;
+export type AICallType = typeof aiCallTypes[number];
+
+// Whether the model output was read as JSON: "unparseable" when the model answered in the wrong format,
+// "not-parsed" when there was no answer (the call itself failed) or the answer is plain text (summaries,
+// the local provider)
+export const aiCallParseStatuses = ["parsed", "unparseable", "not-parsed"] as const;
+export type AICallParseStatus = typeof aiCallParseStatuses[number];
+
+export const aiCallLogs = pgTable("ai_call_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type", { length: 40 }).notNull(), // See aiCallTypes
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: varchar("model", { length: 100 }), // Null for the local provider
+  promptVersion: integer("prompt_version"), // Moderation prompt version, null for the file default or other types
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  latencyMs: integer("latency_ms").notNull(),
+  success: boolean("success").notNull(), // False when the call failed or the response could not be parsed
+  parseStatus: varchar("parse_status", { length: 20 }).default("not-parsed").notNull(), // See aiCallParseStatuses
+  error: text("error"),
+  input: jsonb("input").$type<Record<string, unknown>>().notNull(),
+  rawResponse: text("raw_response"),
+  parsedResult: jsonb("parsed_result"),
+  reportId: varchar("report_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ai_call_logs_created_at_idx").on(table.createdAt),
+  index("ai_call_logs_type_idx").on(table.type, table.createdAt),
+  index("ai_call_logs_report_id_idx").on(table.reportId),
+]);
+
+export type AICallLog = typeof aiCallLogs.$inferSelect;
+export type NewAICallLog = typeof aiCallLogs.$inferInsert;
+
+// Filters for GET /api/admin/ai-logs, newest first with cursor pagination
+export const AI_CALL_LOG_PAGE_SIZE_DEFAULT = 50;
+
+export const aiCallLogQuerySchema = z.object({
+  type: z.enum(aiCallTypes).optional(),
+  provider: z.string().trim().max(20).optional(),
+  success: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  parseStatus: z.enum(aiCallParseStatuses).optional(),
+  reportId: z.string().trim().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(REPORT_PAGE_SIZE_MAX).optional(),
+  cursor: reportCursorSchema.optional(),
+});
+
+export type AICallLogQuery = z.infer<typeof aiCallLogQuerySchema>;
+
+export interface AICallLogPage {
+  logs: AICallLog[];
+  nextCursor: string | null;
+}
+
+// GET /api/admin/ai-logs/stats: per day totals over the last `days` days
+export const aiCallStatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  type: z.enum(aiCallTypes).optional(),
+});
+
+export type AICallStatsQuery = z.infer<typeof aiCallStatsQuerySchema>;
+
+// Calls of one day (or one model on one day, see IStorage.getAICallDailyCounts)
+export interface AICallCounts {
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number | null;
+}
+
+export interface AICallDayStats extends AICallCounts {
+  day: string; // yyyy-mm-dd
+  failureRate: number | null; // 0-1, null without calls
+  estimatedCostUsd: number | null; // Null when a model has no known price
+}
+
+export interface AICallStats {
+  days: AICallDayStats[]; // Oldest first, days without calls included
+  totals: AICallCounts & { failureRate: number | null; p95LatencyMs: number | null; estimatedCostUsd: number | null };
+}
+
+// Background AI work, run by the worker in server/ai-jobs.ts. A failed job is retried with
+// exponential backoff; after its last attempt it is dead and listed for an admin to retry.
+// image-moderation checks the new photos of a report and holds its new video clips for review.
+export const aiJobTypes = ["report-moderation", "image-moderation"] as const;
+export type AIJobType = typeof aiJobTypes[number];
+
+export const aiJobStatuses = ["queued", "running", "done", "dead"] as const;
+export type AIJobStatus = typeof aiJobStatuses[number];
+
+export const aiJobs = pgTable("ai_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type", { length: 40 }).notNull(), // See aiJobTypes
+  reportId: varchar("report_id").notNull().references(() => reports.id, { onDelete: "cascade" }),
+  status: varchar("status", { length: 20 }).default("queued").notNull(), // See aiJobStatuses
+  attempts: integer("attempts").default(0).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Earliest next attempt
+  lockedAt: timestamp("locked_at"), // When the running attempt started
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"), // Done or dead
+}, (table) => [
+  index("ai_jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("ai_jobs_report_id_idx").on(table.reportId),
+]);
+
+export type AIJob = typeof aiJobs.$inferSelect;
+
+// GET /api/admin/ai-jobs: the most recent jobs of one status, dead ones by default
+export const AI_JOB_LIST_LIMIT = 100;
+
+export const aiJobQuerySchema = z.object({
+  status: z.enum(aiJobStatuses).default("dead"),
+});
+
+export type AIJobQuery = z.infer<typeof aiJobQuerySchema>;
+
+export interface AIJobList {
+  counts: Record<AIJobStatus, number>;
+  jobs: AIJob[]; // Newest first
+}
+
+// Moderation outcome for the reporter (GET /api/reports/:id/moderation). "checking" while the
+// report's moderation job is still queued or running.
+export interface ReportModerationOutcome {
+  reportId: string;
+  status: ModerationStatus | "checking";
+  reason: string | null; // Why it was rejected
+}
+
+// Versioned AI moderation instructions. The highest version per kind is the active one; a rollback
+// adds a new version with the content of an older one. Without any version the defaults in
+// server/prompts/ are used.
+export const moderationPromptKinds = ["content_filter", "text_formalization"] as const;
+export type ModerationPromptKind = typeof moderationPromptKinds[number];
+
+export const moderationPrompts = pgTable("moderation_prompts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: varchar("kind", { length: 40 }).notNull(), // see moderationPromptKinds
+  version: integer("version").notNull(),
+  content: text("content").notNull(),
+  author: varchar("author", { length: 100 }).notNull(), // Admin username
+  restoredFromVersion: integer("restored_from_version"), // Set when created by a rollback
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("moderation_prompts_kind_version_idx").on(table.kind, table.version),
+]);
+
+export type ModerationPrompt = typeof moderationPrompts.$inferSelect;
+export type NewModerationPrompt = typeof moderationPrompts.$inferInsert;
+
+// POST /api/admin/moderation-prompts, only changed prompts get a new version
+export const saveModerationPromptsSchema = z.object({
+  contentFilter: z.string().trim().min(1).max(20000).optional(),
+  textFormalization: z.string().trim().min(1).max(20000).optional(),
+});
+
+// Active prompt per kind; version is null while the file default is in use
+export interface ActiveModerationPrompt {
+  kind: ModerationPromptKind;
+  content: string;
+  version: number | null;
+  author: string | null;
+  createdAt: string | null;
+}
+
+export interface ModerationPromptsResponse {
+  contentFilter: ActiveModerationPrompt;
+  textFormalization: ActiveModerationPrompt;
+}
+
+// Labelled corpus for the moderation regression suite (POST /api/admin/moderation-test)
+export const moderationTestCases = pgTable("moderation_test_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: varchar("category", { length: 50 }).notNull(),
+  expectApproved: boolean("expect_approved").notNull(),
+  expectSpam: boolean("expect_spam").default(false).notNull(),
+  expectInappropriate: boolean("expect_inappropriate").default(false).notNull(),
+  expectPII: boolean("expect_pii").default(false).notNull(),
+  notes: text("notes"), // Why this case is in the corpus
+  createdBy: varchar("created_by", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertModerationTestCaseSchema = createInsertSchema(moderationTestCases, {
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(2000),
+  category: z.string().trim().min(1).max(50),
+  notes: z.string().trim().max(1000).nullable().optional(),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertModerationTestCase = z.infer<typeof insertModerationTestCaseSchema>;
+export type ModerationTestCase = typeof moderationTestCases.$inferSelect;
+
+// Content filter flags measured by the suite. "rejection" treats a rejected report as the positive class.
+export const moderationTestMetricKeys = ["rejection", "isSpam", "hasInappropriateContent", "hasPII"] as const;
+export type ModerationTestMetricKey = typeof moderationTestMetricKeys[number];
+
+export interface ModerationFlagMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number | null; // null when nothing was flagged
+  recall: number | null; // null when nothing should have been flagged
+}
+
+export interface ModerationTestOutcome {
+  isApproved: boolean;
+  isSpam: boolean;
+  hasInappropriateContent: boolean;
+  hasPII: boolean;
+}
+
+export interface ModerationTestCaseResult {
+  caseId: string;
+  title: string;
+  description: string;
+  expected: ModerationTestOutcome;
+  actual: ModerationTestOutcome;
+  reason: string | null;
+  passed: boolean; // The approve/reject decision matches
+  flagMismatches: ModerationTestMetricKey[];
+  durationMs: number;
+}
+
+export const moderationTestRuns = pgTable("moderation_test_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promptVersion: integer("prompt_version"), // Content filter version, null for the server/prompts/ default
+  provider: varchar("provider", { length: 20 }).notNull(),
+  startedBy: varchar("started_by", { length: 100 }).notNull(),
+  caseCount: integer("case_count").notNull(),
+  passedCount: integer("passed_count").notNull(),
+  metrics: jsonb("metrics").$type<Record<ModerationTestMetricKey, ModerationFlagMetrics>>().notNull(),
+  results: jsonb("results").$type<ModerationTestCaseResult[]>().notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("moderation_test_runs_created_at_idx").on(table.createdAt),
+]);
+
+export type ModerationTestRun = typeof moderationTestRuns.$inferSelect;
+export type NewModerationTestRun = typeof moderationTestRuns.$inferInsert;
+
+// Runs against the active content filter prompt unless a saved version is given
+export const runModerationTestSchema = z.object({
+  promptVersion: z.number().int().positive().optional(),
+});